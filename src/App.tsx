@@ -1,7 +1,8 @@
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { QueryCache, QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { toast } from "sonner";
 import { BrowserRouter, Routes, Route, useOutletContext } from "react-router-dom";
 import MainLayout from "./pages/MainLayout";
 import Dashboard from "./pages/Dashboard";
@@ -12,13 +13,42 @@ import Analytics from "./pages/Analytics";
 import Reports from "./pages/Reports";
 import ShopDashboard from "./pages/ShopDashboard";
 import NotFound from "./pages/NotFound";
-import { Shop } from "./types";
+import Login from "./pages/Login";
+import Team from "./pages/Team";
+import AuditLog from "./pages/AuditLog";
+import RecycleBin from "./pages/RecycleBin";
+import ShopSettings from "./pages/ShopSettings";
+import Suppliers from "./pages/Suppliers";
+import Reorder from "./pages/Reorder";
+import Discrepancies from "./pages/Discrepancies";
+import Invoices from "./pages/Invoices";
+import Payables from "./pages/Payables";
+import Deposits from "./pages/Deposits";
+import Reconciliation from "./pages/Reconciliation";
+import Customers from "./pages/Customers";
+import Documents from "./pages/Documents";
+import Import from "./pages/Import";
+import Backup from "./pages/Backup";
+import { ShopId } from "./types";
 
-const queryClient = new QueryClient();
+const queryClient = new QueryClient({
+  // Reads fall back to the offline mirror and writes go to the outbox, so
+  // queries and mutations must keep running while the browser is offline
+  defaultOptions: {
+    queries: { networkMode: 'always' },
+    mutations: { networkMode: 'always' },
+  },
+  queryCache: new QueryCache({
+    onError: (error) => {
+      console.error('Error fetching data:', error);
+      toast.error(`Failed to load data: ${error.message}`);
+    },
+  }),
+});
 
 // Hook to access shop context
 export const useShop = () => {
-  return useOutletContext<{ selectedShop: Shop }>();
+  return useOutletContext<{ selectedShop: ShopId }>();
 };
 
 const DashboardWrapper = () => {
@@ -36,6 +66,46 @@ const OrdersWrapper = () => {
   return <Orders selectedShop={selectedShop} />;
 };
 
+const SuppliersWrapper = () => {
+  const { selectedShop } = useShop();
+  return <Suppliers selectedShop={selectedShop} />;
+};
+
+const ReorderWrapper = () => {
+  const { selectedShop } = useShop();
+  return <Reorder selectedShop={selectedShop} />;
+};
+
+const DiscrepanciesWrapper = () => {
+  const { selectedShop } = useShop();
+  return <Discrepancies selectedShop={selectedShop} />;
+};
+
+const InvoicesWrapper = () => {
+  const { selectedShop } = useShop();
+  return <Invoices selectedShop={selectedShop} />;
+};
+
+const PayablesWrapper = () => {
+  const { selectedShop } = useShop();
+  return <Payables selectedShop={selectedShop} />;
+};
+
+const DepositsWrapper = () => {
+  const { selectedShop } = useShop();
+  return <Deposits selectedShop={selectedShop} />;
+};
+
+const ReconciliationWrapper = () => {
+  const { selectedShop } = useShop();
+  return <Reconciliation selectedShop={selectedShop} />;
+};
+
+const CustomersWrapper = () => {
+  const { selectedShop } = useShop();
+  return <Customers selectedShop={selectedShop} />;
+};
+
 const CashUpWrapper = () => {
   const { selectedShop } = useShop();
   return <CashUp selectedShop={selectedShop} />;
@@ -51,6 +121,31 @@ const ReportsWrapper = () => {
   return <Reports selectedShop={selectedShop} />;
 };
 
+const DocumentsWrapper = () => {
+  const { selectedShop } = useShop();
+  return <Documents selectedShop={selectedShop} />;
+};
+
+const ImportWrapper = () => {
+  const { selectedShop } = useShop();
+  return <Import selectedShop={selectedShop} />;
+};
+
+const BackupWrapper = () => {
+  const { selectedShop } = useShop();
+  return <Backup selectedShop={selectedShop} />;
+};
+
+const AuditLogWrapper = () => {
+  const { selectedShop } = useShop();
+  return <AuditLog selectedShop={selectedShop} />;
+};
+
+const RecycleBinWrapper = () => {
+  const { selectedShop } = useShop();
+  return <RecycleBin selectedShop={selectedShop} />;
+};
+
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <TooltipProvider>
@@ -58,13 +153,29 @@ const App = () => (
       <Sonner />
       <BrowserRouter>
         <Routes>
+          <Route path="/login" element={<Login />} />
           <Route path="/" element={<MainLayout />}>
             <Route index element={<DashboardWrapper />} />
             <Route path="supplies" element={<SuppliesWrapper />} />
             <Route path="orders" element={<OrdersWrapper />} />
+            <Route path="reorder" element={<ReorderWrapper />} />
+            <Route path="suppliers" element={<SuppliersWrapper />} />
+            <Route path="discrepancies" element={<DiscrepanciesWrapper />} />
+            <Route path="invoices" element={<InvoicesWrapper />} />
+            <Route path="payables" element={<PayablesWrapper />} />
             <Route path="cash-up" element={<CashUpWrapper />} />
+            <Route path="deposits" element={<DepositsWrapper />} />
+            <Route path="reconciliation" element={<ReconciliationWrapper />} />
+            <Route path="customers" element={<CustomersWrapper />} />
             <Route path="analytics" element={<AnalyticsWrapper />} />
             <Route path="reports" element={<ReportsWrapper />} />
+            <Route path="documents" element={<DocumentsWrapper />} />
+            <Route path="import" element={<ImportWrapper />} />
+            <Route path="backup" element={<BackupWrapper />} />
+            <Route path="audit" element={<AuditLogWrapper />} />
+            <Route path="recycle-bin" element={<RecycleBinWrapper />} />
+            <Route path="team" element={<Team />} />
+            <Route path="shop-settings" element={<ShopSettings />} />
             <Route path="shop/:shopId" element={<ShopDashboard />} />
           </Route>
           <Route path="*" element={<NotFound />} />
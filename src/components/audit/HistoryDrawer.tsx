@@ -0,0 +1,79 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
+import { History } from "lucide-react";
+import { useRecordHistory } from "@/hooks/useAuditLog";
+import { auditActionLabel, formatAuditValue, formatFieldName, getChanges } from "@/lib/audit";
+
+interface HistoryDrawerProps {
+  table: string;
+  recordId: string;
+  title: string;
+  compact?: boolean;
+}
+
+export const HistoryDrawer = ({ table, recordId, title, compact = false }: HistoryDrawerProps) => {
+  const [open, setOpen] = useState(false);
+  const { entries, loading } = useRecordHistory(table, recordId, open);
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button
+          variant="ghost"
+          size={compact ? "sm" : "icon"}
+          className={compact ? "h-8 w-8 p-0" : undefined}
+          title="History"
+        >
+          <History className={compact ? "h-3 w-3" : "h-4 w-4"} />
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle>History</SheetTitle>
+          <SheetDescription>{title}</SheetDescription>
+        </SheetHeader>
+        <ScrollArea className="h-[calc(100vh-8rem)] mt-4 pr-4">
+          {loading ? (
+            <div className="text-center py-8 text-muted-foreground">Loading history...</div>
+          ) : entries.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">No changes recorded yet</div>
+          ) : (
+            <div className="space-y-3">
+              {entries.map((entry) => {
+                const changes = entry.action === "UPDATE" ? getChanges(entry) : [];
+
+                return (
+                  <div key={entry.id} className="rounded-md border p-3 space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <Badge variant={auditActionLabel(entry) === "Deleted" ? "destructive" : "outline"}>
+                        {auditActionLabel(entry)}
+                      </Badge>
+                      <span className="text-xs text-muted-foreground">
+                        {new Date(entry.created_at).toLocaleString()}
+                      </span>
+                    </div>
+                    <p className="text-sm">{entry.actor_email || "Unknown user"}</p>
+                    {changes.length > 0 && (
+                      <ul className="text-xs space-y-1">
+                        {changes.map((change) => (
+                          <li key={change.field}>
+                            <span className="font-medium">{formatFieldName(change.field)}:</span>{" "}
+                            <span className="text-muted-foreground line-through">{formatAuditValue(change.before)}</span>{" "}
+                            → {formatAuditValue(change.after)}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+};
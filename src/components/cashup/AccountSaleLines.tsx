@@ -0,0 +1,91 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { formatCurrency } from "@/lib/currency";
+import { accountSalesTotal, emptyAccountSale } from "@/lib/customerAccounts";
+import { useCustomers } from "@/hooks/useCustomers";
+import type { AccountSaleDraft } from "@/hooks/useAccountSales";
+
+interface AccountSaleLinesProps {
+  shopId: string;
+  sales: AccountSaleDraft[];
+  onChange: (sales: AccountSaleDraft[]) => void;
+}
+
+export const AccountSaleLines = ({ shopId, sales, onChange }: AccountSaleLinesProps) => {
+  const { customers } = useCustomers();
+  const shopCustomers = customers.filter(customer => customer.shop_id === shopId);
+
+  const updateSale = (index: number, values: Partial<AccountSaleDraft>) => {
+    onChange(sales.map((sale, i) => i === index ? { ...sale, ...values } : sale));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Account Sales</Label>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={shopCustomers.length === 0}
+          onClick={() => onChange([...sales, emptyAccountSale])}
+        >
+          <Plus className="mr-1 h-4 w-4" />
+          Add Account Sale
+        </Button>
+      </div>
+      {shopCustomers.length === 0 && (
+        <p className="text-xs text-muted-foreground">Ask a manager to add this shop's account customers.</p>
+      )}
+      {sales.map((sale, index) => (
+        <div key={sale.id ?? index} className="flex gap-2">
+          <Select value={sale.customer_id} onValueChange={(value) => updateSale(index, { customer_id: value })}>
+            <SelectTrigger className="flex-1">
+              <SelectValue placeholder="Customer *" />
+            </SelectTrigger>
+            <SelectContent>
+              {shopCustomers
+                .filter(customer => customer.is_active || customer.id === sale.customer_id)
+                .map((customer) => (
+                  <SelectItem key={customer.id} value={customer.id}>{customer.name}</SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+          <Input
+            className="w-24"
+            placeholder="Slip no."
+            value={sale.reference ?? ""}
+            onChange={(e) => updateSale(index, { reference: e.target.value || null })}
+          />
+          <Input
+            type="number"
+            step="0.01"
+            min="0.01"
+            required
+            className="w-28"
+            aria-label="Amount"
+            value={sale.amount}
+            onChange={(e) => updateSale(index, { amount: parseFloat(e.target.value) || 0 })}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => onChange(sales.filter((_, i) => i !== index))}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      {sales.length > 0 && (
+        <div className="flex justify-between text-sm font-medium">
+          <span>Account Amount</span>
+          <span>{formatCurrency(accountSalesTotal(sales))}</span>
+        </div>
+      )}
+    </div>
+  );
+};
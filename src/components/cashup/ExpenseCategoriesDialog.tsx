@@ -0,0 +1,112 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tags, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { useExpenseCategories, type ExpenseCategory } from "@/hooks/useExpenseCategories";
+
+export const ExpenseCategoriesDialog = () => {
+  const { categories, createCategory, updateCategory, deleteCategory } = useExpenseCategories();
+  const [newName, setNewName] = useState("");
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+
+    try {
+      await createCategory({ name: newName.trim() });
+      toast.success("Category added");
+      setNewName("");
+    } catch (error) {
+      toast.error(error.message || "Failed to add category");
+    }
+  };
+
+  const handleRename = async (category: ExpenseCategory, name: string) => {
+    if (!name.trim() || name.trim() === category.name) return;
+
+    try {
+      await updateCategory(category.id, { name: name.trim() });
+      toast.success("Category renamed");
+    } catch (error) {
+      toast.error(error.message || "Failed to rename category");
+    }
+  };
+
+  const handleToggle = async (category: ExpenseCategory, isActive: boolean) => {
+    try {
+      await updateCategory(category.id, { is_active: isActive });
+    } catch (error) {
+      toast.error(error.message || "Failed to update category");
+    }
+  };
+
+  const handleDelete = async (category: ExpenseCategory) => {
+    if (!confirm(`Delete ${category.name}? Expenses in it become uncategorised. Switch it off instead to keep them.`)) return;
+
+    try {
+      await deleteCategory(category.id);
+      toast.success("Category deleted");
+    } catch (error) {
+      toast.error(error.message || "Failed to delete category");
+    }
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Tags className="mr-2 h-4 w-4" />
+          Expense Categories
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="w-[90vw] sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Expense Categories</DialogTitle>
+          <DialogDescription>Shared by all shops. Switched off categories can no longer be picked.</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleAdd} className="flex gap-2">
+          <Input placeholder="New category" value={newName} onChange={(e) => setNewName(e.target.value)} />
+          <Button type="submit">Add</Button>
+        </form>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Active</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {categories.map((category) => (
+              <TableRow key={category.id}>
+                <TableCell className="p-1">
+                  <Input
+                    key={category.name}
+                    defaultValue={category.name}
+                    aria-label="Category name"
+                    onBlur={(e) => handleRename(category, e.target.value)}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Switch
+                    checked={category.is_active}
+                    onCheckedChange={(checked) => handleToggle(category, checked)}
+                  />
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button variant="ghost" size="icon" onClick={() => handleDelete(category)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </DialogContent>
+    </Dialog>
+  );
+};
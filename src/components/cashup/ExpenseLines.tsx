@@ -0,0 +1,126 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { formatCurrency } from "@/lib/currency";
+import { vatRateLabel, vatRateOptions } from "@/lib/vat";
+import { PAID_FROM_LABELS, UNCATEGORISED, emptyExpense, expensesTotal, type PaidFrom } from "@/lib/expenses";
+import { useExpenseCategories } from "@/hooks/useExpenseCategories";
+import type { ExpenseDraft } from "@/hooks/useExpenses";
+
+interface ExpenseLinesProps {
+  expenses: ExpenseDraft[];
+  standardVatRate: number;
+  onChange: (expenses: ExpenseDraft[]) => void;
+}
+
+export const ExpenseLines = ({ expenses, standardVatRate, onChange }: ExpenseLinesProps) => {
+  const { categories, activeCategories } = useExpenseCategories();
+
+  const updateExpense = (index: number, values: Partial<ExpenseDraft>) => {
+    onChange(expenses.map((expense, i) => i === index ? { ...expense, ...values } : expense));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Expenses</Label>
+        <Button type="button" variant="outline" size="sm" onClick={() => onChange([...expenses, emptyExpense])}>
+          <Plus className="mr-1 h-4 w-4" />
+          Add Expense
+        </Button>
+      </div>
+      {expenses.length === 0 && (
+        <p className="text-sm text-muted-foreground">No expenses for this day.</p>
+      )}
+      {expenses.map((expense, index) => (
+        <div key={expense.id ?? index} className="space-y-2 rounded-lg border p-3">
+          <div className="flex gap-2">
+            <Select
+              value={expense.category_id ?? UNCATEGORISED}
+              onValueChange={(value) => updateExpense(index, { category_id: value === UNCATEGORISED ? null : value })}
+            >
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder="Category" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={UNCATEGORISED}>Uncategorised</SelectItem>
+                {categories
+                  .filter(category => category.is_active || category.id === expense.category_id)
+                  .map((category) => (
+                    <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              step="0.01"
+              min="0.01"
+              required
+              className="w-28"
+              aria-label="Amount"
+              value={expense.amount}
+              onChange={(e) => updateExpense(index, { amount: parseFloat(e.target.value) || 0 })}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => onChange(expenses.filter((_, i) => i !== index))}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          <Input
+            placeholder="Description *"
+            required
+            value={expense.description}
+            onChange={(e) => updateExpense(index, { description: e.target.value })}
+          />
+          <div className="flex gap-2">
+            <Select
+              value={expense.paid_from}
+              onValueChange={(value: PaidFrom) => updateExpense(index, { paid_from: value })}
+            >
+              <SelectTrigger className="flex-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(PAID_FROM_LABELS).map(([paidFrom, label]) => (
+                  <SelectItem key={paidFrom} value={paidFrom}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={String(expense.vat_rate)}
+              onValueChange={(value) => updateExpense(index, { vat_rate: parseFloat(value) })}
+            >
+              <SelectTrigger className="w-28" aria-label="VAT">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {vatRateOptions(standardVatRate, expense.vat_rate).map((rate) => (
+                  <SelectItem key={rate} value={String(rate)}>{vatRateLabel(rate)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              className="flex-1"
+              placeholder="Receipt reference"
+              value={expense.receipt_reference ?? ""}
+              onChange={(e) => updateExpense(index, { receipt_reference: e.target.value || null })}
+            />
+          </div>
+        </div>
+      ))}
+      {activeCategories.length === 0 && expenses.length > 0 && (
+        <p className="text-xs text-muted-foreground">Ask a manager to set up expense categories.</p>
+      )}
+      <div className="flex justify-between text-sm font-medium">
+        <span>Total Expenses</span>
+        <span>{formatCurrency(expensesTotal(expenses))}</span>
+      </div>
+    </div>
+  );
+};
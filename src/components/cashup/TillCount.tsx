@@ -0,0 +1,43 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { formatCurrency } from "@/lib/currency";
+import { ZAR_DENOMINATIONS, countTotal, type DenominationCounts } from "@/lib/cashCount";
+
+interface TillCountProps {
+  counts: DenominationCounts;
+  onChange: (counts: DenominationCounts) => void;
+}
+
+export const TillCount = ({ counts, onChange }: TillCountProps) => {
+  return (
+    <div className="space-y-2">
+      <Label>Till Count</Label>
+      <div className="grid grid-cols-2 gap-x-4 gap-y-2">
+        {ZAR_DENOMINATIONS.map((denomination) => {
+          const count = counts[denomination.value] ?? 0;
+          return (
+            <div key={denomination.value} className="flex items-center gap-2">
+              <span className="w-12 text-sm font-medium">{denomination.label}</span>
+              <Input
+                type="number"
+                min="0"
+                step="1"
+                className="w-20"
+                aria-label={`Number of ${denomination.label} ${denomination.kind}s`}
+                value={count}
+                onChange={(e) => onChange({ ...counts, [denomination.value]: parseInt(e.target.value) || 0 })}
+              />
+              <span className="ml-auto text-sm text-muted-foreground">
+                {formatCurrency(count * denomination.value)}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex justify-between border-t pt-2 text-sm font-medium">
+        <span>Counted in Till</span>
+        <span>{formatCurrency(countTotal(counts))}</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,25 @@
+import { Button } from "@/components/ui/button";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { FileSpreadsheet } from "lucide-react";
+import type { ExportFormat } from "@/lib/export";
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => void;
+  disabled?: boolean;
+  size?: "sm" | "default";
+}
+
+export const ExportMenu = ({ onExport, disabled = false, size = "default" }: ExportMenuProps) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger asChild>
+      <Button variant="outline" size={size} disabled={disabled}>
+        <FileSpreadsheet className={size === "sm" ? "mr-2 h-3 w-3" : "mr-2 h-4 w-4"} />
+        Export
+      </Button>
+    </DropdownMenuTrigger>
+    <DropdownMenuContent align="end">
+      <DropdownMenuItem onClick={() => onExport("csv")}>CSV (.csv)</DropdownMenuItem>
+      <DropdownMenuItem onClick={() => onExport("xlsx")}>Excel (.xlsx)</DropdownMenuItem>
+    </DropdownMenuContent>
+  </DropdownMenu>
+);
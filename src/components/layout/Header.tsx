@@ -1,21 +1,27 @@
-import { Shop } from "@/types";
+import { ShopId } from "@/types";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Plus, Store } from "lucide-react";
+import { LogOut, Plus, Store } from "lucide-react";
 import { toast } from "sonner";
 import { useShops } from "@/hooks/useShops";
+import { useAuth } from "@/hooks/useAuth";
+import { useMemberships } from "@/hooks/useMemberships";
+import { getOutbox } from "@/lib/storage";
 import { useState } from "react";
+import SyncStatusBadge from "@/components/layout/SyncStatusBadge";
 
 interface HeaderProps {
-  selectedShop: Shop;
-  onShopChange: (shop: Shop) => void;
+  selectedShop: ShopId;
+  onShopChange: (shop: ShopId) => void;
 }
 
 const Header = ({ selectedShop, onShopChange }: HeaderProps) => {
   const { shops, addShop } = useShops();
+  const { user, signOut } = useAuth();
+  const { memberships, canManage } = useMemberships();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [newShopName, setNewShopName] = useState("");
 
@@ -33,6 +39,20 @@ const Header = ({ selectedShop, onShopChange }: HeaderProps) => {
     }
   };
 
+  const handleSignOut = async () => {
+    // Unsynced offline changes are tied to this user and cleared on sign out
+    if (getOutbox().length > 0 && !confirm("You have changes that have not synced yet. Sign out and discard them?")) return;
+
+    try {
+      await signOut();
+    } catch (error) {
+      console.error("Error signing out:", error);
+      toast.error(error.message || "Failed to sign out");
+    }
+  };
+
+  const canAddShop = canManage("All") || memberships.length === 0;
+
   return (
     <header className="border-b bg-card sticky top-0 z-50">
       <div className="container mx-auto px-3 md:px-4 py-3 md:py-4">
@@ -48,39 +68,42 @@ const Header = ({ selectedShop, onShopChange }: HeaderProps) => {
           </div>
           
           <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-2">
-            <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-              <DialogTrigger asChild>
-                <Button variant="outline" size="sm" className="w-full sm:w-auto">
-                  <Plus className="h-4 w-4 mr-2" />
-                  <span className="sm:hidden md:inline">Add Shop</span>
-                  <span className="hidden sm:inline md:hidden">Add</span>
-                </Button>
-              </DialogTrigger>
-              <DialogContent className="w-[90vw] sm:max-w-md">
-                <DialogHeader>
-                  <DialogTitle>Add New Shop</DialogTitle>
-                  <DialogDescription>Enter the name for your new shop</DialogDescription>
-                </DialogHeader>
-                <form onSubmit={handleAddShop} className="space-y-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="shopName">Shop Name *</Label>
-                    <Input
-                      id="shopName"
-                      required
-                      value={newShopName}
-                      onChange={(e) => setNewShopName(e.target.value)}
-                      placeholder="e.g., Downtown Store"
-                    />
-                  </div>
-                  <div className="flex justify-end gap-2">
-                    <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
-                      Cancel
-                    </Button>
-                    <Button type="submit">Add Shop</Button>
-                  </div>
-                </form>
-              </DialogContent>
-            </Dialog>
+            <SyncStatusBadge />
+            {canAddShop && (
+              <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+                <DialogTrigger asChild>
+                  <Button variant="outline" size="sm" className="w-full sm:w-auto">
+                    <Plus className="h-4 w-4 mr-2" />
+                    <span className="sm:hidden md:inline">Add Shop</span>
+                    <span className="hidden sm:inline md:hidden">Add</span>
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="w-[90vw] sm:max-w-md">
+                  <DialogHeader>
+                    <DialogTitle>Add New Shop</DialogTitle>
+                    <DialogDescription>Enter the name for your new shop</DialogDescription>
+                  </DialogHeader>
+                  <form onSubmit={handleAddShop} className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="shopName">Shop Name *</Label>
+                      <Input
+                        id="shopName"
+                        required
+                        value={newShopName}
+                        onChange={(e) => setNewShopName(e.target.value)}
+                        placeholder="e.g., Downtown Store"
+                      />
+                    </div>
+                    <div className="flex justify-end gap-2">
+                      <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                        Cancel
+                      </Button>
+                      <Button type="submit">Add Shop</Button>
+                    </div>
+                  </form>
+                </DialogContent>
+              </Dialog>
+            )}
             <div className="flex items-center gap-2">
               <span className="text-xs md:text-sm text-muted-foreground">Shop:</span>
               <Select value={selectedShop} onValueChange={(value) => onShopChange(value)}>
@@ -88,13 +111,19 @@ const Header = ({ selectedShop, onShopChange }: HeaderProps) => {
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent className="bg-card border-border z-[100]">
-                  <SelectItem value="All">All Shops</SelectItem>
+                  {canManage("All") && <SelectItem value="All">All Shops</SelectItem>}
                   {shops.map((shop) => (
-                    <SelectItem key={shop.id} value={shop.name}>{shop.name}</SelectItem>
+                    <SelectItem key={shop.id} value={shop.id}>
+                      {shop.name}{!shop.is_active && " (archived)"}
+                    </SelectItem>
                   ))}
                 </SelectContent>
               </Select>
             </div>
+            <Button variant="ghost" size="sm" onClick={handleSignOut} title={user?.email}>
+              <LogOut className="h-4 w-4 mr-2" />
+              Sign Out
+            </Button>
           </div>
         </div>
       </div>
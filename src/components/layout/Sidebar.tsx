@@ -1,40 +1,84 @@
 import { Link, useLocation } from "react-router-dom";
 import { cn } from "@/lib/utils";
 import { useShops } from "@/hooks/useShops";
+import { useMemberships } from "@/hooks/useMemberships";
+import { ShopId } from "@/types";
 import { 
+  AlertTriangle,
   LayoutDashboard, 
   Package, 
+  Receipt,
+  Scale,
   ShoppingCart, 
   DollarSign, 
   BarChart3,
+  BookUser,
+  ClipboardList,
+  DatabaseBackup,
   FileText,
-  Store
+  Files,
+  FileUp,
+  History,
+  Landmark,
+  Settings,
+  Store,
+  Trash2,
+  Truck,
+  Users,
+  Wallet
 } from "lucide-react";
 
 interface SidebarProps {
+  selectedShop: ShopId;
   onNavigate?: () => void;
 }
 
-const Sidebar = ({ onNavigate }: SidebarProps = {}) => {
+const Sidebar = ({ selectedShop, onNavigate }: SidebarProps) => {
   const location = useLocation();
   const { shops } = useShops();
+  const { canManage, isOwner } = useMemberships();
 
   const baseNavigation = [
     { name: "Dashboard", href: "/", icon: LayoutDashboard },
     { name: "Supplies", href: "/supplies", icon: Package },
     { name: "Orders", href: "/orders", icon: ShoppingCart },
+    { name: "Reorder", href: "/reorder", icon: ClipboardList },
+    { name: "Suppliers", href: "/suppliers", icon: Truck },
+    { name: "Discrepancies", href: "/discrepancies", icon: AlertTriangle },
+    { name: "Invoices", href: "/invoices", icon: Receipt },
+    { name: "Payables", href: "/payables", icon: Wallet },
     { name: "Daily Cash Up", href: "/cash-up", icon: DollarSign },
+    { name: "Deposits", href: "/deposits", icon: Landmark },
+    { name: "Reconciliation", href: "/reconciliation", icon: Scale },
+    { name: "Customer Accounts", href: "/customers", icon: BookUser },
     { name: "Analytics", href: "/analytics", icon: BarChart3 },
     { name: "Reports", href: "/reports", icon: FileText },
+    { name: "Documents", href: "/documents", icon: Files },
+    { name: "Import", href: "/import", icon: FileUp },
+    { name: "Backup", href: "/backup", icon: DatabaseBackup },
+    { name: "Audit Log", href: "/audit", icon: History },
+    { name: "Recycle Bin", href: "/recycle-bin", icon: Trash2 },
   ];
 
-  const shopNavigation = shops.map(shop => ({
+  // Cashiers only capture the daily cash up and bank its cash
+  const allowedNavigation = canManage(selectedShop)
+    ? baseNavigation
+    : baseNavigation.filter(item => item.href === "/cash-up" || item.href === "/deposits");
+
+  const ownerNavigation = isOwner
+    ? [
+        { name: "Team", href: "/team", icon: Users },
+        { name: "Shop Settings", href: "/shop-settings", icon: Settings },
+      ]
+    : [];
+
+  const shopNavigation = shops.filter(shop => canManage(shop.id)).map(shop => ({
     name: shop.name,
-    href: `/shop/${encodeURIComponent(shop.name)}`,
+    href: `/shop/${shop.id}`,
     icon: Store
   }));
 
-  const navigation = [...baseNavigation, ...shopNavigation];
+  const navigation = [...allowedNavigation, ...ownerNavigation, ...shopNavigation];
 
   return (
     <aside className="w-64 border-r bg-card">
@@ -0,0 +1,96 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { AlertTriangle, Cloud, CloudOff, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import { useOfflineSync } from "@/hooks/useOfflineSync";
+
+const operationLabels = {
+  insert: "Added",
+  update: "Edited",
+  delete: "Deleted",
+  upsert: "Saved",
+};
+
+const SyncStatusBadge = () => {
+  const { isOnline, syncing, pendingCount, conflicts, syncNow, resolveConflict } = useOfflineSync();
+
+  const handleResolve = async (id: string, keep: "mine" | "theirs") => {
+    try {
+      await resolveConflict(id, keep);
+      toast.success(keep === "mine" ? "Your change was saved" : "Your change was discarded");
+    } catch (error) {
+      console.error("Error resolving conflict:", error);
+      toast.error(error.message || "Failed to resolve conflict");
+    }
+  };
+
+  const needsAttention = pendingCount > 0 || conflicts.length > 0;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="w-full sm:w-auto">
+          {isOnline ? <Cloud className="h-4 w-4 mr-2" /> : <CloudOff className="h-4 w-4 mr-2 text-warning" />}
+          <span>{isOnline ? (syncing ? "Syncing" : "Online") : "Offline"}</span>
+          {needsAttention && (
+            <Badge variant={conflicts.length > 0 ? "destructive" : "secondary"} className="ml-2">
+              {pendingCount + conflicts.length}
+            </Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 z-[100]" align="end">
+        <div className="space-y-3">
+          <div>
+            <p className="text-sm font-medium">{isOnline ? "Connected" : "Working offline"}</p>
+            <p className="text-xs text-muted-foreground">
+              {pendingCount > 0
+                ? `${pendingCount} change${pendingCount === 1 ? "" : "s"} waiting to sync`
+                : "All changes are synced"}
+            </p>
+          </div>
+
+          {conflicts.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium flex items-center gap-1 text-destructive">
+                <AlertTriangle className="h-4 w-4" />
+                Conflicts
+              </p>
+              {conflicts.map((entry) => (
+                <div key={entry.id} className="rounded-md border p-2 space-y-2">
+                  <p className="text-xs">
+                    {operationLabels[entry.operation]} in {entry.table.replace("_", " ")} on{" "}
+                    {new Date(entry.createdAt).toLocaleString()}
+                  </p>
+                  {entry.error && <p className="text-xs text-muted-foreground">{entry.error}</p>}
+                  <div className="flex gap-2">
+                    <Button size="sm" onClick={() => handleResolve(entry.id, "mine")} disabled={!isOnline}>
+                      Keep mine
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => handleResolve(entry.id, "theirs")}>
+                      Discard
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <Button
+            size="sm"
+            variant="outline"
+            className="w-full"
+            onClick={syncNow}
+            disabled={!isOnline || syncing || pendingCount === 0}
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${syncing ? "animate-spin" : ""}`} />
+            Sync now
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default SyncStatusBadge;
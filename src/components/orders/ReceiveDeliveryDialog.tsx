@@ -0,0 +1,284 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import type { OrderRecord } from "@/hooks/useOrders";
+import { useOrderLines } from "@/hooks/useOrderLines";
+import { useDeliveries, type DeliveryLineValues } from "@/hooks/useDeliveries";
+import { round } from "@/lib/numbers";
+
+interface ReceiveDeliveryDialogProps {
+  order: OrderRecord | null;
+  onClose: () => void;
+}
+
+type LineCounts = Required<Pick<DeliveryLineValues,
+  "quantity_received" | "quantity_short" | "quantity_damaged" | "quantity_substituted">> & {
+  substitute_description: string;
+};
+
+const emptyCounts: LineCounts = {
+  quantity_received: 0,
+  quantity_short: 0,
+  quantity_damaged: 0,
+  quantity_substituted: 0,
+  substitute_description: "",
+};
+
+const COUNT_COLUMNS: { key: keyof Omit<LineCounts, "substitute_description">; label: string }[] = [
+  { key: "quantity_received", label: "Received" },
+  { key: "quantity_short", label: "Short" },
+  { key: "quantity_damaged", label: "Damaged" },
+  { key: "quantity_substituted", label: "Substituted" },
+];
+
+export const ReceiveDeliveryDialog = ({ order, onClose }: ReceiveDeliveryDialogProps) => {
+  const { linesForOrder } = useOrderLines();
+  const { deliveriesForOrder, linesForDelivery, receiveDelivery, deleteDelivery } = useDeliveries();
+  const today = new Date().toISOString().split('T')[0];
+
+  const [formData, setFormData] = useState({
+    received_on: today,
+    received_by: "",
+    invoice_number: "",
+    notes: "",
+  });
+
+  const orderLines = order ? linesForOrder(order.id) : [];
+  const pastDeliveries = order ? deliveriesForOrder(order.id) : [];
+  const outstanding = (line: (typeof orderLines)[number]) => Math.max(line.quantity - line.quantity_delivered, 0);
+
+  // Each delivery starts out expecting everything still outstanding. The
+  // page remounts the dialog per order through its key.
+  const [counts, setCounts] = useState<Record<string, LineCounts>>(() => Object.fromEntries(
+    orderLines.map(line => [line.id, { ...emptyCounts, quantity_received: outstanding(line) }])
+  ));
+
+  const countsFor = (lineId: string) => counts[lineId] ?? emptyCounts;
+
+  const updateCounts = (lineId: string, values: Partial<LineCounts>) => {
+    setCounts({ ...counts, [lineId]: { ...countsFor(lineId), ...values } });
+  };
+
+  // Whatever has not arrived or been replaced is booked as short
+  const markRestShort = () => {
+    setCounts(Object.fromEntries(orderLines.map(line => {
+      const c = countsFor(line.id);
+      const rest = outstanding(line) - c.quantity_received - c.quantity_substituted;
+      return [line.id, { ...c, quantity_short: Math.max(round(rest), 0) }];
+    })));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!order) return;
+
+    const lines = orderLines
+      .map(line => ({ line, c: countsFor(line.id) }))
+      .filter(({ c }) => c.quantity_received || c.quantity_short || c.quantity_damaged || c.quantity_substituted);
+
+    if (lines.length === 0) {
+      toast.error("Please enter what arrived on at least one line");
+      return;
+    }
+    if (lines.some(({ c }) => c.quantity_substituted > 0 && !c.substitute_description.trim())) {
+      toast.error("Please describe what was substituted");
+      return;
+    }
+
+    try {
+      await receiveDelivery(
+        {
+          order_id: order.id,
+          shop_id: order.shop_id,
+          received_on: formData.received_on,
+          received_by: formData.received_by.trim(),
+          invoice_number: formData.invoice_number.trim() || null,
+          notes: formData.notes.trim() || null,
+        },
+        lines.map(({ line, c }) => ({
+          order_line_id: line.id,
+          quantity_received: c.quantity_received,
+          quantity_short: c.quantity_short,
+          quantity_damaged: c.quantity_damaged,
+          quantity_substituted: c.quantity_substituted,
+          substitute_description: c.quantity_substituted > 0 ? c.substitute_description.trim() : null,
+        }))
+      );
+      toast.success("Delivery recorded");
+      onClose();
+    } catch (error) {
+      console.error('Error recording delivery:', error);
+      toast.error(`Failed to record delivery: ${error.message}`);
+    }
+  };
+
+  const handleDeleteDelivery = async (id: string) => {
+    if (!confirm("Delete this delivery? The quantities it added are taken off the order again.")) return;
+
+    try {
+      await deleteDelivery(id);
+      toast.success("Delivery deleted");
+    } catch (error) {
+      console.error('Error deleting delivery:', error);
+      toast.error(`Failed to delete delivery: ${error.message}`);
+    }
+  };
+
+  const describeLine = (orderLineId: string) =>
+    orderLines.find(line => line.id === orderLineId)?.description ?? "Removed line";
+
+  return (
+    <Dialog open={!!order} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Receive Delivery</DialogTitle>
+          <DialogDescription>
+            {order?.supply_name} - ordered {order?.order_date}
+          </DialogDescription>
+        </DialogHeader>
+
+        {pastDeliveries.length > 0 && (
+          <div className="space-y-2">
+            <Label>Previous Deliveries</Label>
+            {pastDeliveries.map((delivery) => (
+              <div key={delivery.id} className="rounded-lg border p-3 text-sm">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <span className="font-medium">{delivery.received_on}</span>
+                    <span className="text-muted-foreground"> received by {delivery.received_by}</span>
+                    {delivery.invoice_number && (
+                      <Badge variant="outline" className="ml-2">Invoice {delivery.invoice_number}</Badge>
+                    )}
+                  </div>
+                  <Button variant="ghost" size="icon" onClick={() => handleDeleteDelivery(delivery.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                <ul className="mt-1 text-muted-foreground">
+                  {linesForDelivery(delivery.id).map((dl) => (
+                    <li key={dl.id}>
+                      {describeLine(dl.order_line_id)}: {dl.quantity_received} received
+                      {dl.quantity_short > 0 && `, ${dl.quantity_short} short`}
+                      {dl.quantity_damaged > 0 && `, ${dl.quantity_damaged} damaged`}
+                      {dl.quantity_substituted > 0 && `, ${dl.quantity_substituted} substituted with ${dl.substitute_description}`}
+                    </li>
+                  ))}
+                </ul>
+                {delivery.notes && <div className="mt-1">{delivery.notes}</div>}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="receivedOn">Date Received *</Label>
+              <Input
+                id="receivedOn"
+                type="date"
+                required
+                value={formData.received_on}
+                onChange={(e) => setFormData({ ...formData, received_on: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="receivedBy">Received By *</Label>
+              <Input
+                id="receivedBy"
+                required
+                value={formData.received_by}
+                onChange={(e) => setFormData({ ...formData, received_by: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="invoiceNumber">Supplier Invoice No.</Label>
+              <Input
+                id="invoiceNumber"
+                value={formData.invoice_number}
+                onChange={(e) => setFormData({ ...formData, invoice_number: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Lines</Label>
+              <Button type="button" variant="outline" size="sm" onClick={markRestShort}>
+                Mark Rest Short
+              </Button>
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead className="text-right">Outstanding</TableHead>
+                  {COUNT_COLUMNS.map(column => (
+                    <TableHead key={column.key} className="w-24">{column.label}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {orderLines.map((line) => {
+                  const c = countsFor(line.id);
+                  return (
+                    <TableRow key={line.id}>
+                      <TableCell className="font-medium">
+                        {line.description}
+                        {c.quantity_substituted > 0 && (
+                          <Input
+                            className="mt-1"
+                            placeholder="Substituted with..."
+                            value={c.substitute_description}
+                            onChange={(e) => updateCounts(line.id, { substitute_description: e.target.value })}
+                          />
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{outstanding(line)} {line.unit}</TableCell>
+                      {COUNT_COLUMNS.map(column => (
+                        <TableCell key={column.key} className="p-1">
+                          <Input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={c[column.key]}
+                            onChange={(e) => updateCounts(line.id, { [column.key]: parseFloat(e.target.value) || 0 })}
+                          />
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+            <p className="text-xs text-muted-foreground">
+              Short: on the delivery note but missing. Damaged: arrived and sent back. Substituted: a different item accepted instead.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="deliveryNotes">Notes</Label>
+            <Input
+              id="deliveryNotes"
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+            />
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit">Record Delivery</Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -6,53 +6,58 @@ import { Label } from "@/components/ui/label";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { TrendingDown, TrendingUp, Pencil } from "lucide-react";
 import { formatCurrency } from "@/lib/currency";
-import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import type { Tables } from "@/integrations/supabase/types";
+import { useWeeklyBudgets } from "@/hooks/useWeeklyBudgets";
+import { useSupplierInvoices } from "@/hooks/useSupplierInvoices";
+import { useSupplierPayments } from "@/hooks/useSupplierPayments";
+import { invoiceBalance, invoicesDueBy } from "@/lib/payables";
 
 type Order = Tables<'orders'>;
 type WeeklyBudget = Tables<'weekly_budgets'>;
 
 interface WeeklyBudgetCardProps {
+  shopId: string;
   shop: string;
   currentBudget: WeeklyBudget | null;
   weekOrders: Order[];
   weekStartStr: string;
-  onBudgetUpdate: () => void;
 }
 
 export const WeeklyBudgetCard = ({ 
+  shopId,
   shop, 
   currentBudget, 
   weekOrders, 
-  weekStartStr,
-  onBudgetUpdate 
+  weekStartStr
 }: WeeklyBudgetCardProps) => {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [budgetAmount, setBudgetAmount] = useState(currentBudget?.budget_amount || 0);
+  const { upsertWeeklyBudget } = useWeeklyBudgets();
+  const { invoices } = useSupplierInvoices();
+  const { payments } = useSupplierPayments();
 
   const totalOrderAmount = weekOrders.reduce((sum, o) => sum + o.order_amount, 0);
   const budgetBalance = currentBudget ? currentBudget.budget_amount - totalOrderAmount : 0;
   const isOverBudget = currentBudget && totalOrderAmount > currentBudget.budget_amount;
 
+  // Supplier invoices that fall due by the end of the week, overdue ones included
+  const weekEnd = new Date(weekStartStr);
+  weekEnd.setDate(weekEnd.getDate() + 6);
+  const dueThisWeek = invoicesDueBy(invoices.filter(i => i.shop_id === shopId), payments, weekEnd.toISOString().split('T')[0])
+    .reduce((sum, i) => sum + invoiceBalance(i, payments), 0);
+
   const handleBudgetSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
     try {
-      const { error } = await supabase
-        .from('weekly_budgets')
-        .upsert({
-          shop: shop,
-          week_start_date: weekStartStr,
-          budget_amount: budgetAmount,
-        }, {
-          onConflict: 'shop,week_start_date'
-        });
-
-      if (error) throw error;
+      await upsertWeeklyBudget({
+        shop_id: shopId,
+        week_start_date: weekStartStr,
+        budget_amount: budgetAmount,
+      });
 
       setIsDialogOpen(false);
-      onBudgetUpdate();
       toast.success(`Weekly budget for ${shop} set successfully`);
     } catch (error: any) {
       console.error('Error setting budget:', error);
@@ -93,9 +98,9 @@ export const WeeklyBudgetCard = ({
               </DialogHeader>
               <form onSubmit={handleBudgetSubmit} className="space-y-4">
                 <div className="space-y-2">
-                  <Label htmlFor={`budget-${shop}`}>Budget Amount (ZAR) *</Label>
+                  <Label htmlFor={`budget-${shopId}`}>Budget Amount (ZAR) *</Label>
                   <Input
-                    id={`budget-${shop}`}
+                    id={`budget-${shopId}`}
                     type="number"
                     step="0.01"
                     required
@@ -127,6 +132,12 @@ export const WeeklyBudgetCard = ({
             <span className="text-sm text-muted-foreground">Orders This Week</span>
             <span className="font-semibold text-blue-600">{formatCurrency(totalOrderAmount)}</span>
           </div>
+          {dueThisWeek > 0 && (
+            <div className="flex justify-between items-center">
+              <span className="text-sm text-muted-foreground">Supplier Payments Due</span>
+              <span className="font-semibold text-amber-600">{formatCurrency(dueThisWeek)}</span>
+            </div>
+          )}
           {currentBudget && (
             <div className="flex justify-between items-center pt-2 border-t">
               <span className="text-sm font-medium">Balance</span>
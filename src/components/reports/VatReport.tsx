@@ -0,0 +1,193 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Download } from "lucide-react";
+import { toast } from "sonner";
+import { formatCurrency } from "@/lib/currency";
+import { VAT_CATEGORY_LABELS, vatReturns, type VatCategory } from "@/lib/vat";
+import { brandingFor } from "@/lib/documents";
+import { useShops } from "@/hooks/useShops";
+import { useIncomeRecords } from "@/hooks/useIncomeRecords";
+import { useExpenses } from "@/hooks/useExpenses";
+import { useOrders } from "@/hooks/useOrders";
+import { useOrderLines } from "@/hooks/useOrderLines";
+import { useSupplierInvoices } from "@/hooks/useSupplierInvoices";
+import { useDocuments } from "@/hooks/useDocuments";
+import type { ShopId } from "@/types";
+
+interface VatReportProps {
+  selectedShop: ShopId;
+}
+
+// Three returns cover the last six months
+const PERIODS_SHOWN = 3;
+
+export const VatReport = ({ selectedShop }: VatReportProps) => {
+  const { activeShops, getShopName, shops } = useShops();
+  const { incomeRecords } = useIncomeRecords();
+  const { expenses } = useExpenses();
+  const { orders } = useOrders();
+  const { orderLines } = useOrderLines();
+  const { invoices, invoicesForOrder } = useSupplierInvoices();
+  const { generateDocument, generating } = useDocuments();
+  const [pickedShopId, setPickedShopId] = useState("");
+  const [showAll, setShowAll] = useState(false);
+
+  // Each shop files its own return
+  const shopId = selectedShop === "All" ? pickedShopId || activeShops[0]?.id || "" : selectedShop;
+  const shop = shops.find(s => s.id === shopId);
+  const category = (shop?.vat_category ?? 'A') as VatCategory;
+
+  const shopOrders = orders.filter(o => o.shop_id === shopId);
+  const returns = vatReturns({
+    records: incomeRecords.filter(r => r.shop_id === shopId),
+    expenses: expenses.filter(e => e.shop_id === shopId),
+    invoices: invoices.filter(i => i.shop_id === shopId),
+    orders: shopOrders,
+    orderLines,
+    invoicedOrderIds: new Set(shopOrders.filter(o => invoicesForOrder(o.id).length > 0).map(o => o.id)),
+  }, category);
+  const shownReturns = showAll ? returns : returns.slice(0, PERIODS_SHOWN);
+
+  const downloadReturns = async () => {
+    try {
+      await generateDocument({
+        kind: 'vat_report',
+        title: `VAT201 Worksheet - ${getShopName(shopId)}`,
+        shopId,
+        weekStartDate: null,
+        orientation: 'landscape',
+        sections: [{
+          heading: getShopName(shopId),
+          details: [VAT_CATEGORY_LABELS[category]],
+          branding: shop && brandingFor(shop),
+          blocks: [
+            {
+              type: 'table',
+              columns: [
+                { label: "Period", width: 14 },
+                { label: "Standard-rated Sales (incl.)", width: 11, type: 'currency' },
+                { label: "Zero-rated Sales", width: 10, type: 'currency' },
+                { label: "Output VAT", width: 10, type: 'currency' },
+                { label: "Input VAT - Invoices", width: 10, type: 'currency' },
+                { label: "Input VAT - Expenses", width: 10, type: 'currency' },
+                { label: "Total Input VAT", width: 10, type: 'currency' },
+                { label: "Payable / (Refundable)", width: 11, type: 'currency' },
+                { label: "Not Yet Claimable - Awaiting Invoices", width: 11, type: 'currency' },
+              ],
+              rows: shownReturns.map(period => ({
+                cells: [
+                  period.label,
+                  period.standardSales,
+                  period.zeroRatedSales,
+                  period.outputVat,
+                  period.invoiceVat,
+                  period.expenseVat,
+                  period.inputVat,
+                  period.netVat,
+                  period.uninvoicedVat,
+                ],
+              })),
+            },
+            {
+              type: 'note',
+              lines: ["VAT on delivered orders becomes claimable once the supplier's tax invoice is captured."],
+            },
+          ],
+        }],
+      });
+      toast.success("VAT worksheet downloaded and filed under Documents");
+    } catch (error) {
+      toast.error("Failed to generate the VAT worksheet");
+    }
+  };
+
+  return (
+    <Card className="print:break-inside-avoid">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>VAT201 Returns</CardTitle>
+            <CardDescription>
+              Output VAT on takings against input VAT on supplier invoices and expenses. VAT on deliveries
+              is only claimable once their tax invoice is captured.
+              {shop && ` ${VAT_CATEGORY_LABELS[category]}.`}
+            </CardDescription>
+          </div>
+          <div className="flex gap-2 print:hidden">
+            {selectedShop === "All" && (
+              <Select value={shopId} onValueChange={setPickedShopId}>
+                <SelectTrigger className="w-48">
+                  <SelectValue placeholder="Select a shop" />
+                </SelectTrigger>
+                <SelectContent>
+                  {activeShops.map((s) => (
+                    <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Button variant="outline" onClick={downloadReturns} disabled={generating || shownReturns.length === 0}>
+              <Download className="mr-2 h-4 w-4" />
+              {generating ? "Generating..." : "Download PDF"}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {shownReturns.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            No takings or purchases recorded for this shop yet.
+          </div>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Period</TableHead>
+                  <TableHead className="text-right">Standard-rated Sales</TableHead>
+                  <TableHead className="text-right">Zero-rated Sales</TableHead>
+                  <TableHead className="text-right">Output VAT</TableHead>
+                  <TableHead className="text-right">Input VAT</TableHead>
+                  <TableHead className="text-right">Payable / (Refundable)</TableHead>
+                  <TableHead className="text-right">Awaiting Invoices</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {shownReturns.map((period) => (
+                  <TableRow key={period.key}>
+                    <TableCell className="font-medium">{period.label}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(period.standardSales)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(period.zeroRatedSales)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(period.outputVat)}</TableCell>
+                    <TableCell
+                      className="text-right"
+                      title={`Invoices ${formatCurrency(period.invoiceVat)}, expenses ${formatCurrency(period.expenseVat)}`}
+                    >
+                      {formatCurrency(period.inputVat)}
+                    </TableCell>
+                    <TableCell className={`text-right font-bold ${period.netVat < 0 ? "text-green-600" : ""}`}>
+                      {formatCurrency(period.netVat)}
+                    </TableCell>
+                    <TableCell className="text-right text-muted-foreground" title="VAT on delivered orders without a captured tax invoice">
+                      {formatCurrency(period.uninvoicedVat)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {returns.length > PERIODS_SHOWN && (
+              <div className="flex justify-center pt-4 print:hidden">
+                <Button variant="ghost" size="sm" onClick={() => setShowAll(!showAll)}>
+                  {showAll ? "Show recent periods only" : `Show all ${returns.length} periods`}
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,166 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import type { SupplyRecord } from "@/hooks/useSupplies";
+import { MOVEMENT_LABELS, useStockMovements, type StockMovementType } from "@/hooks/useStockMovements";
+
+interface StockMovementDialogProps {
+  supply: SupplyRecord | null;
+  onClose: () => void;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+export const StockMovementDialog = ({ supply, onClose }: StockMovementDialogProps) => {
+  const { getOnHand, movementsForSupply, recordMovement } = useStockMovements();
+  const [formData, setFormData] = useState({
+    movement_type: "usage" as StockMovementType,
+    quantity: 0,
+    occurred_on: today(),
+    note: "",
+  });
+
+  const resetForm = () => setFormData({ movement_type: "usage", quantity: 0, occurred_on: today(), note: "" });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!supply) return;
+    if (formData.quantity <= 0) {
+      toast.error("Please enter a quantity");
+      return;
+    }
+
+    try {
+      // Wastage and usage both take stock away
+      await recordMovement({
+        supply_id: supply.id,
+        shop_id: supply.shop_id,
+        movement_type: formData.movement_type,
+        quantity: -formData.quantity,
+        occurred_on: formData.occurred_on,
+        note: formData.note.trim() || null,
+      });
+      toast.success(`${MOVEMENT_LABELS[formData.movement_type]} recorded`);
+      resetForm();
+    } catch (error) {
+      console.error('Error recording stock movement:', error);
+      toast.error(`Failed to record movement: ${error.message}`);
+    }
+  };
+
+  const history = supply ? movementsForSupply(supply.id).slice(0, 20) : [];
+
+  return (
+    <Dialog open={!!supply} onOpenChange={(open) => {
+      if (!open) {
+        resetForm();
+        onClose();
+      }
+    }}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Stock - {supply?.name}</DialogTitle>
+          <DialogDescription>
+            On hand: {supply ? `${getOnHand(supply.id)} ${supply.unit}` : "-"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Type *</Label>
+              <Select
+                value={formData.movement_type}
+                onValueChange={(value: StockMovementType) => setFormData({ ...formData, movement_type: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="usage">{MOVEMENT_LABELS.usage}</SelectItem>
+                  <SelectItem value="wastage">{MOVEMENT_LABELS.wastage}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="movementQuantity">Quantity *</Label>
+              <Input
+                id="movementQuantity"
+                type="number"
+                required
+                min="0.01"
+                step="0.01"
+                value={formData.quantity}
+                onChange={(e) => setFormData({ ...formData, quantity: parseFloat(e.target.value) || 0 })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="movementDate">Date *</Label>
+              <Input
+                id="movementDate"
+                type="date"
+                required
+                value={formData.occurred_on}
+                onChange={(e) => setFormData({ ...formData, occurred_on: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="movementNote">Note</Label>
+            <Input
+              id="movementNote"
+              value={formData.note}
+              onChange={(e) => setFormData({ ...formData, note: e.target.value })}
+              placeholder="e.g. expired, spilled, used in kitchen"
+            />
+          </div>
+          <div className="flex justify-end">
+            <Button type="submit">Record</Button>
+          </div>
+        </form>
+
+        <div className="space-y-2">
+          <Label>Recent Movements</Label>
+          {history.length === 0 ? (
+            <div className="text-center py-4 text-sm text-muted-foreground">
+              No stock movements yet
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead className="text-right">Quantity</TableHead>
+                  <TableHead>Note</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {history.map((movement) => (
+                  <TableRow key={movement.id}>
+                    <TableCell>{new Date(movement.occurred_on).toLocaleDateString()}</TableCell>
+                    <TableCell>
+                      {MOVEMENT_LABELS[movement.movement_type as StockMovementType] ?? movement.movement_type}
+                      {movement.movement_type === "stock_take" && (
+                        <span className="text-xs text-muted-foreground"> (counted {movement.counted_quantity})</span>
+                      )}
+                    </TableCell>
+                    <TableCell className={`text-right ${movement.quantity < 0 ? "text-red-600" : "text-green-600"}`}>
+                      {movement.quantity > 0 ? "+" : ""}{movement.quantity}
+                    </TableCell>
+                    <TableCell>{movement.note || "-"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,121 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import type { SupplyRecord } from "@/hooks/useSupplies";
+import { useShops } from "@/hooks/useShops";
+import { useStockMovements } from "@/hooks/useStockMovements";
+import { round } from "@/lib/numbers";
+
+interface StockTakeCardProps {
+  supplies: SupplyRecord[];
+  onClose: () => void;
+}
+
+// Counts are typed as text so a blank box means "not counted" rather than zero
+export const StockTakeCard = ({ supplies, onClose }: StockTakeCardProps) => {
+  const { getShopName } = useShops();
+  const { getOnHand, recordStockTake } = useStockMovements();
+  const [counts, setCounts] = useState<Record<string, string>>({});
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const sortedSupplies = [...supplies].sort((a, b) => a.name.localeCompare(b.name));
+  const counted = sortedSupplies.filter(s => counts[s.id]?.trim());
+
+  const handleSave = async () => {
+    if (counted.length === 0) {
+      toast.error("Please enter at least one count");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await recordStockTake(
+        counted.map(s => ({ supplyId: s.id, shopId: s.shop_id, counted: parseFloat(counts[s.id]) || 0 })),
+        note.trim()
+      );
+      toast.success(`Stock take saved for ${counted.length} supplies`);
+      onClose();
+    } catch (error) {
+      console.error('Error saving stock take:', error);
+      toast.error(`Failed to save stock take: ${error.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Stock Take</CardTitle>
+        <CardDescription>
+          Enter what is on the shelf. Leave a supply blank to skip it; differences are booked as variances.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Shop</TableHead>
+              <TableHead className="text-right">Expected</TableHead>
+              <TableHead className="w-32">Counted</TableHead>
+              <TableHead className="text-right">Variance</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sortedSupplies.map((supply) => {
+              const expected = getOnHand(supply.id);
+              const entered = counts[supply.id]?.trim();
+              const variance = entered ? round((parseFloat(entered) || 0) - expected) : null;
+
+              return (
+                <TableRow key={supply.id}>
+                  <TableCell className="font-medium">{supply.name}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{getShopName(supply.shop_id)}</Badge>
+                  </TableCell>
+                  <TableCell className="text-right">{expected} {supply.unit}</TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={counts[supply.id] ?? ""}
+                      onChange={(e) => setCounts({ ...counts, [supply.id]: e.target.value })}
+                    />
+                  </TableCell>
+                  <TableCell className={`text-right ${variance === null || variance === 0 ? "" : variance < 0 ? "text-red-600" : "text-green-600"}`}>
+                    {variance === null ? "-" : `${variance > 0 ? "+" : ""}${variance}`}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+        <div className="space-y-2">
+          <Label htmlFor="stockTakeNote">Note</Label>
+          <Input
+            id="stockTakeNote"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="e.g. month end count"
+          />
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || counted.length === 0}>
+            Save Stock Take ({counted.length})
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,80 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { queryKeys } from '@/lib/queryKeys';
+import { mirrorPlaceholder, withMirror, writeOrQueue } from '@/lib/sync';
+import type { AccountSaleValues } from '@/lib/customerAccounts';
+
+export type AccountSaleRecord = Tables<'account_sales'>;
+
+// An account sale from the cash up dialog; sales without an id are new
+export type AccountSaleDraft = AccountSaleValues & { id?: string };
+
+const fetchSales = async () => {
+  const { data, error } = await supabase
+    .from('account_sales')
+    .select('*')
+    .order('sold_on');
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const useAccountSales = () => {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: queryKeys.accountSales,
+    queryFn: () => withMirror('account_sales', fetchSales),
+    placeholderData: mirrorPlaceholder<AccountSaleRecord>('account_sales'),
+  });
+
+  const sales = query.data ?? [];
+
+  // Brings the stored account sales of a cash up in line with the dialog,
+  // the same way as its expenses. Every sale takes the cash up's date.
+  const saveMutation = useMutation({
+    mutationFn: async ({ incomeRecordId, shopId, date, drafts }: { incomeRecordId: string; shopId: string; date: string; drafts: AccountSaleDraft[] }) => {
+      const existing = sales.filter(s => s.income_record_id === incomeRecordId);
+      const keptIds = new Set(drafts.map(d => d.id).filter(Boolean));
+
+      for (const sale of existing.filter(s => !keptIds.has(s.id))) {
+        await writeOrQueue({ table: 'account_sales', operation: 'delete', rowId: sale.id, base: sale });
+      }
+
+      for (const { id, ...values } of drafts) {
+        const base = existing.find(s => s.id === id);
+        if (base) {
+          await writeOrQueue({ table: 'account_sales', operation: 'update', rowId: id, values: { ...values, shop_id: shopId, sold_on: date }, base });
+        } else {
+          await writeOrQueue({
+            table: 'account_sales',
+            operation: 'insert',
+            values: {
+              id: crypto.randomUUID(),
+              income_record_id: incomeRecordId,
+              shop_id: shopId,
+              sold_on: date,
+              created_at: new Date().toISOString(),
+              ...values,
+            },
+          });
+        }
+      }
+    },
+    onError: (error) => console.error('Error saving account sales:', error),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.accountSales }),
+  });
+
+  const salesForRecord = (incomeRecordId: string) =>
+    sales.filter(s => s.income_record_id === incomeRecordId);
+
+  return {
+    sales,
+    salesForRecord,
+    loading: query.isLoading,
+    error: query.error,
+    saveAccountSales: (incomeRecordId: string, shopId: string, date: string, drafts: AccountSaleDraft[]) =>
+      saveMutation.mutateAsync({ incomeRecordId, shopId, date, drafts }),
+  };
+};
@@ -0,0 +1,70 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { queryKeys } from '@/lib/queryKeys';
+import type { AuditEntry } from '@/lib/audit';
+import type { ShopId } from '@/types';
+
+export interface AuditFilters {
+  shopId?: ShopId;
+  table?: string;
+}
+
+// Only the most recent entries are loaded; narrow the filters to go further back
+const AUDIT_LOG_LIMIT = 500;
+
+const fetchAuditLog = async ({ shopId, table }: AuditFilters): Promise<AuditEntry[]> => {
+  let query = supabase
+    .from('audit_log')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(AUDIT_LOG_LIMIT);
+
+  if (shopId && shopId !== 'All') query = query.eq('shop_id', shopId);
+  if (table && table !== 'All') query = query.eq('table_name', table);
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+  return data || [];
+};
+
+const fetchRecordHistory = async (table: string, recordId: string): Promise<AuditEntry[]> => {
+  const { data, error } = await supabase
+    .from('audit_log')
+    .select('*')
+    .eq('table_name', table)
+    .eq('record_id', recordId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const useAuditLog = (filters: AuditFilters = {}) => {
+  const query = useQuery({
+    queryKey: [...queryKeys.auditLog, filters],
+    queryFn: () => fetchAuditLog(filters),
+  });
+
+  return {
+    entries: query.data ?? [],
+    loading: query.isLoading,
+    error: query.error,
+    limit: AUDIT_LOG_LIMIT,
+  };
+};
+
+// History of a single row, only fetched while it is being looked at
+export const useRecordHistory = (table: string, recordId: string, enabled = true) => {
+  const query = useQuery({
+    queryKey: [...queryKeys.auditLog, table, recordId],
+    queryFn: () => fetchRecordHistory(table, recordId),
+    enabled,
+  });
+
+  return {
+    entries: query.data ?? [],
+    loading: query.isLoading,
+    error: query.error,
+  };
+};
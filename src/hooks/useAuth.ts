@@ -0,0 +1,69 @@
+import { useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import type { Session } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { queryKeys } from '@/lib/queryKeys';
+import { clearOfflineData } from '@/lib/storage';
+
+const fetchSession = async () => {
+  const { data, error } = await supabase.auth.getSession();
+
+  if (error) throw error;
+  return data.session;
+};
+
+export const useAuth = () => {
+  const queryClient = useQueryClient();
+
+  // The session is read from local storage, so this also works offline
+  const query = useQuery({
+    queryKey: queryKeys.session,
+    queryFn: fetchSession,
+    staleTime: Infinity,
+  });
+
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      queryClient.setQueryData<Session | null>(queryKeys.session, session);
+    });
+
+    return () => subscription.unsubscribe();
+  }, [queryClient]);
+
+  const signIn = async (email: string, password: string) => {
+    const { error } = await supabase.auth.signInWithPassword({ email, password });
+    if (error) throw error;
+  };
+
+  // Returns null when the project requires the email to be confirmed first
+  const signUp = async (email: string, password: string, fullName: string) => {
+    const { data, error } = await supabase.auth.signUp({
+      email,
+      password,
+      options: {
+        data: { full_name: fullName },
+        emailRedirectTo: window.location.origin,
+      },
+    });
+
+    if (error) throw error;
+    return data.session;
+  };
+
+  const signOut = async () => {
+    const { error } = await supabase.auth.signOut();
+    if (error) throw error;
+
+    clearOfflineData();
+    queryClient.clear();
+  };
+
+  return {
+    session: query.data ?? null,
+    user: query.data?.user ?? null,
+    loading: query.isLoading,
+    signIn,
+    signUp,
+    signOut,
+  };
+};
@@ -0,0 +1,191 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { queryKeys } from '@/lib/queryKeys';
+import {
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  fromDailyIncome,
+  fromOrder,
+  fromOrderLine,
+  fromShop,
+  fromSupply,
+  fromWeeklyBudget,
+  toDailyIncome,
+  toOrder,
+  toOrderLine,
+  toShop,
+  toSupply,
+  toWeeklyBudget,
+  type BackupArchive,
+  type CurrentData,
+  type RestorePlan,
+} from '@/lib/backup';
+
+// Supabase returns at most this many rows per request
+const PAGE_SIZE = 1000;
+// Ids per request when rows are picked out by id, to keep the URL short
+const ID_CHUNK = 100;
+const WRITE_BATCH = 500;
+
+const chunks = <T>(items: T[], size: number) =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, index) => items.slice(index * size, (index + 1) * size));
+
+const fetchAll = async <T>(read: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>) => {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await read(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+};
+
+// Every row of the shops, deleted ones included. Order lines have no shop
+// of their own and are picked out through their order's.
+const fetchShopData = async (shopIds: string[]) => {
+  const [shops, supplies, orders, orderLines, incomeRecords, weeklyBudgets] = await Promise.all([
+    fetchAll<Tables<'shops'>>((from, to) => supabase.from('shops').select('*').in('id', shopIds).order('id').range(from, to)),
+    fetchAll<Tables<'supplies'>>((from, to) => supabase.from('supplies').select('*').in('shop_id', shopIds).order('id').range(from, to)),
+    fetchAll<Tables<'orders'>>((from, to) => supabase.from('orders').select('*').in('shop_id', shopIds).order('id').range(from, to)),
+    fetchAll<Tables<'order_lines'>>((from, to) =>
+      supabase.from('order_lines').select('*, orders!inner(shop_id)').in('orders.shop_id', shopIds).order('id').range(from, to)),
+    fetchAll<Tables<'income_records'>>((from, to) => supabase.from('income_records').select('*').in('shop_id', shopIds).order('id').range(from, to)),
+    fetchAll<Tables<'weekly_budgets'>>((from, to) => supabase.from('weekly_budgets').select('*').in('shop_id', shopIds).order('id').range(from, to)),
+  ]);
+  return { shops, supplies, orders, orderLines, incomeRecords, weeklyBudgets };
+};
+
+const live = <T extends { deleted_at: string | null }>(rows: T[]) => rows.filter(row => row.deleted_at === null);
+
+const createBackup = async (shopIds: string[]): Promise<BackupArchive> => {
+  const data = await fetchShopData(shopIds);
+  const orders = live(data.orders);
+  const orderIds = new Set(orders.map(order => order.id));
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    shops: live(data.shops).map(toShop),
+    supplies: live(data.supplies).map(toSupply),
+    orders: orders.map(toOrder),
+    orderLines: data.orderLines.filter(line => orderIds.has(line.order_id)).map(toOrderLine),
+    incomeRecords: live(data.incomeRecords).map(toDailyIncome),
+    weeklyBudgets: data.weeklyBudgets.map(toWeeklyBudget),
+  };
+};
+
+const loadCurrent = async (archive: BackupArchive): Promise<CurrentData> => {
+  const data = await fetchShopData(archive.shops.map(shop => shop.id));
+  const entries = <R extends { deleted_at: string | null }, T>(rows: R[], map: (row: R) => T) =>
+    rows.map(row => ({ record: map(row), deleted: row.deleted_at !== null }));
+
+  return {
+    shops: entries(data.shops, toShop),
+    supplies: entries(data.supplies, toSupply),
+    orders: entries(data.orders, toOrder),
+    // Lines have no recycle bin of their own, they are in it with their order
+    orderLines: data.orderLines.map(row => ({ record: toOrderLine(row), deleted: false })),
+    incomeRecords: entries(data.incomeRecords, toDailyIncome),
+    weeklyBudgets: data.weeklyBudgets.map(row => ({ record: toWeeklyBudget(row), deleted: false })),
+  };
+};
+
+const check = ({ error }: { error: unknown }) => {
+  if (error) throw error;
+};
+
+// Rows removed by a replace go to the recycle bin like any other deletion.
+// Budgets and order lines have no recycle bin and are deleted.
+const removeRows = async (plan: RestorePlan) => {
+  const deletedAt = new Date().toISOString();
+  const ids = (diff: { removed: { id: string }[] }) => chunks(diff.removed.map(row => row.id), ID_CHUNK);
+
+  for (const chunk of ids(plan.orderLines)) {
+    check(await supabase.from('order_lines').delete().in('id', chunk));
+  }
+  for (const chunk of ids(plan.weeklyBudgets)) {
+    check(await supabase.from('weekly_budgets').delete().in('id', chunk));
+  }
+  for (const chunk of ids(plan.incomeRecords)) {
+    check(await supabase.from('income_records').update({ deleted_at: deletedAt }).in('id', chunk));
+  }
+  for (const chunk of ids(plan.orders)) {
+    check(await supabase.from('orders').update({ deleted_at: deletedAt }).in('id', chunk));
+  }
+  for (const chunk of ids(plan.supplies)) {
+    check(await supabase.from('supplies').update({ deleted_at: deletedAt }).in('id', chunk));
+  }
+};
+
+// Writes the backup's rows, shops first so everything after has its shop.
+// Restored rows come out of the recycle bin.
+const writeRows = async (plan: RestorePlan) => {
+  const rows = <T>(diff: { added: T[]; changed: T[] }) => (plan.mode === 'replace' ? [...diff.added, ...diff.changed] : diff.added);
+
+  for (const batch of chunks(rows(plan.shops).map(fromShop), WRITE_BATCH)) {
+    check(await supabase.from('shops').upsert(batch));
+  }
+  for (const batch of chunks(rows(plan.supplies).map(fromSupply), WRITE_BATCH)) {
+    check(await supabase.from('supplies').upsert(batch));
+  }
+  for (const batch of chunks(rows(plan.orders).map(fromOrder), WRITE_BATCH)) {
+    check(await supabase.from('orders').upsert(batch));
+  }
+  for (const batch of chunks(rows(plan.orderLines).map(fromOrderLine), WRITE_BATCH)) {
+    check(await supabase.from('order_lines').upsert(batch));
+  }
+  for (const batch of chunks(rows(plan.incomeRecords).map(fromDailyIncome), WRITE_BATCH)) {
+    check(await supabase.from('income_records').upsert(batch));
+  }
+  for (const batch of chunks(rows(plan.weeklyBudgets).map(fromWeeklyBudget), WRITE_BATCH)) {
+    check(await supabase.from('weekly_budgets').upsert(batch));
+  }
+};
+
+// Backups read and write straight through to Supabase, so they need a
+// connection. A restore runs table by table: check the dry run first, as a
+// restore that fails halfway keeps what it wrote so far.
+export const useBackups = () => {
+  const queryClient = useQueryClient();
+
+  const invalidate = () => Promise.all([
+    queryClient.invalidateQueries({ queryKey: queryKeys.shops }),
+    queryClient.invalidateQueries({ queryKey: queryKeys.supplies }),
+    queryClient.invalidateQueries({ queryKey: queryKeys.orders }),
+    queryClient.invalidateQueries({ queryKey: queryKeys.orderLines }),
+    queryClient.invalidateQueries({ queryKey: queryKeys.stockMovements }),
+    queryClient.invalidateQueries({ queryKey: queryKeys.incomeRecords }),
+    queryClient.invalidateQueries({ queryKey: queryKeys.weeklyBudgets }),
+    queryClient.invalidateQueries({ queryKey: queryKeys.recycleBin }),
+    queryClient.invalidateQueries({ queryKey: queryKeys.memberships }),
+  ]);
+
+  const backupMutation = useMutation({
+    mutationFn: createBackup,
+    onError: (error) => console.error('Error creating backup:', error),
+  });
+
+  const dryRunMutation = useMutation({
+    mutationFn: loadCurrent,
+    onError: (error) => console.error('Error reading data to restore over:', error),
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (plan: RestorePlan) => {
+      if (plan.mode === 'replace') await removeRows(plan);
+      await writeRows(plan);
+    },
+    onError: (error) => console.error('Error restoring backup:', error),
+    onSettled: invalidate,
+  });
+
+  return {
+    backingUp: backupMutation.isPending,
+    createBackup: backupMutation.mutateAsync,
+    checking: dryRunMutation.isPending,
+    loadCurrent: dryRunMutation.mutateAsync,
+    restoring: restoreMutation.isPending,
+    restoreBackup: restoreMutation.mutateAsync,
+  };
+};
@@ -0,0 +1,84 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesInsert } from '@/integrations/supabase/types';
+import { queryKeys } from '@/lib/queryKeys';
+import { mirrorPlaceholder, withMirror, writeOrQueue } from '@/lib/sync';
+import type { IncomeRecord } from '@/hooks/useIncomeRecords';
+
+export type BankDepositRecord = Tables<'bank_deposits'>;
+type BankDepositInsert = TablesInsert<'bank_deposits'>;
+
+const fetchDeposits = async () => {
+  const { data, error } = await supabase
+    .from('bank_deposits')
+    .select('*')
+    .order('deposited_on', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const useBankDeposits = () => {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: queryKeys.bankDeposits,
+    queryFn: () => withMirror('bank_deposits', fetchDeposits),
+    placeholderData: mirrorPlaceholder<BankDepositRecord>('bank_deposits'),
+  });
+
+  const deposits = query.data ?? [];
+
+  const cachedRecord = (id: string) =>
+    queryClient.getQueryData<IncomeRecord[]>(queryKeys.incomeRecords)?.find(r => r.id === id);
+
+  const invalidate = () => Promise.all([
+    queryClient.invalidateQueries({ queryKey: queryKeys.bankDeposits }),
+    queryClient.invalidateQueries({ queryKey: queryKeys.incomeRecords }),
+  ]);
+
+  // The slip is saved first so the cash ups can point at it
+  const createMutation = useMutation({
+    mutationFn: async ({ values, incomeRecordIds }: { values: BankDepositInsert; incomeRecordIds: string[] }) => {
+      const depositId = crypto.randomUUID();
+      await writeOrQueue({
+        table: 'bank_deposits',
+        operation: 'insert',
+        values: { id: depositId, created_at: new Date().toISOString(), ...values },
+      });
+      for (const id of incomeRecordIds) {
+        await writeOrQueue({
+          table: 'income_records',
+          operation: 'update',
+          rowId: id,
+          values: { deposit_id: depositId },
+          base: cachedRecord(id),
+        });
+      }
+    },
+    onError: (error) => console.error('Error saving bank deposit:', error),
+    onSettled: invalidate,
+  });
+
+  // Its cash ups count as undeposited again
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const records = queryClient.getQueryData<IncomeRecord[]>(queryKeys.incomeRecords) ?? [];
+      for (const record of records.filter(r => r.deposit_id === id)) {
+        await writeOrQueue({ table: 'income_records', operation: 'update', rowId: record.id, values: { deposit_id: null }, base: record });
+      }
+      await writeOrQueue({ table: 'bank_deposits', operation: 'delete', rowId: id, base: deposits.find(d => d.id === id) });
+    },
+    onError: (error) => console.error('Error deleting bank deposit:', error),
+    onSettled: invalidate,
+  });
+
+  return {
+    deposits,
+    loading: query.isLoading,
+    error: query.error,
+    createDeposit: (values: BankDepositInsert, incomeRecordIds: string[]) =>
+      createMutation.mutateAsync({ values, incomeRecordIds }),
+    deleteDeposit: deleteMutation.mutateAsync,
+  };
+};
@@ -0,0 +1,95 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { queryKeys } from '@/lib/queryKeys';
+import { mirrorPlaceholder, withMirror } from '@/lib/sync';
+import type { ExpectedCredit, ParsedStatementLine } from '@/lib/bankStatements';
+
+export type BankStatementLine = Tables<'bank_statement_lines'>;
+
+// A line is matched to an expected credit, or marked as needing no match
+export type LineMatch = Pick<ExpectedCredit, "kind" | "income_record_id" | "deposit_id"> | { kind: 'ignored' };
+
+const fetchLines = async () => {
+  const { data, error } = await supabase
+    .from('bank_statement_lines')
+    .select('*')
+    .order('posted_on', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+const matchValues = (match: LineMatch | null) => ({
+  match_kind: match?.kind ?? null,
+  income_record_id: match && 'income_record_id' in match ? match.income_record_id : null,
+  deposit_id: match && 'deposit_id' in match ? match.deposit_id : null,
+  matched_at: match ? new Date().toISOString() : null,
+});
+
+// Statements are imported and reconciled in the back office, so unlike the
+// cash up these changes need a connection
+export const useBankStatementLines = () => {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: queryKeys.bankStatementLines,
+    queryFn: () => withMirror('bank_statement_lines', fetchLines),
+    placeholderData: mirrorPlaceholder<BankStatementLine>('bank_statement_lines'),
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: queryKeys.bankStatementLines });
+
+  // Lines already imported from an earlier, overlapping statement are skipped
+  const importMutation = useMutation({
+    mutationFn: async ({ shopId, lines }: { shopId: string; lines: ParsedStatementLine[] }) => {
+      const { data, error } = await supabase
+        .from('bank_statement_lines')
+        .upsert(lines.map(line => ({ ...line, shop_id: shopId })), { onConflict: 'shop_id,external_id', ignoreDuplicates: true })
+        .select('id');
+
+      if (error) throw error;
+      return data?.length ?? 0;
+    },
+    onError: (error) => console.error('Error importing bank statement:', error),
+    onSettled: invalidate,
+  });
+
+  const matchMutation = useMutation({
+    mutationFn: async (matches: { lineId: string; match: LineMatch | null }[]) => {
+      for (const { lineId, match } of matches) {
+        const { error } = await supabase
+          .from('bank_statement_lines')
+          .update(matchValues(match))
+          .eq('id', lineId);
+
+        if (error) throw error;
+      }
+    },
+    onError: (error) => console.error('Error matching bank statement lines:', error),
+    onSettled: invalidate,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('bank_statement_lines')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onError: (error) => console.error('Error deleting bank statement line:', error),
+    onSettled: invalidate,
+  });
+
+  return {
+    lines: query.data ?? [],
+    loading: query.isLoading,
+    error: query.error,
+    importLines: (shopId: string, lines: ParsedStatementLine[]) => importMutation.mutateAsync({ shopId, lines }),
+    matchLines: matchMutation.mutateAsync,
+    matchLine: (lineId: string, match: LineMatch | null) => matchMutation.mutateAsync([{ lineId, match }]),
+    deleteLine: deleteMutation.mutateAsync,
+  };
+};
@@ -0,0 +1,54 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesInsert } from '@/integrations/supabase/types';
+import { queryKeys } from '@/lib/queryKeys';
+import { mirrorPlaceholder, withMirror, writeOrQueue } from '@/lib/sync';
+import { optimisticInsert, optimisticRemove } from '@/lib/optimistic';
+
+export type CustomerPaymentRecord = Tables<'customer_payments'>;
+type CustomerPaymentInsert = TablesInsert<'customer_payments'>;
+
+const fetchPayments = async () => {
+  const { data, error } = await supabase
+    .from('customer_payments')
+    .select('*')
+    .order('paid_on', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const useCustomerPayments = () => {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: queryKeys.customerPayments,
+    queryFn: () => withMirror('customer_payments', fetchPayments),
+    placeholderData: mirrorPlaceholder<CustomerPaymentRecord>('customer_payments'),
+  });
+
+  const createMutation = useMutation({
+    mutationFn: (values: CustomerPaymentInsert) =>
+      writeOrQueue({ table: 'customer_payments', operation: 'insert', values }),
+    ...optimisticInsert<CustomerPaymentRecord, CustomerPaymentInsert>(queryClient, queryKeys.customerPayments),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) =>
+      writeOrQueue({
+        table: 'customer_payments',
+        operation: 'delete',
+        rowId: id,
+        base: query.data?.find(p => p.id === id),
+      }),
+    ...optimisticRemove<CustomerPaymentRecord>(queryClient, queryKeys.customerPayments),
+  });
+
+  return {
+    payments: query.data ?? [],
+    loading: query.isLoading,
+    error: query.error,
+    recordPayment: (values: CustomerPaymentInsert) => createMutation.mutateAsync({ id: crypto.randomUUID(), ...values }),
+    deletePayment: deleteMutation.mutateAsync,
+  };
+};
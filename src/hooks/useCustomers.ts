@@ -0,0 +1,89 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+import { queryKeys } from '@/lib/queryKeys';
+import { mirrorPlaceholder, withMirror } from '@/lib/sync';
+
+export type CustomerRecord = Tables<'customers'>;
+type CustomerInsert = TablesInsert<'customers'>;
+type CustomerUpdate = TablesUpdate<'customers'>;
+
+const fetchCustomers = async () => {
+  const { data, error } = await supabase
+    .from('customers')
+    .select('*')
+    .order('name');
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Turns database errors into messages the form can show as is
+const saveError = (error: { code?: string }, name?: string) => {
+  if (error.code === '23505') return new Error(`Customer "${name}" already exists at this shop`);
+  if (error.code === '23503') return new Error("This customer has account sales or payments, deactivate them instead");
+  return error;
+};
+
+export const useCustomers = () => {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: queryKeys.customers,
+    queryFn: () => withMirror('customers', fetchCustomers),
+    placeholderData: mirrorPlaceholder<CustomerRecord>('customers'),
+  });
+
+  const customers = query.data ?? [];
+
+  const createMutation = useMutation({
+    mutationFn: async (values: CustomerInsert) => {
+      const { error } = await supabase
+        .from('customers')
+        .insert([values]);
+
+      if (error) throw saveError(error, values.name);
+    },
+    onError: (error) => console.error('Error adding customer:', error),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.customers }),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, values }: { id: string; values: CustomerUpdate }) => {
+      const { error } = await supabase
+        .from('customers')
+        .update(values)
+        .eq('id', id);
+
+      if (error) throw saveError(error, values.name);
+    },
+    onError: (error) => console.error('Error updating customer:', error),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.customers }),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('customers')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw saveError(error);
+    },
+    onError: (error) => console.error('Error deleting customer:', error),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.customers }),
+  });
+
+  const getCustomerName = (id: string | null) =>
+    customers.find(customer => customer.id === id)?.name ?? 'Unknown customer';
+
+  return {
+    customers,
+    getCustomerName,
+    loading: query.isLoading,
+    error: query.error,
+    createCustomer: createMutation.mutateAsync,
+    updateCustomer: (id: string, values: CustomerUpdate) => updateMutation.mutateAsync({ id, values }),
+    deleteCustomer: deleteMutation.mutateAsync,
+  };
+};
@@ -0,0 +1,96 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesInsert } from '@/integrations/supabase/types';
+import { queryKeys } from '@/lib/queryKeys';
+import { mirrorPlaceholder, withMirror, writeOrQueue } from '@/lib/sync';
+
+export type DeliveryRecord = Tables<'deliveries'>;
+export type DeliveryLineRecord = Tables<'delivery_lines'>;
+type DeliveryInsert = TablesInsert<'deliveries'>;
+export type DeliveryLineValues = Omit<TablesInsert<'delivery_lines'>, 'id' | 'delivery_id' | 'created_at'>;
+
+const fetchDeliveries = async () => {
+  const { data, error } = await supabase
+    .from('deliveries')
+    .select('*')
+    .order('received_on', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+const fetchDeliveryLines = async () => {
+  const { data, error } = await supabase
+    .from('delivery_lines')
+    .select('*')
+    .order('created_at');
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const useDeliveries = () => {
+  const queryClient = useQueryClient();
+
+  const deliveriesQuery = useQuery({
+    queryKey: queryKeys.deliveries,
+    queryFn: () => withMirror('deliveries', fetchDeliveries),
+    placeholderData: mirrorPlaceholder<DeliveryRecord>('deliveries'),
+  });
+
+  const linesQuery = useQuery({
+    queryKey: queryKeys.deliveryLines,
+    queryFn: () => withMirror('delivery_lines', fetchDeliveryLines),
+    placeholderData: mirrorPlaceholder<DeliveryLineRecord>('delivery_lines'),
+  });
+
+  const deliveries = deliveriesQuery.data ?? [];
+  const deliveryLines = linesQuery.data ?? [];
+
+  // Delivered quantities, order status and stock are all worked out on the
+  // server from delivery lines, so those lists change with every delivery
+  const invalidateAffected = () => Promise.all([
+    queryClient.invalidateQueries({ queryKey: queryKeys.deliveries }),
+    queryClient.invalidateQueries({ queryKey: queryKeys.deliveryLines }),
+    queryClient.invalidateQueries({ queryKey: queryKeys.orderLines }),
+    queryClient.invalidateQueries({ queryKey: queryKeys.orders }),
+    queryClient.invalidateQueries({ queryKey: queryKeys.stockMovements }),
+  ]);
+
+  const receiveMutation = useMutation({
+    mutationFn: async ({ delivery, lines }: { delivery: DeliveryInsert; lines: DeliveryLineValues[] }) => {
+      const deliveryId = crypto.randomUUID();
+      const createdAt = new Date().toISOString();
+
+      await writeOrQueue({ table: 'deliveries', operation: 'insert', values: { id: deliveryId, created_at: createdAt, ...delivery } });
+      for (const line of lines) {
+        await writeOrQueue({
+          table: 'delivery_lines',
+          operation: 'insert',
+          values: { id: crypto.randomUUID(), delivery_id: deliveryId, created_at: createdAt, ...line },
+        });
+      }
+    },
+    onError: (error) => console.error('Error recording delivery:', error),
+    onSettled: invalidateAffected,
+  });
+
+  // Removing a delivery takes its lines with it and reverses what they added
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) =>
+      writeOrQueue({ table: 'deliveries', operation: 'delete', rowId: id, base: deliveries.find(d => d.id === id) }),
+    onError: (error) => console.error('Error deleting delivery:', error),
+    onSettled: invalidateAffected,
+  });
+
+  return {
+    deliveries,
+    deliveryLines,
+    deliveriesForOrder: (orderId: string) => deliveries.filter(d => d.order_id === orderId),
+    linesForDelivery: (deliveryId: string) => deliveryLines.filter(l => l.delivery_id === deliveryId),
+    loading: deliveriesQuery.isLoading || linesQuery.isLoading,
+    error: deliveriesQuery.error || linesQuery.error,
+    receiveDelivery: (delivery: DeliveryInsert, lines: DeliveryLineValues[]) => receiveMutation.mutateAsync({ delivery, lines }),
+    deleteDelivery: deleteMutation.mutateAsync,
+  };
+};
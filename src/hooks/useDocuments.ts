@@ -0,0 +1,79 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { queryKeys } from '@/lib/queryKeys';
+import { documentFileName, type DocumentSpec } from '@/lib/documents';
+import { downloadBlob } from '@/lib/download';
+
+export type DocumentRecord = Tables<'documents'>;
+
+const BUCKET = 'documents';
+
+const fetchDocuments = async () => {
+  const { data, error } = await supabase
+    .from('documents')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+const downloadDocument = async (doc: DocumentRecord) => {
+  const { data, error } = await supabase.storage.from(BUCKET).download(doc.storage_path);
+  if (error) throw error;
+  downloadBlob(data, documentFileName(doc.title));
+};
+
+// PDFs are rendered and archived by the render-document edge function, so
+// producing one needs a connection
+export const useDocuments = () => {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: queryKeys.documents,
+    queryFn: fetchDocuments,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: queryKeys.documents });
+
+  // Renders the document, files it in the archive and downloads it
+  const generateMutation = useMutation({
+    mutationFn: async (spec: DocumentSpec) => {
+      const { data, error } = await supabase.functions.invoke<DocumentRecord>('render-document', { body: spec });
+      if (error) throw error;
+
+      await downloadDocument(data);
+      return data;
+    },
+    onError: (error) => console.error('Error generating document:', error),
+    onSettled: invalidate,
+  });
+
+  const downloadMutation = useMutation({
+    mutationFn: downloadDocument,
+    onError: (error) => console.error('Error downloading document:', error),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (doc: DocumentRecord) => {
+      const { error: storageError } = await supabase.storage.from(BUCKET).remove([doc.storage_path]);
+      if (storageError) throw storageError;
+
+      const { error } = await supabase.from('documents').delete().eq('id', doc.id);
+      if (error) throw error;
+    },
+    onError: (error) => console.error('Error deleting document:', error),
+    onSettled: invalidate,
+  });
+
+  return {
+    documents: query.data ?? [],
+    loading: query.isLoading,
+    error: query.error,
+    generating: generateMutation.isPending,
+    generateDocument: generateMutation.mutateAsync,
+    downloadDocument: downloadMutation.mutateAsync,
+    deleteDocument: deleteMutation.mutateAsync,
+  };
+};
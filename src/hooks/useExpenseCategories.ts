@@ -0,0 +1,91 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+import { queryKeys } from '@/lib/queryKeys';
+import { mirrorPlaceholder, withMirror } from '@/lib/sync';
+
+export type ExpenseCategory = Tables<'expense_categories'>;
+type ExpenseCategoryInsert = TablesInsert<'expense_categories'>;
+type ExpenseCategoryUpdate = TablesUpdate<'expense_categories'>;
+
+const fetchCategories = async () => {
+  const { data, error } = await supabase
+    .from('expense_categories')
+    .select('*')
+    .order('name');
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Turns a duplicate name into a message the form can show as is
+const saveError = (error: { code?: string }, name?: string) =>
+  error.code === '23505' ? new Error(`Category "${name}" already exists`) : error;
+
+export const useExpenseCategories = () => {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: queryKeys.expenseCategories,
+    queryFn: () => withMirror('expense_categories', fetchCategories),
+    placeholderData: mirrorPlaceholder<ExpenseCategory>('expense_categories'),
+  });
+
+  const categories = query.data ?? [];
+
+  const createMutation = useMutation({
+    mutationFn: async (values: ExpenseCategoryInsert) => {
+      const { error } = await supabase
+        .from('expense_categories')
+        .insert([values]);
+
+      if (error) throw saveError(error, values.name);
+    },
+    onError: (error) => console.error('Error adding expense category:', error),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.expenseCategories }),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, values }: { id: string; values: ExpenseCategoryUpdate }) => {
+      const { error } = await supabase
+        .from('expense_categories')
+        .update(values)
+        .eq('id', id);
+
+      if (error) throw saveError(error, values.name);
+    },
+    onError: (error) => console.error('Error updating expense category:', error),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.expenseCategories }),
+  });
+
+  // Expenses in a deleted category become uncategorised
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('expense_categories')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onError: (error) => console.error('Error deleting expense category:', error),
+    onSettled: () => Promise.all([
+      queryClient.invalidateQueries({ queryKey: queryKeys.expenseCategories }),
+      queryClient.invalidateQueries({ queryKey: queryKeys.expenses }),
+    ]),
+  });
+
+  const getCategoryName = (id: string | null) =>
+    categories.find(category => category.id === id)?.name ?? 'Uncategorised';
+
+  return {
+    categories,
+    activeCategories: categories.filter(category => category.is_active),
+    getCategoryName,
+    loading: query.isLoading,
+    error: query.error,
+    createCategory: createMutation.mutateAsync,
+    updateCategory: (id: string, values: ExpenseCategoryUpdate) => updateMutation.mutateAsync({ id, values }),
+    deleteCategory: deleteMutation.mutateAsync,
+  };
+};
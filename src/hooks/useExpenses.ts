@@ -0,0 +1,79 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { queryKeys } from '@/lib/queryKeys';
+import { mirrorPlaceholder, withMirror, writeOrQueue } from '@/lib/sync';
+import type { ExpenseValues } from '@/lib/expenses';
+
+export type ExpenseRecord = Tables<'expenses'>;
+
+// An expense from the cash up dialog; expenses without an id are new
+export type ExpenseDraft = ExpenseValues & { id?: string };
+
+const fetchExpenses = async () => {
+  const { data, error } = await supabase
+    .from('expenses')
+    .select('*')
+    .order('created_at');
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const useExpenses = () => {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: queryKeys.expenses,
+    queryFn: () => withMirror('expenses', fetchExpenses),
+    placeholderData: mirrorPlaceholder<ExpenseRecord>('expenses'),
+  });
+
+  const expenses = query.data ?? [];
+
+  // Brings the stored expenses of a cash up in line with the dialog: removed
+  // ones are deleted, new ones inserted and the rest updated in place.
+  const saveMutation = useMutation({
+    mutationFn: async ({ incomeRecordId, shopId, drafts }: { incomeRecordId: string; shopId: string; drafts: ExpenseDraft[] }) => {
+      const existing = expenses.filter(e => e.income_record_id === incomeRecordId);
+      const keptIds = new Set(drafts.map(d => d.id).filter(Boolean));
+
+      for (const expense of existing.filter(e => !keptIds.has(e.id))) {
+        await writeOrQueue({ table: 'expenses', operation: 'delete', rowId: expense.id, base: expense });
+      }
+
+      for (const { id, ...values } of drafts) {
+        const base = existing.find(e => e.id === id);
+        if (base) {
+          await writeOrQueue({ table: 'expenses', operation: 'update', rowId: id, values: { ...values, shop_id: shopId }, base });
+        } else {
+          await writeOrQueue({
+            table: 'expenses',
+            operation: 'insert',
+            values: {
+              id: crypto.randomUUID(),
+              income_record_id: incomeRecordId,
+              shop_id: shopId,
+              created_at: new Date().toISOString(),
+              ...values,
+            },
+          });
+        }
+      }
+    },
+    onError: (error) => console.error('Error saving expenses:', error),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.expenses }),
+  });
+
+  const expensesForRecord = (incomeRecordId: string) =>
+    expenses.filter(e => e.income_record_id === incomeRecordId);
+
+  return {
+    expenses,
+    expensesForRecord,
+    loading: query.isLoading,
+    error: query.error,
+    saveExpenses: (incomeRecordId: string, shopId: string, drafts: ExpenseDraft[]) =>
+      saveMutation.mutateAsync({ incomeRecordId, shopId, drafts }),
+  };
+};
@@ -0,0 +1,125 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesInsert } from '@/integrations/supabase/types';
+import { queryKeys } from '@/lib/queryKeys';
+import type { ImportTarget, ImportValues } from '@/lib/imports';
+
+export type DataImport = Tables<'data_imports'>;
+
+const BATCH_SIZE = 100;
+
+// How an import went. A batch that fails stops the import; the rows of
+// the batches before it stay in until the import is rolled back.
+export interface ImportResult {
+  dataImport: DataImport;
+  imported: number;
+  // Why the import stopped, when it did
+  error: string | null;
+}
+
+const fetchImports = async () => {
+  const { data, error } = await supabase
+    .from('data_imports')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+const insertBatch = async (target: ImportTarget, importId: string, rows: ImportValues[]) => {
+  const { error } = target === 'supplies'
+    ? await supabase.from('supplies').insert((rows as TablesInsert<'supplies'>[]).map(row => ({ ...row, import_id: importId })))
+    : target === 'orders'
+      ? await supabase.from('orders').insert((rows as TablesInsert<'orders'>[]).map(row => ({ ...row, import_id: importId })))
+      : await supabase.from('income_records').insert((rows as TablesInsert<'income_records'>[]).map(row => ({ ...row, import_id: importId })));
+
+  if (error) throw error;
+};
+
+// Imports are an onboarding job for the back office, so like statements
+// they need a connection
+export const useImports = () => {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: queryKeys.dataImports,
+    queryFn: fetchImports,
+  });
+
+  // Rolling back supplies unlinks the orders placed for them and removes
+  // their stock movements and price history
+  const invalidate = () => Promise.all([
+    queryClient.invalidateQueries({ queryKey: queryKeys.dataImports }),
+    queryClient.invalidateQueries({ queryKey: queryKeys.supplies }),
+    queryClient.invalidateQueries({ queryKey: queryKeys.orders }),
+    queryClient.invalidateQueries({ queryKey: queryKeys.orderLines }),
+    queryClient.invalidateQueries({ queryKey: queryKeys.stockMovements }),
+    queryClient.invalidateQueries({ queryKey: queryKeys.priceHistory }),
+    queryClient.invalidateQueries({ queryKey: queryKeys.incomeRecords }),
+  ]);
+
+  const importMutation = useMutation({
+    mutationFn: async ({ target, fileName, rows, onProgress }: {
+      target: ImportTarget;
+      fileName: string;
+      rows: ImportValues[];
+      onProgress?: (imported: number) => void;
+    }): Promise<ImportResult> => {
+      const { data: dataImport, error: createError } = await supabase
+        .from('data_imports')
+        .insert({ target, file_name: fileName })
+        .select()
+        .single();
+
+      if (createError) throw createError;
+
+      let imported = 0;
+      let error: string | null = null;
+      for (let start = 0; start < rows.length && !error; start += BATCH_SIZE) {
+        const batch = rows.slice(start, start + BATCH_SIZE);
+        try {
+          await insertBatch(target, dataImport.id, batch);
+          imported += batch.length;
+          onProgress?.(imported);
+        } catch (batchError) {
+          console.error('Error importing batch:', batchError);
+          error = batchError.message ?? String(batchError);
+        }
+      }
+
+      const { data, error: countError } = await supabase
+        .from('data_imports')
+        .update({ row_count: imported })
+        .eq('id', dataImport.id)
+        .select()
+        .single();
+
+      if (countError) throw countError;
+      return { dataImport: data, imported, error };
+    },
+    onError: (error) => console.error('Error importing file:', error),
+    onSettled: invalidate,
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { data, error } = await supabase.rpc('rollback_import', { _import_id: id });
+
+      if (error) throw error;
+      return data;
+    },
+    onError: (error) => console.error('Error rolling back import:', error),
+    onSettled: invalidate,
+  });
+
+  return {
+    imports: query.data ?? [],
+    loading: query.isLoading,
+    error: query.error,
+    importing: importMutation.isPending,
+    runImport: importMutation.mutateAsync,
+    rollingBack: rollbackMutation.isPending,
+    rollbackImport: rollbackMutation.mutateAsync,
+  };
+};
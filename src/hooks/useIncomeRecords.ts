@@ -0,0 +1,64 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+import { queryKeys } from '@/lib/queryKeys';
+import { mirrorPlaceholder, withMirror, writeOrQueue } from '@/lib/sync';
+import { optimisticInsert, optimisticRemove, optimisticUpdate } from '@/lib/optimistic';
+
+export type IncomeRecord = Tables<'income_records'>;
+type IncomeRecordInsert = TablesInsert<'income_records'>;
+type IncomeRecordUpdate = TablesUpdate<'income_records'>;
+
+const fetchIncomeRecords = async () => {
+  const { data, error } = await supabase
+    .from('income_records')
+    .select('*')
+    .is('deleted_at', null)
+    .order('date', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const useIncomeRecords = () => {
+  const queryClient = useQueryClient();
+
+  // Snapshot of the row as the user last saw it, used to detect conflicts
+  // when an offline change is synced later
+  const cachedRow = (id: string) =>
+    queryClient.getQueryData<IncomeRecord[]>(queryKeys.incomeRecords)?.find(r => r.id === id);
+
+  const query = useQuery({
+    queryKey: queryKeys.incomeRecords,
+    queryFn: () => withMirror('income_records', fetchIncomeRecords),
+    placeholderData: mirrorPlaceholder<IncomeRecord>('income_records'),
+  });
+
+  const createMutation = useMutation({
+    mutationFn: (values: IncomeRecordInsert) =>
+      writeOrQueue({ table: 'income_records', operation: 'insert', values }),
+    ...optimisticInsert<IncomeRecord, IncomeRecordInsert>(queryClient, queryKeys.incomeRecords),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, values }: { id: string; values: IncomeRecordUpdate }) =>
+      writeOrQueue({ table: 'income_records', operation: 'update', rowId: id, values, base: cachedRow(id) }),
+    ...optimisticUpdate<IncomeRecord, IncomeRecordUpdate>(queryClient, queryKeys.incomeRecords),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) =>
+      writeOrQueue({ table: 'income_records', operation: 'update', rowId: id, values: { deleted_at: new Date().toISOString() }, base: cachedRow(id) }),
+    ...optimisticRemove<IncomeRecord>(queryClient, queryKeys.incomeRecords),
+  });
+
+  return {
+    incomeRecords: query.data ?? [],
+    loading: query.isLoading,
+    error: query.error,
+    refreshIncomeRecords: query.refetch,
+    createIncomeRecord: (values: IncomeRecordInsert) => createMutation.mutateAsync({ id: crypto.randomUUID(), ...values }),
+    updateIncomeRecord: (id: string, values: IncomeRecordUpdate) => updateMutation.mutateAsync({ id, values }),
+    deleteIncomeRecord: deleteMutation.mutateAsync,
+  };
+};
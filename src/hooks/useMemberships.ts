@@ -0,0 +1,58 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { queryKeys } from '@/lib/queryKeys';
+import { mirrorPlaceholder, withMirror } from '@/lib/sync';
+import { useAuth } from '@/hooks/useAuth';
+import type { ShopId, ShopRole } from '@/types';
+
+export interface Membership {
+  id: string;
+  shop_id: ShopId;
+  shop_name: string;
+  role: ShopRole;
+}
+
+const fetchMemberships = async (userId: string): Promise<Membership[]> => {
+  const { data, error } = await supabase
+    .from('shop_members')
+    .select('id, shop_id, role, shops(name, deleted_at)')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  return (data || []).filter(row => !row.shops?.deleted_at).map(row => ({
+    id: row.id,
+    shop_id: row.shop_id,
+    shop_name: row.shops?.name ?? '',
+    role: row.role,
+  }));
+};
+
+// The signed in user's roles, one per shop they belong to
+export const useMemberships = () => {
+  const { user } = useAuth();
+
+  const query = useQuery({
+    queryKey: [...queryKeys.memberships, user?.id],
+    queryFn: () => withMirror('shop_members', () => fetchMemberships(user.id)),
+    placeholderData: mirrorPlaceholder<Membership>('shop_members'),
+    enabled: !!user,
+  });
+
+  const memberships = query.data ?? [];
+  const managedShops = memberships.filter(m => m.role !== 'cashier').map(m => m.shop_id);
+
+  const roleFor = (shopId: ShopId): ShopRole | null =>
+    memberships.find(m => m.shop_id === shopId)?.role ?? null;
+
+  // "All" combines every shop, which only managers get to see
+  const canManage = (shopId: ShopId) =>
+    shopId === 'All' ? managedShops.length > 0 : managedShops.includes(shopId);
+
+  return {
+    memberships,
+    loading: !!user && query.isLoading,
+    roleFor,
+    canManage,
+    isOwner: memberships.some(m => m.role === 'owner'),
+  };
+};
@@ -0,0 +1,60 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { getOutbox } from '@/lib/storage';
+import { replayOutbox, resolveConflict, subscribeOutbox } from '@/lib/sync';
+import type { OutboxEntry } from '@/types';
+
+export const useOfflineSync = () => {
+  const queryClient = useQueryClient();
+  const [entries, setEntries] = useState<OutboxEntry[]>(getOutbox);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [syncing, setSyncing] = useState(false);
+
+  const syncNow = useCallback(async () => {
+    try {
+      setSyncing(true);
+      await replayOutbox();
+    } catch (error) {
+      console.error('Error syncing offline changes:', error);
+    } finally {
+      setSyncing(false);
+      queryClient.invalidateQueries();
+    }
+  }, [queryClient]);
+
+  // Replaying picks up the changes that waited behind the conflict
+  const resolve = async (id: string, keep: 'mine' | 'theirs') => {
+    await resolveConflict(id, keep);
+    await syncNow();
+  };
+
+  useEffect(() => subscribeOutbox(() => setEntries(getOutbox())), []);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncNow();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    // Replay anything left over from a previous session
+    syncNow();
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [syncNow]);
+
+  return {
+    isOnline,
+    syncing,
+    pendingCount: entries.filter(e => e.status === 'pending').length,
+    conflicts: entries.filter(e => e.status === 'conflict'),
+    syncNow,
+    resolveConflict: resolve,
+  };
+};
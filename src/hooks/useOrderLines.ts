@@ -0,0 +1,78 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { queryKeys } from '@/lib/queryKeys';
+import { mirrorPlaceholder, withMirror, writeOrQueue } from '@/lib/sync';
+import type { OrderLineValues } from '@/lib/orderLines';
+
+export type OrderLineRecord = Tables<'order_lines'>;
+
+// A line from the order dialog; lines without an id are new
+export type OrderLineDraft = OrderLineValues & { id?: string };
+
+const fetchOrderLines = async () => {
+  const { data, error } = await supabase
+    .from('order_lines')
+    .select('*')
+    .order('created_at');
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const useOrderLines = () => {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: queryKeys.orderLines,
+    queryFn: () => withMirror('order_lines', fetchOrderLines),
+    placeholderData: mirrorPlaceholder<OrderLineRecord>('order_lines'),
+  });
+
+  const lines = query.data ?? [];
+
+  // Brings the stored lines of an order in line with the dialog: removed
+  // lines are deleted, new ones inserted and the rest updated in place.
+  // Only the delivery trigger sets quantity_delivered; new lines start at 0.
+  const saveMutation = useMutation({
+    mutationFn: async ({ orderId, drafts }: { orderId: string; drafts: OrderLineDraft[] }) => {
+      const existing = lines.filter(l => l.order_id === orderId);
+      const keptIds = new Set(drafts.map(d => d.id).filter(Boolean));
+
+      for (const line of existing.filter(l => !keptIds.has(l.id))) {
+        await writeOrQueue({ table: 'order_lines', operation: 'delete', rowId: line.id, base: line });
+      }
+
+      for (const { id, quantity_delivered, ...values } of drafts) {
+        const base = existing.find(l => l.id === id);
+        if (base) {
+          await writeOrQueue({ table: 'order_lines', operation: 'update', rowId: id, values, base });
+        } else {
+          await writeOrQueue({
+            table: 'order_lines',
+            operation: 'insert',
+            values: { id: crypto.randomUUID(), order_id: orderId, created_at: new Date().toISOString(), quantity_delivered: 0, ...values },
+          });
+        }
+      }
+    },
+    onError: (error) => console.error('Error saving order lines:', error),
+    // The server rolls the lines up into the order and books deliveries
+    // into stock, so those lists change too
+    onSettled: () => Promise.all([
+      queryClient.invalidateQueries({ queryKey: queryKeys.orderLines }),
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders }),
+      queryClient.invalidateQueries({ queryKey: queryKeys.stockMovements }),
+    ]),
+  });
+
+  const linesForOrder = (orderId: string) => lines.filter(l => l.order_id === orderId);
+
+  return {
+    orderLines: lines,
+    linesForOrder,
+    loading: query.isLoading,
+    error: query.error,
+    saveOrderLines: (orderId: string, drafts: OrderLineDraft[]) => saveMutation.mutateAsync({ orderId, drafts }),
+  };
+};
@@ -0,0 +1,64 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+import { queryKeys } from '@/lib/queryKeys';
+import { mirrorPlaceholder, withMirror, writeOrQueue } from '@/lib/sync';
+import { optimisticInsert, optimisticRemove, optimisticUpdate } from '@/lib/optimistic';
+
+export type OrderRecord = Tables<'orders'>;
+type OrderInsert = TablesInsert<'orders'>;
+type OrderUpdate = TablesUpdate<'orders'>;
+
+const fetchOrders = async () => {
+  const { data, error } = await supabase
+    .from('orders')
+    .select('*')
+    .is('deleted_at', null)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const useOrders = () => {
+  const queryClient = useQueryClient();
+
+  // Snapshot of the row as the user last saw it, used to detect conflicts
+  // when an offline change is synced later
+  const cachedRow = (id: string) =>
+    queryClient.getQueryData<OrderRecord[]>(queryKeys.orders)?.find(r => r.id === id);
+
+  const query = useQuery({
+    queryKey: queryKeys.orders,
+    queryFn: () => withMirror('orders', fetchOrders),
+    placeholderData: mirrorPlaceholder<OrderRecord>('orders'),
+  });
+
+  const createMutation = useMutation({
+    mutationFn: (values: OrderInsert) =>
+      writeOrQueue({ table: 'orders', operation: 'insert', values }),
+    ...optimisticInsert<OrderRecord, OrderInsert>(queryClient, queryKeys.orders),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, values }: { id: string; values: OrderUpdate }) =>
+      writeOrQueue({ table: 'orders', operation: 'update', rowId: id, values, base: cachedRow(id) }),
+    ...optimisticUpdate<OrderRecord, OrderUpdate>(queryClient, queryKeys.orders),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) =>
+      writeOrQueue({ table: 'orders', operation: 'update', rowId: id, values: { deleted_at: new Date().toISOString() }, base: cachedRow(id) }),
+    ...optimisticRemove<OrderRecord>(queryClient, queryKeys.orders),
+  });
+
+  return {
+    orders: query.data ?? [],
+    loading: query.isLoading,
+    error: query.error,
+    refreshOrders: query.refetch,
+    createOrder: (values: OrderInsert) => createMutation.mutateAsync({ id: crypto.randomUUID(), ...values }),
+    updateOrder: (id: string, values: OrderUpdate) => updateMutation.mutateAsync({ id, values }),
+    deleteOrder: deleteMutation.mutateAsync,
+  };
+};
@@ -0,0 +1,51 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { queryKeys } from '@/lib/queryKeys';
+
+export type PriceHistoryEntry = Tables<'price_history'>;
+
+export interface PriceChange {
+  entry: PriceHistoryEntry;
+  previous: PriceHistoryEntry;
+}
+
+const fetchPriceHistory = async (): Promise<PriceHistoryEntry[]> => {
+  const { data, error } = await supabase
+    .from('price_history')
+    .select('*')
+    .order('recorded_at');
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Entries where a supply's price or unit differs from the one before it.
+// Saving a supply or order at the same price is recorded but not a change.
+export const findPriceChanges = (entries: PriceHistoryEntry[]): PriceChange[] => {
+  const last = new Map<string, PriceHistoryEntry>();
+  const changes: PriceChange[] = [];
+
+  entries.forEach(entry => {
+    const previous = last.get(entry.supply_id);
+    if (previous && (previous.unit_price !== entry.unit_price || previous.unit !== entry.unit)) {
+      changes.push({ entry, previous });
+    }
+    last.set(entry.supply_id, entry);
+  });
+
+  return changes;
+};
+
+export const usePriceHistory = () => {
+  const query = useQuery({
+    queryKey: queryKeys.priceHistory,
+    queryFn: fetchPriceHistory,
+  });
+
+  return {
+    priceHistory: query.data ?? [],
+    loading: query.isLoading,
+    error: query.error,
+  };
+};
@@ -0,0 +1,125 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { queryKeys } from '@/lib/queryKeys';
+
+export type RecycleTable = 'shops' | 'supplies' | 'orders' | 'income_records';
+
+export interface DeletedItem {
+  table: RecycleTable;
+  id: string;
+  label: string;
+  shop_id: string;
+  shop_name: string;
+  deleted_at: string;
+  // Rows that were deleted together with this one and come back with it
+  dependents: DeletedItem[];
+}
+
+const fetchDeleted = async <T extends RecycleTable>(table: T) => {
+  const { data, error } = await supabase
+    .from(table)
+    .select('*')
+    .not('deleted_at', 'is', null)
+    .order('deleted_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+const fetchRecycleBin = async (): Promise<DeletedItem[]> => {
+  const [shops, supplies, orders, incomeRecords, shopNames] = await Promise.all([
+    fetchDeleted('shops'),
+    fetchDeleted('supplies'),
+    fetchDeleted('orders'),
+    fetchDeleted('income_records'),
+    // Names of deleted shops too, which the shops list leaves out
+    supabase.from('shops').select('id, name'),
+  ]);
+
+  if (shopNames.error) throw shopNames.error;
+  const shopName = (id: string) => shopNames.data.find(s => s.id === id)?.name ?? 'Unknown shop';
+
+  const orderItems = orders.map(o => ({
+    item: { table: 'orders' as const, id: o.id, label: `${o.supply_name} (${o.order_date})`, shop_id: o.shop_id, shop_name: shopName(o.shop_id), deleted_at: o.deleted_at, dependents: [] },
+    supplyId: o.supply_id,
+  }));
+  const incomeItems = incomeRecords.map(r => ({
+    table: 'income_records' as const, id: r.id, label: `Cash up ${r.date}`, shop_id: r.shop_id, shop_name: shopName(r.shop_id), deleted_at: r.deleted_at, dependents: [],
+  }));
+
+  const claimed = new Set<string>();
+  const claim = (items: DeletedItem[]) => {
+    items.forEach(item => claimed.add(item.id));
+    return items;
+  };
+
+  const supplyItems: DeletedItem[] = supplies.map(s => ({
+    table: 'supplies', id: s.id, label: s.name, shop_id: s.shop_id, shop_name: shopName(s.shop_id), deleted_at: s.deleted_at,
+    dependents: claim(orderItems
+      .filter(o => o.supplyId === s.id && o.item.deleted_at === s.deleted_at)
+      .map(o => o.item)),
+  }));
+
+  const shopItems: DeletedItem[] = shops.map(shop => {
+    const sameDeletion = (item: DeletedItem) => item.shop_id === shop.id && item.deleted_at === shop.deleted_at;
+    return {
+      table: 'shops', id: shop.id, label: shop.name, shop_id: shop.id, shop_name: shop.name, deleted_at: shop.deleted_at,
+      dependents: claim([
+        ...supplyItems.filter(sameDeletion),
+        ...orderItems.map(o => o.item).filter(sameDeletion),
+        ...incomeItems.filter(sameDeletion),
+      ]),
+    };
+  });
+
+  // Anything deleted as part of a shop or supply is listed under it instead
+  return [...shopItems, ...supplyItems, ...orderItems.map(o => o.item), ...incomeItems]
+    .filter(item => !claimed.has(item.id))
+    .sort((a, b) => b.deleted_at.localeCompare(a.deleted_at));
+};
+
+export const useRecycleBin = () => {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: queryKeys.recycleBin,
+    queryFn: fetchRecycleBin,
+  });
+
+  // Restores and purges cascade to other tables, so refresh everything
+  const invalidateAll = () => queryClient.invalidateQueries();
+
+  const restoreMutation = useMutation({
+    mutationFn: async (item: DeletedItem) => {
+      const { error } = await supabase
+        .from(item.table)
+        .update({ deleted_at: null })
+        .eq('id', item.id);
+
+      if (error) throw error;
+    },
+    onError: (error) => console.error('Error restoring item:', error),
+    onSettled: invalidateAll,
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: async (item: DeletedItem) => {
+      const { error } = await supabase
+        .from(item.table)
+        .delete()
+        .eq('id', item.id);
+
+      if (error) throw error;
+    },
+    onError: (error) => console.error('Error purging item:', error),
+    onSettled: invalidateAll,
+  });
+
+  return {
+    items: query.data ?? [],
+    loading: query.isLoading,
+    error: query.error,
+    restoreItem: restoreMutation.mutateAsync,
+    purgeItem: purgeMutation.mutateAsync,
+  };
+};
@@ -0,0 +1,87 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { queryKeys } from '@/lib/queryKeys';
+import type { ShopRole } from '@/types';
+
+export interface ShopMember {
+  id: string;
+  shop_id: string;
+  user_id: string;
+  role: ShopRole;
+  created_at: string;
+  profiles: { email: string; full_name: string | null } | null;
+}
+
+// RLS only returns members of shops the current user owns, plus their own rows
+const fetchShopMembers = async (): Promise<ShopMember[]> => {
+  const { data, error } = await supabase
+    .from('shop_members')
+    .select('*, profiles(email, full_name)')
+    .order('created_at');
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const useShopMembers = () => {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: queryKeys.shopMembers,
+    queryFn: fetchShopMembers,
+  });
+
+  const invalidate = () => Promise.all([
+    queryClient.invalidateQueries({ queryKey: queryKeys.shopMembers }),
+    queryClient.invalidateQueries({ queryKey: queryKeys.memberships }),
+  ]);
+
+  const addMutation = useMutation({
+    mutationFn: async ({ shopId, email, role }: { shopId: string; email: string; role: ShopRole }) => {
+      const { error } = await supabase.rpc('add_shop_member', {
+        _shop_id: shopId,
+        _email: email,
+        _role: role,
+      });
+
+      if (error) throw error;
+    },
+    onError: (error) => console.error('Error adding member:', error),
+    onSettled: invalidate,
+  });
+
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ id, role }: { id: string; role: ShopRole }) => {
+      const { error } = await supabase
+        .from('shop_members')
+        .update({ role })
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onError: (error) => console.error('Error updating member:', error),
+    onSettled: invalidate,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('shop_members')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onError: (error) => console.error('Error removing member:', error),
+    onSettled: invalidate,
+  });
+
+  return {
+    members: query.data ?? [],
+    loading: query.isLoading,
+    error: query.error,
+    addShopMember: addMutation.mutateAsync,
+    updateShopMemberRole: (id: string, role: ShopRole) => updateRoleMutation.mutateAsync({ id, role }),
+    removeShopMember: removeMutation.mutateAsync,
+  };
+};
@@ -1,96 +1,166 @@
-import { useState, useEffect } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import { queryKeys } from '@/lib/queryKeys';
+import { mirrorPlaceholder, withMirror } from '@/lib/sync';
+import { STANDARD_VAT_RATE } from '@/lib/vat';
 
 export interface Shop {
   id: string;
   name: string;
+  address: string | null;
+  phone: string | null;
+  is_active: boolean;
+  deposit_alert_days: number;
+  vat_rate: number;
+  vat_category: string;
+  vat_number: string | null;
+  document_footer: string | null;
+  logo_path: string | null;
   created_at: string;
 }
 
+const LOGO_BUCKET = 'shop-logos';
+
+type ShopUpdate = Partial<Pick<Shop, 'name' | 'address' | 'phone' | 'is_active' | 'deposit_alert_days' | 'vat_rate' | 'vat_category' | 'vat_number' | 'document_footer' | 'logo_path'>>;
+
+const fetchShops = async (): Promise<Shop[]> => {
+  const { data, error } = await supabase
+    .from('shops')
+    .select('*')
+    .is('deleted_at', null)
+    .order('name');
+
+  if (error) throw error;
+  return data || [];
+};
+
 export const useShops = () => {
-  const [shops, setShops] = useState<Shop[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  const fetchShops = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      
-      const { data, error } = await supabase
-        .from('shops')
-        .select('*')
-        .order('name');
+  const queryClient = useQueryClient();
 
-      if (error) throw error;
+  const query = useQuery({
+    queryKey: queryKeys.shops,
+    queryFn: () => withMirror('shops', fetchShops),
+    placeholderData: mirrorPlaceholder<Shop>('shops'),
+  });
 
-      setShops(data || []);
-    } catch (err: any) {
-      console.error('Error fetching shops:', err);
-      setError(err.message);
-      setShops([]); // No fallback - use empty array
-    } finally {
-      setLoading(false);
-    }
-  };
+  const shops = query.data ?? [];
 
-  const addShop = async (shopName: string) => {
-    try {
+  const addMutation = useMutation({
+    mutationFn: async (shopName: string) => {
       // Check if shop already exists
-      const existingShop = shops.find(shop => 
+      const existingShop = shops.find(shop =>
         shop.name.toLowerCase() === shopName.toLowerCase()
       );
-      
+
       if (existingShop) {
         throw new Error(`Shop "${shopName}" already exists`);
       }
 
-      const { data, error } = await supabase
+      // The creator only becomes a member once the insert has finished, so
+      // the new row cannot be selected back in the same request
+      const shop = { id: crypto.randomUUID(), name: shopName };
+      const { error } = await supabase
         .from('shops')
-        .insert([{ name: shopName }])
-        .select();
+        .insert([shop]);
 
       if (error) {
         if (error.code === '23505') { // Unique constraint violation
-          throw new Error(`Shop "${shopName}" already exists`);
+          throw new Error(`Shop "${shopName}" already exists. Check the Recycle Bin if it was deleted.`);
         }
         throw error;
       }
 
-      await fetchShops(); // Refresh the list
-      return data?.[0];
-    } catch (error: any) {
-      console.error('Error adding shop:', error);
-      throw error;
-    }
-  };
+      return shop;
+    },
+    onError: (error) => console.error('Error adding shop:', error),
+    onSettled: () => Promise.all([
+      queryClient.invalidateQueries({ queryKey: queryKeys.shops }),
+      queryClient.invalidateQueries({ queryKey: queryKeys.memberships }),
+    ]),
+  });
 
-  const deleteShop = async (id: string) => {
-    try {
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, values }: { id: string; values: ShopUpdate }) => {
       const { error } = await supabase
         .from('shops')
-        .delete()
+        .update(values)
+        .eq('id', id);
+
+      if (error) {
+        if (error.code === '23505') {
+          throw new Error(`Shop "${values.name}" already exists`);
+        }
+        throw error;
+      }
+    },
+    onError: (error) => console.error('Error updating shop:', error),
+    onSettled: () => Promise.all([
+      queryClient.invalidateQueries({ queryKey: queryKeys.shops }),
+      queryClient.invalidateQueries({ queryKey: queryKeys.memberships }),
+    ]),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('shops')
+        .update({ deleted_at: new Date().toISOString() })
         .eq('id', id);
 
       if (error) throw error;
+    },
+    onError: (error) => console.error('Error deleting shop:', error),
+    // Deleting a shop also deletes its supplies, orders and cash ups
+    onSettled: () => queryClient.invalidateQueries(),
+  });
 
-      await fetchShops(); // Refresh the list
-    } catch (error: any) {
-      console.error('Error deleting shop:', error);
-      throw error;
-    }
-  };
+  // Logos are stored under the shop's id. The old file is removed once the
+  // shop points at the new one; a null file takes the logo off.
+  const logoMutation = useMutation({
+    mutationFn: async ({ shop, file }: { shop: Shop; file: File | null }) => {
+      let logoPath: string | null = null;
+      if (file) {
+        logoPath = `${shop.id}/${crypto.randomUUID()}.${file.type === 'image/png' ? 'png' : 'jpg'}`;
+        const { error } = await supabase.storage.from(LOGO_BUCKET).upload(logoPath, file, { contentType: file.type });
+        if (error) throw error;
+      }
+
+      const { error } = await supabase
+        .from('shops')
+        .update({ logo_path: logoPath })
+        .eq('id', shop.id);
+
+      if (error) throw error;
+
+      if (shop.logo_path) {
+        await supabase.storage.from(LOGO_BUCKET).remove([shop.logo_path]);
+      }
+    },
+    onError: (error) => console.error('Error updating shop logo:', error),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.shops }),
+  });
+
+  const getLogoUrl = (path: string) => supabase.storage.from(LOGO_BUCKET).getPublicUrl(path).data.publicUrl;
+
+  // Records only carry the shop id, this turns it back into something readable
+  const getShopName = (id: string) => shops.find(shop => shop.id === id)?.name ?? 'Unknown shop';
 
-  useEffect(() => {
-    fetchShops();
-  }, []);
+  // The rate new supplies, expenses and cash ups of the shop start with
+  const getVatRate = (id: string) => shops.find(shop => shop.id === id)?.vat_rate ?? STANDARD_VAT_RATE;
 
   return {
     shops,
-    loading,
-    error,
-    refreshShops: fetchShops,
-    addShop,
-    deleteShop
+    // Archived shops keep their history but take no new records
+    activeShops: shops.filter(shop => shop.is_active),
+    getShopName,
+    getVatRate,
+    getLogoUrl,
+    loading: query.isLoading,
+    error: query.error ? query.error.message : null,
+    refreshShops: query.refetch,
+    addShop: addMutation.mutateAsync,
+    updateShop: (id: string, values: ShopUpdate) => updateMutation.mutateAsync({ id, values }),
+    deleteShop: deleteMutation.mutateAsync,
+    setShopLogo: (shop: Shop, file: File | null) => logoMutation.mutateAsync({ shop, file }),
   };
 };
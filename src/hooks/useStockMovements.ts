@@ -0,0 +1,93 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesInsert } from '@/integrations/supabase/types';
+import { queryKeys } from '@/lib/queryKeys';
+import { mirrorPlaceholder, withMirror, writeOrQueue } from '@/lib/sync';
+import { optimisticInsert } from '@/lib/optimistic';
+import { round } from '@/lib/numbers';
+
+export type StockMovementRecord = Tables<'stock_movements'>;
+type StockMovementInsert = TablesInsert<'stock_movements'>;
+
+export type StockMovementType = 'delivery' | 'stock_take' | 'wastage' | 'usage';
+
+export const MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  delivery: 'Delivery',
+  stock_take: 'Stock take',
+  wastage: 'Wastage',
+  usage: 'Usage',
+};
+
+export interface StockCount {
+  supplyId: string;
+  shopId: string;
+  counted: number;
+}
+
+const fetchStockMovements = async () => {
+  const { data, error } = await supabase
+    .from('stock_movements')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const useStockMovements = () => {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: queryKeys.stockMovements,
+    queryFn: () => withMirror('stock_movements', fetchStockMovements),
+    placeholderData: mirrorPlaceholder<StockMovementRecord>('stock_movements'),
+  });
+
+  const movements = query.data ?? [];
+
+  const onHand = movements.reduce<Record<string, number>>((acc, m) => {
+    acc[m.supply_id] = (acc[m.supply_id] || 0) + Number(m.quantity);
+    return acc;
+  }, {});
+
+  const createMutation = useMutation({
+    mutationFn: (values: StockMovementInsert) =>
+      writeOrQueue({ table: 'stock_movements', operation: 'insert', values }),
+    ...optimisticInsert<StockMovementRecord, StockMovementInsert>(queryClient, queryKeys.stockMovements),
+  });
+
+  // The quantity sent with a count is only a preview; the server works out
+  // the real variance against the ledger when the row arrives
+  const stockTakeMutation = useMutation({
+    mutationFn: async ({ counts, note }: { counts: StockCount[]; note?: string }) => {
+      for (const count of counts) {
+        await writeOrQueue({
+          table: 'stock_movements',
+          operation: 'insert',
+          values: {
+            id: crypto.randomUUID(),
+            supply_id: count.supplyId,
+            shop_id: count.shopId,
+            movement_type: 'stock_take',
+            counted_quantity: count.counted,
+            quantity: count.counted - (onHand[count.supplyId] || 0),
+            note: note || null,
+            created_at: new Date().toISOString(),
+          },
+        });
+      }
+    },
+    onError: (error) => console.error('Error saving stock take:', error),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.stockMovements }),
+  });
+
+  return {
+    movements,
+    getOnHand: (supplyId: string) => round(onHand[supplyId] || 0),
+    movementsForSupply: (supplyId: string) => movements.filter(m => m.supply_id === supplyId),
+    loading: query.isLoading,
+    error: query.error,
+    recordMovement: (values: StockMovementInsert) => createMutation.mutateAsync({ id: crypto.randomUUID(), ...values }),
+    recordStockTake: (counts: StockCount[], note?: string) => stockTakeMutation.mutateAsync({ counts, note }),
+  };
+};
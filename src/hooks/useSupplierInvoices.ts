@@ -0,0 +1,128 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+import { queryKeys } from '@/lib/queryKeys';
+import { mirrorPlaceholder, withMirror, writeOrQueue } from '@/lib/sync';
+import { matchInvoice } from '@/lib/invoiceMatching';
+import type { OrderRecord } from '@/hooks/useOrders';
+
+export type SupplierInvoiceRecord = Tables<'supplier_invoices'>;
+export type SupplierInvoiceOrderRecord = Tables<'supplier_invoice_orders'>;
+type SupplierInvoiceInsert = TablesInsert<'supplier_invoices'>;
+type SupplierInvoiceUpdate = TablesUpdate<'supplier_invoices'>;
+
+const fetchInvoices = async () => {
+  const { data, error } = await supabase
+    .from('supplier_invoices')
+    .select('*')
+    .order('invoice_date', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+const fetchInvoiceOrders = async () => {
+  const { data, error } = await supabase
+    .from('supplier_invoice_orders')
+    .select('*');
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const useSupplierInvoices = () => {
+  const queryClient = useQueryClient();
+
+  const invoicesQuery = useQuery({
+    queryKey: queryKeys.supplierInvoices,
+    queryFn: () => withMirror('supplier_invoices', fetchInvoices),
+    placeholderData: mirrorPlaceholder<SupplierInvoiceRecord>('supplier_invoices'),
+  });
+
+  const linksQuery = useQuery({
+    queryKey: queryKeys.supplierInvoiceOrders,
+    queryFn: () => withMirror('supplier_invoice_orders', fetchInvoiceOrders),
+    placeholderData: mirrorPlaceholder<SupplierInvoiceOrderRecord>('supplier_invoice_orders'),
+  });
+
+  const invoices = invoicesQuery.data ?? [];
+  const links = linksQuery.data ?? [];
+
+  const orderIdsForInvoice = (invoiceId: string) =>
+    links.filter(l => l.invoice_id === invoiceId).map(l => l.order_id);
+
+  const invoicesForOrder = (orderId: string) => {
+    const invoiceIds = links.filter(l => l.order_id === orderId).map(l => l.invoice_id);
+    return invoices.filter(i => invoiceIds.includes(i.id));
+  };
+
+  // Three-way match of an invoice against its orders and any other invoices
+  // that bill for the same orders
+  const matchFor = (invoice: SupplierInvoiceRecord, orders: OrderRecord[]) => {
+    const orderIds = orderIdsForInvoice(invoice.id);
+    const otherInvoices = Array.from(new Set(orderIds.flatMap(invoicesForOrder)))
+      .filter(i => i.id !== invoice.id);
+    return matchInvoice(invoice, orders.filter(o => orderIds.includes(o.id)), otherInvoices);
+  };
+
+  const invalidate = () => Promise.all([
+    queryClient.invalidateQueries({ queryKey: queryKeys.supplierInvoices }),
+    queryClient.invalidateQueries({ queryKey: queryKeys.supplierInvoiceOrders }),
+  ]);
+
+  // Links the invoice to exactly the given orders, adding and removing links
+  // as needed
+  const syncLinks = async (invoiceId: string, orderIds: string[]) => {
+    const existing = links.filter(l => l.invoice_id === invoiceId);
+
+    for (const link of existing.filter(l => !orderIds.includes(l.order_id))) {
+      await writeOrQueue({ table: 'supplier_invoice_orders', operation: 'delete', rowId: link.id, base: link });
+    }
+    for (const orderId of orderIds.filter(id => !existing.some(l => l.order_id === id))) {
+      await writeOrQueue({
+        table: 'supplier_invoice_orders',
+        operation: 'insert',
+        values: { id: crypto.randomUUID(), invoice_id: invoiceId, order_id: orderId, created_at: new Date().toISOString() },
+      });
+    }
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, values, orderIds }: { id?: string; values: SupplierInvoiceInsert | SupplierInvoiceUpdate; orderIds: string[] }) => {
+      const base = id ? invoices.find(i => i.id === id) : undefined;
+      const invoiceId = base?.id ?? crypto.randomUUID();
+
+      if (base) {
+        await writeOrQueue({ table: 'supplier_invoices', operation: 'update', rowId: invoiceId, values, base });
+      } else {
+        await writeOrQueue({
+          table: 'supplier_invoices',
+          operation: 'insert',
+          values: { id: invoiceId, created_at: new Date().toISOString(), ...values },
+        });
+      }
+      await syncLinks(invoiceId, orderIds);
+    },
+    onError: (error) => console.error('Error saving supplier invoice:', error),
+    onSettled: invalidate,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) =>
+      writeOrQueue({ table: 'supplier_invoices', operation: 'delete', rowId: id, base: invoices.find(i => i.id === id) }),
+    onError: (error) => console.error('Error deleting supplier invoice:', error),
+    onSettled: invalidate,
+  });
+
+  return {
+    invoices,
+    orderIdsForInvoice,
+    invoicesForOrder,
+    matchFor,
+    loading: invoicesQuery.isLoading || linksQuery.isLoading,
+    error: invoicesQuery.error || linksQuery.error,
+    createInvoice: (values: SupplierInvoiceInsert, orderIds: string[]) => saveMutation.mutateAsync({ values, orderIds }),
+    updateInvoice: (id: string, values: SupplierInvoiceUpdate, orderIds: string[]) => saveMutation.mutateAsync({ id, values, orderIds }),
+    deleteInvoice: deleteMutation.mutateAsync,
+  };
+};
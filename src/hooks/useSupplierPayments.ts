@@ -0,0 +1,54 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesInsert } from '@/integrations/supabase/types';
+import { queryKeys } from '@/lib/queryKeys';
+import { mirrorPlaceholder, withMirror, writeOrQueue } from '@/lib/sync';
+import { optimisticInsert, optimisticRemove } from '@/lib/optimistic';
+
+export type SupplierPaymentRecord = Tables<'supplier_payments'>;
+type SupplierPaymentInsert = TablesInsert<'supplier_payments'>;
+
+const fetchPayments = async () => {
+  const { data, error } = await supabase
+    .from('supplier_payments')
+    .select('*')
+    .order('paid_on', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const useSupplierPayments = () => {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: queryKeys.supplierPayments,
+    queryFn: () => withMirror('supplier_payments', fetchPayments),
+    placeholderData: mirrorPlaceholder<SupplierPaymentRecord>('supplier_payments'),
+  });
+
+  const createMutation = useMutation({
+    mutationFn: (values: SupplierPaymentInsert) =>
+      writeOrQueue({ table: 'supplier_payments', operation: 'insert', values }),
+    ...optimisticInsert<SupplierPaymentRecord, SupplierPaymentInsert>(queryClient, queryKeys.supplierPayments),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) =>
+      writeOrQueue({
+        table: 'supplier_payments',
+        operation: 'delete',
+        rowId: id,
+        base: query.data?.find(p => p.id === id),
+      }),
+    ...optimisticRemove<SupplierPaymentRecord>(queryClient, queryKeys.supplierPayments),
+  });
+
+  return {
+    payments: query.data ?? [],
+    loading: query.isLoading,
+    error: query.error,
+    recordPayment: (values: SupplierPaymentInsert) => createMutation.mutateAsync({ id: crypto.randomUUID(), ...values }),
+    deletePayment: deleteMutation.mutateAsync,
+  };
+};
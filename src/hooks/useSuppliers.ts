@@ -0,0 +1,94 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+import { queryKeys } from '@/lib/queryKeys';
+import { mirrorPlaceholder, withMirror } from '@/lib/sync';
+
+export type SupplierContact = { name: string; phone: string };
+
+export type SupplierRecord = Omit<Tables<'suppliers'>, 'contacts'> & { contacts: SupplierContact[] };
+type SupplierInsert = Omit<TablesInsert<'suppliers'>, 'contacts'> & { contacts?: SupplierContact[] };
+type SupplierUpdate = Omit<TablesUpdate<'suppliers'>, 'contacts'> & { contacts?: SupplierContact[] };
+
+export const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const fetchSuppliers = async (): Promise<SupplierRecord[]> => {
+  const { data, error } = await supabase
+    .from('suppliers')
+    .select('*')
+    .order('name');
+
+  if (error) throw error;
+  return (data || []) as SupplierRecord[];
+};
+
+// Turns a duplicate name into a message the form can show as is
+const saveError = (error: { code?: string }, name?: string) =>
+  error.code === '23505' ? new Error(`Supplier "${name}" already exists`) : error;
+
+export const useSuppliers = () => {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: queryKeys.suppliers,
+    queryFn: () => withMirror('suppliers', fetchSuppliers),
+    placeholderData: mirrorPlaceholder<SupplierRecord>('suppliers'),
+  });
+
+  const suppliers = query.data ?? [];
+
+  const createMutation = useMutation({
+    mutationFn: async (values: SupplierInsert) => {
+      const { error } = await supabase
+        .from('suppliers')
+        .insert([values]);
+
+      if (error) throw saveError(error, values.name);
+    },
+    onError: (error) => console.error('Error adding supplier:', error),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.suppliers }),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, values }: { id: string; values: SupplierUpdate }) => {
+      const { error } = await supabase
+        .from('suppliers')
+        .update(values)
+        .eq('id', id);
+
+      if (error) throw saveError(error, values.name);
+    },
+    onError: (error) => console.error('Error updating supplier:', error),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.suppliers }),
+  });
+
+  // Supplies and orders of a deleted supplier are unlinked, not deleted
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('suppliers')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onError: (error) => console.error('Error deleting supplier:', error),
+    onSettled: () => Promise.all([
+      queryClient.invalidateQueries({ queryKey: queryKeys.suppliers }),
+      queryClient.invalidateQueries({ queryKey: queryKeys.supplies }),
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders }),
+    ]),
+  });
+
+  const getSupplier = (id: string | null) => suppliers.find(supplier => supplier.id === id) ?? null;
+
+  return {
+    suppliers,
+    getSupplier,
+    loading: query.isLoading,
+    error: query.error,
+    createSupplier: createMutation.mutateAsync,
+    updateSupplier: (id: string, values: SupplierUpdate) => updateMutation.mutateAsync({ id, values }),
+    deleteSupplier: deleteMutation.mutateAsync,
+  };
+};
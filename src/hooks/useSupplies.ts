@@ -0,0 +1,66 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+import { queryKeys } from '@/lib/queryKeys';
+import { mirrorPlaceholder, withMirror, writeOrQueue } from '@/lib/sync';
+import { optimisticInsert, optimisticRemove, optimisticUpdate } from '@/lib/optimistic';
+
+export type SupplyRecord = Tables<'supplies'>;
+type SupplyInsert = TablesInsert<'supplies'>;
+type SupplyUpdate = TablesUpdate<'supplies'>;
+
+const fetchSupplies = async () => {
+  const { data, error } = await supabase
+    .from('supplies')
+    .select('*')
+    .is('deleted_at', null)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const useSupplies = () => {
+  const queryClient = useQueryClient();
+
+  // Snapshot of the row as the user last saw it, used to detect conflicts
+  // when an offline change is synced later
+  const cachedRow = (id: string) =>
+    queryClient.getQueryData<SupplyRecord[]>(queryKeys.supplies)?.find(r => r.id === id);
+
+  const query = useQuery({
+    queryKey: queryKeys.supplies,
+    queryFn: () => withMirror('supplies', fetchSupplies),
+    placeholderData: mirrorPlaceholder<SupplyRecord>('supplies'),
+  });
+
+  const createMutation = useMutation({
+    mutationFn: (values: SupplyInsert) =>
+      writeOrQueue({ table: 'supplies', operation: 'insert', values }),
+    ...optimisticInsert<SupplyRecord, SupplyInsert>(queryClient, queryKeys.supplies),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, values }: { id: string; values: SupplyUpdate }) =>
+      writeOrQueue({ table: 'supplies', operation: 'update', rowId: id, values, base: cachedRow(id) }),
+    ...optimisticUpdate<SupplyRecord, SupplyUpdate>(queryClient, queryKeys.supplies),
+  });
+
+  // Deleting a supply also moves its orders to the recycle bin, so the
+  // orders list changes too.
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) =>
+      writeOrQueue({ table: 'supplies', operation: 'update', rowId: id, values: { deleted_at: new Date().toISOString() }, base: cachedRow(id) }),
+    ...optimisticRemove<SupplyRecord>(queryClient, queryKeys.supplies, [queryKeys.orders]),
+  });
+
+  return {
+    supplies: query.data ?? [],
+    loading: query.isLoading,
+    error: query.error,
+    refreshSupplies: query.refetch,
+    createSupply: (values: SupplyInsert) => createMutation.mutateAsync({ id: crypto.randomUUID(), ...values }),
+    updateSupply: (id: string, values: SupplyUpdate) => updateMutation.mutateAsync({ id, values }),
+    deleteSupply: deleteMutation.mutateAsync,
+  };
+};
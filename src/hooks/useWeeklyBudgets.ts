@@ -0,0 +1,86 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+import { queryKeys } from '@/lib/queryKeys';
+import { mirrorPlaceholder, withMirror, writeOrQueue } from '@/lib/sync';
+import { optimisticInsert, optimisticUpdate } from '@/lib/optimistic';
+
+export type WeeklyBudgetRecord = Tables<'weekly_budgets'>;
+type WeeklyBudgetInsert = TablesInsert<'weekly_budgets'>;
+type WeeklyBudgetUpdate = TablesUpdate<'weekly_budgets'>;
+
+const fetchWeeklyBudgets = async () => {
+  const { data, error } = await supabase
+    .from('weekly_budgets')
+    .select('*');
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const useWeeklyBudgets = () => {
+  const queryClient = useQueryClient();
+
+  // Snapshot of the row as the user last saw it, used to detect conflicts
+  // when an offline change is synced later
+  const cachedRow = (id: string) =>
+    queryClient.getQueryData<WeeklyBudgetRecord[]>(queryKeys.weeklyBudgets)?.find(r => r.id === id);
+
+  const query = useQuery({
+    queryKey: queryKeys.weeklyBudgets,
+    queryFn: () => withMirror('weekly_budgets', fetchWeeklyBudgets),
+    placeholderData: mirrorPlaceholder<WeeklyBudgetRecord>('weekly_budgets'),
+  });
+
+  const createMutation = useMutation({
+    mutationFn: (values: WeeklyBudgetInsert) =>
+      writeOrQueue({ table: 'weekly_budgets', operation: 'insert', values }),
+    ...optimisticInsert<WeeklyBudgetRecord, WeeklyBudgetInsert>(queryClient, queryKeys.weeklyBudgets),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, values }: { id: string; values: WeeklyBudgetUpdate }) =>
+      writeOrQueue({ table: 'weekly_budgets', operation: 'update', rowId: id, values, base: cachedRow(id) }),
+    ...optimisticUpdate<WeeklyBudgetRecord, WeeklyBudgetUpdate>(queryClient, queryKeys.weeklyBudgets),
+  });
+
+  // Budgets are unique per shop and week, so setting one either replaces the
+  // cached budget for that week or adds a new one.
+  const upsertMutation = useMutation({
+    mutationFn: (values: WeeklyBudgetInsert) =>
+      writeOrQueue({ table: 'weekly_budgets', operation: 'upsert', values, onConflict: 'shop_id,week_start_date' }),
+    onMutate: async (values: WeeklyBudgetInsert) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.weeklyBudgets });
+      const previous = queryClient.getQueryData<WeeklyBudgetRecord[]>(queryKeys.weeklyBudgets);
+      queryClient.setQueryData<WeeklyBudgetRecord[]>(queryKeys.weeklyBudgets, (old = []) => {
+        const existing = old.find(b => b.shop_id === values.shop_id && b.week_start_date === values.week_start_date);
+        if (existing) {
+          return old.map(b => (b.id === existing.id ? { ...b, ...values, id: existing.id } : b));
+        }
+        return [...old, { id: `optimistic-${crypto.randomUUID()}`, created_at: new Date().toISOString(), budget_amount: 0, ...values }];
+      });
+      return { previous };
+    },
+    onError: (_error, _values, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(queryKeys.weeklyBudgets, context.previous);
+      }
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.weeklyBudgets }),
+  });
+
+  return {
+    weeklyBudgets: query.data ?? [],
+    loading: query.isLoading,
+    error: query.error,
+    refreshWeeklyBudgets: query.refetch,
+    createWeeklyBudget: (values: WeeklyBudgetInsert) => createMutation.mutateAsync({ id: crypto.randomUUID(), ...values }),
+    updateWeeklyBudget: (id: string, values: WeeklyBudgetUpdate) => updateMutation.mutateAsync({ id, values }),
+    // Reuse the id of the budget being replaced so the row stays addressable
+    // if the write is queued offline
+    upsertWeeklyBudget: (values: WeeklyBudgetInsert) => {
+      const existing = query.data?.find(b => b.shop_id === values.shop_id && b.week_start_date === values.week_start_date);
+      return upsertMutation.mutateAsync({ id: existing?.id ?? crypto.randomUUID(), ...values });
+    },
+  };
+};
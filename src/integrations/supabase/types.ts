@@ -14,6 +14,624 @@ export type Database = {
   }
   public: {
     Tables: {
+      account_sales: {
+        Row: {
+          amount: number
+          created_at: string
+          customer_id: string
+          id: string
+          income_record_id: string
+          reference: string | null
+          shop_id: string
+          sold_on: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          customer_id: string
+          id?: string
+          income_record_id: string
+          reference?: string | null
+          shop_id: string
+          sold_on: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          customer_id?: string
+          id?: string
+          income_record_id?: string
+          reference?: string | null
+          shop_id?: string
+          sold_on?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "account_sales_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "account_sales_income_record_id_fkey"
+            columns: ["income_record_id"]
+            isOneToOne: false
+            referencedRelation: "income_records"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "account_sales_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: false
+            referencedRelation: "shops"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      audit_log: {
+        Row: {
+          action: string
+          actor_email: string | null
+          actor_id: string | null
+          created_at: string
+          id: string
+          new_data: Json | null
+          old_data: Json | null
+          record_id: string
+          shop_id: string | null
+          table_name: string
+        }
+        Insert: {
+          action: string
+          actor_email?: string | null
+          actor_id?: string | null
+          created_at?: string
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          record_id: string
+          shop_id?: string | null
+          table_name: string
+        }
+        Update: {
+          action?: string
+          actor_email?: string | null
+          actor_id?: string | null
+          created_at?: string
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          record_id?: string
+          shop_id?: string | null
+          table_name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "audit_log_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "audit_log_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: false
+            referencedRelation: "shops"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bank_deposits: {
+        Row: {
+          amount: number
+          bank_reference: string | null
+          created_at: string
+          created_by: string | null
+          deposited_on: string
+          id: string
+          notes: string | null
+          shop_id: string
+        }
+        Insert: {
+          amount: number
+          bank_reference?: string | null
+          created_at?: string
+          created_by?: string | null
+          deposited_on?: string
+          id?: string
+          notes?: string | null
+          shop_id: string
+        }
+        Update: {
+          amount?: number
+          bank_reference?: string | null
+          created_at?: string
+          created_by?: string | null
+          deposited_on?: string
+          id?: string
+          notes?: string | null
+          shop_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bank_deposits_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_deposits_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: false
+            referencedRelation: "shops"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bank_statement_lines: {
+        Row: {
+          amount: number
+          created_at: string
+          deposit_id: string | null
+          description: string
+          external_id: string
+          id: string
+          income_record_id: string | null
+          match_kind: string | null
+          matched_at: string | null
+          posted_on: string
+          reference: string | null
+          shop_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          deposit_id?: string | null
+          description?: string
+          external_id: string
+          id?: string
+          income_record_id?: string | null
+          match_kind?: string | null
+          matched_at?: string | null
+          posted_on: string
+          reference?: string | null
+          shop_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          deposit_id?: string | null
+          description?: string
+          external_id?: string
+          id?: string
+          income_record_id?: string | null
+          match_kind?: string | null
+          matched_at?: string | null
+          posted_on?: string
+          reference?: string | null
+          shop_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bank_statement_lines_deposit_id_fkey"
+            columns: ["deposit_id"]
+            isOneToOne: false
+            referencedRelation: "bank_deposits"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_statement_lines_income_record_id_fkey"
+            columns: ["income_record_id"]
+            isOneToOne: false
+            referencedRelation: "income_records"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_statement_lines_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: false
+            referencedRelation: "shops"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      customer_payments: {
+        Row: {
+          amount: number
+          created_at: string
+          created_by: string | null
+          customer_id: string
+          id: string
+          method: string
+          notes: string | null
+          paid_on: string
+          reference: string | null
+          shop_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          created_by?: string | null
+          customer_id: string
+          id?: string
+          method: string
+          notes?: string | null
+          paid_on?: string
+          reference?: string | null
+          shop_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          created_by?: string | null
+          customer_id?: string
+          id?: string
+          method?: string
+          notes?: string | null
+          paid_on?: string
+          reference?: string | null
+          shop_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "customer_payments_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customer_payments_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customer_payments_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: false
+            referencedRelation: "shops"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      customers: {
+        Row: {
+          account_number: string | null
+          created_at: string
+          credit_limit: number | null
+          email: string | null
+          id: string
+          is_active: boolean
+          name: string
+          notes: string | null
+          phone: string | null
+          shop_id: string
+          updated_at: string
+        }
+        Insert: {
+          account_number?: string | null
+          created_at?: string
+          credit_limit?: number | null
+          email?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          notes?: string | null
+          phone?: string | null
+          shop_id: string
+          updated_at?: string
+        }
+        Update: {
+          account_number?: string | null
+          created_at?: string
+          credit_limit?: number | null
+          email?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          notes?: string | null
+          phone?: string | null
+          shop_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "customers_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: false
+            referencedRelation: "shops"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      data_imports: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          file_name: string
+          id: string
+          rolled_back_at: string | null
+          row_count: number
+          target: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          file_name: string
+          id?: string
+          rolled_back_at?: string | null
+          row_count?: number
+          target: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          file_name?: string
+          id?: string
+          rolled_back_at?: string | null
+          row_count?: number
+          target?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "data_imports_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      deliveries: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          invoice_number: string | null
+          notes: string | null
+          order_id: string
+          received_by: string
+          received_on: string
+          shop_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          invoice_number?: string | null
+          notes?: string | null
+          order_id: string
+          received_by: string
+          received_on?: string
+          shop_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          invoice_number?: string | null
+          notes?: string | null
+          order_id?: string
+          received_by?: string
+          received_on?: string
+          shop_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "deliveries_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "deliveries_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "deliveries_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: false
+            referencedRelation: "shops"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      delivery_lines: {
+        Row: {
+          created_at: string
+          delivery_id: string
+          id: string
+          note: string | null
+          order_line_id: string
+          quantity_damaged: number
+          quantity_received: number
+          quantity_short: number
+          quantity_substituted: number
+          substitute_description: string | null
+        }
+        Insert: {
+          created_at?: string
+          delivery_id: string
+          id?: string
+          note?: string | null
+          order_line_id: string
+          quantity_damaged?: number
+          quantity_received?: number
+          quantity_short?: number
+          quantity_substituted?: number
+          substitute_description?: string | null
+        }
+        Update: {
+          created_at?: string
+          delivery_id?: string
+          id?: string
+          note?: string | null
+          order_line_id?: string
+          quantity_damaged?: number
+          quantity_received?: number
+          quantity_short?: number
+          quantity_substituted?: number
+          substitute_description?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "delivery_lines_delivery_id_fkey"
+            columns: ["delivery_id"]
+            isOneToOne: false
+            referencedRelation: "deliveries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "delivery_lines_order_line_id_fkey"
+            columns: ["order_line_id"]
+            isOneToOne: false
+            referencedRelation: "order_lines"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      documents: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          kind: string
+          page_count: number
+          shop_id: string | null
+          storage_path: string
+          title: string
+          week_start_date: string | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          kind: string
+          page_count?: number
+          shop_id?: string | null
+          storage_path: string
+          title: string
+          week_start_date?: string | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          kind?: string
+          page_count?: number
+          shop_id?: string | null
+          storage_path?: string
+          title?: string
+          week_start_date?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "documents_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "documents_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: false
+            referencedRelation: "shops"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      expense_categories: {
+        Row: {
+          created_at: string
+          id: string
+          is_active: boolean
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+        }
+        Relationships: []
+      }
+      expenses: {
+        Row: {
+          amount: number
+          category_id: string | null
+          created_at: string
+          description: string
+          id: string
+          income_record_id: string
+          paid_from: string
+          receipt_reference: string | null
+          shop_id: string
+          vat_rate: number
+        }
+        Insert: {
+          amount: number
+          category_id?: string | null
+          created_at?: string
+          description: string
+          id?: string
+          income_record_id: string
+          paid_from?: string
+          receipt_reference?: string | null
+          shop_id: string
+          vat_rate?: number
+        }
+        Update: {
+          amount?: number
+          category_id?: string | null
+          created_at?: string
+          description?: string
+          id?: string
+          income_record_id?: string
+          paid_from?: string
+          receipt_reference?: string | null
+          shop_id?: string
+          vat_rate?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "expenses_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "expense_categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "expenses_income_record_id_fkey"
+            columns: ["income_record_id"]
+            isOneToOne: false
+            referencedRelation: "income_records"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "expenses_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: false
+            referencedRelation: "shops"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       income_records: {
         Row: {
           account_amount: number
@@ -22,13 +640,22 @@ export type Database = {
           created_at: string
           daily_income: number
           date: string
+          deleted_at: string | null
+          denomination_counts: Json | null
+          deposit_id: string | null
           direct_deposit_amount: number
+          expected_takings: number | null
           expenses: number
           id: string
+          import_id: string | null
           net_income: number
           notes: string | null
-          shop: string
+          opening_float: number
+          shop_id: string
           updated_at: string
+          variance: number | null
+          vat_rate: number
+          zero_rated_sales: number
         }
         Insert: {
           account_amount?: number
@@ -37,13 +664,22 @@ export type Database = {
           created_at?: string
           daily_income?: number
           date: string
+          deleted_at?: string | null
+          denomination_counts?: Json | null
+          deposit_id?: string | null
           direct_deposit_amount?: number
+          expected_takings?: number | null
           expenses?: number
           id?: string
+          import_id?: string | null
           net_income?: number
           notes?: string | null
-          shop: string
+          opening_float?: number
+          shop_id: string
           updated_at?: string
+          variance?: number | null
+          vat_rate?: number
+          zero_rated_sales?: number
         }
         Update: {
           account_amount?: number
@@ -52,29 +688,118 @@ export type Database = {
           created_at?: string
           daily_income?: number
           date?: string
+          deleted_at?: string | null
+          denomination_counts?: Json | null
+          deposit_id?: string | null
           direct_deposit_amount?: number
+          expected_takings?: number | null
           expenses?: number
           id?: string
+          import_id?: string | null
           net_income?: number
           notes?: string | null
-          shop?: string
+          opening_float?: number
+          shop_id?: string
           updated_at?: string
+          variance?: number | null
+          vat_rate?: number
+          zero_rated_sales?: number
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "income_records_deposit_id_fkey"
+            columns: ["deposit_id"]
+            isOneToOne: false
+            referencedRelation: "bank_deposits"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "income_records_import_id_fkey"
+            columns: ["import_id"]
+            isOneToOne: false
+            referencedRelation: "data_imports"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "income_records_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: false
+            referencedRelation: "shops"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_lines: {
+        Row: {
+          created_at: string
+          description: string
+          id: string
+          order_id: string
+          quantity: number
+          quantity_delivered: number
+          supply_id: string | null
+          unit: string
+          unit_price: number
+          vat_rate: number
+        }
+        Insert: {
+          created_at?: string
+          description: string
+          id?: string
+          order_id: string
+          quantity?: number
+          quantity_delivered?: number
+          supply_id?: string | null
+          unit?: string
+          unit_price?: number
+          vat_rate?: number
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          id?: string
+          order_id?: string
+          quantity?: number
+          quantity_delivered?: number
+          supply_id?: string | null
+          unit?: string
+          unit_price?: number
+          vat_rate?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_lines_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_lines_supply_id_fkey"
+            columns: ["supply_id"]
+            isOneToOne: false
+            referencedRelation: "supplies"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       orders: {
         Row: {
           amount_delivered: number
           contact_person: string
           created_at: string
+          deleted_at: string | null
           delivery_date: string | null
+          expected_delivery_date: string | null
           id: string
+          import_id: string | null
           notes: string | null
           order_amount: number
           order_date: string
           ordered_by: string
-          shop: string
+          shop_id: string
           status: string
+          supplier_id: string | null
           supply_id: string | null
           supply_name: string
         }
@@ -82,14 +807,18 @@ export type Database = {
           amount_delivered?: number
           contact_person: string
           created_at?: string
+          deleted_at?: string | null
           delivery_date?: string | null
+          expected_delivery_date?: string | null
           id?: string
+          import_id?: string | null
           notes?: string | null
           order_amount?: number
           order_date: string
           ordered_by: string
-          shop: string
+          shop_id: string
           status: string
+          supplier_id?: string | null
           supply_id?: string | null
           supply_name: string
         }
@@ -97,18 +826,43 @@ export type Database = {
           amount_delivered?: number
           contact_person?: string
           created_at?: string
+          deleted_at?: string | null
           delivery_date?: string | null
+          expected_delivery_date?: string | null
           id?: string
+          import_id?: string | null
           notes?: string | null
           order_amount?: number
           order_date?: string
           ordered_by?: string
-          shop?: string
+          shop_id?: string
           status?: string
+          supplier_id?: string | null
           supply_id?: string | null
           supply_name?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "orders_import_id_fkey"
+            columns: ["import_id"]
+            isOneToOne: false
+            referencedRelation: "data_imports"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: false
+            referencedRelation: "shops"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "orders_supply_id_fkey"
             columns: ["supply_id"]
@@ -118,21 +872,447 @@ export type Database = {
           },
         ]
       }
+      price_history: {
+        Row: {
+          id: string
+          order_id: string | null
+          recorded_at: string
+          recorded_by: string | null
+          source: string
+          supply_id: string
+          unit: string
+          unit_price: number
+        }
+        Insert: {
+          id?: string
+          order_id?: string | null
+          recorded_at?: string
+          recorded_by?: string | null
+          source: string
+          supply_id: string
+          unit: string
+          unit_price: number
+        }
+        Update: {
+          id?: string
+          order_id?: string | null
+          recorded_at?: string
+          recorded_by?: string | null
+          source?: string
+          supply_id?: string
+          unit?: string
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "price_history_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "price_history_recorded_by_fkey"
+            columns: ["recorded_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "price_history_supply_id_fkey"
+            columns: ["supply_id"]
+            isOneToOne: false
+            referencedRelation: "supplies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          created_at: string
+          email: string
+          full_name: string | null
+          id: string
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          full_name?: string | null
+          id: string
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          full_name?: string | null
+          id?: string
+        }
+        Relationships: []
+      }
+      shop_members: {
+        Row: {
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          shop_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          shop_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          shop_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shop_members_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: false
+            referencedRelation: "shops"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "shop_members_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       shops: {
         Row: {
+          address: string | null
+          created_at: string
+          deleted_at: string | null
+          deposit_alert_days: number
+          document_footer: string | null
+          id: string
+          is_active: boolean
+          logo_path: string | null
+          name: string
+          phone: string | null
+          vat_category: string
+          vat_number: string | null
+          vat_rate: number
+        }
+        Insert: {
+          address?: string | null
+          created_at?: string
+          deleted_at?: string | null
+          deposit_alert_days?: number
+          document_footer?: string | null
+          id?: string
+          is_active?: boolean
+          logo_path?: string | null
+          name: string
+          phone?: string | null
+          vat_category?: string
+          vat_number?: string | null
+          vat_rate?: number
+        }
+        Update: {
+          address?: string | null
+          created_at?: string
+          deleted_at?: string | null
+          deposit_alert_days?: number
+          document_footer?: string | null
+          id?: string
+          is_active?: boolean
+          logo_path?: string | null
+          name?: string
+          phone?: string | null
+          vat_category?: string
+          vat_number?: string | null
+          vat_rate?: number
+        }
+        Relationships: []
+      }
+      stock_movements: {
+        Row: {
+          counted_quantity: number | null
+          created_at: string
+          created_by: string | null
+          id: string
+          movement_type: string
+          note: string | null
+          occurred_on: string
+          order_line_id: string | null
+          quantity: number
+          shop_id: string
+          supply_id: string
+        }
+        Insert: {
+          counted_quantity?: number | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          movement_type: string
+          note?: string | null
+          occurred_on?: string
+          order_line_id?: string | null
+          quantity: number
+          shop_id: string
+          supply_id: string
+        }
+        Update: {
+          counted_quantity?: number | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          movement_type?: string
+          note?: string | null
+          occurred_on?: string
+          order_line_id?: string | null
+          quantity?: number
+          shop_id?: string
+          supply_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_movements_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_order_line_id_fkey"
+            columns: ["order_line_id"]
+            isOneToOne: false
+            referencedRelation: "order_lines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: false
+            referencedRelation: "shops"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_supply_id_fkey"
+            columns: ["supply_id"]
+            isOneToOne: false
+            referencedRelation: "supplies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      supplier_invoice_orders: {
+        Row: {
+          created_at: string
+          id: string
+          invoice_id: string
+          order_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          invoice_id: string
+          order_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          invoice_id?: string
+          order_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "supplier_invoice_orders_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "supplier_invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "supplier_invoice_orders_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      supplier_invoices: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          due_date: string | null
+          id: string
+          invoice_date: string
+          invoice_number: string
+          notes: string | null
+          shop_id: string
+          supplier_id: string | null
+          total: number
+          updated_at: string
+          vat_amount: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          due_date?: string | null
+          id?: string
+          invoice_date: string
+          invoice_number: string
+          notes?: string | null
+          shop_id: string
+          supplier_id?: string | null
+          total: number
+          updated_at?: string
+          vat_amount?: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          due_date?: string | null
+          id?: string
+          invoice_date?: string
+          invoice_number?: string
+          notes?: string | null
+          shop_id?: string
+          supplier_id?: string | null
+          total?: number
+          updated_at?: string
+          vat_amount?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "supplier_invoices_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "supplier_invoices_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: false
+            referencedRelation: "shops"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "supplier_invoices_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      supplier_payments: {
+        Row: {
+          amount: number
+          created_at: string
+          created_by: string | null
+          id: string
+          invoice_id: string | null
+          method: string
+          notes: string | null
+          paid_on: string
+          reference: string | null
+          shop_id: string
+          supplier_id: string | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          invoice_id?: string | null
+          method: string
+          notes?: string | null
+          paid_on?: string
+          reference?: string | null
+          shop_id: string
+          supplier_id?: string | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          invoice_id?: string | null
+          method?: string
+          notes?: string | null
+          paid_on?: string
+          reference?: string | null
+          shop_id?: string
+          supplier_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "supplier_payments_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "supplier_payments_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "supplier_invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "supplier_payments_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: false
+            referencedRelation: "shops"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "supplier_payments_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      suppliers: {
+        Row: {
+          account_number: string | null
+          contacts: Json
           created_at: string
+          delivery_days: number[]
+          email: string | null
           id: string
           name: string
+          notes: string | null
+          payment_terms_days: number
         }
         Insert: {
+          account_number?: string | null
+          contacts?: Json
           created_at?: string
+          delivery_days?: number[]
+          email?: string | null
           id?: string
           name: string
+          notes?: string | null
+          payment_terms_days?: number
         }
         Update: {
+          account_number?: string | null
+          contacts?: Json
           created_at?: string
+          delivery_days?: number[]
+          email?: string | null
           id?: string
           name?: string
+          notes?: string | null
+          payment_terms_days?: number
         }
         Relationships: []
       }
@@ -140,62 +1320,157 @@ export type Database = {
         Row: {
           amount: number
           created_at: string
+          deleted_at: string | null
           id: string
+          import_id: string | null
+          min_level: number | null
           name: string
-          phone_number: string
-          shop: string
+          pack_size: number
+          par_level: number | null
+          phone_number: string | null
+          shop_id: string
+          supplier_id: string | null
+          unit: string
+          unit_price: number
+          vat_rate: number
         }
         Insert: {
           amount?: number
           created_at?: string
+          deleted_at?: string | null
           id?: string
+          import_id?: string | null
+          min_level?: number | null
           name: string
-          phone_number: string
-          shop: string
+          pack_size?: number
+          par_level?: number | null
+          phone_number?: string | null
+          shop_id: string
+          supplier_id?: string | null
+          unit?: string
+          unit_price?: number
+          vat_rate?: number
         }
         Update: {
           amount?: number
           created_at?: string
+          deleted_at?: string | null
           id?: string
+          import_id?: string | null
+          min_level?: number | null
           name?: string
-          phone_number?: string
-          shop?: string
+          pack_size?: number
+          par_level?: number | null
+          phone_number?: string | null
+          shop_id?: string
+          supplier_id?: string | null
+          unit?: string
+          unit_price?: number
+          vat_rate?: number
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "supplies_import_id_fkey"
+            columns: ["import_id"]
+            isOneToOne: false
+            referencedRelation: "data_imports"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "supplies_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: false
+            referencedRelation: "shops"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "supplies_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       weekly_budgets: {
         Row: {
           budget_amount: number
           created_at: string
           id: string
-          shop: string
+          shop_id: string
           week_start_date: string
         }
         Insert: {
           budget_amount?: number
           created_at?: string
           id?: string
-          shop: string
+          shop_id: string
           week_start_date: string
         }
         Update: {
           budget_amount?: number
           created_at?: string
           id?: string
-          shop?: string
+          shop_id?: string
           week_start_date?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "weekly_budgets_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: false
+            referencedRelation: "shops"
+            referencedColumns: ["id"]
+          },
+        ]
       }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      add_shop_member: {
+        Args: {
+          _email: string
+          _role: Database["public"]["Enums"]["app_role"]
+          _shop_id: string
+        }
+        Returns: string
+      }
+      can_manage_document_folder: {
+        Args: { _folder: string }
+        Returns: boolean
+      }
+      has_shop_role: {
+        Args: {
+          _roles: Database["public"]["Enums"]["app_role"][]
+          _shop_id: string
+        }
+        Returns: boolean
+      }
+      import_row_total: {
+        Args: { _import_id: string }
+        Returns: number
+      }
+      is_shop_member: {
+        Args: { _shop_id: string }
+        Returns: boolean
+      }
+      is_shop_owner: {
+        Args: { _shop_id: string }
+        Returns: boolean
+      }
+      manages_any_shop: {
+        Args: never
+        Returns: boolean
+      }
+      rollback_import: {
+        Args: { _import_id: string }
+        Returns: number
+      }
     }
     Enums: {
-      [_ in never]: never
+      app_role: "owner" | "manager" | "cashier"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -322,6 +1597,8 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      app_role: ["owner", "manager", "cashier"],
+    },
   },
 } as const
@@ -0,0 +1,46 @@
+import { DAY_MS, round } from "@/lib/numbers";
+
+// Aged by the date of the invoice or sale: under 30 days is current
+export const AGING_BUCKETS = [
+  { key: "current", label: "Current", minDays: 0 },
+  { key: "days30", label: "30 Days", minDays: 30 },
+  { key: "days60", label: "60 Days", minDays: 60 },
+  { key: "days90", label: "90+ Days", minDays: 90 },
+] as const;
+
+export type AgingBucket = (typeof AGING_BUCKETS)[number]["key"];
+export type AgingTotals = Record<AgingBucket, number> & { total: number };
+
+export const agingBucket = (date: string, today = new Date()): AgingBucket => {
+  const age = Math.floor((today.getTime() - new Date(date).getTime()) / DAY_MS);
+  return [...AGING_BUCKETS].reverse().find(bucket => age >= bucket.minDays)?.key ?? "current";
+};
+
+// Outstanding amounts split by age. Money paid without naming what it pays
+// is taken off the oldest items first.
+export const ageBalances = <T>(
+  items: T[],
+  dateOf: (item: T) => string,
+  balanceOf: (item: T) => number,
+  unallocated: number,
+  today = new Date()
+): AgingTotals => {
+  const totals: AgingTotals = { current: 0, days30: 0, days60: 0, days90: 0, total: 0 };
+  let credit = unallocated;
+
+  [...items]
+    .sort((a, b) => dateOf(a).localeCompare(dateOf(b)))
+    .forEach(item => {
+      let balance = balanceOf(item);
+      const applied = Math.min(Math.max(balance, 0), credit);
+      balance = round(balance - applied);
+      credit -= applied;
+      if (balance <= 0) return;
+
+      const bucket = agingBucket(dateOf(item), today);
+      totals[bucket] = round(totals[bucket] + balance);
+      totals.total = round(totals.total + balance);
+    });
+
+  return totals;
+};
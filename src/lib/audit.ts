@@ -0,0 +1,71 @@
+import type { Tables } from "@/integrations/supabase/types";
+
+export type AuditEntry = Tables<'audit_log'>;
+
+// Tables with audit triggers, and how they are named in the UI
+export const AUDITED_TABLES: Record<string, string> = {
+  orders: "Orders",
+  income_records: "Cash Ups",
+  weekly_budgets: "Weekly Budgets",
+  supplies: "Supplies",
+  stock_movements: "Stock Movements",
+  deliveries: "Deliveries",
+  supplier_invoices: "Supplier Invoices",
+  supplier_payments: "Supplier Payments",
+  expenses: "Expenses",
+  bank_deposits: "Bank Deposits",
+  account_sales: "Account Sales",
+  customer_payments: "Customer Payments",
+};
+
+const AUDIT_ACTION_LABELS: Record<string, string> = {
+  INSERT: "Created",
+  UPDATE: "Edited",
+  DELETE: "Deleted",
+};
+
+const asRecord = (data: AuditEntry["old_data"]) => (data ?? {}) as Record<string, unknown>;
+
+// Soft deletes and restores are stored as updates of deleted_at
+export const auditActionLabel = (entry: AuditEntry) => {
+  if (entry.action === "UPDATE") {
+    const before = asRecord(entry.old_data).deleted_at;
+    const after = asRecord(entry.new_data).deleted_at;
+    if (!before && after) return "Deleted";
+    if (before && !after) return "Restored";
+  }
+  return AUDIT_ACTION_LABELS[entry.action];
+};
+
+// Bookkeeping columns that change on every save
+const IGNORED_FIELDS = ["id", "created_at", "updated_at", "deleted_at"];
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export const getChanges = (entry: AuditEntry): FieldChange[] => {
+  const before = asRecord(entry.old_data);
+  const after = asRecord(entry.new_data);
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+
+  return fields
+    .filter(field => !IGNORED_FIELDS.includes(field))
+    .filter(field => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null))
+    .map(field => ({ field, before: before[field], after: after[field] }));
+};
+
+// A short human name for the row the entry is about
+export const describeRecord = (entry: AuditEntry): string => {
+  const data = { ...asRecord(entry.old_data), ...asRecord(entry.new_data) };
+  const label = data.supply_name ?? data.name ?? data.invoice_number ?? data.date ?? data.week_start_date ?? data.occurred_on ?? data.received_on ?? data.paid_on ?? data.deposited_on ?? data.sold_on ?? data.description;
+  return label ? String(label) : entry.record_id.slice(0, 8);
+};
+
+export const formatFieldName = (field: string) =>
+  field.replace(/_/g, " ").replace(/^\w/, c => c.toUpperCase());
+
+export const formatAuditValue = (value: unknown) =>
+  value === null || value === undefined || value === "" ? "-" : String(value);
@@ -0,0 +1,535 @@
+import { z } from "zod";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import type { DailyIncome, Order, OrderLine, OrderStatus, Shop, Supply, WeeklyBudget } from "@/types";
+import { parseCounts } from "@/lib/cashCount";
+
+// A backup is one JSON file with every live shop, supply, order with its
+// lines, cash up and weekly budget of the shops it covers. Bump the version
+// whenever the shape of a record changes, and teach parseBackup to read the
+// older versions.
+export const BACKUP_FORMAT = "shop-backup";
+export const BACKUP_VERSION = 1;
+
+export interface BackupTables {
+  shops: Shop[];
+  supplies: Supply[];
+  orders: Order[];
+  orderLines: OrderLine[];
+  incomeRecords: DailyIncome[];
+  weeklyBudgets: WeeklyBudget[];
+}
+
+export interface BackupArchive extends BackupTables {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+}
+
+export type BackupTable = keyof BackupTables;
+
+export const BACKUP_TABLE_LABELS: Record<BackupTable, string> = {
+  shops: "Shops",
+  supplies: "Supplies",
+  orders: "Orders",
+  orderLines: "Order Lines",
+  incomeRecords: "Cash Ups",
+  weeklyBudgets: "Weekly Budgets",
+};
+
+// Tables in the order they are restored, so every row's shop, supply and
+// order are in before it
+export const BACKUP_TABLES: BackupTable[] = ["shops", "supplies", "orders", "orderLines", "incomeRecords", "weeklyBudgets"];
+
+// Rows as read from Supabase, and back again
+
+export const toShop = (row: Tables<'shops'>): Shop => ({
+  id: row.id,
+  name: row.name,
+  address: row.address,
+  phone: row.phone,
+  isActive: row.is_active,
+  depositAlertDays: row.deposit_alert_days,
+  vatRate: row.vat_rate,
+  vatCategory: row.vat_category,
+  vatNumber: row.vat_number,
+  documentFooter: row.document_footer,
+  logoPath: row.logo_path,
+  createdAt: row.created_at,
+});
+
+export const fromShop = (shop: Shop): TablesInsert<'shops'> => ({
+  id: shop.id,
+  name: shop.name,
+  address: shop.address,
+  phone: shop.phone,
+  is_active: shop.isActive,
+  deposit_alert_days: shop.depositAlertDays,
+  vat_rate: shop.vatRate,
+  vat_category: shop.vatCategory,
+  vat_number: shop.vatNumber,
+  document_footer: shop.documentFooter,
+  logo_path: shop.logoPath,
+  created_at: shop.createdAt,
+  deleted_at: null,
+});
+
+export const toSupply = (row: Tables<'supplies'>): Supply => ({
+  id: row.id,
+  name: row.name,
+  amount: row.amount,
+  phoneNumber: row.phone_number ?? "",
+  shop: row.shop_id,
+  createdAt: row.created_at,
+  supplierId: row.supplier_id,
+  unit: row.unit,
+  packSize: row.pack_size,
+  unitPrice: row.unit_price,
+  vatRate: row.vat_rate,
+  minLevel: row.min_level,
+  parLevel: row.par_level,
+});
+
+export const fromSupply = (supply: Supply): TablesInsert<'supplies'> => ({
+  id: supply.id,
+  name: supply.name,
+  amount: supply.amount,
+  phone_number: supply.phoneNumber || null,
+  shop_id: supply.shop,
+  created_at: supply.createdAt,
+  supplier_id: supply.supplierId,
+  unit: supply.unit,
+  pack_size: supply.packSize,
+  unit_price: supply.unitPrice,
+  vat_rate: supply.vatRate,
+  min_level: supply.minLevel,
+  par_level: supply.parLevel,
+  deleted_at: null,
+});
+
+export const toOrder = (row: Tables<'orders'>): Order => ({
+  id: row.id,
+  supplyId: row.supply_id,
+  supplyName: row.supply_name,
+  orderDate: row.order_date,
+  orderedBy: row.ordered_by,
+  contactPerson: row.contact_person,
+  orderAmount: row.order_amount,
+  amountDelivered: row.amount_delivered,
+  deliveryDate: row.delivery_date,
+  status: row.status as OrderStatus,
+  shop: row.shop_id,
+  notes: row.notes ?? undefined,
+  createdAt: row.created_at,
+  supplierId: row.supplier_id,
+  expectedDeliveryDate: row.expected_delivery_date,
+});
+
+export const fromOrder = (order: Order): TablesInsert<'orders'> => ({
+  id: order.id,
+  supply_id: order.supplyId,
+  supply_name: order.supplyName,
+  order_date: order.orderDate,
+  ordered_by: order.orderedBy,
+  contact_person: order.contactPerson,
+  order_amount: order.orderAmount,
+  amount_delivered: order.amountDelivered,
+  delivery_date: order.deliveryDate,
+  status: order.status,
+  shop_id: order.shop,
+  notes: order.notes ?? null,
+  created_at: order.createdAt,
+  supplier_id: order.supplierId,
+  expected_delivery_date: order.expectedDeliveryDate,
+  deleted_at: null,
+});
+
+export const toOrderLine = (row: Tables<'order_lines'>): OrderLine => ({
+  id: row.id,
+  orderId: row.order_id,
+  supplyId: row.supply_id,
+  description: row.description,
+  unit: row.unit,
+  quantity: row.quantity,
+  unitPrice: row.unit_price,
+  vatRate: row.vat_rate,
+  quantityDelivered: row.quantity_delivered,
+  createdAt: row.created_at,
+});
+
+// quantity_delivered is left out: only the delivery trigger sets it, and
+// deliveries are not backed up, so a restored line starts at 0 or keeps
+// what its deliveries add up to
+export const fromOrderLine = (line: OrderLine): TablesInsert<'order_lines'> => ({
+  id: line.id,
+  order_id: line.orderId,
+  supply_id: line.supplyId,
+  description: line.description,
+  unit: line.unit,
+  quantity: line.quantity,
+  unit_price: line.unitPrice,
+  vat_rate: line.vatRate,
+  created_at: line.createdAt,
+});
+
+export const toDailyIncome = (row: Tables<'income_records'>): DailyIncome => ({
+  id: row.id,
+  date: row.date,
+  shop: row.shop_id,
+  dailyIncome: row.daily_income,
+  expenses: row.expenses,
+  netIncome: row.net_income,
+  notes: row.notes ?? undefined,
+  createdAt: row.created_at,
+  cashAmount: row.cash_amount,
+  cardMachineAmount: row.card_machine_amount,
+  directDepositAmount: row.direct_deposit_amount,
+  accountAmount: row.account_amount,
+  openingFloat: row.opening_float,
+  denominationCounts: parseCounts(row.denomination_counts),
+  expectedTakings: row.expected_takings,
+  variance: row.variance,
+  vatRate: row.vat_rate,
+  zeroRatedSales: row.zero_rated_sales,
+});
+
+export const fromDailyIncome = (record: DailyIncome): TablesInsert<'income_records'> => ({
+  id: record.id,
+  date: record.date,
+  shop_id: record.shop,
+  daily_income: record.dailyIncome,
+  expenses: record.expenses,
+  net_income: record.netIncome,
+  notes: record.notes ?? null,
+  created_at: record.createdAt,
+  cash_amount: record.cashAmount,
+  card_machine_amount: record.cardMachineAmount,
+  direct_deposit_amount: record.directDepositAmount,
+  account_amount: record.accountAmount,
+  opening_float: record.openingFloat,
+  denomination_counts: record.denominationCounts,
+  expected_takings: record.expectedTakings,
+  variance: record.variance,
+  vat_rate: record.vatRate,
+  zero_rated_sales: record.zeroRatedSales,
+  deleted_at: null,
+});
+
+export const toWeeklyBudget = (row: Tables<'weekly_budgets'>): WeeklyBudget => ({
+  id: row.id,
+  shop: row.shop_id,
+  weekStartDate: row.week_start_date,
+  budgetAmount: row.budget_amount,
+  createdAt: row.created_at,
+});
+
+export const fromWeeklyBudget = (budget: WeeklyBudget): TablesInsert<'weekly_budgets'> => ({
+  id: budget.id,
+  shop_id: budget.shop,
+  week_start_date: budget.weekStartDate,
+  budget_amount: budget.budgetAmount,
+  created_at: budget.createdAt,
+});
+
+// Checking a file before anything is restored from it. The schemas follow
+// the record types in src/types field for field.
+
+const id = z.string().uuid();
+const day = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "must be a yyyy-mm-dd date");
+const amount = z.number().finite();
+
+const shopSchema = z.object({
+  id,
+  name: z.string().min(1),
+  address: z.string().nullable(),
+  phone: z.string().nullable(),
+  isActive: z.boolean(),
+  depositAlertDays: z.number().int().min(0),
+  vatRate: amount,
+  vatCategory: z.string(),
+  vatNumber: z.string().nullable(),
+  documentFooter: z.string().nullable(),
+  logoPath: z.string().nullable(),
+  createdAt: z.string(),
+});
+
+const supplySchema = z.object({
+  id,
+  name: z.string().min(1),
+  amount,
+  phoneNumber: z.string(),
+  shop: id,
+  createdAt: z.string(),
+  supplierId: id.nullable(),
+  unit: z.string(),
+  packSize: amount.positive(),
+  unitPrice: amount,
+  vatRate: amount,
+  minLevel: amount.nullable(),
+  parLevel: amount.nullable(),
+});
+
+const orderSchema = z.object({
+  id,
+  supplyId: id.nullable(),
+  supplyName: z.string(),
+  orderDate: day,
+  orderedBy: z.string(),
+  contactPerson: z.string(),
+  orderAmount: amount,
+  amountDelivered: amount,
+  deliveryDate: day.nullable(),
+  status: z.enum(["Pending", "Partial", "Delivered"]),
+  shop: id,
+  notes: z.string().optional(),
+  createdAt: z.string(),
+  supplierId: id.nullable(),
+  expectedDeliveryDate: day.nullable(),
+});
+
+const orderLineSchema = z.object({
+  id,
+  orderId: id,
+  supplyId: id.nullable(),
+  description: z.string(),
+  unit: z.string(),
+  quantity: amount.min(0),
+  unitPrice: amount,
+  vatRate: amount,
+  quantityDelivered: amount.min(0),
+  createdAt: z.string(),
+});
+
+const dailyIncomeSchema = z.object({
+  id,
+  date: day,
+  shop: id,
+  dailyIncome: amount,
+  expenses: amount,
+  netIncome: amount,
+  notes: z.string().optional(),
+  createdAt: z.string(),
+  cashAmount: amount,
+  cardMachineAmount: amount,
+  directDepositAmount: amount,
+  accountAmount: amount,
+  openingFloat: amount,
+  denominationCounts: z.record(z.number()).nullable(),
+  expectedTakings: amount.nullable(),
+  variance: amount.nullable(),
+  vatRate: amount,
+  zeroRatedSales: amount,
+});
+
+const weeklyBudgetSchema = z.object({
+  id,
+  shop: id,
+  weekStartDate: day,
+  budgetAmount: amount,
+  createdAt: z.string(),
+});
+
+const archiveSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.literal(BACKUP_VERSION),
+  createdAt: z.string(),
+  shops: z.array(shopSchema),
+  supplies: z.array(supplySchema),
+  orders: z.array(orderSchema),
+  orderLines: z.array(orderLineSchema),
+  incomeRecords: z.array(dailyIncomeSchema),
+  weeklyBudgets: z.array(weeklyBudgetSchema),
+});
+
+// Reads a backup file, throwing with the first few problems when it is not
+// a backup this version of the app can restore
+export const parseBackup = (text: string): BackupArchive => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    throw new Error("The file is not a backup, it is not JSON");
+  }
+
+  const header = z.object({ format: z.literal(BACKUP_FORMAT), version: z.number().int() }).safeParse(json);
+  if (!header.success) throw new Error("The file is not a backup made by this app");
+  if (header.data.version > BACKUP_VERSION) {
+    throw new Error(`The backup is version ${header.data.version}, update the app before restoring it`);
+  }
+  if (header.data.version !== BACKUP_VERSION) {
+    throw new Error(`Backups of version ${header.data.version} can no longer be restored`);
+  }
+
+  const result = archiveSchema.safeParse(json);
+  if (!result.success) {
+    const problems = result.error.issues.slice(0, 3).map(issue => `${issue.path.join(".")} ${issue.message}`);
+    throw new Error(`The backup is damaged: ${problems.join("; ")}`);
+  }
+
+  const archive = result.data as BackupArchive;
+  const shopIds = new Set(archive.shops.map(shop => shop.id));
+  const stray = BACKUP_TABLES.slice(1)
+    .filter(table => table !== "orderLines")
+    .find(table => archive[table].some(record => !shopIds.has((record as { shop: string }).shop)));
+  if (stray) throw new Error(`The backup has ${BACKUP_TABLE_LABELS[stray].toLowerCase()} of a shop it does not include`);
+  const orderIds = new Set(archive.orders.map(order => order.id));
+  if (archive.orderLines.some(line => !orderIds.has(line.orderId))) {
+    throw new Error("The backup has order lines of an order it does not include");
+  }
+
+  return archive;
+};
+
+// Working out what a restore would do
+
+// merge adds what the database is missing and leaves everything else alone.
+// replace makes the shops in the backup look exactly like the backup:
+// changed rows are overwritten and rows the backup does not have are moved
+// to the recycle bin. Shops outside the backup are never touched.
+export type RestoreMode = 'merge' | 'replace';
+
+export interface TableDiff<T> {
+  added: T[];
+  // Rows that differ from the backup, overwritten by replace
+  changed: T[];
+  unchanged: number;
+  // Rows the backup does not have, removed by replace
+  removed: { id: string; label: string }[];
+}
+
+export type RestorePlan = { mode: RestoreMode; notes: string[] } & { [K in BackupTable]: TableDiff<BackupTables[K][number]> };
+
+// The database as it is, for the shops in the backup. Deleted rows are
+// included: restoring a row brings it back out of the recycle bin.
+export type CurrentData = { [K in BackupTable]: { record: BackupTables[K][number]; deleted: boolean }[] };
+
+export interface RestoreAccess {
+  managedShopIds: string[];
+  ownedShopIds: string[];
+  supplierIds: string[];
+}
+
+export const recordLabel = (table: BackupTable, record: BackupTables[BackupTable][number]) => {
+  switch (table) {
+    case "shops": return (record as Shop).name;
+    case "supplies": return (record as Supply).name;
+    case "orders": return `${(record as Order).supplyName} (${(record as Order).orderDate})`;
+    case "orderLines": return (record as OrderLine).description;
+    case "incomeRecords": return `Cash up ${(record as DailyIncome).date}`;
+    case "weeklyBudgets": return `Week of ${(record as WeeklyBudget).weekStartDate}`;
+  }
+};
+
+// Key order differs between a file and a fresh read, and empty fields may
+// be left out of the file, so compare the filled in fields sorted by key
+const sameRecord = (a: object, b: object) => {
+  const canonical = (value: unknown): unknown =>
+    value && typeof value === "object" && !Array.isArray(value)
+      ? Object.entries(value).filter(([, field]) => field !== undefined && field !== null).sort(([x], [y]) => x.localeCompare(y))
+        .map(([key, field]) => [key, canonical(field)])
+      : value;
+  return JSON.stringify(canonical(a)) === JSON.stringify(canonical(b));
+};
+
+// Budgets are unique per shop and week, so they are matched on that rather
+// than on their id
+const matchKey = (table: BackupTable, record: BackupTables[BackupTable][number]) =>
+  table === "weeklyBudgets" ? `${(record as WeeklyBudget).shop}|${(record as WeeklyBudget).weekStartDate}` : record.id;
+
+const diffTable = <T extends BackupTables[BackupTable][number]>(
+  table: BackupTable,
+  records: T[],
+  current: { record: T; deleted: boolean }[]
+): TableDiff<T> => {
+  const existing = new Map(current.map(entry => [matchKey(table, entry.record), entry]));
+  const diff: TableDiff<T> = { added: [], changed: [], unchanged: 0, removed: [] };
+
+  records.forEach(record => {
+    const entry = existing.get(matchKey(table, record));
+    existing.delete(matchKey(table, record));
+    // A budget keeps the id it already has, and a line what was delivered on it
+    const restored =
+      entry && table === "weeklyBudgets" ? { ...record, id: entry.record.id }
+      : entry && table === "orderLines" ? { ...record, quantityDelivered: (entry.record as OrderLine).quantityDelivered }
+      : record;
+    if (!entry) diff.added.push(restored);
+    else if (entry.deleted || !sameRecord(entry.record, restored)) diff.changed.push(restored);
+    else diff.unchanged++;
+  });
+
+  diff.removed = Array.from(existing.values())
+    .filter(entry => !entry.deleted)
+    .map(entry => ({ id: entry.record.id, label: recordLabel(table, entry.record) }));
+  return diff;
+};
+
+// The dry run: what restoring the backup in the given mode would add,
+// change and remove. Shops the user cannot restore are left out with a
+// note, and links to suppliers or supplies that no longer exist are
+// dropped.
+export const planRestore = (archive: BackupArchive, current: CurrentData, mode: RestoreMode, access: RestoreAccess): RestorePlan => {
+  const notes: string[] = [];
+  const existingShopIds = new Set(current.shops.map(entry => entry.record.id));
+
+  const shops = archive.shops.filter(shop => {
+    if (existingShopIds.has(shop.id) && !access.managedShopIds.includes(shop.id)) {
+      notes.push(`${shop.name} is skipped, you do not manage it`);
+      return false;
+    }
+    return true;
+  });
+  const shopIds = new Set(shops.map(shop => shop.id));
+  const inShops = <T extends { shop: string }>(records: T[]) => records.filter(record => shopIds.has(record.shop));
+
+  // Only owners can change a shop's details; managers still get its data
+  const shopDiff = diffTable("shops", shops, current.shops);
+  const notOwned = shopDiff.changed.filter(shop => !access.ownedShopIds.includes(shop.id));
+  if (notOwned.length > 0) {
+    notes.push(`Details of ${notOwned.map(shop => shop.name).join(", ")} are kept, only owners can change them`);
+    shopDiff.changed = shopDiff.changed.filter(shop => access.ownedShopIds.includes(shop.id));
+  }
+  // Skipped shops are not removed either
+  shopDiff.removed = [];
+
+  const supplierIds = new Set(access.supplierIds);
+  const supplyIds = new Set([
+    ...inShops(archive.supplies).map(supply => supply.id),
+    ...(mode === 'merge' ? current.supplies.filter(entry => !entry.deleted).map(entry => entry.record.id) : []),
+  ]);
+  let unlinked = 0;
+  const knownSupplier = (supplierId: string | null) => {
+    if (supplierId && !supplierIds.has(supplierId)) {
+      unlinked++;
+      return null;
+    }
+    return supplierId;
+  };
+
+  const supplies = inShops(archive.supplies).map(supply => ({ ...supply, supplierId: knownSupplier(supply.supplierId) }));
+  const orders = inShops(archive.orders).map(order => ({
+    ...order,
+    supplierId: knownSupplier(order.supplierId),
+    supplyId: order.supplyId && supplyIds.has(order.supplyId) ? order.supplyId : null,
+  }));
+  if (unlinked > 0) notes.push(`${unlinked} rows name a supplier that no longer exists and are restored without one`);
+
+  // Lines come and go with their order. Those of orders outside the backup
+  // follow their order to the recycle bin rather than being removed.
+  const orderIds = new Set(orders.map(order => order.id));
+  const orderLines = archive.orderLines
+    .filter(line => orderIds.has(line.orderId))
+    .map(line => ({ ...line, supplyId: line.supplyId && supplyIds.has(line.supplyId) ? line.supplyId : null }));
+  const lineDiff = diffTable("orderLines", orderLines, current.orderLines);
+  const lineOrders = new Map(current.orderLines.map(entry => [entry.record.id, entry.record.orderId]));
+  lineDiff.removed = lineDiff.removed.filter(line => orderIds.has(lineOrders.get(line.id)));
+
+  return {
+    mode,
+    notes,
+    shops: shopDiff,
+    supplies: diffTable("supplies", supplies, current.supplies),
+    orders: diffTable("orders", orders, current.orders),
+    orderLines: lineDiff,
+    incomeRecords: diffTable("incomeRecords", inShops(archive.incomeRecords), current.incomeRecords),
+    weeklyBudgets: diffTable("weeklyBudgets", inShops(archive.weeklyBudgets), current.weeklyBudgets),
+  };
+};
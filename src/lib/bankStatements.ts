@@ -0,0 +1,161 @@
+import type { Tables } from "@/integrations/supabase/types";
+import { parseAmount, parseCsv, parseDate } from "@/lib/csv";
+import { DAY_MS } from "@/lib/numbers";
+
+type IncomeRecord = Tables<'income_records'>;
+type BankDeposit = Tables<'bank_deposits'>;
+type StatementLine = Tables<'bank_statement_lines'>;
+
+// A statement line as read from the file, before it is stored
+export interface ParsedStatementLine {
+  posted_on: string;
+  description: string;
+  reference: string | null;
+  amount: number;
+  external_id: string;
+}
+
+export type MatchKind = 'card_machine' | 'direct_deposit' | 'deposit' | 'ignored';
+
+export const MATCH_KIND_LABELS: Record<MatchKind, string> = {
+  card_machine: "Card machine",
+  direct_deposit: "Direct deposit",
+  deposit: "Deposit slip",
+  ignored: "Nothing to match",
+};
+
+// Card settlements and deposits can take a few days to reach the statement
+export const SETTLEMENT_DAYS = 5;
+
+export const parseOfx = (text: string): ParsedStatementLine[] => {
+  const field = (block: string, tag: string) =>
+    block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"))?.[1].trim() ?? "";
+
+  return Array.from(text.matchAll(/<STMTTRN>([\s\S]*?)(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi))
+    .map(([, block]) => {
+      const postedOn = parseDate(field(block, "DTPOSTED"));
+      const amount = parseAmount(field(block, "TRNAMT"));
+      if (!postedOn || amount === null) return null;
+
+      const name = field(block, "NAME");
+      const memo = field(block, "MEMO");
+      return {
+        posted_on: postedOn,
+        description: [name, memo].filter(Boolean).join(" - "),
+        reference: field(block, "CHECKNUM") || field(block, "REFNUM") || null,
+        amount,
+        external_id: `ofx:${field(block, "FITID") || `${postedOn}|${amount}|${name}|${memo}`}`,
+      };
+    })
+    .filter((line): line is ParsedStatementLine => line !== null);
+};
+
+// The first column matching the pattern that is not already taken
+const findColumn = (header: string[], pattern: RegExp, taken: number[] = []) =>
+  header.findIndex((column, index) => !taken.includes(index) && pattern.test(column.trim().toLowerCase()));
+
+// Works out the columns from the header row. Banks either give one signed
+// amount column or separate debit and credit columns.
+export const parseStatementCsv = (text: string): ParsedStatementLine[] => {
+  const rows = parseCsv(text);
+  const headerIndex = rows.findIndex(row => row.some(column => /date/i.test(column)));
+  if (headerIndex < 0) throw new Error("Could not find a header row with a date column");
+
+  const header = rows[headerIndex];
+  const dateColumn = findColumn(header, /date/);
+  const referenceColumn = findColumn(header, /ref/);
+  const amountColumn = findColumn(header, /amount/);
+  const debitColumn = findColumn(header, /debit|withdrawal|money out/);
+  const creditColumn = findColumn(header, /credit|deposit|money in/);
+  // "Transaction Date" and "Transaction Amount" are not the description
+  const descriptionColumn = findColumn(header, /desc|narrative|details|transaction/,
+    [dateColumn, referenceColumn, amountColumn, debitColumn, creditColumn]);
+
+  if (amountColumn < 0 && (debitColumn < 0 || creditColumn < 0)) {
+    throw new Error("Could not find an amount column, or debit and credit columns");
+  }
+
+  // Identical rows in one statement are told apart by how often they occur
+  const seen = new Map<string, number>();
+
+  return rows.slice(headerIndex + 1).flatMap(row => {
+    const postedOn = parseDate(row[dateColumn] ?? "");
+    const amount = amountColumn >= 0
+      ? parseAmount(row[amountColumn] ?? "")
+      : (parseAmount(row[creditColumn] ?? "") ?? 0) - Math.abs(parseAmount(row[debitColumn] ?? "") ?? 0);
+    if (!postedOn || amount === null || amount === 0) return [];
+
+    const description = descriptionColumn >= 0 ? (row[descriptionColumn] ?? "").trim() : "";
+    const key = `${postedOn}|${amount}|${description}`;
+    const occurrence = (seen.get(key) ?? 0) + 1;
+    seen.set(key, occurrence);
+
+    return [{
+      posted_on: postedOn,
+      description,
+      reference: referenceColumn >= 0 ? (row[referenceColumn] ?? "").trim() || null : null,
+      amount,
+      external_id: `csv:${key}|${occurrence}`,
+    }];
+  });
+};
+
+export const parseStatement = (text: string): ParsedStatementLine[] =>
+  /<OFX>/i.test(text) ? parseOfx(text) : parseStatementCsv(text);
+
+// Money that should show up on the bank statement: card machine and direct
+// deposit takings of each cash up, and each deposit slip
+export interface ExpectedCredit {
+  kind: Exclude<MatchKind, 'ignored'>;
+  income_record_id: string | null;
+  deposit_id: string | null;
+  date: string;
+  amount: number;
+}
+
+export const creditKey = (credit: Pick<ExpectedCredit, "kind" | "income_record_id" | "deposit_id">) =>
+  `${credit.kind}:${credit.income_record_id ?? credit.deposit_id}`;
+
+export const expectedCredits = (records: IncomeRecord[], deposits: BankDeposit[]): ExpectedCredit[] => [
+  ...records.filter(r => r.card_machine_amount > 0).map(r => ({
+    kind: 'card_machine' as const, income_record_id: r.id, deposit_id: null, date: r.date, amount: r.card_machine_amount,
+  })),
+  ...records.filter(r => r.direct_deposit_amount > 0).map(r => ({
+    kind: 'direct_deposit' as const, income_record_id: r.id, deposit_id: null, date: r.date, amount: r.direct_deposit_amount,
+  })),
+  ...deposits.map(d => ({
+    kind: 'deposit' as const, income_record_id: null, deposit_id: d.id, date: d.deposited_on, amount: d.amount,
+  })),
+];
+
+// Credits that no statement line has been matched to yet
+export const unmatchedCredits = (credits: ExpectedCredit[], lines: StatementLine[]) => {
+  const matched = new Set(lines
+    .filter(l => l.match_kind && l.match_kind !== 'ignored')
+    .map(l => creditKey({ kind: l.match_kind as ExpectedCredit["kind"], income_record_id: l.income_record_id, deposit_id: l.deposit_id })));
+  return credits.filter(c => !matched.has(creditKey(c)));
+};
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((new Date(to).getTime() - new Date(from).getTime()) / DAY_MS);
+
+// Pairs unmatched statement credits with expected credits of the same amount
+// that were taken on or up to SETTLEMENT_DAYS before the line was posted,
+// preferring the closest date. Each credit is used at most once.
+export const proposeMatches = (lines: StatementLine[], credits: ExpectedCredit[]) => {
+  const pool = [...credits];
+
+  return [...lines]
+    .filter(l => !l.match_kind && l.amount > 0)
+    .sort((a, b) => a.posted_on.localeCompare(b.posted_on))
+    .flatMap(line => {
+      const candidates = pool
+        .map((credit, index) => ({ credit, index, gap: daysBetween(credit.date, line.posted_on) }))
+        .filter(({ credit, gap }) => Math.abs(credit.amount - line.amount) < 0.005 && gap >= 0 && gap <= SETTLEMENT_DAYS)
+        .sort((a, b) => a.gap - b.gap);
+      if (candidates.length === 0) return [];
+
+      pool.splice(candidates[0].index, 1);
+      return [{ line, credit: candidates[0].credit }];
+    });
+};
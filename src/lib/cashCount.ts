@@ -0,0 +1,35 @@
+import type { Json } from "@/integrations/supabase/types";
+import { round } from "@/lib/numbers";
+
+// Notes and coins in circulation, largest first. Counts are keyed by value.
+export const ZAR_DENOMINATIONS = [
+  { value: 200, label: "R200", kind: "note" },
+  { value: 100, label: "R100", kind: "note" },
+  { value: 50, label: "R50", kind: "note" },
+  { value: 20, label: "R20", kind: "note" },
+  { value: 10, label: "R10", kind: "note" },
+  { value: 5, label: "R5", kind: "coin" },
+  { value: 2, label: "R2", kind: "coin" },
+  { value: 1, label: "R1", kind: "coin" },
+  { value: 0.5, label: "50c", kind: "coin" },
+  { value: 0.2, label: "20c", kind: "coin" },
+  { value: 0.1, label: "10c", kind: "coin" },
+] as const;
+
+export type DenominationCounts = Record<string, number>;
+
+// Over or short by less than this is treated as balanced
+export const VARIANCE_TOLERANCE = 1;
+
+export const countTotal = (counts: DenominationCounts) =>
+  round(ZAR_DENOMINATIONS.reduce((sum, d) => sum + (counts[d.value] ?? 0) * d.value, 0));
+
+export const parseCounts = (value: Json | null): DenominationCounts | null =>
+  value && typeof value === "object" && !Array.isArray(value) ? (value as DenominationCounts) : null;
+
+// Positive when the till is over the Z-reading, negative when short
+export const cashUpVariance = (dailyIncome: number, expectedTakings: number | null) =>
+  expectedTakings === null ? null : round(dailyIncome - expectedTakings);
+
+export const isOutOfBalance = (variance: number | null) =>
+  variance !== null && Math.abs(variance) >= VARIANCE_TOLERANCE;
@@ -0,0 +1,93 @@
+import { isValid, parseISO } from "date-fns";
+
+// Splits CSV text into rows of fields. Handles quoted fields with embedded
+// delimiters, quotes and line breaks. The delimiter is guessed from the
+// first line because some exports use semicolons instead of commas.
+export const parseCsv = (text: string): string[][] => {
+  const content = text.replace(/^\uFEFF/, "");
+  const firstLine = content.split(/\r?\n/, 1)[0] ?? "";
+  const delimiter = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ";" : ",";
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines come through as a single empty field
+  return rows.filter(r => r.some(f => f.trim() !== ""));
+};
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+const pad = (value: string | number) => String(value).padStart(2, "0");
+
+const readDate = (text: string): string | null => {
+  let match = text.match(/^(\d{4})[-/]?(\d{2})[-/]?(\d{2})/);
+  if (match) return `${match[1]}-${match[2]}-${match[3]}`;
+
+  match = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/);
+  if (match) return `${match[3]}-${pad(match[2])}-${pad(match[1])}`;
+
+  match = text.match(/^(\d{1,2})[\s-]([A-Za-z]{3})[a-z]*[\s-](\d{4})$/);
+  const month = match ? MONTHS.indexOf(match[2].toLowerCase()) : -1;
+  if (match && month >= 0) return `${match[3]}-${pad(month + 1)}-${pad(match[1])}`;
+
+  return null;
+};
+
+// Accepts 2025-10-31, 2025/10/31, 20251031, 31/10/2025 and 31 Oct 2025.
+// Days that do not exist, like 2025-13-45 or 31/02/2025, give null.
+export const parseDate = (value: string): string | null => {
+  const date = readDate(value.trim());
+  return date && isValid(parseISO(date)) ? date : null;
+};
+
+// Accepts 1234.56, 1 234,56, 12,5, R1,234.56, (1234.56) and 1234.56-
+export const parseAmount = (value: string): number | null => {
+  let text = value.replace(/[R\s]/g, "");
+  if (!text) return null;
+
+  const negative = /^\(.*\)$/.test(text) || /-$/.test(text) || /^-/.test(text);
+  text = text.replace(/[()-]/g, "");
+  // A comma is the decimal separator when one or two digits follow it,
+  // otherwise it separates thousands
+  if (/,\d{1,2}$/.test(text)) text = text.replace(/\./g, "").replace(",", ".");
+  text = text.replace(/,/g, "");
+
+  const amount = parseFloat(text);
+  if (isNaN(amount)) return null;
+  return negative ? -amount : amount;
+};
@@ -0,0 +1,88 @@
+import type { Tables } from "@/integrations/supabase/types";
+import { PAYMENT_METHODS, type PaymentMethod, type StatementEntry } from "@/lib/payables";
+import { ageBalances, type AgingTotals } from "@/lib/aging";
+import { round } from "@/lib/numbers";
+
+type Customer = Tables<'customers'>;
+type AccountSale = Tables<'account_sales'>;
+type CustomerPayment = Tables<'customer_payments'>;
+type IncomeRecord = Tables<'income_records'>;
+
+// The editable part of an account sale, as captured on the cash up
+export interface AccountSaleValues {
+  customer_id: string;
+  amount: number;
+  reference: string | null;
+}
+
+export const emptyAccountSale: AccountSaleValues = {
+  customer_id: "",
+  amount: 0,
+  reference: null,
+};
+
+export const accountSalesTotal = (sales: Pick<AccountSaleValues, "amount">[]) =>
+  round(sales.reduce((sum, s) => sum + s.amount, 0));
+
+// Sales of cash ups in the recycle bin do not count until they are restored
+export const liveSales = (sales: AccountSale[], records: IncomeRecord[]) => {
+  const recordIds = new Set(records.map(r => r.id));
+  return sales.filter(s => recordIds.has(s.income_record_id));
+};
+
+export const customerBalance = (customerId: string, sales: AccountSale[], payments: CustomerPayment[]) =>
+  round(
+    sales.filter(s => s.customer_id === customerId).reduce((sum, s) => sum + s.amount, 0) -
+    payments.filter(p => p.customer_id === customerId).reduce((sum, p) => sum + p.amount, 0)
+  );
+
+// What one customer owes split by age. Payments settle the oldest sales first.
+export const ageCustomer = (sales: AccountSale[], payments: CustomerPayment[], today = new Date()) =>
+  ageBalances(sales, sale => sale.sold_on, sale => sale.amount, payments.reduce((sum, p) => sum + p.amount, 0), today);
+
+export interface Debtor {
+  customer: Customer;
+  aging: AgingTotals;
+  lastPaidOn: string | null;
+  overLimit: boolean;
+}
+
+// Customers that owe money, largest balance first
+export const outstandingDebtors = (
+  customers: Customer[],
+  sales: AccountSale[],
+  payments: CustomerPayment[],
+  today = new Date()
+): Debtor[] =>
+  customers
+    .map(customer => {
+      const customerPayments = payments.filter(p => p.customer_id === customer.id);
+      const aging = ageCustomer(sales.filter(s => s.customer_id === customer.id), customerPayments, today);
+      return {
+        customer,
+        aging,
+        lastPaidOn: customerPayments.reduce<string | null>((latest, p) => !latest || p.paid_on > latest ? p.paid_on : latest, null),
+        overLimit: customer.credit_limit !== null && aging.total > customer.credit_limit,
+      };
+    })
+    .filter(debtor => debtor.aging.total > 0)
+    .sort((a, b) => b.aging.total - a.aging.total);
+
+// Account sales and payments in date order with a running balance owed
+export const buildCustomerStatement = (sales: AccountSale[], payments: CustomerPayment[]): StatementEntry[] => {
+  const entries = [
+    ...sales.map(s => ({ date: s.sold_on, description: `Account sale${s.reference ? ` ${s.reference}` : ""}`, debit: s.amount, credit: 0 })),
+    ...payments.map(p => ({
+      date: p.paid_on,
+      description: `Payment - ${PAYMENT_METHODS[p.method as PaymentMethod] ?? p.method}${p.reference ? ` ${p.reference}` : ""}`,
+      debit: 0,
+      credit: p.amount,
+    })),
+  ].sort((a, b) => a.date.localeCompare(b.date) || b.debit - a.debit);
+
+  let balance = 0;
+  return entries.map(entry => {
+    balance = round(balance + entry.debit - entry.credit);
+    return { ...entry, balance };
+  });
+};
@@ -0,0 +1,40 @@
+import type { Tables } from "@/integrations/supabase/types";
+import { cashPaidOut, type PaidFrom } from "@/lib/expenses";
+import { DAY_MS, round } from "@/lib/numbers";
+
+type IncomeRecord = Tables<'income_records'>;
+type Expense = Tables<'expenses'>;
+
+// Cash of a cash up that should reach the bank: the cash taken less what
+// was paid out of the till
+export const cashToBank = (record: IncomeRecord, expenses: Expense[]) =>
+  round(record.cash_amount - cashPaidOut(
+    expenses
+      .filter(e => e.income_record_id === record.id)
+      .map(e => ({ amount: e.amount, paid_from: e.paid_from as PaidFrom }))
+  ));
+
+// Cash ups whose cash has not been deposited yet, oldest first
+export const undepositedCashUps = (records: IncomeRecord[], expenses: Expense[]) =>
+  records
+    .filter(r => !r.deposit_id && cashToBank(r, expenses) > 0)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+export interface UndepositedCash {
+  amount: number;
+  count: number;
+  oldestDate: string | null;
+  daysWaiting: number;
+}
+
+export const undepositedCash = (records: IncomeRecord[], expenses: Expense[], today = new Date()): UndepositedCash => {
+  const pending = undepositedCashUps(records, expenses);
+  const oldestDate = pending[0]?.date ?? null;
+
+  return {
+    amount: round(pending.reduce((sum, r) => sum + cashToBank(r, expenses), 0)),
+    count: pending.length,
+    oldestDate,
+    daysWaiting: oldestDate ? Math.floor((today.getTime() - new Date(oldestDate).getTime()) / DAY_MS) : 0,
+  };
+};
@@ -0,0 +1,233 @@
+import type { Tables } from "@/integrations/supabase/types";
+import { formatCurrency } from "@/lib/currency";
+import { round } from "@/lib/numbers";
+import type { StatementEntry } from "@/lib/payables";
+
+type Order = Tables<'orders'>;
+type Shop = Tables<'shops'>;
+
+// The description of a PDF sent to the render-document edge function. The
+// function lays it out with the same header, page numbers and totals for
+// every kind of document, files the PDF against its shop and week and
+// returns the archived row. Keep supabase/functions/render-document/spec.ts
+// in step with these types.
+export type DocumentKind =
+  | 'weekly_delivery_list'
+  | 'supplies_list'
+  | 'order_form'
+  | 'business_report'
+  | 'discrepancy_report'
+  | 'supplier_statement'
+  | 'customer_statement'
+  | 'debtors_report'
+  | 'vat_report';
+
+export const DOCUMENT_KIND_LABELS: Record<DocumentKind, string> = {
+  weekly_delivery_list: "Weekly Delivery List",
+  supplies_list: "Supplies Order List",
+  order_form: "Supplies Order Form",
+  business_report: "Business Report",
+  discrepancy_report: "Delivery Discrepancies",
+  supplier_statement: "Supplier Statement",
+  customer_statement: "Customer Statement",
+  debtors_report: "Outstanding Debtors",
+  vat_report: "VAT201 Worksheet",
+};
+
+// Currency cells take numbers and are printed in rand. Checkbox and
+// signature columns are left blank to be filled in by hand.
+export interface DocumentColumn {
+  label: string;
+  // Share of the page width, relative to the other columns
+  width: number;
+  type?: 'text' | 'currency' | 'checkbox' | 'signatures';
+  // Signature lines drawn in each cell of a signatures column
+  signatures?: string[];
+  // Summed on the total row
+  total?: boolean;
+}
+
+// A cell with a title is printed with the title in bold above its lines
+export type DocumentCell = string | number | null | { title?: string; lines: string[] };
+
+export interface DocumentRow {
+  cells: DocumentCell[];
+  highlight?: boolean;
+}
+
+export type DocumentBlock =
+  | { type: 'summary'; items: { label: string; value: string }[] }
+  | { type: 'table'; heading?: string; columns: DocumentColumn[]; rows: DocumentRow[]; totalLabel?: string; emptyText?: string }
+  | { type: 'note'; lines: string[]; highlight?: boolean }
+  | { type: 'signatures'; heading: string; labels: string[] };
+
+// The letterhead of the shop a section belongs to. The logo is a PNG or
+// JPEG in the shop-logos bucket; the footer is printed on every page.
+export interface DocumentBranding {
+  name: string;
+  address: string | null;
+  phone: string | null;
+  vatNumber: string | null;
+  footer: string | null;
+  logoPath: string | null;
+}
+
+// Every section starts on a new page under its own heading
+export interface DocumentSection {
+  heading: string;
+  details: string[];
+  branding?: DocumentBranding;
+  blocks: DocumentBlock[];
+}
+
+export interface DocumentSpec {
+  kind: DocumentKind;
+  title: string;
+  // The shop and week the document is archived against; null covers every
+  // shop, or no particular week
+  shopId: string | null;
+  weekStartDate: string | null;
+  orientation?: 'portrait' | 'landscape';
+  sections: DocumentSection[];
+}
+
+// The letterhead set up for the shop in its settings
+export const brandingFor = (shop: Pick<Shop, "name" | "address" | "phone" | "vat_number" | "document_footer" | "logo_path">): DocumentBranding => ({
+  name: shop.name,
+  address: shop.address,
+  phone: shop.phone,
+  vatNumber: shop.vat_number,
+  footer: shop.document_footer,
+  logoPath: shop.logo_path,
+});
+
+export interface DeliveryListEntry {
+  order: Order;
+  supplierName: string | undefined;
+  items: string[];
+  invoiceNumbers: string;
+  placedLastWeek: boolean;
+}
+
+const sum = (amounts: number[]) => round(amounts.reduce((total, amount) => total + amount, 0));
+
+// One shop's deliveries for the week, with a row per purchase order to be
+// signed when the goods are handed over
+export const deliveryListSection = (shopName: string, period: string, entries: DeliveryListEntry[], branding?: DocumentBranding): DocumentSection => {
+  const lastWeek = entries.filter(e => e.placedLastWeek);
+  const total = sum(entries.map(e => e.order.amount_delivered || 0));
+
+  return {
+    heading: shopName,
+    details: [`Period: ${period}`],
+    branding,
+    blocks: [
+      {
+        type: 'summary',
+        items: [
+          { label: "Orders delivered this week", value: String(entries.length) },
+          { label: "Last week's orders delivered this week", value: String(lastWeek.length) },
+          { label: "Total amount", value: formatCurrency(total) },
+          { label: "Last week's orders total", value: formatCurrency(sum(lastWeek.map(e => e.order.amount_delivered || 0))) },
+        ],
+      },
+      {
+        type: 'table',
+        columns: [
+          { label: "Supplier / Items", width: 22 },
+          { label: "Order Date", width: 11 },
+          { label: "Date Delivered", width: 11 },
+          { label: "Amount", width: 12, type: 'currency', total: true },
+          { label: "Invoice Number", width: 14 },
+          { label: "Signatures", width: 30, type: 'signatures', signatures: ["Handed Over By", "Received By"] },
+        ],
+        rows: entries.map(entry => ({
+          cells: [
+            { title: entry.supplierName, lines: entry.items.length > 0 ? entry.items : [entry.order.supply_name || "N/A"] },
+            entry.order.order_date || "N/A",
+            entry.order.delivery_date || "N/A",
+            entry.order.amount_delivered || 0,
+            entry.invoiceNumbers,
+            null,
+          ],
+          highlight: entry.placedLastWeek,
+        })),
+        totalLabel: "Total Amount",
+      },
+      ...(lastWeek.length > 0
+        ? [{ type: 'note' as const, lines: [`${lastWeek.length} orders highlighted in yellow were placed last week but delivered this week.`], highlight: true }]
+        : []),
+      { type: 'signatures', heading: "Final Authorization", labels: ["Manager/Authorized Signatory", "Accounting Department"] },
+      {
+        type: 'note',
+        lines: [
+          "This document is for accounting department payment processing.",
+          "All individual invoices must be signed by both parties.",
+          "Invoice numbers not yet captured to be filled in manually during payment processing.",
+        ],
+      },
+    ],
+  };
+};
+
+// A checklist of supplies with their usual order amounts, ticked off as
+// they are ordered
+export const supplyChecklistSection = (
+  shopsLabel: string,
+  supplies: { name: string; amount: number; supplier?: string }[],
+  showSupplier: boolean,
+  branding?: DocumentBranding
+): DocumentSection => ({
+  heading: shopsLabel,
+  details: [],
+  branding,
+  blocks: [
+    {
+      type: 'table',
+      columns: [
+        { label: "Supply Name", width: 30 },
+        { label: "Suggested Amount", width: 16, type: 'currency', total: true },
+        ...(showSupplier ? [{ label: "Supplier", width: 22 }] : []),
+        { label: "Remark", width: 24 },
+        { label: "Ordered", width: 8, type: 'checkbox' as const },
+      ],
+      rows: supplies.map(supply => ({
+        cells: [supply.name, supply.amount, ...(showSupplier ? [supply.supplier ?? ""] : []), "", null],
+      })),
+      totalLabel: "Total",
+    },
+  ],
+});
+
+// Invoices or sales against payments with the running balance, as sent to
+// a supplier or customer
+export const statementSection = (
+  heading: string,
+  details: string[],
+  entries: StatementEntry[],
+  labels: { debit: string; closing: string },
+  branding?: DocumentBranding
+): DocumentSection => ({
+  heading,
+  details,
+  branding,
+  blocks: [
+    {
+      type: 'table',
+      columns: [
+        { label: "Date", width: 14 },
+        { label: "Description", width: 38 },
+        { label: labels.debit, width: 16, type: 'currency' },
+        { label: "Paid", width: 16, type: 'currency' },
+        { label: "Balance", width: 16, type: 'currency' },
+      ],
+      rows: entries.map(entry => ({
+        cells: [entry.date, entry.description, entry.debit || null, entry.credit || null, entry.balance],
+      })),
+      emptyText: "Nothing invoiced or paid yet",
+    },
+    { type: 'summary', items: [{ label: labels.closing, value: formatCurrency(entries[entries.length - 1]?.balance ?? 0) }] },
+  ],
+});
+
+export const documentFileName = (title: string) => `${title.replace(/[\\/:*?"<>|]/g, "-")}.pdf`;
@@ -0,0 +1,69 @@
+import type { Tables } from "@/integrations/supabase/types";
+import { round } from "@/lib/numbers";
+
+type Expense = Tables<'expenses'>;
+type IncomeRecord = Tables<'income_records'>;
+
+export type PaidFrom = 'cash' | 'card';
+
+export const PAID_FROM_LABELS: Record<PaidFrom, string> = {
+  cash: "Cash from till",
+  card: "Card",
+};
+
+// The editable part of an expense, as captured on the cash up
+export interface ExpenseValues {
+  category_id: string | null;
+  description: string;
+  amount: number;
+  paid_from: PaidFrom;
+  receipt_reference: string | null;
+  // Only claimed with a valid tax invoice, so new expenses start at no VAT
+  vat_rate: number;
+}
+
+export const emptyExpense: ExpenseValues = {
+  category_id: null,
+  description: "",
+  amount: 0,
+  paid_from: 'cash',
+  receipt_reference: null,
+  vat_rate: 0,
+};
+
+// Key used for expenses without a category
+export const UNCATEGORISED = "none";
+
+export const expensesTotal = (expenses: Pick<ExpenseValues, "amount">[]) =>
+  round(expenses.reduce((sum, e) => sum + e.amount, 0));
+
+// Cash paid out of the till, which is missing from the till count
+export const cashPaidOut = (expenses: Pick<ExpenseValues, "amount" | "paid_from">[]) =>
+  expensesTotal(expenses.filter(e => e.paid_from === 'cash'));
+
+export interface MonthlyExpenses {
+  month: string;
+  byCategory: Record<string, number>;
+  total: number;
+}
+
+// Expense totals per month (YYYY-MM) and category, newest month first.
+// Expenses take the date of their cash up; those of deleted cash ups are
+// left out because their records are not passed in.
+export const expensesByMonth = (expenses: Expense[], records: IncomeRecord[]): MonthlyExpenses[] => {
+  const months = new Map<string, MonthlyExpenses>();
+
+  expenses.forEach(expense => {
+    const record = records.find(r => r.id === expense.income_record_id);
+    if (!record) return;
+
+    const month = record.date.slice(0, 7);
+    const entry = months.get(month) ?? { month, byCategory: {}, total: 0 };
+    const category = expense.category_id ?? UNCATEGORISED;
+    entry.byCategory[category] = round((entry.byCategory[category] ?? 0) + expense.amount);
+    entry.total = round(entry.total + expense.amount);
+    months.set(month, entry);
+  });
+
+  return Array.from(months.values()).sort((a, b) => b.month.localeCompare(a.month));
+};
@@ -0,0 +1,51 @@
+import { format } from "date-fns";
+import { buildWorkbook, type CellType, type WorkbookSheet } from "@/lib/xlsx";
+import { downloadBlob } from "@/lib/download";
+
+export type ExportFormat = "csv" | "xlsx";
+
+// A column of an exported table. Dates are yyyy-MM-dd strings and rand
+// amounts plain numbers, so spreadsheets can sort and sum them.
+export interface ExportColumn<T> {
+  header: string;
+  type?: CellType;
+  value: (row: T) => string | number | null | undefined;
+}
+
+export const toSheet = <T>(name: string, columns: ExportColumn<T>[], rows: T[]): WorkbookSheet => ({
+  name,
+  columns: columns.map(column => ({ header: column.header, type: column.type ?? "text" })),
+  rows: rows.map(row => columns.map(column => column.value(row) ?? null)),
+});
+
+// Text that starts like a formula is quoted so spreadsheets do not run it
+const csvField = (value: string | number | null, type: CellType) => {
+  if (value === null) return "";
+  let text = type === "currency" && typeof value === "number" ? value.toFixed(2) : String(value);
+  if (type === "text" && /^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvRows = (sheet: WorkbookSheet) => [
+  sheet.columns.map(column => csvField(column.header, "text")).join(","),
+  ...sheet.rows.map(row => sheet.columns.map((column, index) => csvField(row[index] ?? null, column.type)).join(",")),
+];
+
+// CSV has no sheets, so each one follows the last under its name
+export const toCsv = (sheets: WorkbookSheet[]) =>
+  (sheets.length === 1
+    ? csvRows(sheets[0])
+    : sheets.flatMap((sheet, index) => [...(index > 0 ? [""] : []), csvField(sheet.name, "text"), ...csvRows(sheet)])
+  ).join("\r\n");
+
+// Downloads the sheets as one CSV file or as a workbook with a worksheet
+// each. The file name gets today's date.
+export const exportSheets = (sheets: WorkbookSheet[], fileName: string, exportFormat: ExportFormat) => {
+  const name = `${fileName} ${format(new Date(), "yyyy-MM-dd")}`;
+  if (exportFormat === "csv") {
+    // The byte order mark makes Excel read the file as UTF-8
+    downloadBlob(new Blob(["\uFEFF" + toCsv(sheets)], { type: "text/csv;charset=utf-8" }), `${name}.csv`);
+  } else {
+    downloadBlob(buildWorkbook(sheets), `${name}.xlsx`);
+  }
+};
@@ -0,0 +1,321 @@
+import { z } from "zod";
+import type { TablesInsert } from "@/integrations/supabase/types";
+import type { OrderStatus } from "@/types";
+import { parseAmount, parseDate } from "@/lib/csv";
+import { round } from "@/lib/numbers";
+
+// The tables a CSV file can be imported into. Orders come in as headers
+// only: they are history, so they do not book stock or prices the way
+// order lines do.
+export type ImportTarget = 'supplies' | 'orders' | 'income_records';
+
+export const IMPORT_TARGET_LABELS: Record<ImportTarget, string> = {
+  supplies: "Supplies",
+  orders: "Historic Orders",
+  income_records: "Cash Ups",
+};
+
+export type ImportValues = TablesInsert<'supplies'> | TablesInsert<'orders'> | TablesInsert<'income_records'>;
+
+export interface ImportField {
+  key: string;
+  label: string;
+  required?: boolean;
+  // Header names that are mapped to the field without asking
+  matches: RegExp;
+}
+
+const SHOP_FIELD: ImportField = { key: "shop", label: "Shop", matches: /^(shop|store|branch)( name)?$/ };
+
+export const IMPORT_FIELDS: Record<ImportTarget, ImportField[]> = {
+  supplies: [
+    SHOP_FIELD,
+    { key: "name", label: "Supply Name", required: true, matches: /^(supply|item|product)?\s*(name|description)?$/ },
+    { key: "supplier", label: "Supplier", matches: /^supplier( name)?$/ },
+    { key: "amount", label: "Usual Order Amount", matches: /^(usual |suggested |order )?amount$/ },
+    { key: "unit", label: "Unit", matches: /^(unit|uom)$/ },
+    { key: "pack_size", label: "Pack Size", matches: /^pack( size)?$/ },
+    { key: "unit_price", label: "Unit Price (incl. VAT)", matches: /price|cost/ },
+    { key: "vat_rate", label: "VAT Rate (%)", matches: /vat/ },
+    { key: "par_level", label: "Par Level", matches: /^par/ },
+    { key: "min_level", label: "Minimum Level", matches: /^min/ },
+    { key: "phone_number", label: "Phone Number", matches: /phone|tel/ },
+  ],
+  orders: [
+    SHOP_FIELD,
+    { key: "order_date", label: "Order Date", required: true, matches: /^(order )?date$|ordered on/ },
+    { key: "supply_name", label: "Supply / Description", required: true, matches: /^(supply|item|description)( name)?$/ },
+    { key: "supplier", label: "Supplier", matches: /^supplier( name)?$/ },
+    { key: "ordered_by", label: "Ordered By", required: true, matches: /ordered by/ },
+    { key: "contact_person", label: "Contact Person", required: true, matches: /contact/ },
+    { key: "order_amount", label: "Order Amount", matches: /^(order )?(amount|total)$/ },
+    { key: "amount_delivered", label: "Amount Delivered", matches: /delivered amount|amount delivered/ },
+    { key: "status", label: "Status", required: true, matches: /^status$/ },
+    { key: "delivery_date", label: "Delivery Date", matches: /^(date )?delivered( on)?$|^delivery date$/ },
+    { key: "expected_delivery_date", label: "Expected Delivery Date", matches: /expected/ },
+    { key: "notes", label: "Notes", matches: /^(notes?|comments?)$/ },
+  ],
+  income_records: [
+    SHOP_FIELD,
+    { key: "date", label: "Date", required: true, matches: /^(cash up )?date$/ },
+    { key: "cash_amount", label: "Cash", matches: /^cash( amount| taken)?$/ },
+    { key: "card_machine_amount", label: "Card Machine", matches: /card/ },
+    { key: "direct_deposit_amount", label: "Direct Deposits", matches: /direct|eft/ },
+    { key: "account_amount", label: "Account Sales", matches: /account/ },
+    { key: "expenses", label: "Expenses", matches: /^expenses?$/ },
+    { key: "opening_float", label: "Opening Float", matches: /float/ },
+    { key: "zero_rated_sales", label: "Zero-rated Sales", matches: /zero/ },
+    { key: "vat_rate", label: "VAT Rate (%)", matches: /vat/ },
+    { key: "notes", label: "Notes", matches: /^(notes?|comments?)$/ },
+  ],
+};
+
+// The column of the file each field is read from, -1 when it is not
+// imported
+export type ColumnMapping = Record<string, number>;
+
+// Maps every field to the first unused header that looks like it
+export const guessMapping = (target: ImportTarget, header: string[]): ColumnMapping => {
+  const used = new Set<number>();
+  return Object.fromEntries(IMPORT_FIELDS[target].map(field => {
+    const column = header.findIndex((name, index) =>
+      !used.has(index) && name.trim() !== "" && field.matches.test(name.trim().toLowerCase()));
+    if (column >= 0) used.add(column);
+    return [field.key, column];
+  }));
+};
+
+// What the values are checked against
+export interface ImportContext {
+  shops: { id: string; name: string }[];
+  suppliers: { id: string; name: string }[];
+  supplies: { id: string; name: string; shop_id: string }[];
+  // Rows that do not name a shop go to this one
+  defaultShopId: string | null;
+  vatRate: (shopId: string) => number;
+}
+
+// A data row of the file, numbered as it is in the file so it can be found
+// in a spreadsheet
+export interface ImportRow {
+  line: number;
+  cells: string[];
+  values: ImportValues | null;
+  errors: string[];
+}
+
+const ORDER_STATUSES: OrderStatus[] = ["Pending", "Partial", "Delivered"];
+
+// Field errors stop the row from being checked any further, so the checks
+// across fields only ever see good values
+const invalid = (ctx: z.RefinementCtx, message: string) => {
+  ctx.addIssue({ code: z.ZodIssueCode.custom, message, fatal: true });
+  return z.NEVER;
+};
+
+const toDate = (value: string, ctx: z.RefinementCtx) => {
+  const date = parseDate(value);
+  if (!date) {
+    return invalid(ctx, `"${value}" is not a date`);
+  }
+  return date;
+};
+
+const date = z.string().trim().min(1, "is required").transform(toDate);
+
+const optionalDate = z.string().trim().transform((value, ctx) => (value ? toDate(value, ctx) : null));
+
+const text = z.string().trim().min(1, "is required");
+
+const optionalText = z.string().trim().transform(value => value || null);
+
+// Blank numbers take the fallback; null leaves the field empty
+const number = <T extends number | null>(fallback: T, { positive = false, max = Infinity } = {}) =>
+  z.string().trim().transform((value, ctx): number | T => {
+    if (!value) return fallback;
+    const amount = parseAmount(value);
+    if (amount === null) {
+      return invalid(ctx, `"${value}" is not a number`);
+    }
+    if (positive ? amount <= 0 : amount < 0) {
+      return invalid(ctx, positive ? "must be more than 0" : "cannot be negative");
+    }
+    if (amount > max) {
+      return invalid(ctx, `cannot be more than ${max}`);
+    }
+    return round(amount);
+  });
+
+const byName = <T extends { id: string; name: string }>(items: T[], value: string) => {
+  const name = value.trim().toLowerCase();
+  return items.find(item => item.id === value.trim() || item.name.trim().toLowerCase() === name);
+};
+
+const lookups = (context: ImportContext) => ({
+  shop: z.string().trim().transform((value, ctx) => {
+    if (!value) {
+      if (context.defaultShopId) return context.defaultShopId;
+      return invalid(ctx, "is required when no shop is chosen for the import");
+    }
+    const shop = byName(context.shops, value);
+    if (!shop) {
+      return invalid(ctx, `"${value}" is not one of your shops`);
+    }
+    return shop.id;
+  }),
+  supplier: z.string().trim().transform((value, ctx) => {
+    if (!value) return null;
+    const supplier = byName(context.suppliers, value);
+    if (!supplier) {
+      return invalid(ctx, `"${value}" is not a known supplier`);
+    }
+    return supplier.id;
+  }),
+});
+
+const schemas = (context: ImportContext) => {
+  const { shop, supplier } = lookups(context);
+
+  return {
+    supplies: z.object({
+      shop,
+      name: text,
+      supplier,
+      amount: number(0),
+      unit: z.string().trim().transform(value => value || "each"),
+      pack_size: number(1, { positive: true }),
+      unit_price: number(0),
+      vat_rate: number(null, { max: 100 }),
+      par_level: number(null),
+      min_level: number(null),
+      phone_number: optionalText,
+    })
+      .superRefine((row, ctx) => {
+        if (row.min_level !== null && row.par_level !== null && row.min_level > row.par_level) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["min_level"], message: "cannot be above the par level" });
+        }
+        if (context.supplies.some(s => s.shop_id === row.shop && s.name.trim().toLowerCase() === row.name.toLowerCase())) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["name"], message: `"${row.name}" is already a supply of this shop` });
+        }
+      })
+      .transform(({ shop, supplier, vat_rate, name, ...row }): TablesInsert<'supplies'> => ({
+        ...row,
+        name,
+        shop_id: shop,
+        supplier_id: supplier,
+        vat_rate: vat_rate ?? context.vatRate(shop),
+      })),
+
+    orders: z.object({
+      shop,
+      order_date: date,
+      supply_name: text,
+      supplier,
+      ordered_by: text,
+      contact_person: text,
+      order_amount: number(0),
+      amount_delivered: number(0),
+      status: z.string().trim().transform((value, ctx) => {
+        const status = ORDER_STATUSES.find(s => s.toLowerCase() === value.toLowerCase());
+        if (!status) {
+          return invalid(ctx, value ? `"${value}" is not one of ${ORDER_STATUSES.join(", ")}` : "is required");
+        }
+        return status;
+      }),
+      delivery_date: optionalDate,
+      expected_delivery_date: optionalDate,
+      notes: optionalText,
+    })
+      .superRefine((row, ctx) => {
+        if (row.amount_delivered > row.order_amount) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["amount_delivered"], message: "cannot be more than the order amount" });
+        }
+        if (row.status !== "Pending" && !row.delivery_date) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["delivery_date"], message: `is required for ${row.status.toLowerCase()} orders` });
+        }
+        if (row.delivery_date && row.delivery_date < row.order_date) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["delivery_date"], message: "cannot be before the order date" });
+        }
+      })
+      .transform(({ shop, supplier, order_date, supply_name, ordered_by, contact_person, status, ...row }): TablesInsert<'orders'> => ({
+        ...row,
+        order_date,
+        supply_name,
+        ordered_by,
+        contact_person,
+        status,
+        shop_id: shop,
+        supplier_id: supplier,
+        // Orders of a supply the shop already has stay linked to it
+        supply_id: context.supplies.find(s => s.shop_id === shop && s.name.trim().toLowerCase() === supply_name.toLowerCase())?.id ?? null,
+      })),
+
+    income_records: z.object({
+      shop,
+      date,
+      cash_amount: number(0),
+      card_machine_amount: number(0),
+      direct_deposit_amount: number(0),
+      account_amount: number(0),
+      expenses: number(0),
+      opening_float: number(0),
+      zero_rated_sales: number(0),
+      vat_rate: number(null, { max: 100 }),
+      notes: optionalText,
+    })
+      .transform(({ shop, date, vat_rate, ...row }): TablesInsert<'income_records'> => {
+        const daily_income = round(row.cash_amount + row.card_machine_amount + row.direct_deposit_amount + row.account_amount);
+        return {
+          ...row,
+          date,
+          shop_id: shop,
+          daily_income,
+          net_income: round(daily_income - row.expenses),
+          vat_rate: vat_rate ?? context.vatRate(shop),
+        };
+      })
+      .superRefine((row, ctx) => {
+        if ((row.zero_rated_sales ?? 0) > (row.daily_income ?? 0)) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["zero_rated_sales"], message: "cannot be more than the day's income" });
+        }
+      }),
+  };
+};
+
+// Checks every data row of the file against the target table. Rows with
+// errors are never imported.
+export const validateImport = (
+  target: ImportTarget,
+  rows: string[][],
+  mapping: ColumnMapping,
+  context: ImportContext
+): ImportRow[] => {
+  const fields = IMPORT_FIELDS[target];
+  const schema: z.ZodType<ImportValues, z.ZodTypeDef, Record<string, string>> = schemas(context)[target];
+  const labels = new Map(fields.map(field => [field.key, field.label]));
+  // Supplies named twice in the file, by shop
+  const seen = new Set<string>();
+
+  return rows.map((cells, index) => {
+    const raw = Object.fromEntries(fields.map(field => [field.key, mapping[field.key] >= 0 ? cells[mapping[field.key]] ?? "" : ""]));
+    const result = schema.safeParse(raw);
+    const errors = result.success
+      ? []
+      : result.error.issues.map(issue => `${labels.get(String(issue.path[0])) ?? "Row"} ${issue.message}`);
+
+    if (result.success && target === 'supplies') {
+      const supply = result.data as TablesInsert<'supplies'>;
+      const key = `${supply.shop_id}|${supply.name.toLowerCase()}`;
+      if (seen.has(key)) errors.push(`Supply Name "${supply.name}" is in the file more than once`);
+      seen.add(key);
+    }
+
+    return {
+      // The header is line 1
+      line: index + 2,
+      cells,
+      values: result.success && errors.length === 0 ? result.data : null,
+      errors,
+    };
+  });
+};
@@ -0,0 +1,51 @@
+import type { Tables } from "@/integrations/supabase/types";
+
+type Order = Tables<'orders'>;
+type SupplierInvoice = Tables<'supplier_invoices'>;
+
+// Differences smaller than this are put down to rounding
+export const MATCH_TOLERANCE = 1;
+
+export type MatchStatus = "matched" | "over_received" | "over_ordered" | "under_invoiced" | "unlinked";
+
+export const MATCH_LABELS: Record<MatchStatus, string> = {
+  matched: "Matched",
+  over_received: "Exceeds delivered",
+  over_ordered: "Exceeds ordered",
+  under_invoiced: "Less than delivered",
+  unlinked: "No orders linked",
+};
+
+export interface InvoiceMatch {
+  ordered: number;
+  received: number;
+  invoiced: number;
+  status: MatchStatus;
+}
+
+// Three-way match of an invoice against the orders it bills for: what was
+// ordered, what the deliveries say arrived, and what the supplier charged.
+// Order amounts are what the shop expects to pay, so they are compared with
+// the invoice total including VAT. When an order is billed on several
+// invoices, their totals are added up and checked against the whole order.
+export const matchInvoice = (
+  invoice: SupplierInvoice,
+  linkedOrders: Order[],
+  otherInvoicesForOrders: SupplierInvoice[] = []
+): InvoiceMatch => {
+  const ordered = linkedOrders.reduce((sum, o) => sum + o.order_amount, 0);
+  const received = linkedOrders.reduce((sum, o) => sum + o.amount_delivered, 0);
+  const invoiced = invoice.total + otherInvoicesForOrders.reduce((sum, i) => sum + i.total, 0);
+
+  let status: MatchStatus = "matched";
+  if (linkedOrders.length === 0) status = "unlinked";
+  else if (invoiced > ordered + MATCH_TOLERANCE) status = "over_ordered";
+  else if (invoiced > received + MATCH_TOLERANCE) status = "over_received";
+  else if (invoiced < received - MATCH_TOLERANCE) status = "under_invoiced";
+
+  return { ordered, received, invoiced, status };
+};
+
+// Invoices the supplier should be asked about before they are paid
+export const needsAttention = (match: InvoiceMatch) =>
+  match.status === "over_received" || match.status === "over_ordered";
@@ -0,0 +1,5 @@
+export const DAY_MS = 1000 * 60 * 60 * 24;
+
+// Amounts and quantities are kept to two decimals, like the DECIMAL(10, 2)
+// columns they are stored in
+export const round = (amount: number) => Math.round(amount * 100) / 100;
@@ -0,0 +1,74 @@
+import type { QueryClient, QueryKey } from "@tanstack/react-query";
+
+type Row = { id: string };
+
+interface OptimisticContext<T> {
+  previous?: T[];
+}
+
+const invalidateAll = (queryClient: QueryClient, keys: QueryKey[]) => {
+  keys.forEach((queryKey) => queryClient.invalidateQueries({ queryKey }));
+};
+
+const rollback = <T>(queryClient: QueryClient, key: QueryKey, context?: OptimisticContext<T>) => {
+  if (context?.previous) {
+    queryClient.setQueryData(key, context.previous);
+  }
+};
+
+// Adds a placeholder row to the cached list until the server responds.
+// `related` lists other queries whose data depends on this table.
+export const optimisticInsert = <T extends Row, V>(
+  queryClient: QueryClient,
+  key: QueryKey,
+  related: QueryKey[] = []
+) => ({
+  onMutate: async (values: V): Promise<OptimisticContext<T>> => {
+    await queryClient.cancelQueries({ queryKey: key });
+    const previous = queryClient.getQueryData<T[]>(key);
+    const placeholder = {
+      id: `optimistic-${crypto.randomUUID()}`,
+      created_at: new Date().toISOString(),
+      ...values,
+    } as unknown as T;
+    queryClient.setQueryData<T[]>(key, (old = []) => [placeholder, ...old]);
+    return { previous };
+  },
+  onError: (_error: unknown, _values: V, context?: OptimisticContext<T>) => rollback(queryClient, key, context),
+  onSettled: () => invalidateAll(queryClient, [key, ...related]),
+});
+
+// Merges the new values into the cached row with the same id.
+export const optimisticUpdate = <T extends Row, V>(
+  queryClient: QueryClient,
+  key: QueryKey,
+  related: QueryKey[] = []
+) => ({
+  onMutate: async ({ id, values }: { id: string; values: V }): Promise<OptimisticContext<T>> => {
+    await queryClient.cancelQueries({ queryKey: key });
+    const previous = queryClient.getQueryData<T[]>(key);
+    queryClient.setQueryData<T[]>(key, (old = []) =>
+      old.map((row) => (row.id === id ? { ...row, ...values } : row))
+    );
+    return { previous };
+  },
+  onError: (_error: unknown, _variables: { id: string; values: V }, context?: OptimisticContext<T>) =>
+    rollback(queryClient, key, context),
+  onSettled: () => invalidateAll(queryClient, [key, ...related]),
+});
+
+// Drops the cached row with the given id.
+export const optimisticRemove = <T extends Row>(
+  queryClient: QueryClient,
+  key: QueryKey,
+  related: QueryKey[] = []
+) => ({
+  onMutate: async (id: string): Promise<OptimisticContext<T>> => {
+    await queryClient.cancelQueries({ queryKey: key });
+    const previous = queryClient.getQueryData<T[]>(key);
+    queryClient.setQueryData<T[]>(key, (old = []) => old.filter((row) => row.id !== id));
+    return { previous };
+  },
+  onError: (_error: unknown, _id: string, context?: OptimisticContext<T>) => rollback(queryClient, key, context),
+  onSettled: () => invalidateAll(queryClient, [key, ...related]),
+});
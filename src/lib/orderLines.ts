@@ -0,0 +1,33 @@
+import type { OrderStatus } from "@/types";
+
+export interface OrderLineValues {
+  supply_id: string | null;
+  description: string;
+  unit: string;
+  quantity: number;
+  unit_price: number;
+  vat_rate: number;
+  quantity_delivered: number;
+}
+
+export const lineTotal = (line: Pick<OrderLineValues, "quantity" | "unit_price">) =>
+  (line.quantity || 0) * (line.unit_price || 0);
+
+// Same roll-up the roll_up_order_lines trigger does on the server. The page
+// writes it to the order header as well so the list is right while offline.
+export const rollUpOrderLines = (lines: OrderLineValues[]) => {
+  const delivered = lines.reduce((sum, l) => sum + (l.quantity_delivered || 0), 0);
+
+  let status: OrderStatus = "Pending";
+  if (lines.length > 0 && lines.every(l => l.quantity_delivered >= l.quantity)) status = "Delivered";
+  else if (delivered > 0) status = "Partial";
+
+  return {
+    order_amount: lines.reduce((sum, l) => sum + lineTotal(l), 0),
+    amount_delivered: lines.reduce((sum, l) => sum + Math.min(l.quantity_delivered || 0, l.quantity || 0) * (l.unit_price || 0), 0),
+    status,
+    supply_id: lines.length === 1 ? lines[0].supply_id : null,
+    supply_name: lines.length === 0 ? "" :
+      lines.length === 1 ? lines[0].description : `${lines[0].description} +${lines.length - 1} more`,
+  };
+};
@@ -0,0 +1,63 @@
+import type { Tables } from "@/integrations/supabase/types";
+import { round } from "@/lib/numbers";
+import { ageBalances } from "@/lib/aging";
+
+type SupplierInvoice = Tables<'supplier_invoices'>;
+type SupplierPayment = Tables<'supplier_payments'>;
+
+export type PaymentMethod = 'eft' | 'cash' | 'card' | 'cheque';
+
+export const PAYMENT_METHODS: Record<PaymentMethod, string> = {
+  eft: "EFT",
+  cash: "Cash",
+  card: "Card",
+  cheque: "Cheque",
+};
+
+export const amountPaid = (invoice: SupplierInvoice, payments: SupplierPayment[]) =>
+  round(payments.filter(p => p.invoice_id === invoice.id).reduce((sum, p) => sum + p.amount, 0));
+
+export const invoiceBalance = (invoice: SupplierInvoice, payments: SupplierPayment[]) =>
+  round(invoice.total - amountPaid(invoice, payments));
+
+// Outstanding amounts split by age. Payments on account are taken off the
+// oldest invoices first.
+export const agePayables = (invoices: SupplierInvoice[], payments: SupplierPayment[], today = new Date()) =>
+  ageBalances(
+    invoices,
+    invoice => invoice.invoice_date,
+    invoice => invoiceBalance(invoice, payments),
+    payments.filter(p => !p.invoice_id).reduce((sum, p) => sum + p.amount, 0),
+    today
+  );
+
+export interface StatementEntry {
+  date: string;
+  description: string;
+  debit: number;
+  credit: number;
+  balance: number;
+}
+
+// Invoices and payments in date order with a running balance owed
+export const buildStatement = (invoices: SupplierInvoice[], payments: SupplierPayment[]): StatementEntry[] => {
+  const entries = [
+    ...invoices.map(i => ({ date: i.invoice_date, description: `Invoice ${i.invoice_number}`, debit: i.total, credit: 0 })),
+    ...payments.map(p => ({
+      date: p.paid_on,
+      description: `Payment - ${PAYMENT_METHODS[p.method as PaymentMethod] ?? p.method}${p.reference ? ` ${p.reference}` : ""}`,
+      debit: 0,
+      credit: p.amount,
+    })),
+  ].sort((a, b) => a.date.localeCompare(b.date) || b.debit - a.debit);
+
+  let balance = 0;
+  return entries.map(entry => {
+    balance = round(balance + entry.debit - entry.credit);
+    return { ...entry, balance };
+  });
+};
+
+// Unpaid invoices due on or before the given date, overdue ones included
+export const invoicesDueBy = (invoices: SupplierInvoice[], payments: SupplierPayment[], date: string) =>
+  invoices.filter(i => (i.due_date ?? i.invoice_date) <= date && invoiceBalance(i, payments) > 0);
@@ -0,0 +1,32 @@
+// Shared react-query cache keys. Every hook that reads a table must use the
+// key from here so that mutations elsewhere invalidate the same cache entry.
+export const queryKeys = {
+  shops: ["shops"] as const,
+  supplies: ["supplies"] as const,
+  orders: ["orders"] as const,
+  orderLines: ["order_lines"] as const,
+  incomeRecords: ["income_records"] as const,
+  weeklyBudgets: ["weekly_budgets"] as const,
+  session: ["session"] as const,
+  memberships: ["memberships"] as const,
+  shopMembers: ["shop_members"] as const,
+  auditLog: ["audit_log"] as const,
+  recycleBin: ["recycle_bin"] as const,
+  suppliers: ["suppliers"] as const,
+  priceHistory: ["price_history"] as const,
+  stockMovements: ["stock_movements"] as const,
+  deliveries: ["deliveries"] as const,
+  deliveryLines: ["delivery_lines"] as const,
+  supplierInvoices: ["supplier_invoices"] as const,
+  supplierInvoiceOrders: ["supplier_invoice_orders"] as const,
+  supplierPayments: ["supplier_payments"] as const,
+  expenseCategories: ["expense_categories"] as const,
+  expenses: ["expenses"] as const,
+  bankDeposits: ["bank_deposits"] as const,
+  bankStatementLines: ["bank_statement_lines"] as const,
+  customers: ["customers"] as const,
+  accountSales: ["account_sales"] as const,
+  customerPayments: ["customer_payments"] as const,
+  documents: ["documents"] as const,
+  dataImports: ["data_imports"] as const,
+};
@@ -0,0 +1,74 @@
+import type { Tables } from "@/integrations/supabase/types";
+
+type Supply = Tables<'supplies'>;
+type Order = Tables<'orders'>;
+type OrderLine = Tables<'order_lines'>;
+
+// How far back order history is averaged for supplies without a par level
+export const HISTORY_WEEKS = 4;
+
+export interface ReorderSuggestion {
+  supply: Supply;
+  onHand: number;
+  // Still to arrive on Pending and Partial orders
+  onOrder: number;
+  target: number;
+  quantity: number;
+  basis: "par" | "history";
+}
+
+interface SuggestReordersInput {
+  supplies: Supply[];
+  orders: Order[];
+  orderLines: OrderLine[];
+  getOnHand: (supplyId: string) => number;
+  today?: Date;
+}
+
+// Supplies with a par level are topped back up to it once stock on hand plus
+// stock on order drops to the minimum (or below par when no minimum is set).
+// Supplies without one fall back to their average weekly order over the last
+// few weeks. Stock on hand is left out there, since usage is rarely recorded
+// for supplies nobody has set levels for.
+export const suggestReorders = ({ supplies, orders, orderLines, getOnHand, today = new Date() }: SuggestReordersInput) => {
+  const openOrderIds = new Set(orders.filter(o => o.status !== "Delivered").map(o => o.id));
+  const historyStart = new Date(today);
+  historyStart.setDate(historyStart.getDate() - HISTORY_WEEKS * 7);
+  const historyStartStr = historyStart.toISOString().split('T')[0];
+  const recentOrderIds = new Set(orders.filter(o => o.order_date >= historyStartStr).map(o => o.id));
+
+  const suggestions: ReorderSuggestion[] = [];
+
+  supplies.forEach(supply => {
+    const lines = orderLines.filter(l => l.supply_id === supply.id);
+    const onOrder = lines
+      .filter(l => openOrderIds.has(l.order_id))
+      .reduce((sum, l) => sum + Math.max(l.quantity - l.quantity_delivered, 0), 0);
+    const onHand = getOnHand(supply.id);
+
+    if (supply.par_level !== null) {
+      const projected = onHand + onOrder;
+      const needsOrder = supply.min_level !== null ? projected <= supply.min_level : projected < supply.par_level;
+      if (needsOrder && supply.par_level > projected) {
+        suggestions.push({
+          supply, onHand, onOrder, target: supply.par_level,
+          quantity: Math.ceil(supply.par_level - projected), basis: "par",
+        });
+      }
+      return;
+    }
+
+    const recentQuantity = lines
+      .filter(l => recentOrderIds.has(l.order_id))
+      .reduce((sum, l) => sum + l.quantity, 0);
+    const weeklyAverage = recentQuantity / HISTORY_WEEKS;
+    if (weeklyAverage > onOrder) {
+      suggestions.push({
+        supply, onHand, onOrder, target: weeklyAverage,
+        quantity: Math.ceil(weeklyAverage - onOrder), basis: "history",
+      });
+    }
+  });
+
+  return suggestions;
+};
@@ -1,10 +1,12 @@
-import { Supply, Order, DailyIncome, WeeklyBudget } from "@/types";
+import { Supply, Order, DailyIncome, WeeklyBudget, OutboxEntry } from "@/types";
 
 const SUPPLIES_KEY = "supplies";
 const ORDERS_KEY = "orders";
 const INCOME_KEY = "income";
 const SHOPS_KEY = "shops";
 const WEEKLY_BUDGET_KEY = "weekly_budgets";
+const MIRROR_KEY_PREFIX = "mirror:";
+const OUTBOX_KEY = "outbox";
 
 // Supplies
 export const getSupplies = (): Supply[] => {
@@ -116,3 +118,31 @@ export const getCurrentWeekBudget = (shop: string): WeeklyBudget | null => {
   
   return budgets.find(b => b.shop === shop && b.weekStartDate === weekStartStr) || null;
 };
+
+// Offline mirror of Supabase tables, keyed by table name
+export const getMirror = <T>(table: string): T[] => {
+  const data = localStorage.getItem(MIRROR_KEY_PREFIX + table);
+  return data ? JSON.parse(data) : [];
+};
+
+export const saveMirror = <T>(table: string, rows: T[]): void => {
+  localStorage.setItem(MIRROR_KEY_PREFIX + table, JSON.stringify(rows));
+};
+
+// Outbox of writes waiting to be synced, oldest first
+export const getOutbox = (): OutboxEntry[] => {
+  const data = localStorage.getItem(OUTBOX_KEY);
+  return data ? JSON.parse(data) : [];
+};
+
+export const saveOutbox = (entries: OutboxEntry[]): void => {
+  localStorage.setItem(OUTBOX_KEY, JSON.stringify(entries));
+};
+
+// Removes everything cached for the signed in user so the next user on this
+// device starts clean
+export const clearOfflineData = (): void => {
+  Object.keys(localStorage)
+    .filter((key) => key.startsWith(MIRROR_KEY_PREFIX) || key === OUTBOX_KEY)
+    .forEach((key) => localStorage.removeItem(key));
+};
@@ -0,0 +1,275 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+import { getMirror, getOutbox, saveMirror, saveOutbox } from "@/lib/storage";
+import type { OutboxEntry, OutboxOperation } from "@/types";
+
+// Tables that accept writes while offline
+export type OfflineTable =
+  | "supplies"
+  | "orders"
+  | "order_lines"
+  | "income_records"
+  | "weekly_budgets"
+  | "stock_movements"
+  | "deliveries"
+  | "delivery_lines"
+  | "supplier_invoices"
+  | "supplier_invoice_orders"
+  | "supplier_payments"
+  | "expenses"
+  | "bank_deposits"
+  | "account_sales"
+  | "customer_payments";
+
+// Tables that are mirrored locally so they can be read while offline
+export type MirroredTable =
+  | OfflineTable
+  | "shops"
+  | "shop_members"
+  | "suppliers"
+  | "expense_categories"
+  | "bank_statement_lines"
+  | "customers";
+
+export interface PendingWrite {
+  table: OfflineTable;
+  operation: OutboxOperation;
+  rowId?: string;
+  values?: Record<string, unknown>;
+  base?: Record<string, unknown>;
+  onConflict?: string;
+}
+
+type Row = { id: string };
+
+// Columns the server maintains itself; they never count as a conflicting edit
+const SERVER_COLUMNS = ["created_at", "updated_at"];
+
+const listeners = new Set<() => void>();
+
+export const subscribeOutbox = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notifyOutbox = () => listeners.forEach((listener) => listener());
+
+const updateOutbox = (change: (entries: OutboxEntry[]) => OutboxEntry[]) => {
+  saveOutbox(change(getOutbox()));
+  notifyOutbox();
+};
+
+export const isNetworkError = (error: unknown) => {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true;
+  const message = error instanceof Error ? error.message : String((error as { message?: string })?.message ?? error);
+  return /failed to fetch|networkerror|load failed|network request failed/i.test(message);
+};
+
+const enqueueWrite = (write: PendingWrite) => {
+  updateOutbox((entries) => [
+    ...entries,
+    { ...write, id: crypto.randomUUID(), status: "pending", createdAt: new Date().toISOString() },
+  ]);
+};
+
+const applyWrite = async (write: PendingWrite) => {
+  const table = supabase.from(write.table);
+  let result: { error: { message: string; code?: string } | null };
+
+  switch (write.operation) {
+    case "insert":
+      result = await table.insert(write.values as TablesInsert<OfflineTable>);
+      break;
+    case "upsert":
+      result = await table.upsert(write.values as TablesInsert<OfflineTable>, { onConflict: write.onConflict });
+      break;
+    case "update":
+      result = await table.update(write.values as TablesUpdate<OfflineTable>).eq("id", write.rowId);
+      break;
+    case "delete":
+      result = await table.delete().eq("id", write.rowId);
+      break;
+  }
+
+  if (result.error) throw result.error;
+};
+
+// Runs a write against Supabase straight away, or parks it in the outbox
+// when the device is offline so it can be replayed later.
+export const writeOrQueue = async (write: PendingWrite) => {
+  if (!navigator.onLine) {
+    enqueueWrite(write);
+    return;
+  }
+
+  try {
+    await applyWrite(write);
+  } catch (error) {
+    if (!isNetworkError(error)) throw error;
+    enqueueWrite(write);
+  }
+};
+
+const sameValue = (a: unknown, b: unknown) => String(a ?? "") === String(b ?? "");
+
+// Returns a description of the conflict, or null when the server row still
+// matches what the user saw when they made the change.
+const findConflict = async (entry: OutboxEntry): Promise<string | null> => {
+  if (entry.operation === "insert" || entry.operation === "upsert" || !entry.base) return null;
+
+  const { data: current, error } = await supabase
+    .from(entry.table as OfflineTable)
+    .select("*")
+    .eq("id", entry.rowId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  if (!current) {
+    return entry.operation === "update" ? "Record was deleted by someone else" : null;
+  }
+
+  const server = current as Record<string, unknown>;
+  const fields = entry.operation === "update"
+    ? Object.keys(entry.values || {})
+    : Object.keys(entry.base);
+
+  const changed = fields.filter((field) =>
+    !SERVER_COLUMNS.includes(field) &&
+    field in server &&
+    !sameValue(server[field], entry.base?.[field]) &&
+    !sameValue(server[field], entry.values?.[field])
+  );
+
+  return changed.length > 0 ? `Changed by someone else: ${changed.join(", ")}` : null;
+};
+
+const markConflict = (id: string, error: string) => {
+  updateOutbox((entries) => entries.map((e) => (e.id === id ? { ...e, status: "conflict", error } : e)));
+};
+
+const removeEntry = (id: string) => {
+  updateOutbox((entries) => entries.filter((e) => e.id !== id));
+};
+
+let replaying = false;
+
+// Replays pending writes in the order they were made. Stops at the first
+// network failure or conflict so that later writes never overtake earlier
+// ones: the writes after a conflict often depend on it, like the lines of
+// an order or a second edit of the same row, and wait until it is resolved.
+export const replayOutbox = async () => {
+  if (replaying || !navigator.onLine) return;
+  replaying = true;
+
+  try {
+    for (const entry of getOutbox()) {
+      if (entry.status === "conflict") break;
+
+      try {
+        const conflict = await findConflict(entry);
+        if (conflict) {
+          markConflict(entry.id, conflict);
+          break;
+        }
+
+        await applyWrite(entry as PendingWrite);
+        removeEntry(entry.id);
+      } catch (error) {
+        if (isNetworkError(error)) break;
+
+        // A retried insert that already reached the server is not a conflict
+        if (error?.code === "23505" && entry.operation === "insert" && await rowExists(entry)) {
+          removeEntry(entry.id);
+          continue;
+        }
+
+        markConflict(entry.id, error?.message || "Sync failed");
+        break;
+      }
+    }
+  } finally {
+    replaying = false;
+  }
+};
+
+const rowExists = async (entry: OutboxEntry) => {
+  const { data, error } = await supabase
+    .from(entry.table as OfflineTable)
+    .select("id")
+    .eq("id", (entry.rowId ?? entry.values?.id) as string)
+    .maybeSingle();
+  if (error) throw error;
+  return Boolean(data);
+};
+
+// "mine" forces the local change onto the server, "theirs" drops it. An
+// edit of a row someone else deleted puts the row back as the user saw it
+// with their edit on top.
+export const resolveConflict = async (id: string, keep: "mine" | "theirs") => {
+  const entry = getOutbox().find((e) => e.id === id);
+  if (!entry) return;
+
+  if (keep === "mine") {
+    const write = { ...entry } as PendingWrite;
+    if (write.operation === "insert") write.operation = "upsert";
+    if (write.operation === "update" && !(await rowExists(entry))) {
+      if (!entry.base) throw new Error("The record was deleted and there is no copy of it to put back");
+      write.operation = "upsert";
+      write.values = { ...entry.base, ...entry.values, id: entry.rowId };
+    }
+    await applyWrite(write);
+  }
+
+  removeEntry(id);
+};
+
+// Replays queued writes on top of rows read from the server or the mirror,
+// so offline changes stay visible until they have been synced. Rows soft
+// deleted while offline are dropped like the server query would.
+export const applyPendingWrites = <T extends Row>(table: MirroredTable, rows: T[]): T[] => {
+  return getOutbox()
+    .filter((entry) => entry.table === table)
+    .reduce((result, entry) => {
+      switch (entry.operation) {
+        case "insert":
+          return result.some((r) => r.id === entry.values?.id) ? result : [entry.values as T, ...result];
+        case "upsert": {
+          const keys = (entry.onConflict || "id").split(",");
+          const index = result.findIndex((r) => keys.every((k) => sameValue((r as Record<string, unknown>)[k], entry.values?.[k])));
+          if (index === -1) return [...result, entry.values as T];
+          return result.map((r, i) => (i === index ? { ...r, ...entry.values, id: r.id } : r));
+        }
+        case "update":
+          return result.map((r) => (r.id === entry.rowId ? { ...r, ...entry.values } : r));
+        case "delete":
+          return result.filter((r) => r.id !== entry.rowId);
+      }
+    }, rows)
+    .filter((r) => !(r as Row & { deleted_at?: string | null }).deleted_at);
+};
+
+// Reads through the local mirror: successful fetches refresh it, and when
+// the network is unavailable the last mirrored copy is returned instead.
+export const withMirror = async <T extends Row>(table: MirroredTable, fetchRows: () => Promise<T[]>) => {
+  if (!navigator.onLine) {
+    return applyPendingWrites(table, getMirror<T>(table));
+  }
+
+  try {
+    const rows = await fetchRows();
+    saveMirror(table, rows);
+    return applyPendingWrites(table, rows);
+  } catch (error) {
+    if (!isNetworkError(error)) throw error;
+    return applyPendingWrites(table, getMirror<T>(table));
+  }
+};
+
+// Mirrored rows shown while the first fetch is in flight
+export const mirrorPlaceholder = <T extends Row>(table: MirroredTable) => () => {
+  const rows = getMirror<T>(table);
+  return rows.length > 0 ? applyPendingWrites(table, rows) : undefined;
+};
@@ -0,0 +1,152 @@
+import { format } from "date-fns";
+import type { Tables } from "@/integrations/supabase/types";
+import { lineTotal } from "@/lib/orderLines";
+import { round } from "@/lib/numbers";
+
+type IncomeRecord = Tables<'income_records'>;
+type Expense = Tables<'expenses'>;
+type Order = Tables<'orders'>;
+type OrderLine = Tables<'order_lines'>;
+type SupplierInvoice = Tables<'supplier_invoices'>;
+
+export const STANDARD_VAT_RATE = 15;
+
+export type VatCategory = 'A' | 'B';
+
+export const VAT_CATEGORY_LABELS: Record<VatCategory, string> = {
+  A: "Category A - periods end Feb, Apr, Jun, Aug, Oct, Dec",
+  B: "Category B - periods end Jan, Mar, May, Jul, Sep, Nov",
+};
+
+// Amounts are stored VAT-inclusive. These work out the VAT in them and
+// convert amounts captured without VAT.
+export const vatIn = (inclusive: number, rate: number) => round(inclusive * rate / (100 + rate));
+
+export const exclusiveOf = (inclusive: number, rate: number) => round(inclusive - vatIn(inclusive, rate));
+
+export const inclusiveOf = (exclusive: number, rate: number) => round(exclusive * (100 + rate) / 100);
+
+// Options offered wherever a rate is picked: the shop's standard rate or
+// zero-rated, plus whatever rate the row already has
+export const vatRateOptions = (standardRate: number, current?: number) =>
+  Array.from(new Set([standardRate, 0, ...(current === undefined ? [] : [current])]))
+    .sort((a, b) => b - a);
+
+export const vatRateLabel = (rate: number) => rate === 0 ? "No VAT" : `${rate}%`;
+
+export const orderLinesVat = (lines: Pick<OrderLine, "quantity" | "unit_price" | "vat_rate">[]) =>
+  round(lines.reduce((sum, l) => sum + vatIn(lineTotal(l), l.vat_rate), 0));
+
+// VAT on what has arrived. It only becomes input VAT once the supplier's tax
+// invoice is captured.
+const deliveredVat = (lines: OrderLine[]) =>
+  round(lines.reduce((sum, l) => sum + vatIn(Math.min(l.quantity_delivered, l.quantity) * l.unit_price, l.vat_rate), 0));
+
+export const outputVat = (record: Pick<IncomeRecord, "daily_income" | "zero_rated_sales" | "vat_rate">) =>
+  vatIn(record.daily_income - record.zero_rated_sales, record.vat_rate);
+
+export interface VatPeriod {
+  key: string;
+  label: string;
+  start: string;
+  end: string;
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// The two-month tax period a date falls in
+export const vatPeriodOf = (date: string, category: VatCategory): VatPeriod => {
+  const [year, month] = date.split("-").map(Number);
+  const endsInEvenMonth = category === 'A';
+  let endMonth = (month % 2 === 0) === endsInEvenMonth ? month : month + 1;
+  let endYear = year;
+  if (endMonth > 12) {
+    endMonth -= 12;
+    endYear += 1;
+  }
+
+  const start = new Date(endYear, endMonth - 2, 1);
+  const end = new Date(endYear, endMonth, 0);
+  return {
+    key: `${endYear}-${pad(endMonth)}`,
+    label: `${format(start, "MMM yyyy")} - ${format(end, "MMM yyyy")}`,
+    start: format(start, "yyyy-MM-dd"),
+    end: format(end, "yyyy-MM-dd"),
+  };
+};
+
+export interface VatReturn extends VatPeriod {
+  standardSales: number;
+  zeroRatedSales: number;
+  outputVat: number;
+  invoiceVat: number;
+  expenseVat: number;
+  inputVat: number;
+  // Payable to SARS when positive, refundable when negative
+  netVat: number;
+  // VAT on deliveries without a tax invoice yet; not claimable, so it is
+  // not part of inputVat
+  uninvoicedVat: number;
+}
+
+interface VatSources {
+  records: IncomeRecord[];
+  expenses: Expense[];
+  invoices: SupplierInvoice[];
+  orders: Order[];
+  orderLines: OrderLine[];
+  // Orders billed on a captured invoice; the invoice's VAT is claimed instead
+  invoicedOrderIds: Set<string>;
+}
+
+// Output VAT on takings against input VAT on supplier invoices and
+// expenses, per tax period, newest first. Delivered orders that were never
+// invoiced are totalled on their own. Expenses take the date of their cash
+// up; those of cash ups that are not passed in are left out.
+export const vatReturns = (sources: VatSources, category: VatCategory): VatReturn[] => {
+  const periods = new Map<string, VatReturn>();
+  const periodFor = (date: string) => {
+    const period = vatPeriodOf(date, category);
+    if (!periods.has(period.key)) {
+      periods.set(period.key, {
+        ...period,
+        standardSales: 0, zeroRatedSales: 0, outputVat: 0, invoiceVat: 0, expenseVat: 0, inputVat: 0, netVat: 0, uninvoicedVat: 0,
+      });
+    }
+    return periods.get(period.key);
+  };
+
+  sources.records.forEach(record => {
+    const entry = periodFor(record.date);
+    entry.standardSales = round(entry.standardSales + record.daily_income - record.zero_rated_sales);
+    entry.zeroRatedSales = round(entry.zeroRatedSales + record.zero_rated_sales);
+    entry.outputVat = round(entry.outputVat + outputVat(record));
+  });
+
+  sources.invoices.forEach(invoice => {
+    const entry = periodFor(invoice.invoice_date);
+    entry.invoiceVat = round(entry.invoiceVat + invoice.vat_amount);
+  });
+
+  sources.orders
+    .filter(order => !sources.invoicedOrderIds.has(order.id) && order.amount_delivered > 0)
+    .forEach(order => {
+      const entry = periodFor(order.delivery_date ?? order.order_date);
+      entry.uninvoicedVat = round(entry.uninvoicedVat + deliveredVat(sources.orderLines.filter(l => l.order_id === order.id)));
+    });
+
+  sources.expenses.forEach(expense => {
+    const record = sources.records.find(r => r.id === expense.income_record_id);
+    if (!record) return;
+
+    const entry = periodFor(record.date);
+    entry.expenseVat = round(entry.expenseVat + vatIn(expense.amount, expense.vat_rate));
+  });
+
+  return Array.from(periods.values())
+    .map(entry => {
+      const inputVat = round(entry.invoiceVat + entry.expenseVat);
+      return { ...entry, inputVat, netVat: round(entry.outputVat - inputVat) };
+    })
+    .sort((a, b) => b.key.localeCompare(a.key));
+};
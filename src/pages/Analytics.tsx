@@ -1,57 +1,30 @@
-import { Shop } from "@/types";
+import { ShopId } from "@/types";
 import { formatCurrency } from "@/lib/currency";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { supabase } from "@/integrations/supabase/client";
-import { useEffect, useState } from "react";
-import type { Tables } from "@/integrations/supabase/types";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useIncomeRecords } from "@/hooks/useIncomeRecords";
+import { useShops } from "@/hooks/useShops";
+import { useExpenses } from "@/hooks/useExpenses";
+import { useExpenseCategories } from "@/hooks/useExpenseCategories";
+import { UNCATEGORISED, expensesByMonth } from "@/lib/expenses";
 
 interface AnalyticsProps {
-  selectedShop: Shop;
+  selectedShop: ShopId;
 }
 
-type IncomeRecord = Tables<'income_records'>;
-type ShopRecord = Tables<'shops'>;
+// Months shown in the expense breakdown
+const EXPENSE_MONTHS = 12;
 
 const Analytics = ({ selectedShop }: AnalyticsProps) => {
-  const [records, setRecords] = useState<IncomeRecord[]>([]);
-  const [shops, setShops] = useState<ShopRecord[]>([]);
-  const [loading, setLoading] = useState(true);
-
-  // Fetch data from Supabase
-  useEffect(() => {
-    const fetchData = async () => {
-      try {
-        setLoading(true);
-        
-        const [recordsResponse, shopsResponse] = await Promise.all([
-          supabase
-            .from('income_records')
-            .select('*')
-            .order('date', { ascending: true }),
-          supabase
-            .from('shops')
-            .select('*')
-            .order('name', { ascending: true })
-        ]);
-
-        if (recordsResponse.error) throw recordsResponse.error;
-        if (shopsResponse.error) throw shopsResponse.error;
-
-        setRecords(recordsResponse.data || []);
-        setShops(shopsResponse.data || []);
-      } catch (error) {
-        console.error('Error fetching data:', error);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchData();
-  }, []);
+  const { incomeRecords: records, loading: recordsLoading } = useIncomeRecords();
+  const { shops, loading: shopsLoading } = useShops();
+  const { expenses, loading: expensesLoading } = useExpenses();
+  const { getCategoryName } = useExpenseCategories();
+  const loading = recordsLoading || shopsLoading || expensesLoading;
 
   const filteredRecords = selectedShop === "All" 
     ? records 
-    : records.filter(r => r.shop === selectedShop);
+    : records.filter(r => r.shop_id === selectedShop);
 
   // Last 7 days data
   const last7Days = Array.from({ length: 7 }, (_, i) => {
@@ -74,10 +47,11 @@ const Analytics = ({ selectedShop }: AnalyticsProps) => {
 
   // Shop comparison - use all shops from shops table
   const shopData = shops.map(shop => {
-    const shopRecords = records.filter(r => r.shop === shop.name);
+    const shopRecords = records.filter(r => r.shop_id === shop.id);
     const income = shopRecords.reduce((sum, r) => sum + Number(r.daily_income), 0);
     const expenses = shopRecords.reduce((sum, r) => sum + Number(r.expenses), 0);
     return {
+      id: shop.id,
       shop: shop.name,
       income,
       expenses,
@@ -86,6 +60,25 @@ const Analytics = ({ selectedShop }: AnalyticsProps) => {
     };
   });
 
+  const categoryLabel = (id: string) => getCategoryName(id === UNCATEGORISED ? null : id);
+
+  // Expense categories per month for each shop in view
+  const expenseBreakdown = shops
+    .filter(shop => selectedShop === "All" || shop.id === selectedShop)
+    .map(shop => {
+      const months = expensesByMonth(
+        expenses.filter(e => e.shop_id === shop.id),
+        records.filter(r => r.shop_id === shop.id)
+      ).slice(0, EXPENSE_MONTHS);
+      const categoryIds = Array.from(new Set(months.flatMap(m => Object.keys(m.byCategory))))
+        .sort((a, b) => categoryLabel(a).localeCompare(categoryLabel(b)));
+      return { shop, months, categoryIds };
+    })
+    .filter(({ months }) => months.length > 0);
+
+  const monthLabel = (month: string) =>
+    new Date(`${month}-01`).toLocaleDateString('en-ZA', { month: 'short', year: 'numeric' });
+
   const totalIncome = filteredRecords.reduce((sum, r) => sum + r.daily_income, 0);
   const totalExpenses = filteredRecords.reduce((sum, r) => sum + r.expenses, 0);
   const totalNet = totalIncome - totalExpenses;
@@ -294,7 +287,7 @@ const Analytics = ({ selectedShop }: AnalyticsProps) => {
             ) : (
               <div className="space-y-4">
                 {shopData.map((shop) => (
-                  <div key={shop.shop} className="border-b pb-4 last:border-0">
+                  <div key={shop.id} className="border-b pb-4 last:border-0">
                     <div className="flex items-center justify-between mb-2">
                       <h4 className="font-semibold">{shop.shop}</h4>
                       <span className="text-sm text-muted-foreground">
@@ -325,6 +318,48 @@ const Analytics = ({ selectedShop }: AnalyticsProps) => {
         </Card>
       )}
 
+      {expenseBreakdown.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Expenses by Category</CardTitle>
+            <CardDescription>Monthly spend per category over the last {EXPENSE_MONTHS} months with expenses</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {expenseBreakdown.map(({ shop, months, categoryIds }) => (
+              <div key={shop.id} className="space-y-2">
+                <h4 className="font-semibold">{shop.name}</h4>
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Month</TableHead>
+                        {categoryIds.map(id => (
+                          <TableHead key={id} className="text-right">{categoryLabel(id)}</TableHead>
+                        ))}
+                        <TableHead className="text-right">Total</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {months.map(month => (
+                        <TableRow key={month.month}>
+                          <TableCell className="font-medium">{monthLabel(month.month)}</TableCell>
+                          {categoryIds.map(id => (
+                            <TableCell key={id} className="text-right">
+                              {month.byCategory[id] ? formatCurrency(month.byCategory[id]) : "-"}
+                            </TableCell>
+                          ))}
+                          <TableCell className="text-right font-bold text-red-600">{formatCurrency(month.total)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {filteredRecords.length === 0 && (
         <Card>
           <CardContent className="py-12 text-center">
@@ -0,0 +1,153 @@
+import { useState } from "react";
+import { ShopId } from "@/types";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useShops } from "@/hooks/useShops";
+import { useAuditLog } from "@/hooks/useAuditLog";
+import {
+  AUDITED_TABLES,
+  auditActionLabel,
+  describeRecord,
+  formatAuditValue,
+  formatFieldName,
+  getChanges,
+} from "@/lib/audit";
+
+interface AuditLogProps {
+  selectedShop: ShopId;
+}
+
+const AuditLog = ({ selectedShop }: AuditLogProps) => {
+  const { shops, getShopName } = useShops();
+  const [shopFilter, setShopFilter] = useState<ShopId>(selectedShop);
+  const [tableFilter, setTableFilter] = useState("All");
+  const [userFilter, setUserFilter] = useState("All");
+  const { entries, loading, limit } = useAuditLog({ shopId: shopFilter, table: tableFilter });
+
+  // Users are taken from the loaded entries so the list only offers people
+  // who actually changed something
+  const users = Array.from(new Set(entries.map(e => e.actor_email).filter(Boolean))).sort();
+  const filteredEntries = entries.filter(e => userFilter === "All" || e.actor_email === userFilter);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-3xl font-bold tracking-tight">Audit Log</h2>
+        <p className="text-muted-foreground">Who changed what, and when</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Filters</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label>Shop</Label>
+              <Select value={shopFilter} onValueChange={setShopFilter}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="All">All Shops</SelectItem>
+                  {shops.map((shop) => (
+                    <SelectItem key={shop.id} value={shop.id}>{shop.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Table</Label>
+              <Select value={tableFilter} onValueChange={setTableFilter}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="All">All Tables</SelectItem>
+                  {Object.entries(AUDITED_TABLES).map(([table, label]) => (
+                    <SelectItem key={table} value={table}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>User</Label>
+              <Select value={userFilter} onValueChange={setUserFilter}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="All">All Users</SelectItem>
+                  {users.map((email) => (
+                    <SelectItem key={email} value={email}>{email}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Changes</CardTitle>
+          <CardDescription>
+            {filteredEntries.length} entries
+            {entries.length === limit && ` (showing the latest ${limit})`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-8 text-muted-foreground">Loading audit log...</div>
+          ) : filteredEntries.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">No changes found for these filters</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>When</TableHead>
+                    <TableHead>Table</TableHead>
+                    <TableHead>Record</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Shop</TableHead>
+                    <TableHead>User</TableHead>
+                    <TableHead>Changes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredEntries.map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell className="whitespace-nowrap">{new Date(entry.created_at).toLocaleString()}</TableCell>
+                      <TableCell>{AUDITED_TABLES[entry.table_name] ?? entry.table_name}</TableCell>
+                      <TableCell className="font-medium">{describeRecord(entry)}</TableCell>
+                      <TableCell>
+                        <Badge variant={auditActionLabel(entry) === "Deleted" ? "destructive" : "outline"}>
+                          {auditActionLabel(entry)}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>{entry.shop_id ? getShopName(entry.shop_id) : "-"}</TableCell>
+                      <TableCell>{entry.actor_email || "-"}</TableCell>
+                      <TableCell className="max-w-md text-xs">
+                        {entry.action === "UPDATE"
+                          ? getChanges(entry)
+                              .map(c => `${formatFieldName(c.field)}: ${formatAuditValue(c.before)} → ${formatAuditValue(c.after)}`)
+                              .join("; ")
+                          : "-"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AuditLog;
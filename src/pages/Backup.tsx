@@ -0,0 +1,265 @@
+import { useRef, useState } from "react";
+import { format } from "date-fns";
+import { ShopId } from "@/types";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArchiveRestore, DatabaseBackup, Search, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { useShops } from "@/hooks/useShops";
+import { useSuppliers } from "@/hooks/useSuppliers";
+import { useMemberships } from "@/hooks/useMemberships";
+import { useBackups } from "@/hooks/useBackups";
+import { downloadBlob } from "@/lib/download";
+import {
+  BACKUP_TABLES,
+  BACKUP_TABLE_LABELS,
+  parseBackup,
+  planRestore,
+  type BackupArchive,
+  type RestoreMode,
+  type RestorePlan,
+} from "@/lib/backup";
+
+interface BackupProps {
+  selectedShop: ShopId;
+}
+
+// Rows listed by name under the dry run, per table
+const LISTED_REMOVALS = 10;
+
+const Backup = ({ selectedShop }: BackupProps) => {
+  const { shops, getShopName, loading: shopsLoading } = useShops();
+  const { suppliers, loading: suppliersLoading } = useSuppliers();
+  const { memberships, canManage } = useMemberships();
+  const { backingUp, createBackup, checking, loadCurrent, restoring, restoreBackup } = useBackups();
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const [archive, setArchive] = useState<BackupArchive | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [mode, setMode] = useState<RestoreMode>("merge");
+  const [plan, setPlan] = useState<RestorePlan | null>(null);
+
+  // Archived shops are backed up too, they still have history
+  const backupShops = selectedShop === "All" ? shops.filter(shop => canManage(shop.id)) : shops.filter(shop => shop.id === selectedShop);
+
+  const handleBackup = async () => {
+    try {
+      const backup = await createBackup(backupShops.map(shop => shop.id));
+      const name = selectedShop === "All" ? "All Shops" : getShopName(selectedShop);
+      downloadBlob(
+        new Blob([JSON.stringify(backup, null, 2)], { type: "application/json" }),
+        `Backup - ${name.replace(/[\\/:*?"<>|]/g, "-")} - ${format(new Date(), "yyyy-MM-dd")}.json`
+      );
+      toast.success(`Backed up ${backup.supplies.length} supplies, ${backup.orders.length} orders and ${backup.incomeRecords.length} cash ups`);
+    } catch (error) {
+      toast.error(`Failed to create the backup: ${error.message}`);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      setArchive(parseBackup(await file.text()));
+      setFileName(file.name);
+      setPlan(null);
+    } catch (error) {
+      console.error('Error reading backup:', error);
+      toast.error(error.message);
+    }
+  };
+
+  const handleModeChange = (value: RestoreMode) => {
+    setMode(value);
+    setPlan(null);
+  };
+
+  const handleDryRun = async () => {
+    if (!archive) return;
+
+    try {
+      const current = await loadCurrent(archive);
+      setPlan(planRestore(archive, current, mode, {
+        managedShopIds: memberships.filter(m => m.role !== 'cashier').map(m => m.shop_id),
+        ownedShopIds: memberships.filter(m => m.role === 'owner').map(m => m.shop_id),
+        supplierIds: suppliers.map(supplier => supplier.id),
+      }));
+    } catch (error) {
+      toast.error(`Failed to compare the backup: ${error.message}`);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!plan) return;
+
+    const removed = BACKUP_TABLES.reduce((total, table) => total + plan[table].removed.length, 0);
+    if (plan.mode === 'replace' && removed > 0 &&
+        !confirm(`Restoring will remove ${removed} records that are not in the backup. Order lines and budgets are deleted, the rest go to the recycle bin. Continue?`)) return;
+
+    try {
+      await restoreBackup(plan);
+      toast.success("Backup restored");
+      setPlan(null);
+    } catch (error) {
+      toast.error(`Failed to restore the backup: ${error.message}`);
+    }
+  };
+
+  if (shopsLoading || suppliersLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-lg">Loading backups...</div>
+      </div>
+    );
+  }
+
+  const writes = plan
+    ? BACKUP_TABLES.reduce((total, table) =>
+        total + plan[table].added.length + (plan.mode === 'replace' ? plan[table].changed.length + plan[table].removed.length : 0), 0)
+    : 0;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-3xl font-bold tracking-tight">Backup &amp; Restore</h2>
+        <p className="text-muted-foreground">Snapshot shops, supplies, orders, cash ups and budgets to one file, and bring them back</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Back Up</CardTitle>
+              <CardDescription>
+                {backupShops.length > 0
+                  ? `${backupShops.map(shop => shop.name).join(", ")}, as one JSON file`
+                  : "No shops to back up"}
+              </CardDescription>
+            </div>
+            <Button onClick={handleBackup} disabled={backingUp || backupShops.length === 0}>
+              <DatabaseBackup className="mr-2 h-4 w-4" />
+              {backingUp ? "Backing Up..." : "Download Backup"}
+            </Button>
+          </div>
+        </CardHeader>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Restore</CardTitle>
+              <CardDescription>
+                {archive
+                  ? `${fileName}: ${archive.shops.map(shop => shop.name).join(", ")}, backed up ${format(new Date(archive.createdAt), "dd MMM yyyy HH:mm")}`
+                  : "Choose a backup file to see what restoring it would change"}
+              </CardDescription>
+            </div>
+            <div>
+              <input
+                ref={fileInput}
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={handleFile}
+              />
+              <Button variant="outline" onClick={() => fileInput.current?.click()} disabled={restoring}>
+                <Upload className="mr-2 h-4 w-4" />
+                Choose Backup File
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        {archive && (
+          <CardContent className="space-y-6">
+            <RadioGroup value={mode} onValueChange={(value) => handleModeChange(value as RestoreMode)} className="space-y-2">
+              <div className="flex items-start gap-2">
+                <RadioGroupItem value="merge" id="mode-merge" className="mt-1" />
+                <Label htmlFor="mode-merge" className="font-normal">
+                  <span className="font-medium">Merge</span>: add what is missing and leave everything already there as it is
+                </Label>
+              </div>
+              <div className="flex items-start gap-2">
+                <RadioGroupItem value="replace" id="mode-replace" className="mt-1" />
+                <Label htmlFor="mode-replace" className="font-normal">
+                  <span className="font-medium">Replace</span>: make the shops in the backup match it exactly, moving anything
+                  else of theirs to the recycle bin
+                </Label>
+              </div>
+            </RadioGroup>
+
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={handleDryRun} disabled={checking || restoring}>
+                <Search className="mr-2 h-4 w-4" />
+                {checking ? "Comparing..." : "Dry Run"}
+              </Button>
+              <Button onClick={handleRestore} disabled={!plan || writes === 0 || restoring}>
+                <ArchiveRestore className="mr-2 h-4 w-4" />
+                {restoring ? "Restoring..." : "Restore"}
+              </Button>
+            </div>
+
+            {plan && (
+              <div className="space-y-4">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Records</TableHead>
+                      <TableHead className="text-right">In Backup</TableHead>
+                      <TableHead className="text-right">Added</TableHead>
+                      <TableHead className="text-right">{plan.mode === 'replace' ? "Overwritten" : "Different, Kept"}</TableHead>
+                      <TableHead className="text-right">Unchanged</TableHead>
+                      <TableHead className="text-right">Removed</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {BACKUP_TABLES.map((table) => {
+                      const diff = plan[table];
+                      return (
+                        <TableRow key={table}>
+                          <TableCell className="font-medium">{BACKUP_TABLE_LABELS[table]}</TableCell>
+                          <TableCell className="text-right">{diff.added.length + diff.changed.length + diff.unchanged}</TableCell>
+                          <TableCell className="text-right">{diff.added.length}</TableCell>
+                          <TableCell className="text-right">{diff.changed.length}</TableCell>
+                          <TableCell className="text-right">{diff.unchanged}</TableCell>
+                          <TableCell className="text-right">{plan.mode === 'replace' ? diff.removed.length : "-"}</TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+
+                {plan.mode === 'replace' && BACKUP_TABLES.filter(table => plan[table].removed.length > 0).map((table) => (
+                  <div key={table} className="text-sm">
+                    <span className="font-medium">{BACKUP_TABLE_LABELS[table]} removed: </span>
+                    {plan[table].removed.slice(0, LISTED_REMOVALS).map(row => row.label).join(", ")}
+                    {plan[table].removed.length > LISTED_REMOVALS && ` and ${plan[table].removed.length - LISTED_REMOVALS} more`}
+                  </div>
+                ))}
+
+                {plan.notes.length > 0 && (
+                  <ul className="text-sm text-muted-foreground list-disc pl-5">
+                    {plan.notes.map((note) => (
+                      <li key={note}>{note}</li>
+                    ))}
+                  </ul>
+                )}
+
+                {writes === 0 && (
+                  <div className="text-sm text-muted-foreground">Restoring in this mode would not change anything.</div>
+                )}
+              </div>
+            )}
+          </CardContent>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default Backup;
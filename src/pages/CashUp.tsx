@@ -1,33 +1,51 @@
 import { useState, useEffect } from "react";
-import { Shop } from "@/types";
+import { ShopId } from "@/types";
 import { formatCurrency } from "@/lib/currency";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Plus, Pencil, Trash2, Calendar } from "lucide-react";
 import { toast } from "sonner";
-import { supabase } from "@/integrations/supabase/client";
 import { useShops } from "@/hooks/useShops";
-import type { Tables } from "@/integrations/supabase/types";
+import { useIncomeRecords, type IncomeRecord } from "@/hooks/useIncomeRecords";
+import { useMemberships } from "@/hooks/useMemberships";
+import { HistoryDrawer } from "@/components/audit/HistoryDrawer";
+import { TillCount } from "@/components/cashup/TillCount";
+import { ExpenseLines } from "@/components/cashup/ExpenseLines";
+import { ExpenseCategoriesDialog } from "@/components/cashup/ExpenseCategoriesDialog";
+import { AccountSaleLines } from "@/components/cashup/AccountSaleLines";
+import { ExportMenu } from "@/components/export/ExportMenu";
+import { useExpenses, type ExpenseDraft, type ExpenseRecord as Expense } from "@/hooks/useExpenses";
+import { useExpenseCategories } from "@/hooks/useExpenseCategories";
+import { useAccountSales, type AccountSaleDraft } from "@/hooks/useAccountSales";
+import { PAID_FROM_LABELS, cashPaidOut, expensesTotal, type PaidFrom } from "@/lib/expenses";
+import { accountSalesTotal } from "@/lib/customerAccounts";
+import { outputVat } from "@/lib/vat";
+import { exportSheets, toSheet, type ExportColumn, type ExportFormat } from "@/lib/export";
+import { cashUpVariance, countTotal, isOutOfBalance, parseCounts, type DenominationCounts } from "@/lib/cashCount";
+import { round } from "@/lib/numbers";
 
 interface CashUpProps {
-  selectedShop: Shop;
+  selectedShop: ShopId;
 }
 
-type IncomeRecord = Tables<'income_records'>;
-
 const CashUp = ({ selectedShop }: CashUpProps) => {
-  const [records, setRecords] = useState<IncomeRecord[]>([]);
+  const { incomeRecords: records, loading, createIncomeRecord, updateIncomeRecord, deleteIncomeRecord } = useIncomeRecords();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingRecord, setEditingRecord] = useState<IncomeRecord | null>(null);
-  const [loading, setLoading] = useState(true);
-  const { shops, loading: shopsLoading } = useShops();
+  const { shops, activeShops, getShopName, getVatRate, loading: shopsLoading } = useShops();
+  const { canManage } = useMemberships();
+  const { expensesForRecord, saveExpenses } = useExpenses();
+  const { getCategoryName } = useExpenseCategories();
+  const { salesForRecord, saveAccountSales } = useAccountSales();
   
   // Date range filter state
   const [dateFrom, setDateFrom] = useState("");
@@ -37,50 +55,52 @@ const CashUp = ({ selectedShop }: CashUpProps) => {
   
   const [formData, setFormData] = useState({
     date: today,
-    shop: "" as Shop,
+    shop_id: "" as ShopId,
     cash_amount: 0,
     card_machine_amount: 0,
     account_amount: 0,
     direct_deposit_amount: 0,
-    expenses: 0,
+    expenses: [] as ExpenseDraft[],
+    account_sales: [] as AccountSaleDraft[],
+    zero_rated_sales: 0,
+    vat_rate: getVatRate(""),
     notes: "",
+    counts: null as DenominationCounts | null,
+    opening_float: 0,
+    expected_takings: "",
   });
 
   // Set default shop when shops load
   useEffect(() => {
-    if (shops.length > 0 && !formData.shop) {
-      setFormData(prev => ({ ...prev, shop: shops[0].name }));
+    if (activeShops.length > 0 && !formData.shop_id) {
+      setFormData(prev => ({ ...prev, shop_id: activeShops[0].id }));
     }
   }, [shops]);
 
-  // Fetch data from Supabase
-  useEffect(() => {
-    const fetchData = async () => {
-      try {
-        setLoading(true);
-        
-        const { data: recordsData, error } = await supabase
-          .from('income_records')
-          .select('*')
-          .order('date', { ascending: false });
+  // The float usually stays the same from day to day, so carry the last one forward
+  const lastFloat = (shopId: string) =>
+    records.find(record => record.shop_id === shopId)?.opening_float ?? 0;
 
-        if (error) throw error;
+  // Counting the till gives the cash taken once the float is taken out.
+  // Expenses paid from the till were taken too, they just left again.
+  const cashTaken = formData.counts
+    ? round(countTotal(formData.counts) - formData.opening_float + cashPaidOut(formData.expenses))
+    : formData.cash_amount;
+  const formExpenses = expensesTotal(formData.expenses);
+  // Account sales per customer make up the account amount. Cash ups from
+  // before the customer ledger only have the amount itself.
+  const accountAmount = formData.account_sales.length > 0 ? accountSalesTotal(formData.account_sales) : formData.account_amount;
+  const formIncome = cashTaken + formData.card_machine_amount + accountAmount + formData.direct_deposit_amount;
+  const expectedTakings = formData.expected_takings === "" ? null : parseFloat(formData.expected_takings) || 0;
+  const formVariance = cashUpVariance(formIncome, expectedTakings);
+  const formOutputVat = outputVat({ daily_income: formIncome, zero_rated_sales: formData.zero_rated_sales, vat_rate: formData.vat_rate });
 
-        setRecords(recordsData || []);
-      } catch (error) {
-        console.error('Error fetching income records:', error);
-        toast.error('Failed to load income records');
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchData();
-  }, []);
+  // Archived shops only show up when editing a record that is already in one
+  const shopOptions = shops.filter(shop => shop.is_active || shop.id === formData.shop_id);
 
   // Apply shop and date range filters
   const filteredRecords = records.filter(record => {
-    const shopMatches = selectedShop === "All" || record.shop === selectedShop;
+    const shopMatches = selectedShop === "All" || record.shop_id === selectedShop;
     
     let dateMatches = true;
     if (dateFrom && dateTo) {
@@ -101,64 +121,125 @@ const CashUp = ({ selectedShop }: CashUpProps) => {
     return shopMatches && dateMatches;
   });
 
+  // The history as filtered, with the itemised expenses of those cash ups
+  // on a sheet of their own
+  const handleExport = (exportFormat: ExportFormat) => {
+    const recordColumns: ExportColumn<IncomeRecord>[] = [
+      { header: "Date", type: "date", value: record => record.date },
+      { header: "Shop", value: record => getShopName(record.shop_id) },
+      { header: "Cash", type: "currency", value: record => record.cash_amount },
+      { header: "Card", type: "currency", value: record => record.card_machine_amount },
+      { header: "Account", type: "currency", value: record => record.account_amount },
+      { header: "Deposit", type: "currency", value: record => record.direct_deposit_amount },
+      { header: "Total Income", type: "currency", value: record => record.daily_income },
+      { header: "Zero-rated Sales", type: "currency", value: record => record.zero_rated_sales },
+      { header: "Output VAT", type: "currency", value: record => outputVat(record) },
+      { header: "Expenses", type: "currency", value: record => record.expenses },
+      { header: "Net Income", type: "currency", value: record => record.net_income },
+      { header: "Over / Short", type: "currency", value: record => record.variance },
+      { header: "Banked", value: record => record.deposit_id ? "Yes" : "No" },
+      { header: "Notes", value: record => record.notes },
+    ];
+    const expenseColumns: ExportColumn<Expense & { record: IncomeRecord }>[] = [
+      { header: "Date", type: "date", value: expense => expense.record.date },
+      { header: "Shop", value: expense => getShopName(expense.shop_id) },
+      { header: "Description", value: expense => expense.description },
+      { header: "Category", value: expense => getCategoryName(expense.category_id) },
+      { header: "Paid From", value: expense => PAID_FROM_LABELS[expense.paid_from as PaidFrom] ?? expense.paid_from },
+      { header: "Amount", type: "currency", value: expense => expense.amount },
+      { header: "VAT Rate (%)", type: "number", value: expense => expense.vat_rate },
+      { header: "Receipt", value: expense => expense.receipt_reference },
+    ];
+    const expenses = filteredRecords.flatMap(record => expensesForRecord(record.id).map(expense => ({ ...expense, record })));
+
+    exportSheets(
+      [toSheet("Cash Ups", recordColumns, filteredRecords), toSheet("Expenses", expenseColumns, expenses)],
+      "Cash Up History",
+      exportFormat
+    );
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    const daily_income = formData.cash_amount + formData.card_machine_amount + formData.account_amount + formData.direct_deposit_amount;
-    const net_income = daily_income - formData.expenses;
+    if (formData.counts && cashTaken < 0) {
+      toast.error("The till count is less than the opening float");
+      return;
+    }
+
+    if (formData.expenses.some(expense => expense.amount <= 0 || !expense.description.trim())) {
+      toast.error("Every expense needs a description and an amount");
+      return;
+    }
+
+    if (formData.account_sales.some(sale => sale.amount <= 0 || !sale.customer_id)) {
+      toast.error("Every account sale needs a customer and an amount");
+      return;
+    }
+
+    if (formData.zero_rated_sales > formIncome) {
+      toast.error("Zero-rated sales cannot be more than the day's income");
+      return;
+    }
+
+    const daily_income = formIncome;
+    const net_income = daily_income - formExpenses;
+    const recordId = editingRecord?.id ?? crypto.randomUUID();
+    const tillValues = {
+      denomination_counts: formData.counts,
+      opening_float: formData.opening_float,
+      expected_takings: expectedTakings,
+      variance: formVariance,
+      vat_rate: formData.vat_rate,
+      zero_rated_sales: formData.zero_rated_sales,
+    };
     
     try {
       if (editingRecord) {
         // Update existing record
-        const { error } = await supabase
-          .from('income_records')
-          .update({
-            date: formData.date,
-            shop: formData.shop,
-            cash_amount: formData.cash_amount,
-            card_machine_amount: formData.card_machine_amount,
-            account_amount: formData.account_amount,
-            direct_deposit_amount: formData.direct_deposit_amount,
-            daily_income,
-            expenses: formData.expenses,
-            net_income,
-            notes: formData.notes,
-            updated_at: new Date().toISOString(),
-          })
-          .eq('id', editingRecord.id);
-
-        if (error) throw error;
+        await updateIncomeRecord(editingRecord.id, {
+          date: formData.date,
+          shop_id: formData.shop_id,
+          cash_amount: cashTaken,
+          card_machine_amount: formData.card_machine_amount,
+          account_amount: accountAmount,
+          direct_deposit_amount: formData.direct_deposit_amount,
+          daily_income,
+          expenses: formExpenses,
+          net_income,
+          notes: formData.notes,
+          ...tillValues,
+          updated_at: new Date().toISOString(),
+        });
         toast.success("Record updated successfully");
       } else {
         // Create new record
-        const { error } = await supabase
-          .from('income_records')
-          .insert({
-            date: formData.date,
-            shop: formData.shop,
-            cash_amount: formData.cash_amount,
-            card_machine_amount: formData.card_machine_amount,
-            account_amount: formData.account_amount,
-            direct_deposit_amount: formData.direct_deposit_amount,
-            daily_income,
-            expenses: formData.expenses,
-            net_income,
-            notes: formData.notes,
-          });
-
-        if (error) throw error;
+        await createIncomeRecord({
+          id: recordId,
+          date: formData.date,
+          shop_id: formData.shop_id,
+          cash_amount: cashTaken,
+          card_machine_amount: formData.card_machine_amount,
+          account_amount: accountAmount,
+          direct_deposit_amount: formData.direct_deposit_amount,
+          daily_income,
+          expenses: formExpenses,
+          net_income,
+          notes: formData.notes,
+          ...tillValues,
+        });
         toast.success("Cash up recorded successfully");
       }
+      await saveExpenses(recordId, formData.shop_id, formData.expenses.map(expense => ({
+        ...expense,
+        description: expense.description.trim(),
+        receipt_reference: expense.receipt_reference?.trim() || null,
+      })));
+      await saveAccountSales(recordId, formData.shop_id, formData.date, formData.account_sales.map(sale => ({
+        ...sale,
+        reference: sale.reference?.trim() || null,
+      })));
 
-      // Refresh records
-      const { data: newRecords, error } = await supabase
-        .from('income_records')
-        .select('*')
-        .order('date', { ascending: false });
-      
-      if (error) throw error;
-      setRecords(newRecords || []);
-      
       setIsDialogOpen(false);
       resetForm();
     } catch (error) {
@@ -171,30 +252,42 @@ const CashUp = ({ selectedShop }: CashUpProps) => {
     setEditingRecord(record);
     setFormData({
       date: record.date,
-      shop: record.shop,
+      shop_id: record.shop_id,
       cash_amount: record.cash_amount,
       card_machine_amount: record.card_machine_amount,
       account_amount: record.account_amount,
       direct_deposit_amount: record.direct_deposit_amount,
-      expenses: record.expenses,
+      expenses: expensesForRecord(record.id).map(expense => ({
+        id: expense.id,
+        category_id: expense.category_id,
+        description: expense.description,
+        amount: expense.amount,
+        paid_from: expense.paid_from as PaidFrom,
+        receipt_reference: expense.receipt_reference,
+        vat_rate: expense.vat_rate,
+      })),
+      account_sales: salesForRecord(record.id).map(sale => ({
+        id: sale.id,
+        customer_id: sale.customer_id,
+        amount: sale.amount,
+        reference: sale.reference,
+      })),
+      zero_rated_sales: record.zero_rated_sales,
+      vat_rate: record.vat_rate,
       notes: record.notes || "",
+      counts: parseCounts(record.denomination_counts),
+      opening_float: record.opening_float,
+      expected_takings: record.expected_takings === null ? "" : String(record.expected_takings),
     });
     setIsDialogOpen(true);
   };
 
   const handleDelete = async (id: string) => {
-    if (!confirm("Are you sure you want to delete this record?")) return;
+    if (!confirm("Move this record to the Recycle Bin?")) return;
 
     try {
-      const { error } = await supabase
-        .from('income_records')
-        .delete()
-        .eq('id', id);
-
-      if (error) throw error;
-
-      setRecords(records.filter(record => record.id !== id));
-      toast.success("Record deleted successfully");
+      await deleteIncomeRecord(id);
+      toast.success("Record moved to the Recycle Bin");
     } catch (error) {
       console.error('Error deleting record:', error);
       toast.error('Failed to delete record');
@@ -205,13 +298,19 @@ const CashUp = ({ selectedShop }: CashUpProps) => {
     setEditingRecord(null);
     setFormData({
       date: today,
-      shop: shops[0]?.name || "",
+      shop_id: activeShops[0]?.id || "",
       cash_amount: 0,
       card_machine_amount: 0,
       account_amount: 0,
       direct_deposit_amount: 0,
-      expenses: 0,
+      expenses: [],
+      account_sales: [],
+      zero_rated_sales: 0,
+      vat_rate: getVatRate(activeShops[0]?.id || ""),
       notes: "",
+      counts: null,
+      opening_float: lastFloat(activeShops[0]?.id || ""),
+      expected_takings: "",
     });
   };
 
@@ -244,137 +343,216 @@ const CashUp = ({ selectedShop }: CashUpProps) => {
           <h2 className="text-3xl font-bold tracking-tight">Daily Cash Up</h2>
           <p className="text-muted-foreground">Record daily income and expenses</p>
         </div>
-        <Dialog open={isDialogOpen} onOpenChange={(open) => {
-          setIsDialogOpen(open);
-          if (!open) resetForm();
-        }}>
-          <DialogTrigger asChild>
-            <Button>
-              <Plus className="mr-2 h-4 w-4" />
-              Record Cash Up
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="max-w-[95vw] sm:max-w-[500px] max-h-[90vh] p-0">
-            <DialogHeader className="p-6 pb-0">
-              <DialogTitle>{editingRecord ? "Edit Record" : "Record Daily Cash Up"}</DialogTitle>
-              <DialogDescription>
-                Enter daily financial information
-              </DialogDescription>
-            </DialogHeader>
-            <ScrollArea className="max-h-[calc(90vh-180px)] px-6">
-              <form id="cash-up-form" onSubmit={handleSubmit} className="space-y-4 py-4">
-                <div className="space-y-2">
-                  <Label htmlFor="date">Date *</Label>
-                  <Input
-                    id="date"
-                    type="date"
-                    required
-                    value={formData.date}
-                    onChange={(e) => setFormData({ ...formData, date: e.target.value })}
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="shop">Shop *</Label>
-                  <Select value={formData.shop} onValueChange={(value) => setFormData({ ...formData, shop: value as Shop })}>
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select a shop" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {shops.map((shop) => (
-                        <SelectItem key={shop.id} value={shop.name}>
-                          {shop.name}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="cash_amount">Daily Cash Amount (ZAR) *</Label>
-                  <Input
-                    id="cash_amount"
-                    type="number"
-                    step="0.01"
-                    required
-                    value={formData.cash_amount}
-                    onChange={(e) => setFormData({ ...formData, cash_amount: parseFloat(e.target.value) || 0 })}
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="card_machine_amount">Mobile Card Machine Amount (ZAR) *</Label>
-                  <Input
-                    id="card_machine_amount"
-                    type="number"
-                    step="0.01"
-                    required
-                    value={formData.card_machine_amount}
-                    onChange={(e) => setFormData({ ...formData, card_machine_amount: parseFloat(e.target.value) || 0 })}
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="account_amount">Account Amount (ZAR) *</Label>
-                  <Input
-                    id="account_amount"
-                    type="number"
-                    step="0.01"
-                    required
-                    value={formData.account_amount}
-                    onChange={(e) => setFormData({ ...formData, account_amount: parseFloat(e.target.value) || 0 })}
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="direct_deposit_amount">Direct Deposit Amount (ZAR) *</Label>
-                  <Input
-                    id="direct_deposit_amount"
-                    type="number"
-                    step="0.01"
-                    required
-                    value={formData.direct_deposit_amount}
-                    onChange={(e) => setFormData({ ...formData, direct_deposit_amount: parseFloat(e.target.value) || 0 })}
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="expenses">Expenses (ZAR) *</Label>
-                  <Input
-                    id="expenses"
-                    type="number"
-                    step="0.01"
-                    required
-                    value={formData.expenses}
-                    onChange={(e) => setFormData({ ...formData, expenses: parseFloat(e.target.value) || 0 })}
+        <div className="flex gap-2">
+          {canManage(selectedShop) && <ExpenseCategoriesDialog />}
+          <Dialog open={isDialogOpen} onOpenChange={(open) => {
+            setIsDialogOpen(open);
+            if (!open) resetForm();
+            if (open && !editingRecord) setFormData(prev => ({ ...prev, opening_float: lastFloat(prev.shop_id) }));
+          }}>
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="mr-2 h-4 w-4" />
+                Record Cash Up
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-[95vw] sm:max-w-[500px] max-h-[90vh] p-0">
+              <DialogHeader className="p-6 pb-0">
+                <DialogTitle>{editingRecord ? "Edit Record" : "Record Daily Cash Up"}</DialogTitle>
+                <DialogDescription>
+                  Enter daily financial information
+                </DialogDescription>
+              </DialogHeader>
+              <ScrollArea className="max-h-[calc(90vh-180px)] px-6">
+                <form id="cash-up-form" onSubmit={handleSubmit} className="space-y-4 py-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="date">Date *</Label>
+                    <Input
+                      id="date"
+                      type="date"
+                      required
+                      value={formData.date}
+                      onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="shop">Shop *</Label>
+                    <Select value={formData.shop_id} onValueChange={(value) => setFormData({
+                      ...formData,
+                      shop_id: value as ShopId,
+                      opening_float: editingRecord ? formData.opening_float : lastFloat(value),
+                      account_sales: formData.account_sales.map(sale => ({ ...sale, customer_id: "" })),
+                      vat_rate: editingRecord ? formData.vat_rate : getVatRate(value),
+                    })}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a shop" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {shopOptions.map((shop) => (
+                          <SelectItem key={shop.id} value={shop.id}>
+                            {shop.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="count_mode">Count the till</Label>
+                    <Switch
+                      id="count_mode"
+                      checked={!!formData.counts}
+                      onCheckedChange={(checked) => setFormData({ ...formData, counts: checked ? {} : null })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="opening_float">Opening Float (ZAR)</Label>
+                    <Input
+                      id="opening_float"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={formData.opening_float}
+                      onChange={(e) => setFormData({ ...formData, opening_float: parseFloat(e.target.value) || 0 })}
+                    />
+                  </div>
+                  {formData.counts ? (
+                    <>
+                      <TillCount
+                        counts={formData.counts}
+                        onChange={(counts) => setFormData({ ...formData, counts })}
+                      />
+                      <div className="flex justify-between text-sm font-medium">
+                        <span>Cash Taken (count less float, plus cash paid out)</span>
+                        <span className={cashTaken < 0 ? "text-red-600" : ""}>{formatCurrency(cashTaken)}</span>
+                      </div>
+                    </>
+                  ) : (
+                    <div className="space-y-2">
+                      <Label htmlFor="cash_amount">Daily Cash Amount (ZAR) *</Label>
+                      <Input
+                        id="cash_amount"
+                        type="number"
+                        step="0.01"
+                        required
+                        value={formData.cash_amount}
+                        onChange={(e) => setFormData({ ...formData, cash_amount: parseFloat(e.target.value) || 0 })}
+                      />
+                    </div>
+                  )}
+                  <div className="space-y-2">
+                    <Label htmlFor="card_machine_amount">Mobile Card Machine Amount (ZAR) *</Label>
+                    <Input
+                      id="card_machine_amount"
+                      type="number"
+                      step="0.01"
+                      required
+                      value={formData.card_machine_amount}
+                      onChange={(e) => setFormData({ ...formData, card_machine_amount: parseFloat(e.target.value) || 0 })}
+                    />
+                  </div>
+                  {formData.account_sales.length === 0 && (
+                    <div className="space-y-2">
+                      <Label htmlFor="account_amount">Account Amount (ZAR) *</Label>
+                      <Input
+                        id="account_amount"
+                        type="number"
+                        step="0.01"
+                        required
+                        value={formData.account_amount}
+                        onChange={(e) => setFormData({ ...formData, account_amount: parseFloat(e.target.value) || 0 })}
+                      />
+                    </div>
+                  )}
+                  <AccountSaleLines
+                    shopId={formData.shop_id}
+                    sales={formData.account_sales}
+                    onChange={(account_sales) => setFormData({ ...formData, account_sales })}
                   />
-                </div>
-                <div className="space-y-2">
-                  <Label>Total Daily Income (Auto-calculated)</Label>
-                  <div className="text-xl sm:text-2xl font-bold">
-                    {formatCurrency(formData.cash_amount + formData.card_machine_amount + formData.account_amount + formData.direct_deposit_amount)}
+                  <div className="space-y-2">
+                    <Label htmlFor="direct_deposit_amount">Direct Deposit Amount (ZAR) *</Label>
+                    <Input
+                      id="direct_deposit_amount"
+                      type="number"
+                      step="0.01"
+                      required
+                      value={formData.direct_deposit_amount}
+                      onChange={(e) => setFormData({ ...formData, direct_deposit_amount: parseFloat(e.target.value) || 0 })}
+                    />
                   </div>
-                </div>
-                <div className="space-y-2">
-                  <Label>Net Income (Auto-calculated)</Label>
-                  <div className="text-xl sm:text-2xl font-bold">
-                    {formatCurrency((formData.cash_amount + formData.card_machine_amount + formData.account_amount + formData.direct_deposit_amount) - formData.expenses)}
+                  <div className="space-y-2">
+                    <Label htmlFor="zero_rated_sales">Zero-rated Sales (ZAR)</Label>
+                    <Input
+                      id="zero_rated_sales"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={formData.zero_rated_sales}
+                      onChange={(e) => setFormData({ ...formData, zero_rated_sales: parseFloat(e.target.value) || 0 })}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Part of the income above with no VAT on it, from the Z-reading. Output VAT at {formData.vat_rate}%: {formatCurrency(formOutputVat)}
+                    </p>
                   </div>
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="notes">Notes</Label>
-                  <Textarea
-                    id="notes"
-                    value={formData.notes}
-                    onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                  <ExpenseLines
+                    expenses={formData.expenses}
+                    standardVatRate={getVatRate(formData.shop_id)}
+                    onChange={(expenses) => setFormData({ ...formData, expenses })}
                   />
-                </div>
-              </form>
-            </ScrollArea>
-            <div className="flex justify-end gap-2 p-6 pt-4 border-t">
-              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
-                Cancel
-              </Button>
-              <Button type="submit" form="cash-up-form">
-                {editingRecord ? "Update" : "Record"}
-              </Button>
-            </div>
-          </DialogContent>
-        </Dialog>
+                  <div className="space-y-2">
+                    <Label>Total Daily Income (Auto-calculated)</Label>
+                    <div className="text-xl sm:text-2xl font-bold">
+                      {formatCurrency(formIncome)}
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Net Income (Auto-calculated)</Label>
+                    <div className="text-xl sm:text-2xl font-bold">
+                      {formatCurrency(formIncome - formExpenses)}
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="expected_takings">Expected Takings from Z-Reading (ZAR)</Label>
+                    <Input
+                      id="expected_takings"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      placeholder="POS total for the day"
+                      value={formData.expected_takings}
+                      onChange={(e) => setFormData({ ...formData, expected_takings: e.target.value })}
+                    />
+                  </div>
+                  {formVariance !== null && (
+                    <div className="space-y-2">
+                      <Label>Over / Short (Auto-calculated)</Label>
+                      <div className={`text-xl sm:text-2xl font-bold ${!isOutOfBalance(formVariance) ? "text-green-600" : formVariance > 0 ? "text-amber-600" : "text-red-600"}`}>
+                        {isOutOfBalance(formVariance)
+                          ? `${formatCurrency(Math.abs(formVariance))} ${formVariance > 0 ? "over" : "short"}`
+                          : "Balanced"}
+                      </div>
+                    </div>
+                  )}
+                  <div className="space-y-2">
+                    <Label htmlFor="notes">Notes</Label>
+                    <Textarea
+                      id="notes"
+                      value={formData.notes}
+                      onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                    />
+                  </div>
+                </form>
+              </ScrollArea>
+              <div className="flex justify-end gap-2 p-6 pt-4 border-t">
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" form="cash-up-form">
+                  {editingRecord ? "Update" : "Record"}
+                </Button>
+              </div>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
       <div>
@@ -450,10 +628,11 @@ const CashUp = ({ selectedShop }: CashUpProps) => {
             <div>
               <CardTitle>Cash Up History</CardTitle>
               <CardDescription>
-                {selectedShop === "All" ? "All shops" : `Shop ${selectedShop}`} records
+                {selectedShop === "All" ? "All shops" : getShopName(selectedShop)} records
               </CardDescription>
             </div>
             <div className="flex items-center gap-4">
+              <ExportMenu onExport={handleExport} disabled={filteredRecords.length === 0} size="sm" />
               <div className="flex items-center gap-2">
                 <Calendar className="h-4 w-4 text-muted-foreground" />
                 <Label htmlFor="date-from" className="text-sm">From:</Label>
@@ -503,15 +682,19 @@ const CashUp = ({ selectedShop }: CashUpProps) => {
                 <TableHead>Total Income</TableHead>
                 <TableHead>Expenses</TableHead>
                 <TableHead>Net Income</TableHead>
+                <TableHead>Over / Short</TableHead>
                 <TableHead>Notes</TableHead>
                 <TableHead className="text-right">Actions</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
               {filteredRecords.map((record) => (
-                <TableRow key={record.id}>
-                  <TableCell className="font-medium">{record.date}</TableCell>
-                  <TableCell>{record.shop}</TableCell>
+                <TableRow key={record.id} className={isOutOfBalance(record.variance) ? "bg-red-50" : ""}>
+                  <TableCell className="font-medium">
+                    {record.date}
+                    {record.deposit_id && <Badge variant="secondary" className="ml-2">Banked</Badge>}
+                  </TableCell>
+                  <TableCell>{getShopName(record.shop_id)}</TableCell>
                   <TableCell className="text-green-600">{formatCurrency(record.cash_amount)}</TableCell>
                   <TableCell className="text-green-600">{formatCurrency(record.card_machine_amount)}</TableCell>
                   <TableCell className="text-green-600">{formatCurrency(record.account_amount)}</TableCell>
@@ -521,6 +704,17 @@ const CashUp = ({ selectedShop }: CashUpProps) => {
                   <TableCell className={record.net_income >= 0 ? 'text-green-600 font-bold' : 'text-red-600 font-bold'}>
                     {formatCurrency(record.net_income)}
                   </TableCell>
+                  <TableCell>
+                    {record.variance === null ? (
+                      <span className="text-muted-foreground">-</span>
+                    ) : isOutOfBalance(record.variance) ? (
+                      <Badge variant="destructive">
+                        {formatCurrency(Math.abs(record.variance))} {record.variance > 0 ? "over" : "short"}
+                      </Badge>
+                    ) : (
+                      <Badge variant="outline">Balanced</Badge>
+                    )}
+                  </TableCell>
                   <TableCell className="max-w-xs truncate">{record.notes}</TableCell>
                   <TableCell className="text-right">
                     <div className="flex justify-end gap-2">
@@ -531,13 +725,20 @@ const CashUp = ({ selectedShop }: CashUpProps) => {
                       >
                         <Pencil className="h-4 w-4" />
                       </Button>
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        onClick={() => handleDelete(record.id)}
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
+                      <HistoryDrawer
+                        table="income_records"
+                        recordId={record.id}
+                        title={`${getShopName(record.shop_id)} - ${new Date(record.date).toLocaleDateString()}`}
+                      />
+                      {canManage(record.shop_id) && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleDelete(record.id)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
                     </div>
                   </TableCell>
                 </TableRow>
@@ -0,0 +1,736 @@
+import { useState } from "react";
+import { ShopId } from "@/types";
+import { formatCurrency } from "@/lib/currency";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Banknote, Download, Pencil, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { useShops } from "@/hooks/useShops";
+import { useIncomeRecords } from "@/hooks/useIncomeRecords";
+import { useCustomers, type CustomerRecord } from "@/hooks/useCustomers";
+import { useAccountSales } from "@/hooks/useAccountSales";
+import { useCustomerPayments, type CustomerPaymentRecord } from "@/hooks/useCustomerPayments";
+import { useDocuments } from "@/hooks/useDocuments";
+import { PAYMENT_METHODS, type PaymentMethod } from "@/lib/payables";
+import { AGING_BUCKETS } from "@/lib/aging";
+import { brandingFor, statementSection } from "@/lib/documents";
+import { buildCustomerStatement, customerBalance, liveSales, outstandingDebtors } from "@/lib/customerAccounts";
+
+interface CustomersProps {
+  selectedShop: ShopId;
+}
+
+const Customers = ({ selectedShop }: CustomersProps) => {
+  const { shops, activeShops, getShopName, loading: shopsLoading } = useShops();
+  const { incomeRecords, loading: recordsLoading } = useIncomeRecords();
+  const { customers, getCustomerName, loading: customersLoading, createCustomer, updateCustomer, deleteCustomer } = useCustomers();
+  const { sales: allSales, loading: salesLoading } = useAccountSales();
+  const { payments, loading: paymentsLoading, recordPayment, deletePayment } = useCustomerPayments();
+  const { generateDocument, generating } = useDocuments();
+  const [isCustomerOpen, setIsCustomerOpen] = useState(false);
+  const [editingCustomer, setEditingCustomer] = useState<CustomerRecord | null>(null);
+  const [isPaymentOpen, setIsPaymentOpen] = useState(false);
+  const [statementCustomerId, setStatementCustomerId] = useState("");
+
+  const today = new Date().toISOString().split('T')[0];
+  const defaultShopId = selectedShop === "All" ? activeShops[0]?.id || "" : selectedShop;
+  const emptyCustomer = {
+    shop_id: defaultShopId,
+    name: "",
+    account_number: "",
+    phone: "",
+    email: "",
+    credit_limit: "",
+    notes: "",
+    is_active: true,
+  };
+  const emptyPayment = {
+    customer_id: "",
+    paid_on: today,
+    method: "cash" as PaymentMethod,
+    reference: "",
+    amount: 0,
+    notes: "",
+  };
+  const [customerForm, setCustomerForm] = useState(emptyCustomer);
+  const [paymentForm, setPaymentForm] = useState(emptyPayment);
+
+  const sales = liveSales(allSales, incomeRecords);
+  const inShop = (row: { shop_id: string }) => selectedShop === "All" || row.shop_id === selectedShop;
+  const shopCustomers = customers.filter(inShop);
+  const shopPayments = payments.filter(inShop);
+  const debtorShops = shops.filter(shop => selectedShop === "All" ? shop.is_active : shop.id === selectedShop);
+  const debtorsFor = (shopId: string) => outstandingDebtors(
+    customers.filter(c => c.shop_id === shopId),
+    sales,
+    payments
+  );
+
+  const statementCustomer = customers.find(c => c.id === statementCustomerId) ?? null;
+  const statement = statementCustomer
+    ? buildCustomerStatement(
+        sales.filter(s => s.customer_id === statementCustomer.id),
+        payments.filter(p => p.customer_id === statementCustomer.id)
+      )
+    : [];
+
+  const openCustomer = (customer?: CustomerRecord) => {
+    setEditingCustomer(customer ?? null);
+    setCustomerForm(customer
+      ? {
+          shop_id: customer.shop_id,
+          name: customer.name,
+          account_number: customer.account_number || "",
+          phone: customer.phone || "",
+          email: customer.email || "",
+          credit_limit: customer.credit_limit === null ? "" : String(customer.credit_limit),
+          notes: customer.notes || "",
+          is_active: customer.is_active,
+        }
+      : emptyCustomer);
+    setIsCustomerOpen(true);
+  };
+
+  const openPayment = (customerId = "") => {
+    setPaymentForm({ ...emptyPayment, customer_id: customerId, amount: customerId ? Math.max(customerBalance(customerId, sales, payments), 0) : 0 });
+    setIsPaymentOpen(true);
+  };
+
+  const handleCustomerSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!customerForm.shop_id) {
+      toast.error("Please select a shop");
+      return;
+    }
+
+    const values = {
+      shop_id: customerForm.shop_id,
+      name: customerForm.name.trim(),
+      account_number: customerForm.account_number.trim() || null,
+      phone: customerForm.phone.trim() || null,
+      email: customerForm.email.trim() || null,
+      credit_limit: customerForm.credit_limit === "" ? null : parseFloat(customerForm.credit_limit) || 0,
+      notes: customerForm.notes.trim() || null,
+      is_active: customerForm.is_active,
+    };
+
+    try {
+      if (editingCustomer) {
+        await updateCustomer(editingCustomer.id, values);
+        toast.success("Customer updated");
+      } else {
+        await createCustomer(values);
+        toast.success("Customer added");
+      }
+      setIsCustomerOpen(false);
+    } catch (error) {
+      console.error('Error saving customer:', error);
+      toast.error(error.message || "Failed to save customer");
+    }
+  };
+
+  const handleDeleteCustomer = async (customer: CustomerRecord) => {
+    if (!confirm(`Delete ${customer.name}?`)) return;
+
+    try {
+      await deleteCustomer(customer.id);
+      toast.success("Customer deleted");
+    } catch (error) {
+      console.error('Error deleting customer:', error);
+      toast.error(error.message || "Failed to delete customer");
+    }
+  };
+
+  const handlePaymentSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const customer = customers.find(c => c.id === paymentForm.customer_id);
+    if (!customer) {
+      toast.error("Please select a customer");
+      return;
+    }
+    if (paymentForm.amount <= 0) {
+      toast.error("Please enter the amount received");
+      return;
+    }
+
+    const balance = customerBalance(customer.id, sales, payments);
+    if (paymentForm.amount > balance &&
+      !confirm(`This is more than the ${formatCurrency(balance)} ${customer.name} owes. Record it anyway?`)) {
+      return;
+    }
+
+    try {
+      await recordPayment({
+        customer_id: customer.id,
+        shop_id: customer.shop_id,
+        paid_on: paymentForm.paid_on,
+        method: paymentForm.method,
+        reference: paymentForm.reference.trim() || null,
+        amount: paymentForm.amount,
+        notes: paymentForm.notes.trim() || null,
+      });
+      toast.success("Payment recorded");
+      setIsPaymentOpen(false);
+    } catch (error) {
+      console.error('Error recording payment:', error);
+      toast.error(`Failed to record payment: ${error.message}`);
+    }
+  };
+
+  const handleDeletePayment = async (payment: CustomerPaymentRecord) => {
+    if (!confirm(`Delete the ${formatCurrency(payment.amount)} payment of ${payment.paid_on}?`)) return;
+
+    try {
+      await deletePayment(payment.id);
+      toast.success("Payment deleted");
+    } catch (error) {
+      console.error('Error deleting payment:', error);
+      toast.error(`Failed to delete payment: ${error.message}`);
+    }
+  };
+
+  const downloadStatement = async () => {
+    if (!statementCustomer) return;
+
+    const shop = shops.find(s => s.id === statementCustomer.shop_id);
+    try {
+      await generateDocument({
+        kind: 'customer_statement',
+        title: `Statement - ${statementCustomer.name}`,
+        shopId: statementCustomer.shop_id,
+        weekStartDate: null,
+        sections: [
+          statementSection(
+            statementCustomer.name,
+            [
+              ...(statementCustomer.account_number ? [`Account ${statementCustomer.account_number}`] : []),
+              getShopName(statementCustomer.shop_id),
+            ],
+            statement,
+            { debit: "Charged", closing: "Balance due" },
+            shop && brandingFor(shop)
+          ),
+        ],
+      });
+      toast.success("Statement downloaded and filed under Documents");
+    } catch (error) {
+      toast.error("Failed to generate the statement");
+    }
+  };
+
+  const downloadDebtors = async (shopId: string) => {
+    const debtors = debtorsFor(shopId);
+    if (debtors.length === 0) {
+      toast.error("No customer of this shop owes anything");
+      return;
+    }
+
+    const shop = shops.find(s => s.id === shopId);
+    try {
+      await generateDocument({
+        kind: 'debtors_report',
+        title: `Debtors - ${getShopName(shopId)}`,
+        shopId,
+        weekStartDate: null,
+        orientation: 'landscape',
+        sections: [{
+          heading: getShopName(shopId),
+          details: [],
+          branding: shop && brandingFor(shop),
+          blocks: [
+            {
+              type: 'table',
+              columns: [
+                { label: "Customer", width: 18 },
+                { label: "Phone", width: 11 },
+                ...AGING_BUCKETS.map(bucket => ({ label: bucket.label, width: 10, type: 'currency' as const, total: true })),
+                { label: "Total", width: 11, type: 'currency', total: true },
+                { label: "Credit Limit", width: 10, type: 'currency' },
+                { label: "Last Payment", width: 10 },
+              ],
+              rows: debtors.map(debtor => ({
+                cells: [
+                  `${debtor.customer.name}${debtor.customer.account_number ? ` (${debtor.customer.account_number})` : ''}`,
+                  debtor.customer.phone || '',
+                  ...AGING_BUCKETS.map(bucket => debtor.aging[bucket.key]),
+                  debtor.aging.total,
+                  debtor.customer.credit_limit,
+                  debtor.lastPaidOn || 'Never',
+                ],
+                highlight: debtor.overLimit,
+              })),
+              totalLabel: "Total Outstanding",
+            },
+            ...(debtors.some(d => d.overLimit)
+              ? [{ type: 'note' as const, lines: ["Customers highlighted in yellow are over their credit limit."], highlight: true }]
+              : []),
+          ],
+        }],
+      });
+      toast.success("Debtors list downloaded and filed under Documents");
+    } catch (error) {
+      toast.error("Failed to generate the debtors list");
+    }
+  };
+
+  if (shopsLoading || recordsLoading || customersLoading || salesLoading || paymentsLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-lg">Loading customer accounts...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight">Customer Accounts</h2>
+          <p className="text-muted-foreground">Who bought on account and what they still owe</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => openPayment()}>
+            <Banknote className="mr-2 h-4 w-4" />
+            Record Payment
+          </Button>
+          <Button onClick={() => openCustomer()}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Customer
+          </Button>
+        </div>
+      </div>
+
+      {debtorShops.map((shop) => {
+        const debtors = debtorsFor(shop.id);
+        return (
+          <Card key={shop.id}>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle>Outstanding Debtors - {shop.name}</CardTitle>
+                  <CardDescription>
+                    {formatCurrency(debtors.reduce((sum, d) => sum + d.aging.total, 0))} owed by {debtors.length} customers
+                  </CardDescription>
+                </div>
+                <Button variant="outline" onClick={() => downloadDebtors(shop.id)} disabled={generating || debtors.length === 0}>
+                  <Download className="mr-2 h-4 w-4" />
+                  {generating ? "Generating..." : "Download PDF"}
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {debtors.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  No customer of this shop owes anything.
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Customer</TableHead>
+                      {AGING_BUCKETS.map(bucket => (
+                        <TableHead key={bucket.key} className="text-right">{bucket.label}</TableHead>
+                      ))}
+                      <TableHead className="text-right">Total</TableHead>
+                      <TableHead className="text-right">Credit Limit</TableHead>
+                      <TableHead>Last Payment</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {debtors.map((debtor) => (
+                      <TableRow key={debtor.customer.id}>
+                        <TableCell className="font-medium">
+                          {debtor.customer.name}
+                          {debtor.overLimit && <Badge variant="destructive" className="ml-2">Over limit</Badge>}
+                        </TableCell>
+                        {AGING_BUCKETS.map(bucket => (
+                          <TableCell
+                            key={bucket.key}
+                            className={`text-right ${bucket.minDays >= 60 && debtor.aging[bucket.key] > 0 ? "text-red-600" : ""}`}
+                          >
+                            {formatCurrency(debtor.aging[bucket.key])}
+                          </TableCell>
+                        ))}
+                        <TableCell className="text-right font-bold">{formatCurrency(debtor.aging.total)}</TableCell>
+                        <TableCell className="text-right">
+                          {debtor.customer.credit_limit === null ? "-" : formatCurrency(debtor.customer.credit_limit)}
+                        </TableCell>
+                        <TableCell>{debtor.lastPaidOn || "Never"}</TableCell>
+                        <TableCell className="text-right">
+                          <Button variant="outline" size="sm" onClick={() => openPayment(debtor.customer.id)}>
+                            Receive
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Customer Statement</CardTitle>
+              <CardDescription>Account sales and payments with the running balance due</CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Select value={statementCustomerId} onValueChange={setStatementCustomerId}>
+                <SelectTrigger className="w-56">
+                  <SelectValue placeholder="Select a customer" />
+                </SelectTrigger>
+                <SelectContent>
+                  {shopCustomers.map((customer) => (
+                    <SelectItem key={customer.id} value={customer.id}>{customer.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" onClick={downloadStatement} disabled={generating || statement.length === 0}>
+                <Download className="mr-2 h-4 w-4" />
+                {generating ? "Generating..." : "Download PDF"}
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {!statementCustomer ? (
+            <div className="text-center py-8 text-muted-foreground">
+              Select a customer to see their statement.
+            </div>
+          ) : statement.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No account sales or payments for this customer yet.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead className="text-right">Charged</TableHead>
+                  <TableHead className="text-right">Paid</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {statement.map((entry, index) => (
+                  <TableRow key={index}>
+                    <TableCell>{entry.date}</TableCell>
+                    <TableCell>{entry.description}</TableCell>
+                    <TableCell className="text-right">{entry.debit ? formatCurrency(entry.debit) : ""}</TableCell>
+                    <TableCell className="text-right">{entry.credit ? formatCurrency(entry.credit) : ""}</TableCell>
+                    <TableCell className="text-right font-medium">{formatCurrency(entry.balance)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Customers</CardTitle>
+          <CardDescription>{shopCustomers.length} account customers</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {shopCustomers.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No account customers yet. Add one to break down account sales on the cash up.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Shop</TableHead>
+                  <TableHead>Account</TableHead>
+                  <TableHead>Phone</TableHead>
+                  <TableHead className="text-right">Credit Limit</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {shopCustomers.map((customer) => (
+                  <TableRow key={customer.id} className={customer.is_active ? "" : "text-muted-foreground"}>
+                    <TableCell className="font-medium">
+                      {customer.name}
+                      {!customer.is_active && <Badge variant="secondary" className="ml-2">Inactive</Badge>}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{getShopName(customer.shop_id)}</Badge>
+                    </TableCell>
+                    <TableCell>{customer.account_number || "-"}</TableCell>
+                    <TableCell>{customer.phone || "-"}</TableCell>
+                    <TableCell className="text-right">
+                      {customer.credit_limit === null ? "-" : formatCurrency(customer.credit_limit)}
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(customerBalance(customer.id, sales, payments))}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button variant="ghost" size="icon" onClick={() => openCustomer(customer)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => handleDeleteCustomer(customer)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Payments Received</CardTitle>
+          <CardDescription>{shopPayments.length} payments recorded</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {shopPayments.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No payments received yet.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Method</TableHead>
+                  <TableHead>Reference</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {shopPayments.map((payment) => (
+                  <TableRow key={payment.id}>
+                    <TableCell>{payment.paid_on}</TableCell>
+                    <TableCell>{getCustomerName(payment.customer_id)}</TableCell>
+                    <TableCell>{PAYMENT_METHODS[payment.method as PaymentMethod] ?? payment.method}</TableCell>
+                    <TableCell>{payment.reference || "-"}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(payment.amount)}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="icon" onClick={() => handleDeletePayment(payment)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isCustomerOpen} onOpenChange={setIsCustomerOpen}>
+        <DialogContent className="w-[90vw] sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingCustomer ? "Edit Customer" : "Add Customer"}</DialogTitle>
+            <DialogDescription>Customers buy on account at one shop</DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleCustomerSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="customerName">Name *</Label>
+                <Input
+                  id="customerName"
+                  required
+                  value={customerForm.name}
+                  onChange={(e) => setCustomerForm({ ...customerForm, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Shop *</Label>
+                <Select
+                  value={customerForm.shop_id}
+                  onValueChange={(value) => setCustomerForm({ ...customerForm, shop_id: value })}
+                  disabled={!!editingCustomer}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a shop" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {shops.filter(shop => shop.is_active || shop.id === customerForm.shop_id).map((shop) => (
+                      <SelectItem key={shop.id} value={shop.id}>{shop.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="customerAccount">Account Number</Label>
+                <Input
+                  id="customerAccount"
+                  value={customerForm.account_number}
+                  onChange={(e) => setCustomerForm({ ...customerForm, account_number: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="customerLimit">Credit Limit</Label>
+                <Input
+                  id="customerLimit"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="No limit"
+                  value={customerForm.credit_limit}
+                  onChange={(e) => setCustomerForm({ ...customerForm, credit_limit: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="customerPhone">Phone</Label>
+                <Input
+                  id="customerPhone"
+                  value={customerForm.phone}
+                  onChange={(e) => setCustomerForm({ ...customerForm, phone: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="customerEmail">Email</Label>
+                <Input
+                  id="customerEmail"
+                  type="email"
+                  value={customerForm.email}
+                  onChange={(e) => setCustomerForm({ ...customerForm, email: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="customerNotes">Notes</Label>
+              <Textarea
+                id="customerNotes"
+                value={customerForm.notes}
+                onChange={(e) => setCustomerForm({ ...customerForm, notes: e.target.value })}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="customerActive">Can buy on account</Label>
+              <Switch
+                id="customerActive"
+                checked={customerForm.is_active}
+                onCheckedChange={(checked) => setCustomerForm({ ...customerForm, is_active: checked })}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setIsCustomerOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit">{editingCustomer ? "Save" : "Add Customer"}</Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isPaymentOpen} onOpenChange={setIsPaymentOpen}>
+        <DialogContent className="w-[90vw] sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Record Payment</DialogTitle>
+            <DialogDescription>Money received from a customer towards their account</DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handlePaymentSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label>Customer *</Label>
+              <Select
+                value={paymentForm.customer_id}
+                onValueChange={(value) => setPaymentForm({ ...paymentForm, customer_id: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a customer" />
+                </SelectTrigger>
+                <SelectContent>
+                  {shopCustomers.map((customer) => (
+                    <SelectItem key={customer.id} value={customer.id}>
+                      {customer.name} - {formatCurrency(customerBalance(customer.id, sales, payments))} owed
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="receivedOn">Date *</Label>
+                <Input
+                  id="receivedOn"
+                  type="date"
+                  required
+                  value={paymentForm.paid_on}
+                  onChange={(e) => setPaymentForm({ ...paymentForm, paid_on: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="receivedAmount">Amount *</Label>
+                <Input
+                  id="receivedAmount"
+                  type="number"
+                  required
+                  min="0.01"
+                  step="0.01"
+                  value={paymentForm.amount}
+                  onChange={(e) => setPaymentForm({ ...paymentForm, amount: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Method *</Label>
+                <Select
+                  value={paymentForm.method}
+                  onValueChange={(value: PaymentMethod) => setPaymentForm({ ...paymentForm, method: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(PAYMENT_METHODS).map(([method, label]) => (
+                      <SelectItem key={method} value={method}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="receivedReference">Reference</Label>
+                <Input
+                  id="receivedReference"
+                  value={paymentForm.reference}
+                  onChange={(e) => setPaymentForm({ ...paymentForm, reference: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="receivedNotes">Notes</Label>
+              <Input
+                id="receivedNotes"
+                value={paymentForm.notes}
+                onChange={(e) => setPaymentForm({ ...paymentForm, notes: e.target.value })}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setIsPaymentOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit">Record Payment</Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Customers;
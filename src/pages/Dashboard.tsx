@@ -1,64 +1,35 @@
-import { Shop } from "@/types";
+import { ShopId } from "@/types";
 import { formatCurrency } from "@/lib/currency";
 import MetricCard from "@/components/dashboard/MetricCard";
 import { Package, ShoppingCart, DollarSign, TrendingUp, TrendingDown, Calendar } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { supabase } from "@/integrations/supabase/client";
-import { useEffect, useState } from 'react';
+import { useState } from 'react';
+import { Link } from "react-router-dom";
 import { startOfWeek, endOfWeek, startOfMonth, endOfMonth, subWeeks, subMonths, format } from 'date-fns';
-import type { Tables } from "@/integrations/supabase/types";
+import { useSupplies } from "@/hooks/useSupplies";
+import { useOrders } from "@/hooks/useOrders";
+import { useIncomeRecords } from "@/hooks/useIncomeRecords";
+import { useWeeklyBudgets } from "@/hooks/useWeeklyBudgets";
+import { useShops } from "@/hooks/useShops";
+import { useExpenses } from "@/hooks/useExpenses";
+import { undepositedCash } from "@/lib/deposits";
 
 interface DashboardProps {
-  selectedShop: Shop;
+  selectedShop: ShopId;
 }
 
-type Supply = Tables<'supplies'>;
-type Order = Tables<'orders'>;
-type IncomeRecord = Tables<'income_records'>;
-
-type WeeklyBudget = Tables<'weekly_budgets'>;
-
 const Dashboard = ({ selectedShop }: DashboardProps) => {
-  const [supplies, setSupplies] = useState<Supply[]>([]);
-  const [orders, setOrders] = useState<Order[]>([]);
-  const [incomeRecords, setIncomeRecords] = useState<IncomeRecord[]>([]);
-  const [weeklyBudgets, setWeeklyBudgets] = useState<WeeklyBudget[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { supplies, loading: suppliesLoading } = useSupplies();
+  const { orders, loading: ordersLoading } = useOrders();
+  const { incomeRecords, loading: incomeLoading } = useIncomeRecords();
+  const { weeklyBudgets, loading: budgetsLoading } = useWeeklyBudgets();
+  const { activeShops, getShopName, loading: shopsLoading } = useShops();
+  const { expenses, loading: expensesLoading } = useExpenses();
+  const loading = suppliesLoading || ordersLoading || incomeLoading || budgetsLoading || shopsLoading || expensesLoading;
   const [dateRange, setDateRange] = useState<'current-week' | 'last-week' | 'current-month' | 'last-month'>('current-week');
 
-  const fetchData = async () => {
-    try {
-      setLoading(true);
-      
-      const [suppliesResponse, ordersResponse, incomeResponse, budgetsResponse] = await Promise.all([
-        supabase.from('supplies').select('*'),
-        supabase.from('orders').select('*'),
-        supabase.from('income_records').select('*'),
-        supabase.from('weekly_budgets').select('*')
-      ]);
-
-      if (suppliesResponse.error) throw suppliesResponse.error;
-      if (ordersResponse.error) throw ordersResponse.error;
-      if (incomeResponse.error) throw incomeResponse.error;
-      if (budgetsResponse.error) throw budgetsResponse.error;
-
-      setSupplies(suppliesResponse.data || []);
-      setOrders(ordersResponse.data || []);
-      setIncomeRecords(incomeResponse.data || []);
-      setWeeklyBudgets(budgetsResponse.data || []);
-    } catch (error) {
-      console.error('Error fetching data:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  useEffect(() => {
-    fetchData();
-  }, []);
-
   // Calculate date range based on selection
   const getDateRange = () => {
     const now = new Date();
@@ -93,15 +64,15 @@ const Dashboard = ({ selectedShop }: DashboardProps) => {
 
   const filteredSupplies = selectedShop === "All" 
     ? supplies 
-    : supplies.filter(s => s.shop === selectedShop);
+    : supplies.filter(s => s.shop_id === selectedShop);
   
   const filteredOrders = selectedShop === "All" 
     ? orders 
-    : orders.filter(o => o.shop === selectedShop);
+    : orders.filter(o => o.shop_id === selectedShop);
   
   const filteredIncome = selectedShop === "All" 
     ? incomeRecords 
-    : incomeRecords.filter(i => i.shop === selectedShop);
+    : incomeRecords.filter(i => i.shop_id === selectedShop);
 
   // Filter by date range
   const rangeOrders = filteredOrders.filter(o => 
@@ -134,7 +105,7 @@ const Dashboard = ({ selectedShop }: DashboardProps) => {
   // Get weekly budget for date range
   const filteredBudgets = selectedShop === "All" 
     ? weeklyBudgets 
-    : weeklyBudgets.filter(b => b.shop === selectedShop);
+    : weeklyBudgets.filter(b => b.shop_id === selectedShop);
 
   // Calculate total budget for the date range
   const rangeBudgets = filteredBudgets.filter(
@@ -168,15 +139,21 @@ const Dashboard = ({ selectedShop }: DashboardProps) => {
   // Count missing cash-up days
   const daysInRange = Math.ceil((new Date(rangeEnd).getTime() - new Date(rangeStart).getTime()) / (1000 * 60 * 60 * 24)) + 1;
   
-  // Get unique shops to count expected records
+  // Archived shops no longer cash up, so only active ones are expected
   const shopsToCheck = selectedShop === "All" 
-    ? Array.from(new Set([...supplies.map(s => s.shop), ...orders.map(o => o.shop), ...incomeRecords.map(i => i.shop)]))
+    ? activeShops.map(shop => shop.id)
     : [selectedShop];
   
   const expectedCashUpRecords = daysInRange * shopsToCheck.length;
   const actualCashUpRecords = rangeIncome.length;
   const missingCashUpDays = Math.max(0, expectedCashUpRecords - actualCashUpRecords);
 
+  // Shops whose cash has waited longer than their limit to be banked
+  const depositWarnings = activeShops
+    .filter(shop => shopsToCheck.includes(shop.id))
+    .map(shop => ({ shop, ...undepositedCash(incomeRecords.filter(i => i.shop_id === shop.id), expenses) }))
+    .filter(warning => warning.count > 0 && warning.daysWaiting > warning.shop.deposit_alert_days);
+
   const budgetRemaining = weeklyBudgetAmount - totalOrderAmount;
   const availableBudget = budgetRemaining + budgetSavings;
 
@@ -201,7 +178,7 @@ const Dashboard = ({ selectedShop }: DashboardProps) => {
         <div>
           <h2 className="text-3xl font-bold tracking-tight">Dashboard</h2>
           <p className="text-muted-foreground">
-            Overview of {selectedShop === "All" ? "all shops" : `Shop ${selectedShop}`}
+            Overview of {selectedShop === "All" ? "all shops" : getShopName(selectedShop)}
           </p>
         </div>
         <div className="flex items-center gap-2">
@@ -220,6 +197,22 @@ const Dashboard = ({ selectedShop }: DashboardProps) => {
         </div>
       </div>
 
+      {depositWarnings.length > 0 && (
+        <Card className="border-amber-500 bg-amber-50 dark:bg-amber-950">
+          <CardHeader>
+            <CardTitle className="text-amber-700 dark:text-amber-300">Undeposited cash</CardTitle>
+            <CardDescription className="text-amber-600 dark:text-amber-400">
+              {depositWarnings.map(warning => (
+                <span key={warning.shop.id} className="block">
+                  {warning.shop.name}: {formatCurrency(warning.amount)} from {warning.count} cash up{warning.count !== 1 ? "s" : ""}, oldest {warning.daysWaiting} days ago
+                </span>
+              ))}
+              <Link to="/deposits" className="underline">Record a deposit</Link>
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      )}
+
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
         <MetricCard
           title="Budget"
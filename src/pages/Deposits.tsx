@@ -0,0 +1,342 @@
+import { useState } from "react";
+import { ShopId } from "@/types";
+import { formatCurrency } from "@/lib/currency";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Landmark, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { useShops } from "@/hooks/useShops";
+import { useMemberships } from "@/hooks/useMemberships";
+import { useIncomeRecords } from "@/hooks/useIncomeRecords";
+import { useExpenses } from "@/hooks/useExpenses";
+import { useBankDeposits, type BankDepositRecord } from "@/hooks/useBankDeposits";
+import { cashToBank, undepositedCash, undepositedCashUps } from "@/lib/deposits";
+import { round } from "@/lib/numbers";
+
+interface DepositsProps {
+  selectedShop: ShopId;
+}
+
+const Deposits = ({ selectedShop }: DepositsProps) => {
+  const { shops, activeShops, getShopName, loading: shopsLoading } = useShops();
+  const { canManage } = useMemberships();
+  const { incomeRecords, loading: recordsLoading } = useIncomeRecords();
+  const { expenses, loading: expensesLoading } = useExpenses();
+  const { deposits, loading: depositsLoading, createDeposit, deleteDeposit } = useBankDeposits();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const today = new Date().toISOString().split('T')[0];
+  const [formData, setFormData] = useState({
+    shop_id: "",
+    record_ids: [] as string[],
+    deposited_on: today,
+    bank_reference: "",
+    amount: "",
+    notes: "",
+  });
+
+  const shopsInView = shops.filter(shop => selectedShop === "All" ? shop.is_active : shop.id === selectedShop);
+  const shopDeposits = deposits.filter(d => selectedShop === "All" || d.shop_id === selectedShop);
+
+  const pendingFor = (shopId: string) =>
+    undepositedCashUps(incomeRecords.filter(r => r.shop_id === shopId), expenses);
+
+  const selectedTotal = round(incomeRecords
+    .filter(r => formData.record_ids.includes(r.id))
+    .reduce((sum, r) => sum + cashToBank(r, expenses), 0));
+
+  // Starts with every undeposited cash up of the shop ticked
+  const startDeposit = (shopId: string) => {
+    setFormData({
+      shop_id: shopId,
+      record_ids: pendingFor(shopId).map(r => r.id),
+      deposited_on: today,
+      bank_reference: "",
+      amount: "",
+      notes: "",
+    });
+    setIsDialogOpen(true);
+  };
+
+  const toggleRecord = (id: string, checked: boolean) => {
+    setFormData({
+      ...formData,
+      record_ids: checked ? [...formData.record_ids, id] : formData.record_ids.filter(r => r !== id),
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (formData.record_ids.length === 0) {
+      toast.error("Please tick the cash ups this deposit covers");
+      return;
+    }
+
+    const amount = formData.amount === "" ? selectedTotal : parseFloat(formData.amount) || 0;
+    if (amount <= 0) {
+      toast.error("Please enter the amount deposited");
+      return;
+    }
+
+    try {
+      await createDeposit(
+        {
+          shop_id: formData.shop_id,
+          deposited_on: formData.deposited_on,
+          bank_reference: formData.bank_reference.trim() || null,
+          amount,
+          notes: formData.notes.trim() || null,
+        },
+        formData.record_ids
+      );
+      toast.success("Deposit recorded");
+      setIsDialogOpen(false);
+    } catch (error) {
+      console.error('Error recording deposit:', error);
+      toast.error(`Failed to record deposit: ${error.message}`);
+    }
+  };
+
+  const handleDelete = async (deposit: BankDepositRecord) => {
+    if (!confirm(`Delete the deposit of ${deposit.deposited_on}? Its cash ups count as undeposited again.`)) return;
+
+    try {
+      await deleteDeposit(deposit.id);
+      toast.success("Deposit deleted");
+    } catch (error) {
+      console.error('Error deleting deposit:', error);
+      toast.error(`Failed to delete deposit: ${error.message}`);
+    }
+  };
+
+  if (shopsLoading || recordsLoading || expensesLoading || depositsLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-lg">Loading deposits...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight">Bank Deposits</h2>
+          <p className="text-muted-foreground">Cash takings waiting to be banked and the deposits made</p>
+        </div>
+        <Button
+          onClick={() => startDeposit(selectedShop === "All" ? activeShops[0]?.id || "" : selectedShop)}
+          disabled={activeShops.length === 0}
+        >
+          <Landmark className="mr-2 h-4 w-4" />
+          New Deposit
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Undeposited Cash</CardTitle>
+          <CardDescription>Cash taken less cash paid out of the till, per shop</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Shop</TableHead>
+                <TableHead>Cash Ups</TableHead>
+                <TableHead>Oldest</TableHead>
+                <TableHead>Waiting</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {shopsInView.map((shop) => {
+                const pending = undepositedCash(incomeRecords.filter(r => r.shop_id === shop.id), expenses);
+                const overdue = pending.count > 0 && pending.daysWaiting > shop.deposit_alert_days;
+                return (
+                  <TableRow key={shop.id}>
+                    <TableCell className="font-medium">{shop.name}</TableCell>
+                    <TableCell>{pending.count}</TableCell>
+                    <TableCell>{pending.oldestDate ?? "-"}</TableCell>
+                    <TableCell>
+                      {pending.count === 0 ? "-" : (
+                        <Badge variant={overdue ? "destructive" : "outline"}>
+                          {pending.daysWaiting} {pending.daysWaiting === 1 ? "day" : "days"}
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right font-bold">{formatCurrency(pending.amount)}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="outline" size="sm" disabled={pending.count === 0} onClick={() => startDeposit(shop.id)}>
+                        Deposit
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Deposits</CardTitle>
+          <CardDescription>{shopDeposits.length} deposits recorded</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {shopDeposits.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No deposits recorded yet.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Shop</TableHead>
+                  <TableHead>Reference</TableHead>
+                  <TableHead>Cash Ups</TableHead>
+                  <TableHead className="text-right">Expected</TableHead>
+                  <TableHead className="text-right">Deposited</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {shopDeposits.map((deposit) => {
+                  const covered = incomeRecords
+                    .filter(r => r.deposit_id === deposit.id)
+                    .sort((a, b) => a.date.localeCompare(b.date));
+                  const expected = round(covered.reduce((sum, r) => sum + cashToBank(r, expenses), 0));
+                  return (
+                    <TableRow key={deposit.id}>
+                      <TableCell className="font-medium">{deposit.deposited_on}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{getShopName(deposit.shop_id)}</Badge>
+                      </TableCell>
+                      <TableCell>{deposit.bank_reference || "-"}</TableCell>
+                      <TableCell className="max-w-xs truncate">{covered.map(r => r.date).join(", ") || "-"}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(expected)}</TableCell>
+                      <TableCell className={`text-right ${deposit.amount !== expected ? "text-red-600" : ""}`}>
+                        {formatCurrency(deposit.amount)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {canManage(deposit.shop_id) && (
+                          <Button variant="ghost" size="icon" onClick={() => handleDelete(deposit)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="w-[90vw] sm:max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>New Deposit</DialogTitle>
+            <DialogDescription>Tick the cash ups whose cash went onto this deposit slip</DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label>Shop *</Label>
+              <Select value={formData.shop_id} onValueChange={startDeposit}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a shop" />
+                </SelectTrigger>
+                <SelectContent>
+                  {activeShops.map((shop) => (
+                    <SelectItem key={shop.id} value={shop.id}>{shop.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Cash Ups</Label>
+              {pendingFor(formData.shop_id).length === 0 ? (
+                <p className="text-sm text-muted-foreground">All cash of this shop has been deposited.</p>
+              ) : (
+                <div className="space-y-1 rounded-lg border p-3">
+                  {pendingFor(formData.shop_id).map((record) => (
+                    <label key={record.id} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={formData.record_ids.includes(record.id)}
+                        onCheckedChange={(checked) => toggleRecord(record.id, checked === true)}
+                      />
+                      <span className="flex-1">{record.date}</span>
+                      <span>{formatCurrency(cashToBank(record, expenses))}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="depositedOn">Date Deposited *</Label>
+                <Input
+                  id="depositedOn"
+                  type="date"
+                  required
+                  value={formData.deposited_on}
+                  onChange={(e) => setFormData({ ...formData, deposited_on: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="depositAmount">Amount on Slip</Label>
+                <Input
+                  id="depositAmount"
+                  type="number"
+                  step="0.01"
+                  min="0.01"
+                  placeholder={selectedTotal.toFixed(2)}
+                  value={formData.amount}
+                  onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bankReference">Bank Reference</Label>
+              <Input
+                id="bankReference"
+                value={formData.bank_reference}
+                onChange={(e) => setFormData({ ...formData, bank_reference: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="depositNotes">Notes</Label>
+              <Input
+                id="depositNotes"
+                value={formData.notes}
+                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              />
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Ticked cash ups come to {formatCurrency(selectedTotal)}. Leave the amount blank if the slip matches.
+            </p>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit">Record Deposit</Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Deposits;
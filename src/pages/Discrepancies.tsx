@@ -0,0 +1,221 @@
+import { useState } from "react";
+import { ShopId } from "@/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Download } from "lucide-react";
+import { toast } from "sonner";
+import { useShops } from "@/hooks/useShops";
+import { useOrders } from "@/hooks/useOrders";
+import { useOrderLines } from "@/hooks/useOrderLines";
+import { useSuppliers } from "@/hooks/useSuppliers";
+import { useDeliveries } from "@/hooks/useDeliveries";
+import { useDocuments } from "@/hooks/useDocuments";
+import { formatCurrency } from "@/lib/currency";
+import { brandingFor } from "@/lib/documents";
+
+interface DiscrepanciesProps {
+  selectedShop: ShopId;
+}
+
+const Discrepancies = ({ selectedShop }: DiscrepanciesProps) => {
+  const { shops, getShopName, loading: shopsLoading } = useShops();
+  const { orders, loading: ordersLoading } = useOrders();
+  const { orderLines } = useOrderLines();
+  const { suppliers, getSupplier } = useSuppliers();
+  const { deliveries, deliveryLines, loading: deliveriesLoading } = useDeliveries();
+  const { generateDocument, generating } = useDocuments();
+
+  const monthAgo = new Date();
+  monthAgo.setMonth(monthAgo.getMonth() - 1);
+  const [supplierId, setSupplierId] = useState("all");
+  const [fromDate, setFromDate] = useState(monthAgo.toISOString().split('T')[0]);
+  const [toDate, setToDate] = useState(new Date().toISOString().split('T')[0]);
+
+  // One row per delivery line where something was short, damaged or swapped
+  const rows = deliveryLines
+    .filter(dl => dl.quantity_short > 0 || dl.quantity_damaged > 0 || dl.quantity_substituted > 0)
+    .map(dl => {
+      const delivery = deliveries.find(d => d.id === dl.delivery_id);
+      const order = orders.find(o => o.id === delivery?.order_id);
+      const line = orderLines.find(l => l.id === dl.order_line_id);
+      return { dl, delivery, order, line };
+    })
+    .filter(({ delivery, order, line }) => delivery && order && line)
+    .filter(({ delivery, order }) =>
+      (selectedShop === "All" || order.shop_id === selectedShop) &&
+      (supplierId === "all" || (order.supplier_id ?? "none") === supplierId) &&
+      delivery.received_on >= fromDate &&
+      delivery.received_on <= toDate
+    )
+    .sort((a, b) => b.delivery.received_on.localeCompare(a.delivery.received_on));
+
+  // Short and damaged units were paid for on the order but not kept
+  const creditDue = (row: (typeof rows)[number]) =>
+    (row.dl.quantity_short + row.dl.quantity_damaged) * row.line.unit_price;
+
+  const totalCredit = rows.reduce((sum, row) => sum + creditDue(row), 0);
+  const supplierName = (id: string | null) => getSupplier(id)?.name ?? "No supplier";
+
+  const describeIssues = (row: (typeof rows)[number]) => [
+    row.dl.quantity_short > 0 && `${row.dl.quantity_short} short`,
+    row.dl.quantity_damaged > 0 && `${row.dl.quantity_damaged} damaged`,
+    row.dl.quantity_substituted > 0 && `${row.dl.quantity_substituted} substituted with ${row.dl.substitute_description}`,
+  ].filter(Boolean).join(", ");
+
+  const handleDownload = async () => {
+    if (rows.length === 0) {
+      toast.error("There are no discrepancies to download");
+      return;
+    }
+
+    const title = supplierId === "all" ? "All Suppliers" : supplierName(supplierId === "none" ? null : supplierId);
+    const shop = selectedShop === "All" ? undefined : shops.find(s => s.id === selectedShop);
+
+    try {
+      await generateDocument({
+        kind: 'discrepancy_report',
+        title: `Delivery Discrepancies - ${title}`,
+        shopId: shop?.id ?? null,
+        weekStartDate: null,
+        orientation: 'landscape',
+        sections: [{
+          heading: title,
+          details: [`${fromDate} to ${toDate}`],
+          branding: shop && brandingFor(shop),
+          blocks: [{
+            type: 'table',
+            columns: [
+              { label: "Date", width: 10 },
+              { label: "Supplier", width: 15 },
+              { label: "Shop", width: 13 },
+              { label: "Invoice", width: 10 },
+              { label: "Item", width: 18 },
+              { label: "Issue", width: 22 },
+              { label: "Credit Due", width: 12, type: 'currency', total: true },
+            ],
+            rows: rows.map(row => ({
+              cells: [
+                row.delivery.received_on,
+                supplierName(row.order.supplier_id),
+                getShopName(row.order.shop_id),
+                row.delivery.invoice_number || '-',
+                row.line.description,
+                describeIssues(row),
+                creditDue(row),
+              ],
+            })),
+            totalLabel: "Total",
+          }],
+        }],
+      });
+      toast.success("Discrepancy report downloaded and filed under Documents");
+    } catch (error) {
+      toast.error("Failed to generate the discrepancy report");
+    }
+  };
+
+  if (shopsLoading || ordersLoading || deliveriesLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-lg">Loading discrepancies...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight">Delivery Discrepancies</h2>
+          <p className="text-muted-foreground">Short, damaged and substituted items to take up with suppliers</p>
+        </div>
+        <Button variant="outline" onClick={handleDownload} disabled={generating}>
+          <Download className="mr-2 h-4 w-4" />
+          {generating ? "Generating..." : "Download PDF"}
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Supplier</Label>
+              <Select value={supplierId} onValueChange={setSupplierId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All suppliers</SelectItem>
+                  <SelectItem value="none">No supplier</SelectItem>
+                  {suppliers.map((supplier) => (
+                    <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="fromDate">From</Label>
+              <Input id="fromDate" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="toDate">To</Label>
+              <Input id="toDate" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Discrepancies</CardTitle>
+          <CardDescription>
+            {rows.length} items - {formatCurrency(totalCredit)} credit due
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {rows.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No discrepancies recorded for this period.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Supplier</TableHead>
+                  <TableHead>Shop</TableHead>
+                  <TableHead>Invoice</TableHead>
+                  <TableHead>Item</TableHead>
+                  <TableHead>Issue</TableHead>
+                  <TableHead className="text-right">Credit Due</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => (
+                  <TableRow key={row.dl.id}>
+                    <TableCell>{row.delivery.received_on}</TableCell>
+                    <TableCell>{supplierName(row.order.supplier_id)}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{getShopName(row.order.shop_id)}</Badge>
+                    </TableCell>
+                    <TableCell>{row.delivery.invoice_number || "-"}</TableCell>
+                    <TableCell className="font-medium">{row.line.description}</TableCell>
+                    <TableCell>{describeIssues(row)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(creditDue(row))}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Discrepancies;
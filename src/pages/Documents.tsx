@@ -0,0 +1,142 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { ShopId } from "@/types";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Download, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { useShops } from "@/hooks/useShops";
+import { useDocuments, type DocumentRecord } from "@/hooks/useDocuments";
+import { DOCUMENT_KIND_LABELS, type DocumentKind } from "@/lib/documents";
+
+interface DocumentsProps {
+  selectedShop: ShopId;
+}
+
+const Documents = ({ selectedShop }: DocumentsProps) => {
+  const { getShopName } = useShops();
+  const { documents, loading, downloadDocument, deleteDocument } = useDocuments();
+  const [kindFilter, setKindFilter] = useState("All");
+
+  // Documents covering every shop are listed for each shop too
+  const shownDocuments = documents.filter(doc =>
+    (selectedShop === "All" || doc.shop_id === selectedShop || doc.shop_id === null) &&
+    (kindFilter === "All" || doc.kind === kindFilter)
+  );
+
+  const handleDownload = async (doc: DocumentRecord) => {
+    try {
+      await downloadDocument(doc);
+    } catch (error) {
+      toast.error("Failed to download the document");
+    }
+  };
+
+  const handleDelete = async (doc: DocumentRecord) => {
+    if (!confirm(`Delete "${doc.title}" from the archive?`)) return;
+
+    try {
+      await deleteDocument(doc);
+      toast.success("Document deleted");
+    } catch (error) {
+      toast.error("Failed to delete the document");
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-lg">Loading documents...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-3xl font-bold tracking-tight">Documents</h2>
+        <p className="text-muted-foreground">Every PDF downloaded from the app, filed by shop and week</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Archive</CardTitle>
+              <CardDescription>
+                {selectedShop === "All" ? "All shops" : `${getShopName(selectedShop)} and documents covering every shop`}
+              </CardDescription>
+            </div>
+            <div className="space-y-2 w-56">
+              <Label>Type</Label>
+              <Select value={kindFilter} onValueChange={setKindFilter}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="All">All Documents</SelectItem>
+                  {Object.entries(DOCUMENT_KIND_LABELS).map(([kind, label]) => (
+                    <SelectItem key={kind} value={kind}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {shownDocuments.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No documents yet. Delivery lists, order lists and reports appear here once they have been downloaded.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Document</TableHead>
+                  <TableHead>Shop</TableHead>
+                  <TableHead>Week</TableHead>
+                  <TableHead className="text-right">Pages</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {shownDocuments.map((doc) => (
+                  <TableRow key={doc.id}>
+                    <TableCell>
+                      <div className="font-medium">{doc.title}</div>
+                      <Badge variant="outline" className="mt-1">
+                        {DOCUMENT_KIND_LABELS[doc.kind as DocumentKind] ?? doc.kind}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{doc.shop_id ? getShopName(doc.shop_id) : "All Shops"}</TableCell>
+                    <TableCell>{doc.week_start_date ? format(new Date(doc.week_start_date), "dd MMM yyyy") : "-"}</TableCell>
+                    <TableCell className="text-right">{doc.page_count}</TableCell>
+                    <TableCell>{format(new Date(doc.created_at), "dd MMM yyyy HH:mm")}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button variant="outline" size="sm" onClick={() => handleDownload(doc)}>
+                          <Download className="mr-2 h-4 w-4" />
+                          Download
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleDelete(doc)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Documents;
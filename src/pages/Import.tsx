@@ -0,0 +1,406 @@
+import { useMemo, useRef, useState } from "react";
+import { format } from "date-fns";
+import { ShopId } from "@/types";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Undo2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { useShops } from "@/hooks/useShops";
+import { useSuppliers } from "@/hooks/useSuppliers";
+import { useSupplies } from "@/hooks/useSupplies";
+import { useMemberships } from "@/hooks/useMemberships";
+import { useImports, type DataImport, type ImportResult } from "@/hooks/useImports";
+import { parseCsv } from "@/lib/csv";
+import { STANDARD_VAT_RATE } from "@/lib/vat";
+import {
+  IMPORT_FIELDS,
+  IMPORT_TARGET_LABELS,
+  guessMapping,
+  validateImport,
+  type ColumnMapping,
+  type ImportContext,
+  type ImportTarget,
+} from "@/lib/imports";
+
+interface ImportProps {
+  selectedShop: ShopId;
+}
+
+interface LoadedFile {
+  name: string;
+  header: string[];
+  rows: string[][];
+}
+
+// Rows shown in the preview, the rest are still checked and imported
+const PREVIEW_ROWS = 100;
+
+const NOT_IMPORTED = "-1";
+const NO_SHOP = "none";
+
+// Rows can only go to active shops the user manages
+const importableShops = <T extends { id: string; is_active: boolean }>(shops: T[], memberships: { shop_id: string; role: string }[]) =>
+  shops.filter(shop => shop.is_active && memberships.some(m => m.shop_id === shop.id && m.role !== 'cashier'));
+
+const Import = ({ selectedShop }: ImportProps) => {
+  const { shops, loading: shopsLoading } = useShops();
+  const { suppliers, loading: suppliersLoading } = useSuppliers();
+  const { supplies, loading: suppliesLoading } = useSupplies();
+  const { memberships } = useMemberships();
+  const { imports, loading: importsLoading, importing, runImport, rollingBack, rollbackImport } = useImports();
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const [target, setTarget] = useState<ImportTarget>("supplies");
+  const [defaultShop, setDefaultShop] = useState(selectedShop === "All" ? NO_SHOP : selectedShop);
+  const [file, setFile] = useState<LoadedFile | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [skipInvalid, setSkipInvalid] = useState(false);
+  const [errorsOnly, setErrorsOnly] = useState(false);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  const importShops = importableShops(shops, memberships);
+
+  // Checking every row is the slow part, so it only runs again when the
+  // file, the mapping or what it is checked against changes
+  const checkedRows = useMemo(() => {
+    if (!file) return [];
+
+    const allowedShops = importableShops(shops, memberships);
+    const context: ImportContext = {
+      shops: allowedShops,
+      suppliers,
+      supplies,
+      defaultShopId: allowedShops.find(shop => shop.id === defaultShop)?.id ?? null,
+      vatRate: (shopId) => shops.find(shop => shop.id === shopId)?.vat_rate ?? STANDARD_VAT_RATE,
+    };
+    return validateImport(target, file.rows, mapping, context);
+  }, [file, target, mapping, defaultShop, shops, memberships, suppliers, supplies]);
+
+  const fields = IMPORT_FIELDS[target];
+  const mappedFields = fields.filter(field => mapping[field.key] >= 0);
+  const missingFields = fields.filter(field => field.required && !(mapping[field.key] >= 0));
+  const validRows = checkedRows.filter(row => row.values);
+  const invalidCount = checkedRows.length - validRows.length;
+  const shownRows = (errorsOnly ? checkedRows.filter(row => row.errors.length > 0) : checkedRows).slice(0, PREVIEW_ROWS);
+  const canImport = !!file && missingFields.length === 0 && validRows.length > 0 && (invalidCount === 0 || skipInvalid);
+
+  const handleTargetChange = (value: ImportTarget) => {
+    setTarget(value);
+    if (file) setMapping(guessMapping(value, file.header));
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const chosen = e.target.files?.[0];
+    e.target.value = "";
+    if (!chosen) return;
+
+    try {
+      const [header, ...rows] = parseCsv(await chosen.text());
+      if (!header || rows.length === 0) {
+        toast.error("The file has no rows below its header");
+        return;
+      }
+      setFile({ name: chosen.name, header, rows });
+      setMapping(guessMapping(target, header));
+      setResult(null);
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      toast.error(`Failed to read the file: ${error.message}`);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file || !canImport) return;
+
+    const rows = validRows.map(row => row.values);
+    setProgress(0);
+    try {
+      const outcome = await runImport({ target, fileName: file.name, rows, onProgress: setProgress });
+      setResult(outcome);
+      if (outcome.error) {
+        toast.error(`The import stopped after ${outcome.imported} of ${rows.length} rows: ${outcome.error}`);
+      } else {
+        toast.success(`Imported ${outcome.imported} rows into ${IMPORT_TARGET_LABELS[target]}`);
+        setFile(null);
+      }
+    } catch (error) {
+      toast.error(`Failed to import the file: ${error.message}`);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleRollback = async (dataImport: DataImport) => {
+    if (!confirm(`Roll back the import of "${dataImport.file_name}"? All ${dataImport.row_count} rows it added will be deleted.`)) return;
+
+    try {
+      const removed = await rollbackImport(dataImport.id);
+      toast.success(`Rolled back the import, ${removed} rows removed`);
+      if (result?.dataImport.id === dataImport.id) setResult(null);
+    } catch (error) {
+      toast.error(`Failed to roll back the import: ${error.message}`);
+    }
+  };
+
+  if (shopsLoading || suppliersLoading || suppliesLoading || importsLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-lg">Loading imports...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight">Import</h2>
+          <p className="text-muted-foreground">Bring supplies, historic orders and cash ups in from a CSV file</p>
+        </div>
+        <div>
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={handleFile}
+          />
+          <Button variant="outline" onClick={() => fileInput.current?.click()} disabled={importing}>
+            <Upload className="mr-2 h-4 w-4" />
+            {file ? "Choose Another File" : "Choose CSV File"}
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>What to Import</CardTitle>
+          <CardDescription>
+            {file ? `${file.name}: ${file.rows.length} rows, ${file.header.length} columns` : "Choose a CSV file with a header row"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Import Into</Label>
+              <Select value={target} onValueChange={(value) => handleTargetChange(value as ImportTarget)} disabled={importing}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(IMPORT_TARGET_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Shop for Rows Without One</Label>
+              <Select value={defaultShop} onValueChange={setDefaultShop} disabled={importing}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_SHOP}>None, every row names its shop</SelectItem>
+                  {importShops.map((shop) => (
+                    <SelectItem key={shop.id} value={shop.id}>{shop.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {file && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Columns</CardTitle>
+            <CardDescription>
+              {missingFields.length > 0
+                ? `Choose a column for ${missingFields.map(field => field.label).join(", ")}`
+                : "Each field is read from the column chosen for it"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid gap-4 md:grid-cols-3">
+              {fields.map((field) => (
+                <div key={field.key} className="space-y-2">
+                  <Label>
+                    {field.label}
+                    {field.required && " *"}
+                  </Label>
+                  <Select
+                    value={String(mapping[field.key] ?? -1)}
+                    onValueChange={(value) => setMapping({ ...mapping, [field.key]: Number(value) })}
+                    disabled={importing}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_IMPORTED}>Not imported</SelectItem>
+                      {file.header.map((name, index) => (
+                        <SelectItem key={index} value={String(index)}>{name.trim() || `Column ${index + 1}`}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {file && missingFields.length === 0 && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle>Preview</CardTitle>
+                <CardDescription>
+                  {validRows.length} rows ready to import
+                  {invalidCount > 0 && `, ${invalidCount} with errors`}
+                </CardDescription>
+              </div>
+              <div className="flex items-center gap-6">
+                <div className="flex items-center gap-2">
+                  <Checkbox id="errors-only" checked={errorsOnly} onCheckedChange={(checked) => setErrorsOnly(checked === true)} />
+                  <Label htmlFor="errors-only">Only rows with errors</Label>
+                </div>
+                {invalidCount > 0 && (
+                  <div className="flex items-center gap-2">
+                    <Checkbox id="skip-invalid" checked={skipInvalid} onCheckedChange={(checked) => setSkipInvalid(checked === true)} />
+                    <Label htmlFor="skip-invalid">Skip rows with errors</Label>
+                  </div>
+                )}
+                <Button onClick={handleImport} disabled={!canImport || importing}>
+                  {importing ? "Importing..." : `Import ${validRows.length} Rows`}
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {progress !== null && (
+              <div className="space-y-2">
+                <Progress value={(progress / validRows.length) * 100} />
+                <div className="text-sm text-muted-foreground">{progress} of {validRows.length} rows imported</div>
+              </div>
+            )}
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Row</TableHead>
+                  {mappedFields.map((field) => (
+                    <TableHead key={field.key}>{field.label}</TableHead>
+                  ))}
+                  <TableHead>Errors</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {shownRows.map((row) => (
+                  <TableRow key={row.line} className={row.errors.length > 0 ? "bg-destructive/10" : undefined}>
+                    <TableCell>{row.line}</TableCell>
+                    {mappedFields.map((field) => (
+                      <TableCell key={field.key}>{row.cells[mapping[field.key]] ?? ""}</TableCell>
+                    ))}
+                    <TableCell>
+                      {row.errors.length > 0 ? (
+                        <ul className="text-sm text-destructive">
+                          {row.errors.map((error) => (
+                            <li key={error}>{error}</li>
+                          ))}
+                        </ul>
+                      ) : (
+                        <Badge variant="outline">OK</Badge>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {(errorsOnly ? invalidCount : checkedRows.length) > PREVIEW_ROWS && (
+              <div className="text-sm text-muted-foreground">
+                Showing the first {PREVIEW_ROWS} rows, every row is checked before importing.
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {result?.error && (
+        <Card className="border-destructive">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle>Import Stopped</CardTitle>
+                <CardDescription>
+                  {result.imported} rows were imported before a batch failed: {result.error}
+                </CardDescription>
+              </div>
+              <Button variant="outline" onClick={() => handleRollback(result.dataImport)} disabled={rollingBack || result.imported === 0}>
+                <Undo2 className="mr-2 h-4 w-4" />
+                Roll Back Import
+              </Button>
+            </div>
+          </CardHeader>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Past Imports</CardTitle>
+          <CardDescription>An import can be rolled back as a whole, which deletes every row it added</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {imports.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">No imports yet.</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>File</TableHead>
+                  <TableHead>Imported Into</TableHead>
+                  <TableHead className="text-right">Rows</TableHead>
+                  <TableHead>Imported</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {imports.map((dataImport) => (
+                  <TableRow key={dataImport.id}>
+                    <TableCell className="font-medium">{dataImport.file_name}</TableCell>
+                    <TableCell>{IMPORT_TARGET_LABELS[dataImport.target as ImportTarget] ?? dataImport.target}</TableCell>
+                    <TableCell className="text-right">{dataImport.row_count}</TableCell>
+                    <TableCell>{format(new Date(dataImport.created_at), "dd MMM yyyy HH:mm")}</TableCell>
+                    <TableCell className="text-right">
+                      {dataImport.rolled_back_at ? (
+                        <Badge variant="secondary">
+                          Rolled back {format(new Date(dataImport.rolled_back_at), "dd MMM yyyy")}
+                        </Badge>
+                      ) : (
+                        <Button variant="outline" size="sm" onClick={() => handleRollback(dataImport)} disabled={rollingBack}>
+                          <Undo2 className="mr-2 h-4 w-4" />
+                          Roll Back
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Import;
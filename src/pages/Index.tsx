@@ -1,17 +1,17 @@
 import { useState } from "react";
-import { Shop } from "@/types";
+import { ShopId } from "@/types";
 import Header from "@/components/layout/Header";
 import Sidebar from "@/components/layout/Sidebar";
 import Dashboard from "./Dashboard";
 
 const Index = () => {
-  const [selectedShop, setSelectedShop] = useState<Shop>("All");
+  const [selectedShop, setSelectedShop] = useState<ShopId>("All");
 
   return (
     <div className="min-h-screen bg-background">
       <Header selectedShop={selectedShop} onShopChange={setSelectedShop} />
       <div className="flex">
-        <Sidebar />
+        <Sidebar selectedShop={selectedShop} />
         <main className="flex-1 p-6">
           <Dashboard selectedShop={selectedShop} />
         </main>
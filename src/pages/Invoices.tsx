@@ -0,0 +1,431 @@
+import { useState } from "react";
+import { ShopId } from "@/types";
+import { formatCurrency } from "@/lib/currency";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Pencil, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { useShops } from "@/hooks/useShops";
+import { useOrders } from "@/hooks/useOrders";
+import { useSuppliers } from "@/hooks/useSuppliers";
+import { useDeliveries } from "@/hooks/useDeliveries";
+import { useSupplierInvoices, type SupplierInvoiceRecord } from "@/hooks/useSupplierInvoices";
+import { MATCH_LABELS, needsAttention, type MatchStatus } from "@/lib/invoiceMatching";
+import { HistoryDrawer } from "@/components/audit/HistoryDrawer";
+
+interface InvoicesProps {
+  selectedShop: ShopId;
+}
+
+const addDays = (date: string, days: number) => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result.toISOString().split('T')[0];
+};
+
+const matchBadgeVariant = (status: MatchStatus) =>
+  status === "over_received" || status === "over_ordered" ? "destructive" : status === "matched" ? "default" : "secondary";
+
+const Invoices = ({ selectedShop }: InvoicesProps) => {
+  const { shops, activeShops, getShopName, loading: shopsLoading } = useShops();
+  const { orders, loading: ordersLoading } = useOrders();
+  const { suppliers, getSupplier } = useSuppliers();
+  const { deliveries } = useDeliveries();
+  const { invoices, orderIdsForInvoice, matchFor, loading: invoicesLoading, createInvoice, updateInvoice, deleteInvoice } = useSupplierInvoices();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingInvoice, setEditingInvoice] = useState<SupplierInvoiceRecord | null>(null);
+
+  const today = new Date().toISOString().split('T')[0];
+  const emptyForm = {
+    supplier_id: "",
+    shop_id: activeShops[0]?.id || "",
+    invoice_number: "",
+    invoice_date: today,
+    due_date: today,
+    total: 0,
+    vat_amount: 0,
+    notes: "",
+    order_ids: [] as string[],
+  };
+  const [formData, setFormData] = useState(emptyForm);
+
+  const shopInvoices = selectedShop === "All" ? invoices : invoices.filter(i => i.shop_id === selectedShop);
+  const shopOptions = shops.filter(shop => shop.is_active || shop.id === formData.shop_id);
+
+  // Orders the invoice can bill for: the shop's orders from the same
+  // supplier, plus any already linked
+  const orderOptions = orders
+    .filter(o =>
+      formData.order_ids.includes(o.id) ||
+      (o.shop_id === formData.shop_id && (!formData.supplier_id || o.supplier_id === formData.supplier_id))
+    )
+    .slice(0, 50);
+
+  // Deliveries that were booked in against this invoice number
+  const invoiceNumber = formData.invoice_number.trim().toLowerCase();
+  const deliveredOnInvoice = (orderId: string) => !!invoiceNumber && deliveries.some(d =>
+    d.order_id === orderId && d.invoice_number?.trim().toLowerCase() === invoiceNumber
+  );
+
+  // Due date follows the supplier's payment terms until it is changed by hand
+  const dueDateFor = (supplierId: string, invoiceDate: string) =>
+    addDays(invoiceDate, getSupplier(supplierId || null)?.payment_terms_days ?? 0);
+
+  const toggleOrder = (orderId: string) => {
+    setFormData({
+      ...formData,
+      order_ids: formData.order_ids.includes(orderId)
+        ? formData.order_ids.filter(id => id !== orderId)
+        : [...formData.order_ids, orderId],
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const duplicate = invoices.some(i =>
+      i.id !== editingInvoice?.id &&
+      i.supplier_id === (formData.supplier_id || null) &&
+      i.invoice_number.trim().toLowerCase() === invoiceNumber
+    );
+    if (duplicate) {
+      toast.error(`Invoice ${formData.invoice_number} has already been captured for this supplier`);
+      return;
+    }
+    if (formData.vat_amount > formData.total) {
+      toast.error("VAT cannot be more than the invoice total");
+      return;
+    }
+
+    const values = {
+      supplier_id: formData.supplier_id || null,
+      shop_id: formData.shop_id,
+      invoice_number: formData.invoice_number.trim(),
+      invoice_date: formData.invoice_date,
+      due_date: formData.due_date || null,
+      total: formData.total,
+      vat_amount: formData.vat_amount,
+      notes: formData.notes.trim() || null,
+    };
+
+    try {
+      if (editingInvoice) {
+        await updateInvoice(editingInvoice.id, values, formData.order_ids);
+        toast.success("Invoice updated successfully");
+      } else {
+        await createInvoice(values, formData.order_ids);
+        toast.success("Invoice captured successfully");
+      }
+      setIsDialogOpen(false);
+      resetForm();
+    } catch (error) {
+      console.error('Error saving invoice:', error);
+      toast.error(`Failed to save invoice: ${error.message}`);
+    }
+  };
+
+  const handleEdit = (invoice: SupplierInvoiceRecord) => {
+    setEditingInvoice(invoice);
+    setFormData({
+      supplier_id: invoice.supplier_id || "",
+      shop_id: invoice.shop_id,
+      invoice_number: invoice.invoice_number,
+      invoice_date: invoice.invoice_date,
+      due_date: invoice.due_date || "",
+      total: invoice.total,
+      vat_amount: invoice.vat_amount,
+      notes: invoice.notes || "",
+      order_ids: orderIdsForInvoice(invoice.id),
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleDelete = async (invoice: SupplierInvoiceRecord) => {
+    if (!confirm(`Delete invoice ${invoice.invoice_number}?`)) return;
+
+    try {
+      await deleteInvoice(invoice.id);
+      toast.success("Invoice deleted");
+    } catch (error) {
+      console.error('Error deleting invoice:', error);
+      toast.error(`Failed to delete invoice: ${error.message}`);
+    }
+  };
+
+  const resetForm = () => {
+    setEditingInvoice(null);
+    setFormData(emptyForm);
+  };
+
+  if (shopsLoading || ordersLoading || invoicesLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-lg">Loading invoices...</div>
+      </div>
+    );
+  }
+
+  const flagged = shopInvoices.filter(i => needsAttention(matchFor(i, orders)));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight">Supplier Invoices</h2>
+          <p className="text-muted-foreground">Invoices checked against what was ordered and delivered</p>
+        </div>
+        <Dialog open={isDialogOpen} onOpenChange={(open) => {
+          setIsDialogOpen(open);
+          // Shops may still have been loading when the page first rendered
+          if (open && !editingInvoice) setFormData(emptyForm);
+          if (!open) resetForm();
+        }}>
+          <DialogTrigger asChild>
+            <Button>
+              <Plus className="mr-2 h-4 w-4" />
+              Capture Invoice
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{editingInvoice ? "Edit Invoice" : "Capture Invoice"}</DialogTitle>
+              <DialogDescription>Link the invoice to the orders it bills for</DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="invoiceSupplier">Supplier</Label>
+                  <Select
+                    value={formData.supplier_id || "none"}
+                    onValueChange={(value) => {
+                      const supplierId = value === "none" ? "" : value;
+                      setFormData({ ...formData, supplier_id: supplierId, due_date: dueDateFor(supplierId, formData.invoice_date) });
+                    }}
+                  >
+                    <SelectTrigger id="invoiceSupplier">
+                      <SelectValue placeholder="Select a supplier" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No supplier</SelectItem>
+                      {suppliers.map((supplier) => (
+                        <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Shop *</Label>
+                  <Select value={formData.shop_id} onValueChange={(value) => setFormData({ ...formData, shop_id: value })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a shop" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {shopOptions.map((shop) => (
+                        <SelectItem key={shop.id} value={shop.id}>{shop.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="invoiceNumber">Invoice Number *</Label>
+                  <Input
+                    id="invoiceNumber"
+                    required
+                    value={formData.invoice_number}
+                    onChange={(e) => setFormData({ ...formData, invoice_number: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="invoiceDate">Invoice Date *</Label>
+                  <Input
+                    id="invoiceDate"
+                    type="date"
+                    required
+                    value={formData.invoice_date}
+                    onChange={(e) => setFormData({
+                      ...formData,
+                      invoice_date: e.target.value,
+                      due_date: dueDateFor(formData.supplier_id, e.target.value),
+                    })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="invoiceTotal">Total incl. VAT *</Label>
+                  <Input
+                    id="invoiceTotal"
+                    type="number"
+                    required
+                    min="0"
+                    step="0.01"
+                    value={formData.total}
+                    onChange={(e) => setFormData({ ...formData, total: parseFloat(e.target.value) || 0 })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="invoiceVat">VAT</Label>
+                  <Input
+                    id="invoiceVat"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={formData.vat_amount}
+                    onChange={(e) => setFormData({ ...formData, vat_amount: parseFloat(e.target.value) || 0 })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="invoiceDue">Due Date</Label>
+                  <Input
+                    id="invoiceDue"
+                    type="date"
+                    value={formData.due_date}
+                    onChange={(e) => setFormData({ ...formData, due_date: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Orders on this Invoice</Label>
+                {orderOptions.length === 0 ? (
+                  <div className="p-4 border rounded-md text-sm text-muted-foreground text-center">
+                    No orders from this supplier for the shop
+                  </div>
+                ) : (
+                  <div className="border rounded-md max-h-56 overflow-y-auto divide-y">
+                    {orderOptions.map((order) => (
+                      <label key={order.id} className="flex items-center gap-3 p-2 text-sm cursor-pointer">
+                        <Checkbox
+                          checked={formData.order_ids.includes(order.id)}
+                          onCheckedChange={() => toggleOrder(order.id)}
+                        />
+                        <span className="flex-1">
+                          {order.order_date} - {order.supply_name}
+                          {deliveredOnInvoice(order.id) && (
+                            <Badge variant="outline" className="ml-2">Delivered on this invoice</Badge>
+                          )}
+                        </span>
+                        <span className="text-muted-foreground">
+                          {formatCurrency(order.amount_delivered)} of {formatCurrency(order.order_amount)} delivered
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="invoiceNotes">Notes</Label>
+                <Textarea
+                  id="invoiceNotes"
+                  rows={2}
+                  value={formData.notes}
+                  onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                />
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit">{editingInvoice ? "Update" : "Capture"} Invoice</Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {flagged.length > 0 && (
+        <Card className="border-red-500 bg-red-50 dark:bg-red-950">
+          <CardHeader>
+            <CardTitle className="text-red-700 dark:text-red-300">
+              {flagged.length} invoice{flagged.length !== 1 ? "s" : ""} billed for more than was delivered
+            </CardTitle>
+            <CardDescription className="text-red-600 dark:text-red-400">
+              Query these with the supplier before paying them
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Invoices</CardTitle>
+          <CardDescription>
+            {selectedShop === "All" ? "All shops" : getShopName(selectedShop)} - {shopInvoices.length} invoices
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {shopInvoices.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No invoices captured yet. Click "Capture Invoice" to add one.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Invoice</TableHead>
+                  <TableHead>Supplier</TableHead>
+                  <TableHead>Shop</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Due</TableHead>
+                  <TableHead className="text-right">Ordered</TableHead>
+                  <TableHead className="text-right">Received</TableHead>
+                  <TableHead className="text-right">Invoiced</TableHead>
+                  <TableHead>Match</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {shopInvoices.map((invoice) => {
+                  const match = matchFor(invoice, orders);
+                  return (
+                    <TableRow key={invoice.id}>
+                      <TableCell className="font-medium">{invoice.invoice_number}</TableCell>
+                      <TableCell>{getSupplier(invoice.supplier_id)?.name ?? "-"}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{getShopName(invoice.shop_id)}</Badge>
+                      </TableCell>
+                      <TableCell>{invoice.invoice_date}</TableCell>
+                      <TableCell>{invoice.due_date || "-"}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(match.ordered)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(match.received)}</TableCell>
+                      <TableCell className="text-right">
+                        {formatCurrency(invoice.total)}
+                        {match.invoiced !== invoice.total && (
+                          <div className="text-xs text-muted-foreground">{formatCurrency(match.invoiced)} across invoices</div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={matchBadgeVariant(match.status)}>{MATCH_LABELS[match.status]}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-1">
+                          <Button variant="ghost" size="icon" onClick={() => handleEdit(invoice)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <HistoryDrawer table="supplier_invoices" recordId={invoice.id} title={`Invoice ${invoice.invoice_number}`} />
+                          <Button variant="ghost" size="icon" onClick={() => handleDelete(invoice)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Invoices;
@@ -0,0 +1,161 @@
+import { useState } from "react";
+import { Navigate, useLocation, useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Store } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/hooks/useAuth";
+
+const Login = () => {
+  const { session, loading, signIn, signUp } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const from = (location.state as { from?: { pathname: string } } | null)?.from?.pathname || "/";
+
+  const [submitting, setSubmitting] = useState(false);
+  const [formData, setFormData] = useState({
+    fullName: "",
+    email: "",
+    password: "",
+  });
+
+  if (!loading && session) {
+    return <Navigate to={from} replace />;
+  }
+
+  const handleSignIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSubmitting(true);
+      await signIn(formData.email.trim(), formData.password);
+      navigate(from, { replace: true });
+    } catch (error) {
+      console.error("Error signing in:", error);
+      toast.error(error.message || "Failed to sign in");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleSignUp = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSubmitting(true);
+      const newSession = await signUp(formData.email.trim(), formData.password, formData.fullName.trim());
+      if (newSession) {
+        toast.success("Account created");
+        navigate(from, { replace: true });
+      } else {
+        toast.success("Check your email to confirm your account");
+      }
+    } catch (error) {
+      console.error("Error signing up:", error);
+      toast.error(error.message || "Failed to create account");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-2 flex h-10 w-10 items-center justify-center rounded-lg bg-primary">
+            <Store className="h-6 w-6 text-primary-foreground" />
+          </div>
+          <CardTitle>Supply Manager</CardTitle>
+          <CardDescription>Sign in to manage your shops</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="sign-in">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="sign-in">Sign In</TabsTrigger>
+              <TabsTrigger value="sign-up">Create Account</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="sign-in">
+              <form onSubmit={handleSignIn} className="space-y-4 pt-2">
+                <div className="space-y-2">
+                  <Label htmlFor="signInEmail">Email *</Label>
+                  <Input
+                    id="signInEmail"
+                    type="email"
+                    required
+                    autoComplete="email"
+                    value={formData.email}
+                    onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="signInPassword">Password *</Label>
+                  <Input
+                    id="signInPassword"
+                    type="password"
+                    required
+                    autoComplete="current-password"
+                    value={formData.password}
+                    onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+                  />
+                </div>
+                <Button type="submit" className="w-full" disabled={submitting}>
+                  {submitting ? "Signing in..." : "Sign In"}
+                </Button>
+              </form>
+            </TabsContent>
+
+            <TabsContent value="sign-up">
+              <form onSubmit={handleSignUp} className="space-y-4 pt-2">
+                <div className="space-y-2">
+                  <Label htmlFor="signUpName">Full Name *</Label>
+                  <Input
+                    id="signUpName"
+                    required
+                    autoComplete="name"
+                    value={formData.fullName}
+                    onChange={(e) => setFormData({ ...formData, fullName: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="signUpEmail">Email *</Label>
+                  <Input
+                    id="signUpEmail"
+                    type="email"
+                    required
+                    autoComplete="email"
+                    value={formData.email}
+                    onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="signUpPassword">Password *</Label>
+                  <Input
+                    id="signUpPassword"
+                    type="password"
+                    required
+                    minLength={6}
+                    autoComplete="new-password"
+                    value={formData.password}
+                    onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+                  />
+                </div>
+                <Button type="submit" className="w-full" disabled={submitting}>
+                  {submitting ? "Creating account..." : "Create Account"}
+                </Button>
+                <p className="text-xs text-muted-foreground text-center">
+                  A shop owner needs to add you to their shop before you can see its data.
+                </p>
+              </form>
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Login;
@@ -1,15 +1,60 @@
-import { useState } from "react";
-import { Outlet } from "react-router-dom";
-import { Shop } from "@/types";
+import { useEffect, useState } from "react";
+import { Navigate, Outlet, matchPath, useLocation } from "react-router-dom";
+import { ShopId } from "@/types";
 import Header from "@/components/layout/Header";
 import Sidebar from "@/components/layout/Sidebar";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
 import { Menu } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Card, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useAuth } from "@/hooks/useAuth";
+import { useMemberships } from "@/hooks/useMemberships";
+
+// Pages a cashier may open; everything else needs a manager role in the shop
+const CASHIER_ROUTES = ["/cash-up", "/deposits"];
+
+// Pages for running the business itself, only shop owners get these
+const OWNER_ROUTES = ["/team", "/shop-settings"];
 
 const MainLayout = () => {
-  const [selectedShop, setSelectedShop] = useState<Shop>("All");
+  const [selectedShop, setSelectedShop] = useState<ShopId>("All");
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
+  const location = useLocation();
+  const { session, user, loading: authLoading } = useAuth();
+  const { memberships, loading: membershipsLoading, canManage, isOwner } = useMemberships();
+
+  const managesAnyShop = canManage("All");
+
+  // Cashiers have no combined view, so pin them to one of their shops
+  useEffect(() => {
+    if (selectedShop === "All" && memberships.length > 0 && !managesAnyShop) {
+      setSelectedShop(memberships[0].shop_id);
+    }
+  }, [memberships, managesAnyShop, selectedShop]);
+
+  if (authLoading || membershipsLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-lg">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return <Navigate to="/login" state={{ from: location }} replace />;
+  }
+
+  // Shop dashboards are guarded by the shop in the URL, other pages by the
+  // shop picked in the header
+  const routeShop = matchPath("/shop/:shopId", location.pathname)?.params.shopId;
+  const shopInView = routeShop ?? selectedShop;
+  const allowed = OWNER_ROUTES.includes(location.pathname)
+    ? isOwner
+    : canManage(shopInView) || CASHIER_ROUTES.includes(location.pathname);
+
+  if (memberships.length > 0 && !allowed) {
+    return <Navigate to={canManage(selectedShop) ? "/" : "/cash-up"} replace />;
+  }
 
   return (
     <div className="min-h-screen bg-background">
@@ -24,18 +69,29 @@ const MainLayout = () => {
               </Button>
             </SheetTrigger>
             <SheetContent side="left" className="p-0 w-64">
-              <Sidebar onNavigate={() => setMobileMenuOpen(false)} />
+              <Sidebar selectedShop={selectedShop} onNavigate={() => setMobileMenuOpen(false)} />
             </SheetContent>
           </Sheet>
         </div>
 
         {/* Desktop Sidebar */}
         <aside className="hidden md:block">
-          <Sidebar />
+          <Sidebar selectedShop={selectedShop} />
         </aside>
 
         <main className="flex-1 p-4 md:p-6 w-full overflow-x-auto">
-          <Outlet context={{ selectedShop }} />
+          {memberships.length === 0 ? (
+            <Card className="max-w-lg mx-auto mt-12">
+              <CardHeader>
+                <CardTitle>No shops yet</CardTitle>
+                <CardDescription>
+                  Ask a shop owner to add {user?.email} to their shop, or add your own shop from the header.
+                </CardDescription>
+              </CardHeader>
+            </Card>
+          ) : (
+            <Outlet context={{ selectedShop }} />
+          )}
         </main>
       </div>
     </div>
@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { Shop, OrderStatus } from "@/types";
+import { ShopId } from "@/types";
 import { formatCurrency } from "@/lib/currency";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -10,52 +10,76 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { Textarea } from "@/components/ui/textarea";
-import { Plus, Pencil, Trash2, Calendar, Edit, Printer } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { Plus, Pencil, Trash2, Calendar, Edit, Download, PackageCheck } from "lucide-react";
 import { toast } from "sonner";
-import { supabase } from "@/integrations/supabase/client";
-import type { Tables } from "@/integrations/supabase/types";
+import { useOrders, type OrderRecord as Order } from "@/hooks/useOrders";
+import { useSupplies } from "@/hooks/useSupplies";
+import { useShops } from "@/hooks/useShops";
+import { useSuppliers } from "@/hooks/useSuppliers";
+import { useOrderLines, type OrderLineDraft } from "@/hooks/useOrderLines";
+import { useSupplierInvoices } from "@/hooks/useSupplierInvoices";
+import { useDocuments } from "@/hooks/useDocuments";
+import { brandingFor, deliveryListSection, type DeliveryListEntry } from "@/lib/documents";
+import { lineTotal, rollUpOrderLines } from "@/lib/orderLines";
+import { exclusiveOf, inclusiveOf, orderLinesVat, vatRateLabel, vatRateOptions } from "@/lib/vat";
+import { useWeeklyBudgets, type WeeklyBudgetRecord as WeeklyBudget } from "@/hooks/useWeeklyBudgets";
 import { WeeklyBudgetCard } from "@/components/orders/WeeklyBudgetCard";
 import { WeeklyBudgetReport } from "@/components/orders/WeeklyBudgetReport";
+import { ReceiveDeliveryDialog } from "@/components/orders/ReceiveDeliveryDialog";
+import { HistoryDrawer } from "@/components/audit/HistoryDrawer";
+import { ExportMenu } from "@/components/export/ExportMenu";
+import { exportSheets, toSheet, type ExportColumn, type ExportFormat } from "@/lib/export";
 
 interface OrdersProps {
-  selectedShop: Shop;
+  selectedShop: ShopId;
 }
 
-type Order = Tables<'orders'>;
-type Supply = Tables<'supplies'>;
-type WeeklyBudget = Tables<'weekly_budgets'>;
-
 const Orders = ({ selectedShop }: OrdersProps) => {
-  const [orders, setOrders] = useState<Order[]>([]);
-  const [supplies, setSupplies] = useState<Supply[]>([]);
-  const [shops, setShops] = useState<string[]>([]);
-  const [weeklyBudgets, setWeeklyBudgets] = useState<WeeklyBudget[]>([]);
+  const { orders, loading: ordersLoading, createOrder, updateOrder, deleteOrder } = useOrders();
+  const { supplies, loading: suppliesLoading } = useSupplies();
+  const { shops, activeShops, getShopName, getVatRate, loading: shopsLoading } = useShops();
+  const { suppliers, getSupplier } = useSuppliers();
+  const { linesForOrder, loading: linesLoading, saveOrderLines } = useOrderLines();
+  const { invoicesForOrder } = useSupplierInvoices();
+  const { generateDocument, generating } = useDocuments();
+  const { weeklyBudgets, loading: budgetsLoading, createWeeklyBudget, updateWeeklyBudget } = useWeeklyBudgets();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [isWeekSelectOpen, setIsWeekSelectOpen] = useState(false);
   const [isBudgetEditOpen, setIsBudgetEditOpen] = useState(false);
   const [editingOrder, setEditingOrder] = useState<Order | null>(null);
+  const [receivingOrder, setReceivingOrder] = useState<Order | null>(null);
   const [editingBudget, setEditingBudget] = useState<WeeklyBudget | null>(null);
-  const [loading, setLoading] = useState(true);
   const [selectedWeek, setSelectedWeek] = useState<string>("");
   
   const today = new Date().toISOString().split('T')[0];
   
   const [formData, setFormData] = useState({
-    supply_id: "",
+    supplier_id: "",
     order_date: today,
+    expected_delivery_date: "",
     ordered_by: "",
     contact_person: "",
-    order_amount: 0,
-    amount_delivered: 0,
     delivery_date: "",
-    shop: "",
+    shop_id: "",
     notes: "",
   });
 
+  const emptyLine: OrderLineDraft = {
+    supply_id: null, description: "", unit: "each", quantity: 1, unit_price: 0, vat_rate: getVatRate(formData.shop_id), quantity_delivered: 0,
+  };
+  const [lineDrafts, setLineDrafts] = useState<OrderLineDraft[]>([emptyLine]);
+  // Prices can be typed in without VAT; they are stored with it like every other amount
+  const [pricesExcludeVat, setPricesExcludeVat] = useState(false);
+  const savedLines = pricesExcludeVat
+    ? lineDrafts.map(line => ({ ...line, unit_price: inclusiveOf(line.unit_price, line.vat_rate) }))
+    : lineDrafts;
+  const draftTotals = rollUpOrderLines(savedLines);
+
   const [budgetFormData, setBudgetFormData] = useState({
     budget_amount: 0,
     week_start_date: "",
-    shop: "",
+    shop_id: "",
   });
 
   // Function to get Monday of the current week
@@ -96,42 +120,18 @@ const Orders = ({ selectedShop }: OrdersProps) => {
     }
   }, []);
 
-  const fetchData = async () => {
-    try {
-      setLoading(true);
-      
-      const [ordersResponse, suppliesResponse, budgetsResponse] = await Promise.all([
-        supabase.from('orders').select('*').order('created_at', { ascending: false }),
-        supabase.from('supplies').select('*'),
-        supabase.from('weekly_budgets').select('*')
-      ]);
-
-      if (ordersResponse.error) throw ordersResponse.error;
-      if (suppliesResponse.error) throw suppliesResponse.error;
-      if (budgetsResponse.error) throw budgetsResponse.error;
-
-      setOrders(ordersResponse.data || []);
-      setSupplies(suppliesResponse.data || []);
-      setWeeklyBudgets(budgetsResponse.data || []);
-
-      const uniqueShops = [...new Set(suppliesResponse.data?.map(s => s.shop).filter(Boolean) || [])];
-      setShops(uniqueShops);
-      
-      if (uniqueShops.length > 0 && !formData.shop) {
-        setFormData(prev => ({ ...prev, shop: uniqueShops[0] }));
-      }
+  const loading = ordersLoading || suppliesLoading || budgetsLoading || shopsLoading || linesLoading;
+  const shopIds = shops.map(shop => shop.id);
 
-    } catch (error: any) {
-      console.error('Error fetching data:', error);
-      toast.error(`Failed to load data: ${error.message}`);
-    } finally {
-      setLoading(false);
+  // Default the order form to the first active shop once shops have loaded
+  useEffect(() => {
+    if (activeShops.length > 0 && !formData.shop_id) {
+      setFormData(prev => ({ ...prev, shop_id: activeShops[0].id }));
     }
-  };
+  }, [activeShops.length]);
 
-  useEffect(() => {
-    fetchData();
-  }, []);
+  // Archived shops only show up when editing an order that is already in one
+  const shopOptions = shops.filter(shop => shop.is_active || shop.id === formData.shop_id);
 
   // Get current week's Monday date from selected week string
   const getCurrentWeekMonday = () => {
@@ -150,7 +150,7 @@ const Orders = ({ selectedShop }: OrdersProps) => {
   };
 
   // Filter orders based on selected shop AND selected week - INCLUDING last week orders delivered this week
-  const filteredOrders = (selectedShop === "All" ? orders : orders.filter(o => o.shop === selectedShop))
+  const filteredOrders = (selectedShop === "All" ? orders : orders.filter(o => o.shop_id === selectedShop))
     .filter(order => {
       if (!selectedWeek) return true;
       
@@ -186,7 +186,7 @@ const Orders = ({ selectedShop }: OrdersProps) => {
     } else {
       weekOrders = orders.filter(order => {
         const orderDate = new Date(order.order_date);
-        return order.shop === selectedShop && 
+        return order.shop_id === selectedShop && 
                orderDate >= weekMonday && 
                orderDate <= weekSunday;
       });
@@ -204,7 +204,7 @@ const Orders = ({ selectedShop }: OrdersProps) => {
       return shopBudgets.reduce((total, budget) => total + (budget.budget_amount || 0), 0);
     } else {
       const budget = weeklyBudgets.find(
-        b => b.shop === selectedShop && b.week_start_date === weekMonday
+        b => b.shop_id === selectedShop && b.week_start_date === weekMonday
       );
       return budget?.budget_amount || 0;
     }
@@ -219,7 +219,7 @@ const Orders = ({ selectedShop }: OrdersProps) => {
       return shopBudgets.reduce((total, budget) => total + (budget.budget_amount || 0), 0);
     } else {
       const budget = weeklyBudgets.find(
-        b => b.shop === selectedShop && b.week_start_date === lastWeekMonday
+        b => b.shop_id === selectedShop && b.week_start_date === lastWeekMonday
       );
       return budget?.budget_amount || 0;
     }
@@ -231,13 +231,13 @@ const Orders = ({ selectedShop }: OrdersProps) => {
   const budgetDifference = currentWeekBudget - currentWeekSpending;
 
   // Get delivered orders for the current week for each shop - INCLUDING last week orders delivered this week
-  const getWeeklyDeliveredOrders = (shopName: string) => {
+  const getWeeklyDeliveredOrders = (shopId: string) => {
     const weekMonday = new Date(getCurrentWeekMonday());
     const weekSunday = getSunday(weekMonday);
     
     return orders.filter(order => {
       const deliveryDate = order.delivery_date ? new Date(order.delivery_date) : null;
-      const shopMatches = shopName === "All" || order.shop === shopName;
+      const shopMatches = shopId === "All" || order.shop_id === shopId;
       
       return shopMatches && 
              order.status === "Delivered" &&
@@ -248,7 +248,7 @@ const Orders = ({ selectedShop }: OrdersProps) => {
   };
 
   // Get last week orders delivered this week
-  const getLastWeekOrdersDeliveredThisWeek = (shopName: string) => {
+  const getLastWeekOrdersDeliveredThisWeek = (shopId: string) => {
     const weekMonday = new Date(getCurrentWeekMonday());
     const weekSunday = getSunday(weekMonday);
     const lastWeekMonday = new Date(weekMonday);
@@ -258,7 +258,7 @@ const Orders = ({ selectedShop }: OrdersProps) => {
     return orders.filter(order => {
       const orderDate = new Date(order.order_date);
       const deliveryDate = order.delivery_date ? new Date(order.delivery_date) : null;
-      const shopMatches = shopName === "All" || order.shop === shopName;
+      const shopMatches = shopId === "All" || order.shop_id === shopId;
       
       return shopMatches &&
              orderDate >= lastWeekMonday && 
@@ -271,7 +271,7 @@ const Orders = ({ selectedShop }: OrdersProps) => {
   };
 
   // Get last week orders that were not delivered
-  const getLastWeekUndeliveredOrders = (shopName: string) => {
+  const getLastWeekUndeliveredOrders = (shopId: string) => {
     const weekMonday = new Date(getCurrentWeekMonday());
     const lastWeekMonday = new Date(weekMonday);
     lastWeekMonday.setDate(weekMonday.getDate() - 7);
@@ -279,7 +279,7 @@ const Orders = ({ selectedShop }: OrdersProps) => {
     
     return orders.filter(order => {
       const orderDate = new Date(order.order_date);
-      const shopMatches = shopName === "All" || order.shop === shopName;
+      const shopMatches = shopId === "All" || order.shop_id === shopId;
       
       return shopMatches &&
              orderDate >= lastWeekMonday && 
@@ -288,493 +288,106 @@ const Orders = ({ selectedShop }: OrdersProps) => {
     });
   };
 
-  // Print weekly delivery list for a specific shop with individual signatures
-  const printWeeklyDeliveryList = (shopName: string) => {
-    const deliveredOrders = getWeeklyDeliveredOrders(shopName);
-    const lastWeekOrders = getLastWeekOrdersDeliveredThisWeek(shopName);
-    
-    const printWindow = window.open('', '_blank');
-    if (!printWindow) {
-      toast.error("Please allow pop-ups to print the delivery list");
-      return;
-    }
-
-    const totalAmount = deliveredOrders.reduce((sum, order) => sum + (order.amount_delivered || 0), 0);
-    const lastWeekTotal = lastWeekOrders.reduce((sum, order) => sum + (order.amount_delivered || 0), 0);
-
-    printWindow.document.write(`
-      <!DOCTYPE html>
-      <html>
-        <head>
-          <title>Weekly Delivery List - ${shopName}</title>
-          <style>
-            body { 
-              font-family: Arial, sans-serif; 
-              margin: 15px;
-              color: #333;
-              font-size: 12px;
-            }
-            .header { 
-              text-align: center; 
-              margin-bottom: 20px;
-              border-bottom: 1px solid #333;
-              padding-bottom: 15px;
-            }
-            .shop-name { 
-              font-size: 18px; 
-              font-weight: bold;
-              margin-bottom: 5px;
-            }
-            .period { 
-              font-size: 12px;
-              color: #666;
-            }
-            .summary { 
-              margin-bottom: 20px;
-              padding: 10px;
-              background-color: #f9f9f9;
-              border-radius: 4px;
-            }
-            table { 
-              width: 100%; 
-              border-collapse: collapse; 
-              margin-bottom: 20px;
-              font-size: 11px;
-            }
-            th, td { 
-              border: 1px solid #ddd; 
-              padding: 6px 4px; 
-              text-align: left; 
-            }
-            th { 
-              background-color: #f5f5f5; 
-              font-weight: bold;
-            }
-            .total-row { 
-              background-color: #f0f0f0; 
-              font-weight: bold; 
-            }
-            .last-week-row {
-              background-color: #fff3cd;
-            }
-            .signature-section {
-              display: flex;
-              justify-content: space-between;
-              margin-top: 15px;
-              padding: 8px;
-              border: 1px solid #ddd;
-            }
-            .signature-line {
-              border-top: 1px solid #333;
-              width: 150px;
-              margin-top: 30px;
-            }
-            .signature-label {
-              margin-top: 3px;
-              font-size: 10px;
-              text-align: center;
-            }
-            .invoice-row {
-              border-bottom: 1px solid #333;
-            }
-            .signature-container {
-              display: flex;
-              justify-content: space-between;
-              margin-top: 5px;
-            }
-            .invoice-number {
-              height: 15px;
-              border-bottom: 1px solid #333;
-              min-width: 80px;
-              display: inline-block;
-            }
-            @media print {
-              body { margin: 10px; }
-              .no-print { display: none; }
-              .invoice-row { page-break-inside: avoid; }
-            }
-          </style>
-        </head>
-        <body>
-          <div class="header">
-            <div class="shop-name">${shopName} - Weekly Delivery List</div>
-            <div class="period">Period: ${selectedWeek}</div>
-            <div class="period">Generated on: ${new Date().toLocaleDateString()}</div>
-          </div>
-
-          <div class="summary">
-            <strong>Summary:</strong><br>
-            - Total Orders Delivered This Week: ${deliveredOrders.length}<br>
-            - Last Week Orders Delivered This Week: ${lastWeekOrders.length}<br>
-            - Total Amount: ${formatCurrency(totalAmount)}<br>
-            - Last Week Orders Total: ${formatCurrency(lastWeekTotal)}
-          </div>
-          
-          <table>
-            <thead>
-              <tr>
-                <th style="width: 20%">Supply Name</th>
-                <th style="width: 12%">Order Date</th>
-                <th style="width: 12%">Date Delivered</th>
-                <th style="width: 12%">Amount (ZAR)</th>
-                <th style="width: 14%">Invoice Number</th>
-                <th style="width: 30%">Signatures</th>
-              </tr>
-            </thead>
-            <tbody>
-              ${deliveredOrders.map(order => {
-                const isLastWeekOrder = lastWeekOrders.some(lastWeekOrder => lastWeekOrder.id === order.id);
-                return `
-                  <tr class="invoice-row ${isLastWeekOrder ? 'last-week-row' : ''}">
-                    <td>${order.supply_name || 'N/A'}</td>
-                    <td>${order.order_date || 'N/A'}</td>
-                    <td>${order.delivery_date || 'N/A'}</td>
-                    <td>${formatCurrency(order.amount_delivered || 0)}</td>
-                    <td>
-                      <div class="invoice-number"></div>
-                    </td>
-                    <td>
-                      <div class="signature-container">
-                        <div>
-                          <div class="signature-line"></div>
-                          <div class="signature-label">Handed Over By</div>
-                        </div>
-                        <div>
-                          <div class="signature-line"></div>
-                          <div class="signature-label">Received By</div>
-                        </div>
-                      </div>
-                    </td>
-                  </tr>
-                `;
-              }).join('')}
-              <tr class="total-row">
-                <td colspan="3"><strong>Total Amount</strong></td>
-                <td><strong>${formatCurrency(totalAmount)}</strong></td>
-                <td colspan="2"></td>
-              </tr>
-            </tbody>
-          </table>
-
-          ${lastWeekOrders.length > 0 ? `
-            <div style="margin-top: 20px; padding: 10px; background-color: #fff3cd; border-radius: 4px;">
-              <strong>Note:</strong> ${lastWeekOrders.length} orders marked in yellow were placed last week but delivered this week.
-            </div>
-          ` : ''}
-          
-          <div style="margin-top: 20px; padding: 15px; border: 1px solid #333; background-color: #f9f9f9;">
-            <div style="text-align: center; font-weight: bold; margin-bottom: 10px; font-size: 11px;">FINAL AUTHORIZATION</div>
-            <div class="signature-section">
-              <div>
-                <div class="signature-line" style="width: 200px;"></div>
-                <div class="signature-label">Manager/Authorized Signatory</div>
-              </div>
-              <div>
-                <div class="signature-line" style="width: 200px;"></div>
-                <div class="signature-label">Accounting Department</div>
-              </div>
-            </div>
-          </div>
-          
-          <div style="margin-top: 15px; font-size: 10px; color: #666; text-align: center;">
-            This document is for accounting department payment processing<br>
-            All individual invoices must be signed by both parties<br>
-            Invoice numbers to be filled manually during payment processing
-          </div>
-          
-          <script>
-            window.onload = function() {
-              window.print();
-              setTimeout(() => {
-                window.close();
-              }, 500);
-            }
-          </script>
-        </body>
-      </html>
-    `);
-    
-    printWindow.document.close();
+  // One row per purchase order on the delivery lists, with its lines underneath.
+  // Captured supplier invoices are filled in, the rest are written in by hand.
+  const deliveryListEntries = (shopId: string): DeliveryListEntry[] => {
+    const lastWeekIds = new Set(getLastWeekOrdersDeliveredThisWeek(shopId).map(order => order.id));
+    return getWeeklyDeliveredOrders(shopId).map(order => ({
+      order,
+      supplierName: getSupplier(order.supplier_id)?.name,
+      items: linesForOrder(order.id).map(line => `${line.quantity_delivered} ${line.unit} x ${line.description}`),
+      invoiceNumbers: invoicesForOrder(order.id).map(invoice => invoice.invoice_number).join(', '),
+      placedLastWeek: lastWeekIds.has(order.id),
+    }));
   };
 
-  // Print all shops weekly delivery lists with individual signatures
-  const printAllShopsWeeklyDelivery = () => {
-    const printWindow = window.open('', '_blank');
-    if (!printWindow) {
-      toast.error("Please allow pop-ups to print the delivery lists");
+  // Weekly delivery lists with individual signatures, one shop per page
+  // under its own letterhead. A list for a single shop is archived against
+  // that shop.
+  const downloadDeliveryLists = async (listShopIds: string[]) => {
+    const sections = listShopIds
+      .map(shopId => ({ shopId, entries: deliveryListEntries(shopId) }))
+      .filter(({ entries }) => entries.length > 0)
+      .map(({ shopId, entries }) => {
+        const shop = shops.find(s => s.id === shopId);
+        return deliveryListSection(getShopName(shopId), selectedWeek, entries, shop && brandingFor(shop));
+      });
+    if (sections.length === 0) {
+      toast.error("No delivered orders found for this week");
       return;
     }
 
-    let allContent = '';
-    
-    shops.forEach(shopName => {
-      const deliveredOrders = getWeeklyDeliveredOrders(shopName);
-      const lastWeekOrders = getLastWeekOrdersDeliveredThisWeek(shopName);
-      if (deliveredOrders.length === 0) return;
-      
-      const totalAmount = deliveredOrders.reduce((sum, order) => sum + (order.amount_delivered || 0), 0);
-      const lastWeekTotal = lastWeekOrders.reduce((sum, order) => sum + (order.amount_delivered || 0), 0);
-
-      const shopContent = `
-        <div style="page-break-after: always;">
-          <div class="header">
-            <div class="shop-name">${shopName} - Weekly Delivery List</div>
-            <div class="period">Period: ${selectedWeek}</div>
-            <div class="period">Generated on: ${new Date().toLocaleDateString()}</div>
-          </div>
-
-          <div class="summary">
-            <strong>Summary:</strong><br>
-            - Total Orders Delivered This Week: ${deliveredOrders.length}<br>
-            - Last Week Orders Delivered This Week: ${lastWeekOrders.length}<br>
-            - Total Amount: ${formatCurrency(totalAmount)}<br>
-            - Last Week Orders Total: ${formatCurrency(lastWeekTotal)}
-          </div>
-          
-          <table>
-            <thead>
-              <tr>
-                <th style="width: 20%">Supply Name</th>
-                <th style="width: 12%">Order Date</th>
-                <th style="width: 12%">Date Delivered</th>
-                <th style="width: 12%">Amount (ZAR)</th>
-                <th style="width: 14%">Invoice Number</th>
-                <th style="width: 30%">Signatures</th>
-              </tr>
-            </thead>
-            <tbody>
-              ${deliveredOrders.map(order => {
-                const isLastWeekOrder = lastWeekOrders.some(lastWeekOrder => lastWeekOrder.id === order.id);
-                return `
-                  <tr class="invoice-row ${isLastWeekOrder ? 'last-week-row' : ''}">
-                    <td>${order.supply_name || 'N/A'}</td>
-                    <td>${order.order_date || 'N/A'}</td>
-                    <td>${order.delivery_date || 'N/A'}</td>
-                    <td>${formatCurrency(order.amount_delivered || 0)}</td>
-                    <td>
-                      <div class="invoice-number"></div>
-                    </td>
-                    <td>
-                      <div class="signature-container">
-                        <div>
-                          <div class="signature-line"></div>
-                          <div class="signature-label">Handed Over By</div>
-                        </div>
-                        <div>
-                          <div class="signature-line"></div>
-                          <div class="signature-label">Received By</div>
-                        </div>
-                      </div>
-                    </td>
-                  </tr>
-                `;
-              }).join('')}
-              <tr class="total-row">
-                <td colspan="3"><strong>Total Amount</strong></td>
-                <td><strong>${formatCurrency(totalAmount)}</strong></td>
-                <td colspan="2"></td>
-              </tr>
-            </tbody>
-          </table>
-
-          ${lastWeekOrders.length > 0 ? `
-            <div style="margin-top: 20px; padding: 10px; background-color: #fff3cd; border-radius: 4px;">
-              <strong>Note:</strong> ${lastWeekOrders.length} orders marked in yellow were placed last week but delivered this week.
-            </div>
-          ` : ''}
-          
-          <div style="margin-top: 20px; padding: 15px; border: 1px solid #333; background-color: #f9f9f9;">
-            <div style="text-align: center; font-weight: bold; margin-bottom: 10px; font-size: 11px;">FINAL AUTHORIZATION</div>
-            <div class="signature-section">
-              <div>
-                <div class="signature-line" style="width: 200px;"></div>
-                <div class="signature-label">Manager/Authorized Signatory</div>
-              </div>
-              <div>
-                <div class="signature-line" style="width: 200px;"></div>
-                <div class="signature-label">Accounting Department</div>
-              </div>
-            </div>
-          </div>
-          
-          <div style="margin-top: 15px; font-size: 10px; color: #666; text-align: center;">
-            This document is for accounting department payment processing<br>
-            All individual invoices must be signed by both parties<br>
-            Invoice numbers to be filled manually during payment processing
-          </div>
-        </div>
-      `;
-      
-      allContent += shopContent;
-    });
+    const weekStartDate = getCurrentWeekMonday();
+    try {
+      await generateDocument({
+        kind: 'weekly_delivery_list',
+        title: `Weekly Delivery List - Week of ${weekStartDate}`,
+        shopId: listShopIds.length === 1 ? listShopIds[0] : null,
+        weekStartDate,
+        orientation: 'landscape',
+        sections,
+      });
+      toast.success("Delivery list downloaded and filed under Documents");
+    } catch (error) {
+      toast.error("Failed to generate the delivery list");
+    }
+  };
 
-    printWindow.document.write(`
-      <!DOCTYPE html>
-      <html>
-        <head>
-          <title>All Shops Weekly Delivery Lists</title>
-          <style>
-            body { 
-              font-family: Arial, sans-serif; 
-              margin: 15px;
-              color: #333;
-              font-size: 12px;
-            }
-            .header { 
-              text-align: center; 
-              margin-bottom: 20px;
-              border-bottom: 1px solid #333;
-              padding-bottom: 15px;
-            }
-            .shop-name { 
-              font-size: 18px; 
-              font-weight: bold;
-              margin-bottom: 5px;
-            }
-            .period { 
-              font-size: 12px;
-              color: #666;
-            }
-            .summary { 
-              margin-bottom: 20px;
-              padding: 10px;
-              background-color: #f9f9f9;
-              border-radius: 4px;
-            }
-            table { 
-              width: 100%; 
-              border-collapse: collapse; 
-              margin-bottom: 20px;
-              font-size: 11px;
-            }
-            th, td { 
-              border: 1px solid #ddd; 
-              padding: 6px 4px; 
-              text-align: left; 
-            }
-            th { 
-              background-color: #f5f5f5; 
-              font-weight: bold;
-            }
-            .total-row { 
-              background-color: #f0f0f0; 
-              font-weight: bold; 
-            }
-            .last-week-row {
-              background-color: #fff3cd;
-            }
-            .signature-section {
-              display: flex;
-              justify-content: space-between;
-              margin-top: 15px;
-              padding: 8px;
-              border: 1px solid #ddd;
-            }
-            .signature-line {
-              border-top: 1px solid #333;
-              width: 150px;
-              margin-top: 30px;
-            }
-            .signature-label {
-              margin-top: 3px;
-              font-size: 10px;
-              text-align: center;
-            }
-            .invoice-row {
-              border-bottom: 1px solid #333;
-            }
-            .signature-container {
-              display: flex;
-              justify-content: space-between;
-              margin-top: 5px;
-            }
-            .invoice-number {
-              height: 15px;
-              border-bottom: 1px solid #333;
-              min-width: 80px;
-              display: inline-block;
-            }
-            @media print {
-              body { margin: 10px; }
-              .no-print { display: none; }
-              .invoice-row { page-break-inside: avoid; }
-            }
-          </style>
-        </head>
-        <body>
-          ${allContent || '<div class="header"><div class="shop-name">No delivered orders found for this week</div></div>'}
-          
-          <script>
-            window.onload = function() {
-              window.print();
-              setTimeout(() => {
-                window.close();
-              }, 500);
-            }
-          </script>
-        </body>
-      </html>
-    `);
-    
-    printWindow.document.close();
+  // The order list as shown, for the selected shop and week
+  const handleExport = (exportFormat: ExportFormat) => {
+    const columns: ExportColumn<Order>[] = [
+      { header: "Supply", value: order => order.supply_name },
+      { header: "Supplier", value: order => getSupplier(order.supplier_id)?.name },
+      { header: "Shop", value: order => getShopName(order.shop_id) },
+      { header: "Order Date", type: "date", value: order => order.order_date },
+      { header: "Delivery Date", type: "date", value: order => order.delivery_date },
+      { header: "Ordered By", value: order => order.ordered_by },
+      { header: "Contact Person", value: order => order.contact_person },
+      { header: "Status", value: order => order.status },
+      { header: "Ordered", type: "currency", value: order => order.order_amount },
+      { header: "Delivered", type: "currency", value: order => order.amount_delivered },
+      { header: "Invoice Numbers", value: order => invoicesForOrder(order.id).map(invoice => invoice.invoice_number).join(", ") },
+    ];
+    exportSheets([toSheet("Orders", columns, filteredOrders)], `Orders ${getCurrentWeekMonday()}`, exportFormat);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    
-    const supply = supplies.find(s => s.id === formData.supply_id);
-    if (!supply) {
-      toast.error("Please select a valid supply");
+
+    if (lineDrafts.length === 0) {
+      toast.error("Please add at least one line");
+      return;
+    }
+    if (lineDrafts.some(line => !line.supply_id)) {
+      toast.error("Please select a supply for every line");
       return;
     }
 
-    const status: OrderStatus = 
-      formData.amount_delivered === 0 ? "Pending" :
-      formData.amount_delivered < formData.order_amount ? "Partial" : "Delivered";
+    const values = {
+      supplier_id: formData.supplier_id || null,
+      order_date: formData.order_date,
+      expected_delivery_date: formData.expected_delivery_date || null,
+      ordered_by: formData.ordered_by,
+      contact_person: formData.contact_person,
+      // A fully delivered order needs a delivery date to show on the weekly list
+      delivery_date: formData.delivery_date || (draftTotals.status === "Delivered" ? today : ""),
+      shop_id: formData.shop_id,
+      notes: formData.notes,
+      ...draftTotals,
+    };
 
     try {
       if (editingOrder) {
-        const { error } = await supabase
-          .from('orders')
-          .update({
-            supply_id: formData.supply_id,
-            supply_name: supply.name,
-            order_date: formData.order_date,
-            ordered_by: formData.ordered_by,
-            contact_person: formData.contact_person,
-            order_amount: formData.order_amount,
-            amount_delivered: formData.amount_delivered,
-            delivery_date: formData.delivery_date,
-            shop: formData.shop,
-            notes: formData.notes,
-            status,
-          })
-          .eq('id', editingOrder.id);
-
-        if (error) throw error;
+        await updateOrder(editingOrder.id, values);
+        await saveOrderLines(editingOrder.id, savedLines);
         toast.success("Order updated successfully");
       } else {
-        const { error } = await supabase
-          .from('orders')
-          .insert({
-            supply_id: formData.supply_id,
-            supply_name: supply.name,
-            order_date: formData.order_date,
-            ordered_by: formData.ordered_by,
-            contact_person: formData.contact_person,
-            order_amount: formData.order_amount,
-            amount_delivered: formData.amount_delivered,
-            delivery_date: formData.delivery_date,
-            shop: formData.shop,
-            notes: formData.notes,
-            status,
-          });
-
-        if (error) throw error;
+        const id = crypto.randomUUID();
+        await createOrder({ id, ...values });
+        await saveOrderLines(id, savedLines);
         toast.success("Order created successfully");
       }
 
-      await fetchData();
       setIsDialogOpen(false);
       resetForm();
     } catch (error: any) {
@@ -783,34 +396,63 @@ const Orders = ({ selectedShop }: OrdersProps) => {
     }
   };
 
+  const updateLine = (index: number, values: Partial<OrderLineDraft>) => {
+    setLineDrafts(lineDrafts.map((line, i) => (i === index ? { ...line, ...values } : line)));
+  };
+
+  // Switching how prices are typed converts the ones already on the lines
+  const handlePricesExcludeVatChange = (exclude: boolean) => {
+    setPricesExcludeVat(exclude);
+    setLineDrafts(lineDrafts.map(line => ({
+      ...line,
+      unit_price: exclude ? exclusiveOf(line.unit_price, line.vat_rate) : inclusiveOf(line.unit_price, line.vat_rate),
+    })));
+  };
+
+  // Picking a supply fills in its name, unit, VAT rate and current price, and the first supply
+  // with a supplier brings that supplier and their main contact onto the order
+  const handleLineSupplyChange = (index: number, supplyId: string) => {
+    const supply = supplies.find(s => s.id === supplyId);
+    if (!supply) return;
+
+    const line = lineDrafts[index];
+    updateLine(index, {
+      supply_id: supply.id,
+      description: supply.name,
+      unit: supply.unit,
+      vat_rate: supply.vat_rate,
+      unit_price: line.supply_id === supply.id ? line.unit_price
+        : pricesExcludeVat ? exclusiveOf(supply.unit_price, supply.vat_rate) : supply.unit_price,
+    });
+
+    if (!formData.supplier_id && supply.supplier_id) {
+      const supplier = getSupplier(supply.supplier_id);
+      setFormData({
+        ...formData,
+        supplier_id: supply.supplier_id,
+        contact_person: formData.contact_person || supplier?.contacts[0]?.name || "",
+      });
+    }
+  };
+
   const handleBudgetSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
     try {
       if (editingBudget) {
-        const { error } = await supabase
-          .from('weekly_budgets')
-          .update({
-            budget_amount: budgetFormData.budget_amount,
-          })
-          .eq('id', editingBudget.id);
-
-        if (error) throw error;
+        await updateWeeklyBudget(editingBudget.id, {
+          budget_amount: budgetFormData.budget_amount,
+        });
         toast.success("Budget updated successfully");
       } else {
-        const { error } = await supabase
-          .from('weekly_budgets')
-          .insert({
-            budget_amount: budgetFormData.budget_amount,
-            week_start_date: budgetFormData.week_start_date,
-            shop: budgetFormData.shop,
-          });
-
-        if (error) throw error;
+        await createWeeklyBudget({
+          budget_amount: budgetFormData.budget_amount,
+          week_start_date: budgetFormData.week_start_date,
+          shop_id: budgetFormData.shop_id,
+        });
         toast.success("Budget created successfully");
       }
 
-      await fetchData();
       setIsBudgetEditOpen(false);
       resetBudgetForm();
     } catch (error: any) {
@@ -822,16 +464,26 @@ const Orders = ({ selectedShop }: OrdersProps) => {
   const handleEdit = (order: Order) => {
     setEditingOrder(order);
     setFormData({
-      supply_id: order.supply_id,
+      supplier_id: order.supplier_id || "",
       order_date: order.order_date,
+      expected_delivery_date: order.expected_delivery_date || "",
       ordered_by: order.ordered_by,
       contact_person: order.contact_person,
-      order_amount: order.order_amount,
-      amount_delivered: order.amount_delivered,
       delivery_date: order.delivery_date,
-      shop: order.shop,
+      shop_id: order.shop_id,
       notes: order.notes || "",
     });
+    setLineDrafts(linesForOrder(order.id).map(line => ({
+      id: line.id,
+      supply_id: line.supply_id,
+      description: line.description,
+      unit: line.unit,
+      quantity: line.quantity,
+      unit_price: line.unit_price,
+      vat_rate: line.vat_rate,
+      quantity_delivered: line.quantity_delivered,
+    })));
+    setPricesExcludeVat(false);
     setIsDialogOpen(true);
   };
 
@@ -840,24 +492,17 @@ const Orders = ({ selectedShop }: OrdersProps) => {
     setBudgetFormData({
       budget_amount: budget?.budget_amount || 0,
       week_start_date: budget?.week_start_date || weekStartDate || getCurrentWeekMonday(),
-      shop: budget?.shop || selectedShop,
+      shop_id: budget?.shop_id || selectedShop,
     });
     setIsBudgetEditOpen(true);
   };
 
   const handleDelete = async (id: string) => {
-    if (!confirm("Are you sure you want to delete this order?")) return;
+    if (!confirm("Move this order to the Recycle Bin?")) return;
 
     try {
-      const { error } = await supabase
-        .from('orders')
-        .delete()
-        .eq('id', id);
-
-      if (error) throw error;
-
-      await fetchData();
-      toast.success("Order deleted successfully");
+      await deleteOrder(id);
+      toast.success("Order moved to the Recycle Bin");
     } catch (error: any) {
       console.error('Error deleting order:', error);
       toast.error(`Failed to delete order: ${error.message}`);
@@ -867,16 +512,17 @@ const Orders = ({ selectedShop }: OrdersProps) => {
   const resetForm = () => {
     setEditingOrder(null);
     setFormData({
-      supply_id: "",
+      supplier_id: "",
       order_date: today,
+      expected_delivery_date: "",
       ordered_by: "",
       contact_person: "",
-      order_amount: 0,
-      amount_delivered: 0,
       delivery_date: "",
-      shop: shops[0] || "",
+      shop_id: activeShops[0]?.id || "",
       notes: "",
     });
+    setLineDrafts([emptyLine]);
+    setPricesExcludeVat(false);
   };
 
   const resetBudgetForm = () => {
@@ -884,14 +530,10 @@ const Orders = ({ selectedShop }: OrdersProps) => {
     setBudgetFormData({
       budget_amount: 0,
       week_start_date: getCurrentWeekMonday(),
-      shop: selectedShop,
+      shop_id: selectedShop,
     });
   };
 
-  const handleBudgetUpdate = async () => {
-    await fetchData();
-  };
-
   // Generate week options (current week and previous 4 weeks)
   const generateWeekOptions = () => {
     const options = [];
@@ -1020,26 +662,26 @@ const Orders = ({ selectedShop }: OrdersProps) => {
           </div>
         </div>
         <div className="flex gap-2">
-          {/* Print Weekly Delivery List Button */}
+          {/* Weekly Delivery List PDF */}
           {selectedShop === "All" ? (
             <Button 
               variant="outline" 
-              onClick={printAllShopsWeeklyDelivery}
-              disabled={shops.every(shop => getWeeklyDeliveredOrders(shop).length === 0)}
+              onClick={() => downloadDeliveryLists(shopIds)}
+              disabled={generating || shopIds.every(shopId => getWeeklyDeliveredOrders(shopId).length === 0)}
               size="sm"
             >
-              <Printer className="mr-2 h-3 w-3" />
-              Print All Lists
+              <Download className="mr-2 h-3 w-3" />
+              {generating ? "Generating..." : "Download All Lists"}
             </Button>
           ) : (
             <Button 
               variant="outline" 
-              onClick={() => printWeeklyDeliveryList(selectedShop)}
-              disabled={getWeeklyDeliveredOrders(selectedShop).length === 0}
+              onClick={() => downloadDeliveryLists([selectedShop])}
+              disabled={generating || getWeeklyDeliveredOrders(selectedShop).length === 0}
               size="sm"
             >
-              <Printer className="mr-2 h-3 w-3" />
-              Print List
+              <Download className="mr-2 h-3 w-3" />
+              {generating ? "Generating..." : "Download List"}
             </Button>
           )}
           
@@ -1088,7 +730,7 @@ const Orders = ({ selectedShop }: OrdersProps) => {
                 onClick={() => {
                   const lastWeekMonday = getLastWeekMonday();
                   const lastWeekBudget = weeklyBudgets.find(
-                    b => b.shop === selectedShop && b.week_start_date === lastWeekMonday
+                    b => b.shop_id === selectedShop && b.week_start_date === lastWeekMonday
                   );
                   handleEditBudget(lastWeekBudget || null, lastWeekMonday);
                 }}
@@ -1170,7 +812,7 @@ const Orders = ({ selectedShop }: OrdersProps) => {
                       Ordered: {order.order_date} | Contact: {order.contact_person}
                     </div>
                     <div className="text-sm mt-1">
-                      <span className="font-medium">Shop:</span> {order.shop}
+                      <span className="font-medium">Shop:</span> {getShopName(order.shop_id)}
                       {order.notes && (
                         <span className="ml-2">
                           <span className="font-medium">Notes:</span> {order.notes}
@@ -1205,42 +847,42 @@ const Orders = ({ selectedShop }: OrdersProps) => {
       {/* Weekly Budgets Section - More Compact */}
       <div className="space-y-2">
         <h3 className="text-base font-semibold">
-          {selectedShop === "All" ? "Weekly Budgets - All Shops" : `Weekly Budget - ${selectedShop}`}
+          {selectedShop === "All" ? "Weekly Budgets - All Shops" : `Weekly Budget - ${getShopName(selectedShop)}`}
         </h3>
         <div className="grid gap-3 md:grid-cols-2 lg:grid-cols-3">
           {selectedShop === "All" ? (
             shops.map((shop) => {
-              const budget = weeklyBudgets.find(b => b.shop === shop && b.week_start_date === getCurrentWeekMonday());
+              const budget = weeklyBudgets.find(b => b.shop_id === shop.id && b.week_start_date === getCurrentWeekMonday());
               const shopWeekOrders = orders.filter(o => {
                 const orderDate = new Date(o.order_date);
                 const weekMonday = new Date(getCurrentWeekMonday());
                 const weekSunday = getSunday(weekMonday);
-                return o.shop === shop && orderDate >= weekMonday && orderDate <= weekSunday;
+                return o.shop_id === shop.id && orderDate >= weekMonday && orderDate <= weekSunday;
               });
               
               return (
                 <WeeklyBudgetCard
-                  key={shop}
-                  shop={shop}
+                  key={shop.id}
+                  shopId={shop.id}
+                  shop={shop.name}
                   currentBudget={budget || null}
                   weekOrders={shopWeekOrders}
                   weekStartStr={getCurrentWeekMonday()}
-                  onBudgetUpdate={handleBudgetUpdate}
                 />
               );
             })
           ) : (
             <WeeklyBudgetCard
-              shop={selectedShop}
-              currentBudget={weeklyBudgets.find(b => b.shop === selectedShop && b.week_start_date === getCurrentWeekMonday()) || null}
+              shopId={selectedShop}
+              shop={getShopName(selectedShop)}
+              currentBudget={weeklyBudgets.find(b => b.shop_id === selectedShop && b.week_start_date === getCurrentWeekMonday()) || null}
               weekOrders={orders.filter(o => {
                 const orderDate = new Date(o.order_date);
                 const weekMonday = new Date(getCurrentWeekMonday());
                 const weekSunday = getSunday(weekMonday);
-                return o.shop === selectedShop && orderDate >= weekMonday && orderDate <= weekSunday;
+                return o.shop_id === selectedShop && orderDate >= weekMonday && orderDate <= weekSunday;
               })}
               weekStartStr={getCurrentWeekMonday()}
-              onBudgetUpdate={handleBudgetUpdate}
             />
           )}
         </div>
@@ -1250,13 +892,13 @@ const Orders = ({ selectedShop }: OrdersProps) => {
       {selectedShop !== "All" && (
         <div className="mt-2">
           <WeeklyBudgetReport
-            shop={selectedShop}
-            currentBudget={weeklyBudgets.find(b => b.shop === selectedShop && b.week_start_date === getCurrentWeekMonday()) || null}
+            shop={getShopName(selectedShop)}
+            currentBudget={weeklyBudgets.find(b => b.shop_id === selectedShop && b.week_start_date === getCurrentWeekMonday()) || null}
             weekOrders={orders.filter(o => {
               const orderDate = new Date(o.order_date);
               const weekMonday = new Date(getCurrentWeekMonday());
               const weekSunday = getSunday(weekMonday);
-              return o.shop === selectedShop && orderDate >= weekMonday && orderDate <= weekSunday;
+              return o.shop_id === selectedShop && orderDate >= weekMonday && orderDate <= weekSunday;
             })}
             weekStartStr={getCurrentWeekMonday()}
           />
@@ -1297,14 +939,19 @@ const Orders = ({ selectedShop }: OrdersProps) => {
       {/* Order List - More Compact */}
       <Card>
         <CardHeader className="pb-3">
-          <CardTitle className="text-base">Order List</CardTitle>
-          <CardDescription className="text-xs">
-            {selectedShop === "All" ? "All shops" : `Shop ${selectedShop}`} orders for {selectedWeek}
-            <br />
-            <span className="text-amber-600">
-              Includes orders placed last week but delivered this week
-            </span>
-          </CardDescription>
+          <div className="flex items-start justify-between">
+            <div>
+              <CardTitle className="text-base">Order List</CardTitle>
+              <CardDescription className="text-xs">
+                {selectedShop === "All" ? "All shops" : getShopName(selectedShop)} orders for {selectedWeek}
+                <br />
+                <span className="text-amber-600">
+                  Includes orders placed last week but delivered this week
+                </span>
+              </CardDescription>
+            </div>
+            <ExportMenu onExport={handleExport} disabled={filteredOrders.length === 0} size="sm" />
+          </div>
         </CardHeader>
         <CardContent className="p-0">
           <Table>
@@ -1327,7 +974,12 @@ const Orders = ({ selectedShop }: OrdersProps) => {
                 
                 return (
                   <TableRow key={order.id} className={`h-12 ${isLastWeekOrder ? 'bg-amber-50' : ''}`}>
-                    <TableCell className="py-2 font-medium">{order.supply_name}</TableCell>
+                    <TableCell className="py-2">
+                      <div className="font-medium">{order.supply_name}</div>
+                      {order.supplier_id && (
+                        <div className="text-xs text-muted-foreground">{getSupplier(order.supplier_id)?.name}</div>
+                      )}
+                    </TableCell>
                     <TableCell className="py-2">
                       {order.order_date}
                       {isLastWeekOrder && <Badge variant="outline" className="ml-1 bg-amber-100 text-amber-800 text-xs">Last Week</Badge>}
@@ -1338,6 +990,15 @@ const Orders = ({ selectedShop }: OrdersProps) => {
                     <TableCell className="py-2">{getStatusBadge(order.status)}</TableCell>
                     <TableCell className="py-2 text-right">
                       <div className="flex justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Receive delivery"
+                          onClick={() => setReceivingOrder(order)}
+                          className="h-8 w-8 p-0"
+                        >
+                          <PackageCheck className="h-3 w-3" />
+                        </Button>
                         <Button
                           variant="ghost"
                           size="sm"
@@ -1346,6 +1007,7 @@ const Orders = ({ selectedShop }: OrdersProps) => {
                         >
                           <Pencil className="h-3 w-3" />
                         </Button>
+                        <HistoryDrawer table="orders" recordId={order.id} title={order.supply_name} compact />
                         <Button
                           variant="ghost"
                           size="sm"
@@ -1374,29 +1036,46 @@ const Orders = ({ selectedShop }: OrdersProps) => {
         setIsDialogOpen(open);
         if (!open) resetForm();
       }}>
-        <DialogContent className="max-w-2xl">
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>{editingOrder ? "Edit Order" : "Create New Order"}</DialogTitle>
           </DialogHeader>
           <form onSubmit={handleSubmit} className="space-y-4">
             <div className="grid grid-cols-1 gap-4">
-              <div className="space-y-2">
-                <Label htmlFor="supplyId">Select Supply *</Label>
-                <Select value={formData.supply_id} onValueChange={(value) => setFormData({ ...formData, supply_id: value })}>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Choose supply" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {supplies.map((supply) => (
-                      <SelectItem key={supply.id} value={supply.id}>
-                        {supply.name} - {supply.shop}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="supplierId">Supplier</Label>
+                  <Select
+                    value={formData.supplier_id || "none"}
+                    onValueChange={(value) => setFormData({ ...formData, supplier_id: value === "none" ? "" : value })}
+                  >
+                    <SelectTrigger id="supplierId">
+                      <SelectValue placeholder="Choose supplier" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No supplier</SelectItem>
+                      {suppliers.map((supplier) => (
+                        <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="shop">Shop *</Label>
+                  <Select value={formData.shop_id} onValueChange={(value) => setFormData({ ...formData, shop_id: value })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a shop" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {shopOptions.map((shop) => (
+                        <SelectItem key={shop.id} value={shop.id}>{shop.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
               </div>
 
-              <div className="grid grid-cols-2 gap-4">
+              <div className="grid grid-cols-3 gap-4">
                 <div className="space-y-2">
                   <Label htmlFor="orderDate">Order Date *</Label>
                   <Input
@@ -1406,6 +1085,14 @@ const Orders = ({ selectedShop }: OrdersProps) => {
                     onChange={(e) => setFormData({ ...formData, order_date: e.target.value })}
                   />
                 </div>
+                <div className="space-y-2">
+                  <Label htmlFor="expectedDeliveryDate">Expected Delivery</Label>
+                  <Input
+                    type="date"
+                    value={formData.expected_delivery_date}
+                    onChange={(e) => setFormData({ ...formData, expected_delivery_date: e.target.value })}
+                  />
+                </div>
                 <div className="space-y-2">
                   <Label htmlFor="deliveryDate">Delivery Date</Label>
                   <Input
@@ -1429,47 +1116,121 @@ const Orders = ({ selectedShop }: OrdersProps) => {
                 <div className="space-y-2">
                   <Label htmlFor="contactPerson">Contact Person</Label>
                   <Input
+                    list="supplierContacts"
                     value={formData.contact_person}
                     onChange={(e) => setFormData({ ...formData, contact_person: e.target.value })}
                     placeholder="Supplier contact person"
                   />
-                </div>
-              </div>
-
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="orderAmount">Order Amount *</Label>
-                  <Input
-                    type="number"
-                    required
-                    value={formData.order_amount}
-                    onChange={(e) => setFormData({ ...formData, order_amount: parseFloat(e.target.value) })}
-                    placeholder="0.00"
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="amountDelivered">Amount Delivered</Label>
-                  <Input
-                    type="number"
-                    value={formData.amount_delivered}
-                    onChange={(e) => setFormData({ ...formData, amount_delivered: parseFloat(e.target.value) })}
-                    placeholder="0.00"
-                  />
+                  <datalist id="supplierContacts">
+                    {getSupplier(formData.supplier_id)?.contacts.map((contact, index) => (
+                      <option key={index} value={contact.name}>{contact.phone}</option>
+                    ))}
+                  </datalist>
                 </div>
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="shop">Shop *</Label>
-                <Select value={formData.shop} onValueChange={(value) => setFormData({ ...formData, shop: value })}>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select a shop" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {shops.map((shop) => (
-                      <SelectItem key={shop} value={shop}>{shop}</SelectItem>
+                <div className="flex items-center justify-between">
+                  <Label>Order Lines *</Label>
+                  <div className="flex items-center gap-4">
+                    <div className="flex items-center gap-2">
+                      <Switch id="pricesExcludeVat" checked={pricesExcludeVat} onCheckedChange={handlePricesExcludeVatChange} />
+                      <Label htmlFor="pricesExcludeVat" className="text-sm font-normal">Prices exclude VAT</Label>
+                    </div>
+                    <Button type="button" variant="outline" size="sm" onClick={() => setLineDrafts([...lineDrafts, emptyLine])}>
+                      <Plus className="mr-2 h-3 w-3" />
+                      Add Line
+                    </Button>
+                  </div>
+                </div>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-[40%]">Supply</TableHead>
+                      <TableHead>Quantity</TableHead>
+                      <TableHead>Unit Price</TableHead>
+                      <TableHead>VAT</TableHead>
+                      <TableHead>Delivered</TableHead>
+                      <TableHead className="text-right">Total</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {lineDrafts.map((line, index) => (
+                      <TableRow key={line.id ?? index}>
+                        <TableCell className="p-1">
+                          <Select value={line.supply_id ?? ""} onValueChange={(value) => handleLineSupplyChange(index, value)}>
+                            <SelectTrigger>
+                              <SelectValue placeholder={line.description || "Choose supply"} />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {supplies.filter(s => s.shop_id === formData.shop_id).map((supply) => (
+                                <SelectItem key={supply.id} value={supply.id}>{supply.name}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell className="p-1">
+                          <div className="flex items-center gap-1">
+                            <Input
+                              type="number"
+                              min="0.01"
+                              step="0.01"
+                              required
+                              value={line.quantity}
+                              onChange={(e) => updateLine(index, { quantity: parseFloat(e.target.value) || 0 })}
+                            />
+                            <span className="text-xs text-muted-foreground">{line.unit}</span>
+                          </div>
+                        </TableCell>
+                        <TableCell className="p-1">
+                          <Input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={line.unit_price}
+                            onChange={(e) => updateLine(index, { unit_price: parseFloat(e.target.value) || 0 })}
+                          />
+                        </TableCell>
+                        <TableCell className="p-1">
+                          <Select value={String(line.vat_rate)} onValueChange={(value) => updateLine(index, { vat_rate: parseFloat(value) })}>
+                            <SelectTrigger className="w-24">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {vatRateOptions(getVatRate(formData.shop_id), line.vat_rate).map((rate) => (
+                                <SelectItem key={rate} value={String(rate)}>{vatRateLabel(rate)}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell className="p-1 text-muted-foreground">
+                          {line.quantity_delivered} {line.unit}
+                        </TableCell>
+                        <TableCell className="p-1 text-right">{formatCurrency(lineTotal(line))}</TableCell>
+                        <TableCell className="p-1">
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setLineDrafts(lineDrafts.filter((_, i) => i !== index))}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
                     ))}
-                  </SelectContent>
-                </Select>
+                  </TableBody>
+                </Table>
+                <p className="text-xs text-muted-foreground">
+                  Delivered quantities come from the deliveries recorded with Receive Delivery
+                </p>
+                <div className="flex justify-end gap-6 text-sm">
+                  <span>Status: {getStatusBadge(draftTotals.status)}</span>
+                  <span>Delivered: <strong>{formatCurrency(draftTotals.amount_delivered)}</strong></span>
+                  <span>VAT: <strong>{formatCurrency(orderLinesVat(savedLines))}</strong></span>
+                  <span>Order Total incl. VAT: <strong>{formatCurrency(draftTotals.order_amount)}</strong></span>
+                </div>
               </div>
 
               <div className="space-y-2">
@@ -1494,6 +1255,12 @@ const Orders = ({ selectedShop }: OrdersProps) => {
           </form>
         </DialogContent>
       </Dialog>
+
+      <ReceiveDeliveryDialog
+        key={receivingOrder?.id ?? "none"}
+        order={receivingOrder}
+        onClose={() => setReceivingOrder(null)}
+      />
     </div>
   );
 };
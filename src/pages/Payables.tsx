@@ -0,0 +1,537 @@
+import { useState } from "react";
+import { ShopId } from "@/types";
+import { formatCurrency } from "@/lib/currency";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Banknote, Download, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { useShops } from "@/hooks/useShops";
+import { useSuppliers } from "@/hooks/useSuppliers";
+import { useSupplierInvoices, type SupplierInvoiceRecord } from "@/hooks/useSupplierInvoices";
+import { useSupplierPayments, type SupplierPaymentRecord } from "@/hooks/useSupplierPayments";
+import { useDocuments } from "@/hooks/useDocuments";
+import { AGING_BUCKETS, agingBucket } from "@/lib/aging";
+import { brandingFor, statementSection } from "@/lib/documents";
+import {
+  PAYMENT_METHODS,
+  agePayables,
+  amountPaid,
+  buildStatement,
+  invoiceBalance,
+  invoicesDueBy,
+  type PaymentMethod,
+} from "@/lib/payables";
+
+interface PayablesProps {
+  selectedShop: ShopId;
+}
+
+// Sunday of the current week, matching the weekly budgets
+const endOfWeek = () => {
+  const date = new Date();
+  date.setDate(date.getDate() + ((7 - date.getDay()) % 7));
+  return date.toISOString().split('T')[0];
+};
+
+const Payables = ({ selectedShop }: PayablesProps) => {
+  const { shops, activeShops, getShopName, loading: shopsLoading } = useShops();
+  const { suppliers, getSupplier } = useSuppliers();
+  const { invoices, loading: invoicesLoading } = useSupplierInvoices();
+  const { payments, loading: paymentsLoading, recordPayment, deletePayment } = useSupplierPayments();
+  const { generateDocument, generating } = useDocuments();
+  const [isPaymentOpen, setIsPaymentOpen] = useState(false);
+  const [statementSupplierId, setStatementSupplierId] = useState("");
+
+  const today = new Date().toISOString().split('T')[0];
+  const emptyPayment = {
+    supplier_id: "",
+    shop_id: activeShops[0]?.id || "",
+    invoice_id: "",
+    paid_on: today,
+    method: "eft" as PaymentMethod,
+    reference: "",
+    amount: 0,
+    notes: "",
+  };
+  const [paymentForm, setPaymentForm] = useState(emptyPayment);
+
+  const inShop = (row: { shop_id: string }) => selectedShop === "All" || row.shop_id === selectedShop;
+  const shopInvoices = invoices.filter(inShop);
+  const shopPayments = payments.filter(inShop);
+  const outstanding = shopInvoices
+    .filter(i => invoiceBalance(i, payments) > 0)
+    .sort((a, b) => (a.due_date ?? a.invoice_date).localeCompare(b.due_date ?? b.invoice_date));
+
+  const agingShops = shops.filter(shop => selectedShop === "All" ? shop.is_active : shop.id === selectedShop);
+  const agingFor = (shopId: string) => agePayables(
+    invoices.filter(i => i.shop_id === shopId),
+    payments.filter(p => p.shop_id === shopId)
+  );
+  const dueThisWeekFor = (shopId: string) =>
+    invoicesDueBy(invoices.filter(i => i.shop_id === shopId), payments, endOfWeek())
+      .reduce((sum, i) => sum + invoiceBalance(i, payments), 0);
+
+  // Invoices the payment can settle: unpaid ones from the chosen supplier and shop
+  const payableInvoices = invoices.filter(i =>
+    i.id === paymentForm.invoice_id ||
+    (invoiceBalance(i, payments) > 0 &&
+      i.shop_id === paymentForm.shop_id &&
+      (!paymentForm.supplier_id || i.supplier_id === paymentForm.supplier_id))
+  );
+
+  const statementInvoices = shopInvoices.filter(i => i.supplier_id === statementSupplierId);
+  const statementPayments = shopPayments.filter(p => p.supplier_id === statementSupplierId);
+  const statement = statementSupplierId ? buildStatement(statementInvoices, statementPayments) : [];
+
+  const openPayment = (invoice?: SupplierInvoiceRecord) => {
+    setPaymentForm(invoice
+      ? {
+          ...emptyPayment,
+          supplier_id: invoice.supplier_id || "",
+          shop_id: invoice.shop_id,
+          invoice_id: invoice.id,
+          amount: invoiceBalance(invoice, payments),
+        }
+      : emptyPayment);
+    setIsPaymentOpen(true);
+  };
+
+  const handleInvoiceChange = (invoiceId: string) => {
+    const invoice = invoices.find(i => i.id === invoiceId);
+    setPaymentForm(invoice
+      ? { ...paymentForm, invoice_id: invoice.id, supplier_id: invoice.supplier_id || "", amount: invoiceBalance(invoice, payments) }
+      : { ...paymentForm, invoice_id: "" });
+  };
+
+  const handlePaymentSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (paymentForm.amount <= 0) {
+      toast.error("Please enter the amount paid");
+      return;
+    }
+
+    const invoice = invoices.find(i => i.id === paymentForm.invoice_id);
+    if (invoice && paymentForm.amount > invoiceBalance(invoice, payments) &&
+      !confirm(`This is more than the ${formatCurrency(invoiceBalance(invoice, payments))} still owed on the invoice. Record it anyway?`)) {
+      return;
+    }
+
+    try {
+      await recordPayment({
+        supplier_id: paymentForm.supplier_id || null,
+        shop_id: paymentForm.shop_id,
+        invoice_id: paymentForm.invoice_id || null,
+        paid_on: paymentForm.paid_on,
+        method: paymentForm.method,
+        reference: paymentForm.reference.trim() || null,
+        amount: paymentForm.amount,
+        notes: paymentForm.notes.trim() || null,
+      });
+      toast.success("Payment recorded");
+      setIsPaymentOpen(false);
+    } catch (error) {
+      console.error('Error recording payment:', error);
+      toast.error(`Failed to record payment: ${error.message}`);
+    }
+  };
+
+  const handleDeletePayment = async (payment: SupplierPaymentRecord) => {
+    if (!confirm(`Delete the ${formatCurrency(payment.amount)} payment of ${payment.paid_on}?`)) return;
+
+    try {
+      await deletePayment(payment.id);
+      toast.success("Payment deleted");
+    } catch (error) {
+      console.error('Error deleting payment:', error);
+      toast.error(`Failed to delete payment: ${error.message}`);
+    }
+  };
+
+  const downloadStatement = async () => {
+    const supplier = getSupplier(statementSupplierId);
+    if (!supplier) return;
+
+    const shop = selectedShop === "All" ? undefined : shops.find(s => s.id === selectedShop);
+    try {
+      await generateDocument({
+        kind: 'supplier_statement',
+        title: `Statement - ${supplier.name}`,
+        shopId: shop?.id ?? null,
+        weekStartDate: null,
+        sections: [
+          statementSection(
+            supplier.name,
+            [
+              ...(supplier.account_number ? [`Account ${supplier.account_number}`] : []),
+              shop?.name ?? "All Shops",
+            ],
+            statement,
+            { debit: "Invoiced", closing: "Balance owed" },
+            shop && brandingFor(shop)
+          ),
+        ],
+      });
+      toast.success("Statement downloaded and filed under Documents");
+    } catch (error) {
+      toast.error("Failed to generate the statement");
+    }
+  };
+
+  if (shopsLoading || invoicesLoading || paymentsLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-lg">Loading payables...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight">Accounts Payable</h2>
+          <p className="text-muted-foreground">What is owed to suppliers and what has been paid</p>
+        </div>
+        <Button onClick={() => openPayment()}>
+          <Banknote className="mr-2 h-4 w-4" />
+          Record Payment
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Aging</CardTitle>
+          <CardDescription>Unpaid invoices by age, with what falls due by Sunday</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Shop</TableHead>
+                {AGING_BUCKETS.map(bucket => (
+                  <TableHead key={bucket.key} className="text-right">{bucket.label}</TableHead>
+                ))}
+                <TableHead className="text-right">Total</TableHead>
+                <TableHead className="text-right">Due This Week</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {agingShops.map((shop) => {
+                const aging = agingFor(shop.id);
+                return (
+                  <TableRow key={shop.id}>
+                    <TableCell className="font-medium">{shop.name}</TableCell>
+                    {AGING_BUCKETS.map(bucket => (
+                      <TableCell
+                        key={bucket.key}
+                        className={`text-right ${bucket.minDays >= 60 && aging[bucket.key] > 0 ? "text-red-600" : ""}`}
+                      >
+                        {formatCurrency(aging[bucket.key])}
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-right font-bold">{formatCurrency(aging.total)}</TableCell>
+                    <TableCell className="text-right text-amber-600">{formatCurrency(dueThisWeekFor(shop.id))}</TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Unpaid Invoices</CardTitle>
+          <CardDescription>{outstanding.length} invoices, oldest due date first</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {outstanding.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              Every captured invoice has been paid.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Invoice</TableHead>
+                  <TableHead>Supplier</TableHead>
+                  <TableHead>Shop</TableHead>
+                  <TableHead>Due</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead className="text-right">Paid</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                  <TableHead>Age</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {outstanding.map((invoice) => {
+                  const overdue = (invoice.due_date ?? invoice.invoice_date) < today;
+                  return (
+                    <TableRow key={invoice.id}>
+                      <TableCell className="font-medium">{invoice.invoice_number}</TableCell>
+                      <TableCell>{getSupplier(invoice.supplier_id)?.name ?? "-"}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{getShopName(invoice.shop_id)}</Badge>
+                      </TableCell>
+                      <TableCell className={overdue ? "text-red-600" : ""}>{invoice.due_date || invoice.invoice_date}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(invoice.total)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(amountPaid(invoice, payments))}</TableCell>
+                      <TableCell className="text-right font-bold">{formatCurrency(invoiceBalance(invoice, payments))}</TableCell>
+                      <TableCell>
+                        {AGING_BUCKETS.find(bucket => bucket.key === agingBucket(invoice.invoice_date))?.label}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="outline" size="sm" onClick={() => openPayment(invoice)}>
+                          Pay
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Supplier Statement</CardTitle>
+              <CardDescription>Invoices and payments with the running balance owed</CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Select value={statementSupplierId} onValueChange={setStatementSupplierId}>
+                <SelectTrigger className="w-56">
+                  <SelectValue placeholder="Select a supplier" />
+                </SelectTrigger>
+                <SelectContent>
+                  {suppliers.map((supplier) => (
+                    <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" onClick={downloadStatement} disabled={generating || statement.length === 0}>
+                <Download className="mr-2 h-4 w-4" />
+                {generating ? "Generating..." : "Download PDF"}
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {!statementSupplierId ? (
+            <div className="text-center py-8 text-muted-foreground">
+              Select a supplier to see their statement.
+            </div>
+          ) : statement.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No invoices or payments for this supplier yet.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead className="text-right">Invoiced</TableHead>
+                  <TableHead className="text-right">Paid</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {statement.map((entry, index) => (
+                  <TableRow key={index}>
+                    <TableCell>{entry.date}</TableCell>
+                    <TableCell>{entry.description}</TableCell>
+                    <TableCell className="text-right">{entry.debit ? formatCurrency(entry.debit) : ""}</TableCell>
+                    <TableCell className="text-right">{entry.credit ? formatCurrency(entry.credit) : ""}</TableCell>
+                    <TableCell className="text-right font-medium">{formatCurrency(entry.balance)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Payments</CardTitle>
+          <CardDescription>{shopPayments.length} payments recorded</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {shopPayments.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No payments recorded yet.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Supplier</TableHead>
+                  <TableHead>Invoice</TableHead>
+                  <TableHead>Method</TableHead>
+                  <TableHead>Reference</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {shopPayments.map((payment) => (
+                  <TableRow key={payment.id}>
+                    <TableCell>{payment.paid_on}</TableCell>
+                    <TableCell>{getSupplier(payment.supplier_id)?.name ?? "-"}</TableCell>
+                    <TableCell>{invoices.find(i => i.id === payment.invoice_id)?.invoice_number ?? "On account"}</TableCell>
+                    <TableCell>{PAYMENT_METHODS[payment.method as PaymentMethod] ?? payment.method}</TableCell>
+                    <TableCell>{payment.reference || "-"}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(payment.amount)}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="icon" onClick={() => handleDeletePayment(payment)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isPaymentOpen} onOpenChange={setIsPaymentOpen}>
+        <DialogContent className="w-[90vw] sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Record Payment</DialogTitle>
+            <DialogDescription>Pay an invoice in full or in part, or pay on account</DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handlePaymentSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Supplier</Label>
+                <Select
+                  value={paymentForm.supplier_id || "none"}
+                  onValueChange={(value) => setPaymentForm({ ...paymentForm, supplier_id: value === "none" ? "" : value, invoice_id: "" })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No supplier</SelectItem>
+                    {suppliers.map((supplier) => (
+                      <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Shop *</Label>
+                <Select
+                  value={paymentForm.shop_id}
+                  onValueChange={(value) => setPaymentForm({ ...paymentForm, shop_id: value, invoice_id: "" })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a shop" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {shops.filter(shop => shop.is_active || shop.id === paymentForm.shop_id).map((shop) => (
+                      <SelectItem key={shop.id} value={shop.id}>{shop.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Invoice</Label>
+              <Select value={paymentForm.invoice_id || "none"} onValueChange={(value) => handleInvoiceChange(value === "none" ? "" : value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">On account</SelectItem>
+                  {payableInvoices.map((invoice) => (
+                    <SelectItem key={invoice.id} value={invoice.id}>
+                      {invoice.invoice_number} - {formatCurrency(invoiceBalance(invoice, payments))} owed
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="paidOn">Date *</Label>
+                <Input
+                  id="paidOn"
+                  type="date"
+                  required
+                  value={paymentForm.paid_on}
+                  onChange={(e) => setPaymentForm({ ...paymentForm, paid_on: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="paymentAmount">Amount *</Label>
+                <Input
+                  id="paymentAmount"
+                  type="number"
+                  required
+                  min="0.01"
+                  step="0.01"
+                  value={paymentForm.amount}
+                  onChange={(e) => setPaymentForm({ ...paymentForm, amount: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Method *</Label>
+                <Select
+                  value={paymentForm.method}
+                  onValueChange={(value: PaymentMethod) => setPaymentForm({ ...paymentForm, method: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(PAYMENT_METHODS).map(([method, label]) => (
+                      <SelectItem key={method} value={method}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="paymentReference">Reference</Label>
+                <Input
+                  id="paymentReference"
+                  value={paymentForm.reference}
+                  onChange={(e) => setPaymentForm({ ...paymentForm, reference: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="paymentNotes">Notes</Label>
+              <Input
+                id="paymentNotes"
+                value={paymentForm.notes}
+                onChange={(e) => setPaymentForm({ ...paymentForm, notes: e.target.value })}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setIsPaymentOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit">Record Payment</Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Payables;
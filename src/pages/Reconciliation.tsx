@@ -0,0 +1,333 @@
+import { useRef, useState } from "react";
+import { ShopId } from "@/types";
+import { formatCurrency } from "@/lib/currency";
+import { DAY_MS } from "@/lib/numbers";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Trash2, Undo2, Upload, Wand2 } from "lucide-react";
+import { toast } from "sonner";
+import { useShops } from "@/hooks/useShops";
+import { useIncomeRecords } from "@/hooks/useIncomeRecords";
+import { useBankDeposits } from "@/hooks/useBankDeposits";
+import { useBankStatementLines, type BankStatementLine } from "@/hooks/useBankStatementLines";
+import {
+  MATCH_KIND_LABELS,
+  SETTLEMENT_DAYS,
+  creditKey,
+  expectedCredits,
+  parseStatement,
+  proposeMatches,
+  unmatchedCredits,
+  type ExpectedCredit,
+  type MatchKind,
+} from "@/lib/bankStatements";
+
+interface ReconciliationProps {
+  selectedShop: ShopId;
+}
+
+const describeCredit = (credit: ExpectedCredit) =>
+  `${MATCH_KIND_LABELS[credit.kind]} ${credit.date} - ${formatCurrency(credit.amount)}`;
+
+const Reconciliation = ({ selectedShop }: ReconciliationProps) => {
+  const { activeShops, getShopName, loading: shopsLoading } = useShops();
+  const { incomeRecords, loading: recordsLoading } = useIncomeRecords();
+  const { deposits, loading: depositsLoading } = useBankDeposits();
+  const { lines, loading: linesLoading, importLines, matchLines, matchLine, deleteLine } = useBankStatementLines();
+  const [pickedShopId, setPickedShopId] = useState("");
+  const [importing, setImporting] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  // Statements belong to one shop's account, so the page shows one shop
+  const shopId = selectedShop === "All" ? pickedShopId || activeShops[0]?.id || "" : selectedShop;
+
+  const shopLines = lines.filter(l => l.shop_id === shopId);
+  const credits = expectedCredits(
+    incomeRecords.filter(r => r.shop_id === shopId),
+    deposits.filter(d => d.shop_id === shopId)
+  );
+  const openCredits = unmatchedCredits(credits, shopLines);
+  const openLines = shopLines.filter(l => !l.match_kind);
+  const matchedLines = shopLines.filter(l => l.match_kind);
+  const proposals = proposeMatches(shopLines, openCredits);
+
+  // Takings after the last statement line cannot be on a statement yet
+  const statementEnd = shopLines.reduce((latest, l) => l.posted_on > latest ? l.posted_on : latest, "");
+  const missingCredits = openCredits
+    .filter(c => statementEnd && c.date <= statementEnd)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  // Open credits near the line's date, closest amount first
+  const candidatesFor = (line: BankStatementLine) =>
+    openCredits
+      .filter(c => Math.abs(new Date(line.posted_on).getTime() - new Date(c.date).getTime()) / DAY_MS <= SETTLEMENT_DAYS * 2)
+      .sort((a, b) => Math.abs(a.amount - line.amount) - Math.abs(b.amount - line.amount));
+
+  const describeMatch = (line: BankStatementLine) => {
+    if (line.match_kind === "ignored") return MATCH_KIND_LABELS.ignored;
+    const credit = credits.find(c => creditKey(c) === creditKey({
+      kind: line.match_kind as ExpectedCredit["kind"],
+      income_record_id: line.income_record_id,
+      deposit_id: line.deposit_id,
+    }));
+    return credit ? describeCredit(credit) : `${MATCH_KIND_LABELS[line.match_kind as MatchKind]} (removed)`;
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || !shopId) return;
+
+    setImporting(true);
+    try {
+      const parsed = parseStatement(await file.text());
+      if (parsed.length === 0) {
+        toast.error("No transactions found in this file");
+        return;
+      }
+      const added = await importLines(shopId, parsed);
+      toast.success(`Imported ${added} new lines${parsed.length > added ? `, ${parsed.length - added} were already imported` : ""}`);
+    } catch (error) {
+      console.error('Error importing statement:', error);
+      toast.error(`Failed to import statement: ${error.message}`);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleAutoMatch = async () => {
+    try {
+      await matchLines(proposals.map(({ line, credit }) => ({ lineId: line.id, match: credit })));
+      toast.success(`Matched ${proposals.length} lines`);
+    } catch (error) {
+      toast.error(`Failed to match lines: ${error.message}`);
+    }
+  };
+
+  const handleMatch = async (line: BankStatementLine, value: string) => {
+    const credit = openCredits.find(c => creditKey(c) === value);
+    try {
+      await matchLine(line.id, value === "ignored" ? { kind: "ignored" } : credit ?? null);
+    } catch (error) {
+      toast.error(`Failed to match line: ${error.message}`);
+    }
+  };
+
+  const handleUnmatch = async (line: BankStatementLine) => {
+    try {
+      await matchLine(line.id, null);
+    } catch (error) {
+      toast.error(`Failed to unmatch line: ${error.message}`);
+    }
+  };
+
+  const handleDelete = async (line: BankStatementLine) => {
+    if (!confirm(`Delete the statement line "${line.description}" of ${line.posted_on}?`)) return;
+
+    try {
+      await deleteLine(line.id);
+      toast.success("Statement line deleted");
+    } catch (error) {
+      toast.error(`Failed to delete line: ${error.message}`);
+    }
+  };
+
+  if (shopsLoading || recordsLoading || depositsLoading || linesLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-lg">Loading reconciliation...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight">Bank Reconciliation</h2>
+          <p className="text-muted-foreground">
+            Card machine takings, direct deposits and deposit slips checked against the bank statement
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".csv,.ofx,.qfx,text/csv"
+            className="hidden"
+            onChange={handleImport}
+          />
+          <Button variant="outline" onClick={() => fileInput.current?.click()} disabled={!shopId || importing}>
+            <Upload className="mr-2 h-4 w-4" />
+            {importing ? "Importing..." : "Import Statement"}
+          </Button>
+          <Button onClick={handleAutoMatch} disabled={proposals.length === 0}>
+            <Wand2 className="mr-2 h-4 w-4" />
+            Auto-Match ({proposals.length})
+          </Button>
+        </div>
+      </div>
+
+      {selectedShop === "All" && (
+        <Card>
+          <CardContent className="pt-6">
+            <div className="space-y-2 max-w-xs">
+              <Label>Shop</Label>
+              <Select value={shopId} onValueChange={setPickedShopId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a shop" />
+                </SelectTrigger>
+                <SelectContent>
+                  {activeShops.map((shop) => (
+                    <SelectItem key={shop.id} value={shop.id}>{shop.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Unmatched Bank Lines</CardTitle>
+          <CardDescription>
+            {openLines.length} lines on {shopId ? getShopName(shopId) : "the"} statement still to reconcile
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {openLines.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              {shopLines.length === 0 ? "Import a CSV or OFX statement to get started." : "Every statement line is reconciled."}
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead>Reference</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead className="w-72">Match</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {openLines.map((line) => (
+                  <TableRow key={line.id}>
+                    <TableCell>{line.posted_on}</TableCell>
+                    <TableCell className="max-w-xs truncate">{line.description}</TableCell>
+                    <TableCell>{line.reference || "-"}</TableCell>
+                    <TableCell className={`text-right ${line.amount < 0 ? "text-red-600" : "text-green-600"}`}>
+                      {formatCurrency(line.amount)}
+                    </TableCell>
+                    <TableCell>
+                      <Select value="" onValueChange={(value) => handleMatch(line, value)}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Match to..." />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="ignored">{MATCH_KIND_LABELS.ignored}</SelectItem>
+                          {line.amount > 0 && candidatesFor(line).map((credit) => (
+                            <SelectItem key={creditKey(credit)} value={creditKey(credit)}>
+                              {describeCredit(credit)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="icon" onClick={() => handleDelete(line)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Takings Not on the Statement</CardTitle>
+          <CardDescription>
+            Card, direct deposit and deposit slip amounts up to {statementEnd || "the last statement"} with no matching bank line
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {missingCredits.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              Nothing missing from the imported statements.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {missingCredits.map((credit) => (
+                  <TableRow key={creditKey(credit)}>
+                    <TableCell>{credit.date}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{MATCH_KIND_LABELS[credit.kind]}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(credit.amount)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {matchedLines.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Reconciled Lines</CardTitle>
+            <CardDescription>{matchedLines.length} statement lines matched</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead>Matched To</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {matchedLines.map((line) => (
+                  <TableRow key={line.id}>
+                    <TableCell>{line.posted_on}</TableCell>
+                    <TableCell className="max-w-xs truncate">{line.description}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(line.amount)}</TableCell>
+                    <TableCell>{describeMatch(line)}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="icon" title="Unmatch" onClick={() => handleUnmatch(line)}>
+                        <Undo2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default Reconciliation;
@@ -0,0 +1,132 @@
+import { ShopId } from "@/types";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { RotateCcw, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { useShops } from "@/hooks/useShops";
+import { useRecycleBin, type DeletedItem, type RecycleTable } from "@/hooks/useRecycleBin";
+
+interface RecycleBinProps {
+  selectedShop: ShopId;
+}
+
+const tableLabels: Record<RecycleTable, string> = {
+  shops: "Shop",
+  supplies: "Supply",
+  orders: "Order",
+  income_records: "Cash Up",
+};
+
+const describeDependents = (item: DeletedItem) => {
+  const counts = item.dependents.reduce<Record<string, number>>((acc, d) => {
+    acc[tableLabels[d.table]] = (acc[tableLabels[d.table]] || 0) + 1;
+    return acc;
+  }, {});
+
+  return Object.entries(counts).map(([label, count]) => `${count} ${label.toLowerCase()}${count === 1 ? "" : "s"}`).join(", ");
+};
+
+const RecycleBin = ({ selectedShop }: RecycleBinProps) => {
+  const { items, loading, restoreItem, purgeItem } = useRecycleBin();
+  const { getShopName } = useShops();
+
+  const filteredItems = items.filter(item => selectedShop === "All" || item.shop_id === selectedShop);
+
+  const handleRestore = async (item: DeletedItem) => {
+    try {
+      await restoreItem(item);
+      toast.success(`${item.label} restored`);
+    } catch (error) {
+      toast.error(error.message || "Failed to restore");
+    }
+  };
+
+  const handlePurge = async (item: DeletedItem) => {
+    const dependents = describeDependents(item);
+    const message = dependents
+      ? `Permanently delete ${item.label} and ${dependents}? This cannot be undone.`
+      : `Permanently delete ${item.label}? This cannot be undone.`;
+    if (!confirm(message)) return;
+
+    try {
+      await purgeItem(item);
+      toast.success(`${item.label} permanently deleted`);
+    } catch (error) {
+      toast.error(error.message || "Failed to delete");
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-lg">Loading recycle bin...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-3xl font-bold tracking-tight">Recycle Bin</h2>
+        <p className="text-muted-foreground">Restore deleted records or remove them for good</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Deleted Items</CardTitle>
+          <CardDescription>
+            {selectedShop === "All" ? "All shops" : getShopName(selectedShop)} - {filteredItems.length} items
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {filteredItems.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              The recycle bin is empty.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Shop</TableHead>
+                  <TableHead>Deleted</TableHead>
+                  <TableHead>Includes</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredItems.map((item) => (
+                  <TableRow key={`${item.table}-${item.id}`}>
+                    <TableCell>
+                      <Badge variant="outline">{tableLabels[item.table]}</Badge>
+                    </TableCell>
+                    <TableCell className="font-medium">{item.label}</TableCell>
+                    <TableCell>{item.shop_name}</TableCell>
+                    <TableCell>{new Date(item.deleted_at).toLocaleString()}</TableCell>
+                    <TableCell className="text-muted-foreground">{describeDependents(item) || "-"}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button variant="outline" size="sm" onClick={() => handleRestore(item)}>
+                          <RotateCcw className="h-4 w-4 mr-2" />
+                          Restore
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => handlePurge(item)} title="Delete forever">
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default RecycleBin;
@@ -0,0 +1,298 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { ShopId } from "@/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { RotateCcw, ShoppingCart } from "lucide-react";
+import { toast } from "sonner";
+import { useShops } from "@/hooks/useShops";
+import { useSupplies, type SupplyRecord } from "@/hooks/useSupplies";
+import { useSuppliers } from "@/hooks/useSuppliers";
+import { useOrders } from "@/hooks/useOrders";
+import { useOrderLines } from "@/hooks/useOrderLines";
+import { useStockMovements } from "@/hooks/useStockMovements";
+import { HISTORY_WEEKS, suggestReorders, type ReorderSuggestion } from "@/lib/reorder";
+import { lineTotal, rollUpOrderLines, type OrderLineValues } from "@/lib/orderLines";
+import { formatCurrency } from "@/lib/currency";
+import { round } from "@/lib/numbers";
+
+interface ReorderProps {
+  selectedShop: ShopId;
+}
+
+interface RowEdit {
+  included: boolean;
+  quantity: number;
+  unit_price: number;
+}
+
+const BASIS_LABELS: Record<ReorderSuggestion["basis"] | "manual", string> = {
+  par: "Below par",
+  history: `${HISTORY_WEEKS} week average`,
+  manual: "Added",
+};
+
+const Reorder = ({ selectedShop }: ReorderProps) => {
+  const navigate = useNavigate();
+  const { activeShops, getShopName, loading: shopsLoading } = useShops();
+  const { supplies, loading: suppliesLoading } = useSupplies();
+  const { getSupplier } = useSuppliers();
+  const { orders, loading: ordersLoading, createOrder } = useOrders();
+  const { orderLines, saveOrderLines } = useOrderLines();
+  const { getOnHand } = useStockMovements();
+
+  const [edits, setEdits] = useState<Record<string, RowEdit>>({});
+  const [addedSupplyIds, setAddedSupplyIds] = useState<string[]>([]);
+  const [orderedBy, setOrderedBy] = useState("");
+  const [creating, setCreating] = useState(false);
+
+  // Archived shops are not reordered for
+  const shopSupplies = supplies.filter(s =>
+    activeShops.some(shop => shop.id === s.shop_id) && (selectedShop === "All" || s.shop_id === selectedShop)
+  );
+
+  const suggestions = suggestReorders({ supplies: shopSupplies, orders, orderLines, getOnHand });
+
+  const rows = [
+    ...suggestions.map(s => ({ ...s, basis: s.basis as ReorderSuggestion["basis"] | "manual" })),
+    ...shopSupplies
+      .filter(s => addedSupplyIds.includes(s.id) && !suggestions.some(sug => sug.supply.id === s.id))
+      .map(supply => ({ supply, onHand: getOnHand(supply.id), onOrder: 0, target: 0, quantity: 1, basis: "manual" as const })),
+  ].map(row => ({
+    ...row,
+    edit: edits[row.supply.id] ?? { included: true, quantity: row.quantity, unit_price: row.supply.unit_price },
+  }));
+
+  const addableSupplies = shopSupplies
+    .filter(s => !rows.some(row => row.supply.id === s.id))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  // Each shop and supplier pair becomes one order
+  const groupKey = (supply: SupplyRecord) => `${supply.shop_id}:${supply.supplier_id ?? ""}`;
+  const groups = Array.from(new Set(rows.map(row => groupKey(row.supply)))).map(key => {
+    const groupRows = rows.filter(row => groupKey(row.supply) === key);
+    return { key, supply: groupRows[0].supply, rows: groupRows };
+  });
+
+  const includedGroups = groups
+    .map(group => ({ ...group, rows: group.rows.filter(row => row.edit.included && row.edit.quantity > 0) }))
+    .filter(group => group.rows.length > 0);
+
+  const updateEdit = (row: (typeof rows)[number], values: Partial<RowEdit>) => {
+    setEdits({ ...edits, [row.supply.id]: { ...row.edit, ...values } });
+  };
+
+  const resetSuggestions = () => {
+    setEdits({});
+    setAddedSupplyIds([]);
+  };
+
+  const handleCreateOrders = async () => {
+    if (!orderedBy.trim()) {
+      toast.error("Please enter who is placing the orders");
+      return;
+    }
+    if (includedGroups.length === 0) {
+      toast.error("Please include at least one supply");
+      return;
+    }
+
+    setCreating(true);
+    const today = new Date().toISOString().split('T')[0];
+
+    try {
+      for (const group of includedGroups) {
+        const lines: OrderLineValues[] = group.rows.map(row => ({
+          supply_id: row.supply.id,
+          description: row.supply.name,
+          unit: row.supply.unit,
+          quantity: row.edit.quantity,
+          unit_price: row.edit.unit_price,
+          vat_rate: row.supply.vat_rate,
+          quantity_delivered: 0,
+        }));
+        const supplier = getSupplier(group.supply.supplier_id);
+        const id = crypto.randomUUID();
+
+        await createOrder({
+          id,
+          supplier_id: group.supply.supplier_id,
+          shop_id: group.supply.shop_id,
+          order_date: today,
+          ordered_by: orderedBy.trim(),
+          contact_person: supplier?.contacts[0]?.name || "",
+          notes: "Created from reorder suggestions",
+          ...rollUpOrderLines(lines),
+        });
+        await saveOrderLines(id, lines);
+      }
+
+      toast.success(`${includedGroups.length} order${includedGroups.length !== 1 ? "s" : ""} created`);
+      resetSuggestions();
+      navigate("/orders");
+    } catch (error) {
+      console.error('Error creating orders:', error);
+      toast.error(`Failed to create orders: ${error.message}`);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  if (shopsLoading || suppliesLoading || ordersLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-lg">Loading suggestions...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight">Reorder</h2>
+          <p className="text-muted-foreground">
+            Suggested orders from par levels, stock on hand and recent orders
+          </p>
+        </div>
+        <Button variant="outline" onClick={resetSuggestions}>
+          <RotateCcw className="mr-2 h-4 w-4" />
+          Reset
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="orderedBy">Ordered By *</Label>
+              <Input
+                id="orderedBy"
+                value={orderedBy}
+                onChange={(e) => setOrderedBy(e.target.value)}
+                placeholder="Your name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Add a Supply</Label>
+              <Select
+                value=""
+                onValueChange={(value) => setAddedSupplyIds([...addedSupplyIds, value])}
+                disabled={addableSupplies.length === 0}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a supply" />
+                </SelectTrigger>
+                <SelectContent>
+                  {addableSupplies.map((supply) => (
+                    <SelectItem key={supply.id} value={supply.id}>
+                      {supply.name} ({getShopName(supply.shop_id)})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={handleCreateOrders} disabled={creating || includedGroups.length === 0}>
+              <ShoppingCart className="mr-2 h-4 w-4" />
+              Create {includedGroups.length} Order{includedGroups.length !== 1 ? "s" : ""}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {groups.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-8 text-muted-foreground">
+            Nothing needs reordering. Set min and par levels on supplies to get suggestions.
+          </CardContent>
+        </Card>
+      ) : (
+        groups.map((group) => {
+          const supplier = getSupplier(group.supply.supplier_id);
+          const groupTotal = group.rows
+            .filter(row => row.edit.included)
+            .reduce((sum, row) => sum + lineTotal(row.edit), 0);
+
+          return (
+            <Card key={group.key}>
+              <CardHeader>
+                <CardTitle>{supplier?.name ?? "No supplier"}</CardTitle>
+                <CardDescription>
+                  {getShopName(group.supply.shop_id)} - {formatCurrency(groupTotal)}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-10"></TableHead>
+                      <TableHead>Supply</TableHead>
+                      <TableHead>Reason</TableHead>
+                      <TableHead className="text-right">On Hand</TableHead>
+                      <TableHead className="text-right">On Order</TableHead>
+                      <TableHead className="text-right">Target</TableHead>
+                      <TableHead className="w-28">Quantity</TableHead>
+                      <TableHead className="w-28">Unit Price</TableHead>
+                      <TableHead className="text-right">Total</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {group.rows.map((row) => (
+                      <TableRow key={row.supply.id} className={row.edit.included ? "" : "opacity-50"}>
+                        <TableCell>
+                          <Checkbox
+                            checked={row.edit.included}
+                            onCheckedChange={(checked) => updateEdit(row, { included: !!checked })}
+                          />
+                        </TableCell>
+                        <TableCell className="font-medium">
+                          {row.supply.name}
+                          <span className="text-xs text-muted-foreground"> ({row.supply.unit})</span>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{BASIS_LABELS[row.basis]}</Badge>
+                        </TableCell>
+                        <TableCell className="text-right">{row.onHand}</TableCell>
+                        <TableCell className="text-right">{row.onOrder}</TableCell>
+                        <TableCell className="text-right">
+                          {row.basis === "manual" ? "-" : round(row.target)}
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={row.edit.quantity}
+                            onChange={(e) => updateEdit(row, { quantity: parseFloat(e.target.value) || 0 })}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={row.edit.unit_price}
+                            onChange={(e) => updateEdit(row, { unit_price: parseFloat(e.target.value) || 0 })}
+                          />
+                        </TableCell>
+                        <TableCell className="text-right">{formatCurrency(lineTotal(row.edit))}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+    </div>
+  );
+};
+
+export default Reorder;
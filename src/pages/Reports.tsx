@@ -1,31 +1,44 @@
-import { useState, useEffect } from "react";
-import { Shop } from "@/types";
+import { useState } from "react";
+import { ShopId } from "@/types";
 import { formatCurrency } from "@/lib/currency";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Printer, FileText, ClipboardList } from "lucide-react";
+import { Printer, FileText, ClipboardList, Download } from "lucide-react";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { toast } from "sonner";
-import { supabase } from "@/integrations/supabase/client";
-import type { Tables } from "@/integrations/supabase/types";
+import { useSupplies } from "@/hooks/useSupplies";
+import { useOrders } from "@/hooks/useOrders";
+import { useIncomeRecords } from "@/hooks/useIncomeRecords";
+import { useShops } from "@/hooks/useShops";
+import { useOrderLines } from "@/hooks/useOrderLines";
+import { usePriceHistory, findPriceChanges } from "@/hooks/usePriceHistory";
+import { useSupplierInvoices } from "@/hooks/useSupplierInvoices";
+import { useSuppliers } from "@/hooks/useSuppliers";
+import { useDocuments } from "@/hooks/useDocuments";
+import { brandingFor, supplyChecklistSection, type DocumentBlock } from "@/lib/documents";
+import { MATCH_LABELS, needsAttention } from "@/lib/invoiceMatching";
+import { VatReport } from "@/components/reports/VatReport";
+import { ExportMenu } from "@/components/export/ExportMenu";
+import { exportSheets, toSheet, type ExportFormat } from "@/lib/export";
 
 interface ReportsProps {
-  selectedShop: Shop;
+  selectedShop: ShopId;
 }
 
-type Supply = Tables<'supplies'>;
-type Order = Tables<'orders'>;
-type IncomeRecord = Tables<'income_records'>;
-
 const Reports = ({ selectedShop }: ReportsProps) => {
-  const [supplies, setSupplies] = useState<Supply[]>([]);
-  const [orders, setOrders] = useState<Order[]>([]);
-  const [incomeRecords, setIncomeRecords] = useState<IncomeRecord[]>([]);
-  const [shops, setShops] = useState<string[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { supplies, loading: suppliesLoading } = useSupplies();
+  const { orders, loading: ordersLoading } = useOrders();
+  const { incomeRecords, loading: incomeLoading } = useIncomeRecords();
+  const { shops, getShopName, loading: shopsLoading } = useShops();
+  const { orderLines, loading: linesLoading } = useOrderLines();
+  const { priceHistory, loading: priceHistoryLoading } = usePriceHistory();
+  const { invoices, matchFor, loading: invoicesLoading } = useSupplierInvoices();
+  const { getSupplier } = useSuppliers();
+  const { generateDocument, generating } = useDocuments();
+  const loading = suppliesLoading || ordersLoading || incomeLoading || shopsLoading || linesLoading || priceHistoryLoading || invoicesLoading;
   
   const [selectedShops, setSelectedShops] = useState<string[]>(selectedShop === "All" ? [] : [selectedShop]);
   const [startDate, setStartDate] = useState("");
@@ -37,17 +50,17 @@ const Reports = ({ selectedShop }: ReportsProps) => {
   const [selectedSuppliesForPrint, setSelectedSuppliesForPrint] = useState<string[]>([]);
 
   // Helper to check if a shop is selected
-  const isShopSelected = (shop: string) => {
+  const isShopSelected = (shopId: string) => {
     if (selectedShops.length === 0) return true; // All shops
-    return selectedShops.includes(shop);
+    return selectedShops.includes(shopId);
   };
 
   // Toggle shop selection
-  const toggleShop = (shop: string) => {
+  const toggleShop = (shopId: string) => {
     setSelectedShops(prev => 
-      prev.includes(shop) 
-        ? prev.filter(s => s !== shop)
-        : [...prev, shop]
+      prev.includes(shopId) 
+        ? prev.filter(s => s !== shopId)
+        : [...prev, shopId]
     );
   };
 
@@ -61,66 +74,16 @@ const Reports = ({ selectedShop }: ReportsProps) => {
     setSelectedShops([]);
   };
 
-  // Fetch data from Supabase
-  useEffect(() => {
-    const fetchData = async () => {
-      try {
-        setLoading(true);
-        
-        // Fetch supplies
-        const { data: suppliesData, error: suppliesError } = await supabase
-          .from('supplies')
-          .select('*');
-
-        // Fetch orders
-        const { data: ordersData, error: ordersError } = await supabase
-          .from('orders')
-          .select('*');
-
-        // Fetch income records
-        const { data: incomeData, error: incomeError } = await supabase
-          .from('income_records')
-          .select('*');
-
-        if (suppliesError) throw suppliesError;
-        if (ordersError) throw ordersError;
-        if (incomeError) throw incomeError;
-
-        setSupplies(suppliesData || []);
-        setOrders(ordersData || []);
-        setIncomeRecords(incomeData || []);
-
-        // Extract unique shops from all data sources
-        const allShops = [
-          ...new Set([
-            ...(suppliesData?.map(s => s.shop) || []),
-            ...(ordersData?.map(o => o.shop) || []),
-            ...(incomeData?.map(i => i.shop) || [])
-          ])
-        ];
-        setShops(allShops);
-
-      } catch (error) {
-        console.error('Error fetching data:', error);
-        toast.error('Failed to load report data');
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchData();
-  }, []);
-
   // Get filtered data based on selections
   const filteredSupplies = supplies.filter(s => {
-    const matchesShop = isShopSelected(s.shop);
+    const matchesShop = isShopSelected(s.shop_id);
     
     // For supplies, we need to check if they have any orders within the date range
     // or if they were created/active during the date range
     // Since supplies don't have a date field, we'll check their related orders
     if (startDate || endDate) {
       const hasOrdersInRange = orders.some(order => 
-        order.supply_id === s.id && 
+        (order.supply_id === s.id || orderLines.some(l => l.order_id === order.id && l.supply_id === s.id)) && 
         (!startDate || order.order_date >= startDate) && 
         (!endDate || order.order_date <= endDate)
       );
@@ -131,14 +94,30 @@ const Reports = ({ selectedShop }: ReportsProps) => {
   });
 
   const filteredOrders = orders.filter(o => {
-    const matchesShop = isShopSelected(o.shop);
+    const matchesShop = isShopSelected(o.shop_id);
     const matchesDate = (!startDate || o.order_date >= startDate) && 
                        (!endDate || o.order_date <= endDate);
     return matchesShop && matchesDate;
   });
 
+  const priceChanges = findPriceChanges(priceHistory).filter(({ entry }) => {
+    const supply = supplies.find(s => s.id === entry.supply_id);
+    const date = entry.recorded_at.split('T')[0];
+    return supply && isShopSelected(supply.shop_id) &&
+      (!startDate || date >= startDate) &&
+      (!endDate || date <= endDate);
+  }).reverse();
+
+  // Invoices that bill for more than the deliveries against their orders
+  const flaggedInvoices = invoices
+    .filter(i => isShopSelected(i.shop_id) &&
+      (!startDate || i.invoice_date >= startDate) &&
+      (!endDate || i.invoice_date <= endDate))
+    .map(invoice => ({ invoice, match: matchFor(invoice, orders) }))
+    .filter(({ match }) => needsAttention(match));
+
   const filteredIncome = incomeRecords.filter(r => {
-    const matchesShop = isShopSelected(r.shop);
+    const matchesShop = isShopSelected(r.shop_id);
     const matchesDate = (!startDate || r.date >= startDate) && 
                        (!endDate || r.date <= endDate);
     return matchesShop && matchesDate;
@@ -161,313 +140,233 @@ const Reports = ({ selectedShop }: ReportsProps) => {
   const partialDeliveredAmount = partialOrders.reduce((sum, o) => sum + o.amount_delivered, 0);
   const partialDifference = partialOrderedAmount - partialDeliveredAmount;
 
-  const handlePrintCustom = () => {
+  // The report as a PDF. When only one shop is selected it carries that
+  // shop's letterhead and is archived against it.
+  const handleDownloadCustom = async () => {
     if (startDate && endDate && new Date(startDate) > new Date(endDate)) {
       toast.error("Start date must be before end date");
       return;
     }
 
-    // Create print content based on selected options
-    const printWindow = window.open('', '_blank');
-    if (!printWindow) {
-      toast.error("Please allow pop-ups to print the report");
-      return;
+    const blocks: DocumentBlock[] = [
+      {
+        type: 'summary',
+        items: [
+          ...(includeSupplies ? [{ label: "Total Supplies", value: String(filteredSupplies.length) }] : []),
+          ...(includeOrders ? [{ label: "Total Orders", value: formatCurrency(totalOrders) }] : []),
+          ...(includeIncome ? [
+            { label: "Total Income", value: formatCurrency(totalIncome) },
+            { label: "Net Difference (Income - Orders)", value: formatCurrency(netDifference) },
+          ] : []),
+        ],
+      },
+    ];
+
+    if (includeSupplies) {
+      blocks.push({
+        type: 'table',
+        heading: "Supplies Inventory",
+        columns: [
+          { label: "Name", width: 30 },
+          { label: "Amount", width: 15, type: 'currency' },
+          { label: "Phone Number", width: 20 },
+          { label: "Shop", width: 20 },
+        ],
+        rows: filteredSupplies.map(supply => ({
+          cells: [supply.name || 'N/A', supply.amount || 0, supply.phone_number || 'N/A', getShopName(supply.shop_id)],
+        })),
+        emptyText: "No supplies data found for the selected filters",
+      });
     }
 
-    let printContent = `
-      <!DOCTYPE html>
-      <html>
-        <head>
-          <title>Business Report</title>
-          <style>
-            body { 
-              font-family: Arial, sans-serif; 
-              margin: 20px;
-              color: #333;
-              font-size: 12px;
-            }
-            .header { 
-              text-align: center; 
-              margin-bottom: 30px;
-              border-bottom: 2px solid #333;
-              padding-bottom: 20px;
-            }
-            .report-title { 
-              font-size: 24px; 
-              font-weight: bold;
-              margin-bottom: 10px;
-            }
-            .report-meta { 
-              font-size: 14px;
-              color: #666;
-              margin-bottom: 5px;
-            }
-            .summary-cards {
-              display: grid;
-              grid-template-columns: repeat(4, 1fr);
-              gap: 15px;
-              margin-bottom: 30px;
-            }
-            .summary-card {
-              border: 1px solid #ddd;
-              padding: 15px;
-              text-align: center;
-              border-radius: 4px;
-            }
-            .summary-value {
-              font-size: 18px;
-              font-weight: bold;
-              margin-bottom: 5px;
-            }
-            .summary-label {
-              font-size: 11px;
-              color: #666;
-            }
-            .section {
-              margin-bottom: 30px;
-              page-break-inside: avoid;
-            }
-            .section-title {
-              font-size: 16px;
-              font-weight: bold;
-              margin-bottom: 15px;
-              border-bottom: 1px solid #333;
-              padding-bottom: 5px;
-            }
-            table {
-              width: 100%;
-              border-collapse: collapse;
-              margin-bottom: 20px;
-              font-size: 11px;
-            }
-            th, td {
-              border: 1px solid #ddd;
-              padding: 8px 6px;
-              text-align: left;
-            }
-            th {
-              background-color: #f5f5f5;
-              font-weight: bold;
-            }
-            .total-row {
-              background-color: #f0f0f0;
-              font-weight: bold;
-            }
-            .no-data {
-              text-align: center;
-              padding: 20px;
-              color: #666;
-              font-style: italic;
-            }
-            @media print {
-              body { margin: 15px; }
-              .section { page-break-inside: avoid; }
-            }
-          </style>
-        </head>
-        <body>
-          <div class="header">
-            <div class="report-title">Business Report</div>
-            <div class="report-meta">Generated on: ${new Date().toLocaleDateString()}</div>
-            <div class="report-meta">Shop(s): ${selectedShops.length === 0 ? "All Shops" : selectedShops.join(', ')}</div>
-            ${startDate && endDate ? `<div class="report-meta">Period: ${startDate} to ${endDate}</div>` : ''}
-            <div class="report-meta">Report Includes: ${[
-              includeSupplies && "Supplies",
-              includeOrders && "Orders", 
-              includeIncome && "Income Records"
-            ].filter(Boolean).join(', ')}</div>
-          </div>
-    `;
+    if (includeOrders) {
+      blocks.push({
+        type: 'table',
+        heading: "Orders Summary",
+        columns: [
+          { label: "Supply", width: 24 },
+          { label: "Date", width: 11 },
+          { label: "Contact Person", width: 16 },
+          { label: "Ordered", width: 13, type: 'currency', total: true },
+          { label: "Delivered", width: 13, type: 'currency', total: true },
+          { label: "Status", width: 10 },
+          { label: "Shop", width: 16 },
+        ],
+        rows: filteredOrders.map(order => ({
+          cells: [
+            order.supply_name || 'N/A',
+            order.order_date || 'N/A',
+            order.contact_person || 'N/A',
+            order.order_amount || 0,
+            order.amount_delivered || 0,
+            order.status || 'N/A',
+            getShopName(order.shop_id),
+          ],
+        })),
+        totalLabel: "Totals",
+        emptyText: "No orders data found for the selected filters",
+      });
+      if (filteredOrders.length > 0) {
+        blocks.push({
+          type: 'summary',
+          items: [
+            { label: `Total Delivered (${deliveredOrders.length} orders)`, value: formatCurrency(totalDelivered) },
+            { label: `Total Not Delivered (${pendingOrders.length} orders)`, value: formatCurrency(totalPending) },
+            { label: `Partial Outstanding (${partialOrders.length} orders)`, value: formatCurrency(partialDifference) },
+          ],
+        });
+      }
+    }
 
-    // Add summary cards
-    printContent += `
-      <div class="summary-cards">
-        ${includeSupplies ? `
-          <div class="summary-card">
-            <div class="summary-value">${filteredSupplies.length}</div>
-            <div class="summary-label">Total Supplies</div>
-          </div>
-        ` : ''}
-        ${includeOrders ? `
-          <div class="summary-card">
-            <div class="summary-value">${formatCurrency(totalOrders)}</div>
-            <div class="summary-label">Total Orders</div>
-          </div>
-        ` : ''}
-        ${includeIncome ? `
-          <div class="summary-card">
-            <div class="summary-value">${formatCurrency(totalIncome)}</div>
-            <div class="summary-label">Total Income</div>
-          </div>
-          <div class="summary-card">
-            <div class="summary-value">${formatCurrency(netDifference)}</div>
-            <div class="summary-label">Net Difference (Income - Orders)</div>
-          </div>
-        ` : ''}
-      </div>
-    `;
+    if (includeOrders && flaggedInvoices.length > 0) {
+      blocks.push({
+        type: 'table',
+        heading: "Invoices Exceeding Deliveries",
+        columns: [
+          { label: "Invoice", width: 14 },
+          { label: "Supplier", width: 20 },
+          { label: "Date", width: 11 },
+          { label: "Ordered", width: 13, type: 'currency' },
+          { label: "Received", width: 13, type: 'currency' },
+          { label: "Invoiced", width: 13, type: 'currency' },
+          { label: "Shop", width: 16 },
+        ],
+        rows: flaggedInvoices.map(({ invoice, match }) => ({
+          cells: [
+            invoice.invoice_number,
+            getSupplier(invoice.supplier_id)?.name ?? 'N/A',
+            invoice.invoice_date,
+            match.ordered,
+            match.received,
+            match.invoiced,
+            getShopName(invoice.shop_id),
+          ],
+        })),
+      });
+    }
 
-    // Add supplies section if selected
-    if (includeSupplies && filteredSupplies.length > 0) {
-      printContent += `
-        <div class="section">
-          <div class="section-title">Supplies Inventory</div>
-          <table>
-            <thead>
-              <tr>
-                <th>Name</th>
-                <th>Amount</th>
-                <th>Phone Number</th>
-                <th>Shop</th>
-              </tr>
-            </thead>
-            <tbody>
-              ${filteredSupplies.map(supply => `
-                <tr>
-                  <td>${supply.name || 'N/A'}</td>
-                  <td>${supply.amount || 'N/A'}</td>
-                  <td>${supply.phone_number || 'N/A'}</td>
-                  <td>${supply.shop || 'N/A'}</td>
-                </tr>
-              `).join('')}
-            </tbody>
-          </table>
-        </div>
-      `;
-    } else if (includeSupplies) {
-      printContent += `
-        <div class="section">
-          <div class="section-title">Supplies Inventory</div>
-          <div class="no-data">No supplies data found for the selected filters</div>
-        </div>
-      `;
+    if (includeIncome) {
+      blocks.push({
+        type: 'table',
+        heading: "Income Records",
+        columns: [
+          { label: "Date", width: 14 },
+          { label: "Shop", width: 22 },
+          { label: "Daily Income", width: 16, type: 'currency', total: true },
+          { label: "Expenses", width: 16, type: 'currency', total: true },
+          { label: "Net Income", width: 16, type: 'currency', total: true },
+        ],
+        rows: filteredIncome.map(record => ({
+          cells: [record.date || 'N/A', getShopName(record.shop_id), record.daily_income || 0, record.expenses || 0, record.net_income || 0],
+        })),
+        totalLabel: "Totals",
+        emptyText: "No income data found for the selected filters",
+      });
     }
 
-    // Add orders section if selected
-    if (includeOrders && filteredOrders.length > 0) {
-      printContent += `
-        <div class="section">
-          <div class="section-title">Orders Summary</div>
-          
-          <div class="summary-cards" style="margin-bottom: 20px;">
-            <div class="summary-card">
-              <div class="summary-value">${formatCurrency(totalDelivered)}</div>
-              <div class="summary-label">Total Delivered (${deliveredOrders.length} orders)</div>
-            </div>
-            <div class="summary-card">
-              <div class="summary-value">${formatCurrency(totalPending)}</div>
-              <div class="summary-label">Total Not Delivered (${pendingOrders.length} orders)</div>
-            </div>
-            <div class="summary-card">
-              <div class="summary-value">${formatCurrency(partialDifference)}</div>
-              <div class="summary-label">Partial Outstanding (${partialOrders.length} orders)</div>
-            </div>
-            <div class="summary-card">
-              <div class="summary-value">${formatCurrency(totalOrders)}</div>
-              <div class="summary-label">Total Orders (${filteredOrders.length})</div>
-            </div>
-          </div>
-          
-          <table>
-            <thead>
-              <tr>
-                <th>Supply</th>
-                <th>Date</th>
-                <th>Contact Person</th>
-                <th>Ordered</th>
-                <th>Delivered</th>
-                <th>Status</th>
-                <th>Shop</th>
-              </tr>
-            </thead>
-            <tbody>
-              ${filteredOrders.map(order => `
-                <tr>
-                  <td>${order.supply_name || 'N/A'}</td>
-                  <td>${order.order_date || 'N/A'}</td>
-                  <td>${order.contact_person || 'N/A'}</td>
-                  <td>${formatCurrency(order.order_amount || 0)}</td>
-                  <td>${formatCurrency(order.amount_delivered || 0)}</td>
-                  <td>${order.status || 'N/A'}</td>
-                  <td>${order.shop || 'N/A'}</td>
-                </tr>
-              `).join('')}
-            </tbody>
-          </table>
-        </div>
-      `;
-    } else if (includeOrders) {
-      printContent += `
-        <div class="section">
-          <div class="section-title">Orders Summary</div>
-          <div class="no-data">No orders data found for the selected filters</div>
-        </div>
-      `;
+    const singleShop = selectedShops.length === 1 ? shops.find(s => s.id === selectedShops[0]) : undefined;
+    try {
+      await generateDocument({
+        kind: 'business_report',
+        title: "Business Report",
+        shopId: singleShop?.id ?? null,
+        weekStartDate: null,
+        orientation: 'landscape',
+        sections: [{
+          heading: selectedShops.length === 0 ? "All Shops" : selectedShops.map(getShopName).join(', '),
+          details: [
+            ...(startDate && endDate ? [`Period: ${startDate} to ${endDate}`] : []),
+            `Report includes: ${[
+              includeSupplies && "Supplies",
+              includeOrders && "Orders",
+              includeIncome && "Income Records",
+            ].filter(Boolean).join(', ')}`,
+          ],
+          branding: singleShop && brandingFor(singleShop),
+          blocks,
+        }],
+      });
+      toast.success("Report downloaded and filed under Documents");
+    } catch (error) {
+      toast.error("Failed to generate the report");
     }
+  };
 
-    // Add income section if selected
-    if (includeIncome && filteredIncome.length > 0) {
-      printContent += `
-        <div class="section">
-          <div class="section-title">Income Records</div>
-          <table>
-            <thead>
-              <tr>
-                <th>Date</th>
-                <th>Shop</th>
-                <th>Daily Income</th>
-                <th>Expenses</th>
-                <th>Net Income</th>
-              </tr>
-            </thead>
-            <tbody>
-              ${filteredIncome.map(record => `
-                <tr>
-                  <td>${record.date || 'N/A'}</td>
-                  <td>${record.shop || 'N/A'}</td>
-                  <td>${formatCurrency(record.daily_income || 0)}</td>
-                  <td>${formatCurrency(record.expenses || 0)}</td>
-                  <td>${formatCurrency(record.net_income || 0)}</td>
-                </tr>
-              `).join('')}
-            </tbody>
-            <tfoot>
-              <tr class="total-row">
-                <td colspan="2"><strong>Totals</strong></td>
-                <td><strong>${formatCurrency(totalIncome)}</strong></td>
-                <td><strong>${formatCurrency(totalExpenses)}</strong></td>
-                <td><strong>${formatCurrency(totalNet)}</strong></td>
-              </tr>
-            </tfoot>
-          </table>
-        </div>
-      `;
-    } else if (includeIncome) {
-      printContent += `
-        <div class="section">
-          <div class="section-title">Income Records</div>
-          <div class="no-data">No income data found for the selected filters</div>
-        </div>
-      `;
+  // The custom report as a workbook, a sheet for each section it includes
+  const handleExportCustom = (exportFormat: ExportFormat) => {
+    if (startDate && endDate && new Date(startDate) > new Date(endDate)) {
+      toast.error("Start date must be before end date");
+      return;
     }
 
-    // Close the HTML
-    printContent += `
-          <script>
-            window.onload = function() {
-              window.print();
-              setTimeout(() => {
-                window.close();
-              }, 500);
-            }
-          </script>
-        </body>
-      </html>
-    `;
+    const summary: { metric: string; count: number | null; amount: number | null }[] = [
+      ...(includeSupplies ? [{ metric: "Supplies", count: filteredSupplies.length, amount: null }] : []),
+      ...(includeOrders ? [
+        { metric: "Orders", count: filteredOrders.length, amount: totalOrders },
+        { metric: "Delivered", count: deliveredOrders.length, amount: totalDelivered },
+        { metric: "Not Delivered", count: pendingOrders.length, amount: totalPending },
+        { metric: "Partial Outstanding", count: partialOrders.length, amount: partialDifference },
+      ] : []),
+      ...(includeIncome ? [
+        { metric: "Income", count: filteredIncome.length, amount: totalIncome },
+        { metric: "Expenses", count: null, amount: totalExpenses },
+        { metric: "Net Income", count: null, amount: totalNet },
+        { metric: "Net Difference (Income - Orders)", count: null, amount: netDifference },
+      ] : []),
+    ];
 
-    printWindow.document.write(printContent);
-    printWindow.document.close();
-    toast.success("Generating custom report...");
+    const sheets = [
+      toSheet("Summary", [
+        { header: "Metric", value: row => row.metric },
+        { header: "Count", type: "number", value: row => row.count },
+        { header: "Amount", type: "currency", value: row => row.amount },
+      ], summary),
+    ];
+
+    if (includeSupplies) {
+      sheets.push(toSheet("Supplies", [
+        { header: "Name", value: supply => supply.name },
+        { header: "Amount", type: "currency", value: supply => supply.amount },
+        { header: "Phone Number", value: supply => supply.phone_number },
+        { header: "Shop", value: supply => getShopName(supply.shop_id) },
+      ], filteredSupplies));
+    }
+
+    if (includeOrders) {
+      sheets.push(toSheet("Orders", [
+        { header: "Supply", value: order => order.supply_name },
+        { header: "Date", type: "date", value: order => order.order_date },
+        { header: "Contact Person", value: order => order.contact_person },
+        { header: "Ordered", type: "currency", value: order => order.order_amount },
+        { header: "Delivered", type: "currency", value: order => order.amount_delivered },
+        { header: "Status", value: order => order.status },
+        { header: "Shop", value: order => getShopName(order.shop_id) },
+      ], filteredOrders));
+
+      if (flaggedInvoices.length > 0) {
+        sheets.push(toSheet("Invoices Exceeding Deliveries", [
+          { header: "Invoice", value: ({ invoice }) => invoice.invoice_number },
+          { header: "Supplier", value: ({ invoice }) => getSupplier(invoice.supplier_id)?.name },
+          { header: "Date", type: "date", value: ({ invoice }) => invoice.invoice_date },
+          { header: "Ordered", type: "currency", value: ({ match }) => match.ordered },
+          { header: "Received", type: "currency", value: ({ match }) => match.received },
+          { header: "Invoiced", type: "currency", value: ({ match }) => match.invoiced },
+          { header: "Shop", value: ({ invoice }) => getShopName(invoice.shop_id) },
+        ], flaggedInvoices));
+      }
+    }
+
+    if (includeIncome) {
+      sheets.push(toSheet("Income", [
+        { header: "Date", type: "date", value: record => record.date },
+        { header: "Shop", value: record => getShopName(record.shop_id) },
+        { header: "Daily Income", type: "currency", value: record => record.daily_income },
+        { header: "Expenses", type: "currency", value: record => record.expenses },
+        { header: "Net Income", type: "currency", value: record => record.net_income },
+      ], filteredIncome));
+    }
+
+    exportSheets(sheets, "Business Report", exportFormat);
   };
 
   const handlePrintCurrent = () => {
@@ -487,7 +386,7 @@ const Reports = ({ selectedShop }: ReportsProps) => {
   // Select all supplies for current filter
   const selectAllSuppliesForPrint = () => {
     const filteredIds = (orderFormShop 
-      ? supplies.filter(s => s.shop === orderFormShop) 
+      ? supplies.filter(s => s.shop_id === orderFormShop) 
       : supplies
     ).map(s => s.id);
     setSelectedSuppliesForPrint(filteredIds);
@@ -498,139 +397,34 @@ const Reports = ({ selectedShop }: ReportsProps) => {
     setSelectedSuppliesForPrint([]);
   };
 
-  const handlePrintOrderForm = () => {
+  const handleDownloadOrderForm = async () => {
     if (selectedSuppliesForPrint.length === 0) {
       toast.error("Please select at least one supply");
       return;
     }
 
     const suppliesToPrint = supplies.filter(s => selectedSuppliesForPrint.includes(s.id));
-    const shopName = orderFormShop || "All Shops";
+    const singleShop = orderFormShop && orderFormShop !== "all" ? shops.find(s => s.id === orderFormShop) : undefined;
 
-    const printWindow = window.open('', '_blank');
-    if (!printWindow) {
-      toast.error("Please allow pop-ups to print the form");
-      return;
+    try {
+      await generateDocument({
+        kind: 'order_form',
+        title: "Supplies Order Form",
+        shopId: singleShop?.id ?? null,
+        weekStartDate: null,
+        sections: [
+          supplyChecklistSection(
+            singleShop?.name ?? "All Shops",
+            suppliesToPrint.map(supply => ({ name: supply.name, amount: supply.amount })),
+            false,
+            singleShop && brandingFor(singleShop)
+          ),
+        ],
+      });
+      toast.success("Order form downloaded and filed under Documents");
+    } catch (error) {
+      toast.error("Failed to generate the order form");
     }
-
-    const printContent = `
-      <!DOCTYPE html>
-      <html>
-        <head>
-          <title>Supplies Order Form - ${shopName}</title>
-          <style>
-            body { 
-              font-family: Arial, sans-serif; 
-              margin: 20px;
-              color: #333;
-            }
-            .header { 
-              text-align: center; 
-              margin-bottom: 30px;
-              border-bottom: 2px solid #333;
-              padding-bottom: 15px;
-            }
-            .form-title { 
-              font-size: 22px; 
-              font-weight: bold;
-              margin-bottom: 8px;
-            }
-            .shop-name {
-              font-size: 18px;
-              color: #555;
-              margin-bottom: 5px;
-            }
-            .print-date {
-              font-size: 12px;
-              color: #777;
-            }
-            table {
-              width: 100%;
-              border-collapse: collapse;
-              margin-top: 20px;
-            }
-            th, td {
-              border: 1px solid #333;
-              padding: 12px 10px;
-              text-align: left;
-            }
-            th {
-              background-color: #f0f0f0;
-              font-weight: bold;
-              font-size: 13px;
-            }
-            td {
-              font-size: 12px;
-            }
-            .remark-col {
-              width: 25%;
-            }
-            .ordered-col {
-              width: 12%;
-              text-align: center;
-            }
-            .checkbox {
-              width: 18px;
-              height: 18px;
-              border: 2px solid #333;
-              display: inline-block;
-            }
-            .total-row {
-              background-color: #f5f5f5;
-              font-weight: bold;
-            }
-            @media print {
-              body { margin: 15px; }
-            }
-          </style>
-        </head>
-        <body>
-          <div class="header">
-            <div class="form-title">Supplies Order Form</div>
-            <div class="shop-name">${shopName}</div>
-            <div class="print-date">Date: ${new Date().toLocaleDateString()}</div>
-          </div>
-          
-          <table>
-            <thead>
-              <tr>
-                <th>Supply Name</th>
-                <th>Suggested Amount</th>
-                <th class="remark-col">Remark</th>
-                <th class="ordered-col">Ordered</th>
-              </tr>
-            </thead>
-            <tbody>
-              ${suppliesToPrint.map(supply => `
-                <tr>
-                  <td>${supply.name}</td>
-                  <td>${formatCurrency(supply.amount)}</td>
-                  <td class="remark-col"></td>
-                  <td class="ordered-col"><div class="checkbox"></div></td>
-                </tr>
-              `).join('')}
-              <tr class="total-row">
-                <td>Total</td>
-                <td>${formatCurrency(suppliesToPrint.reduce((sum, s) => sum + s.amount, 0))}</td>
-                <td></td>
-                <td></td>
-              </tr>
-            </tbody>
-          </table>
-          
-          <script>
-            window.onload = function() {
-              window.print();
-              setTimeout(() => window.close(), 500);
-            }
-          </script>
-        </body>
-      </html>
-    `;
-
-    printWindow.document.write(printContent);
-    printWindow.document.close();
-    toast.success("Generating order form...");
   };
 
   if (loading) {
@@ -654,9 +448,10 @@ const Reports = ({ selectedShop }: ReportsProps) => {
             <Printer className="mr-2 h-4 w-4" />
             Print Current View
           </Button>
-          <Button onClick={handlePrintCustom}>
+          <ExportMenu onExport={handleExportCustom} />
+          <Button onClick={handleDownloadCustom} disabled={generating}>
             <FileText className="mr-2 h-4 w-4" />
-            Generate & Print
+            {generating ? "Generating..." : "Generate PDF"}
           </Button>
         </div>
       </div>
@@ -695,17 +490,17 @@ const Reports = ({ selectedShop }: ReportsProps) => {
               </div>
               <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3 p-4 border rounded-md max-h-40 overflow-y-auto">
                 {shops.map((shop) => (
-                  <div key={shop} className="flex items-center space-x-2">
+                  <div key={shop.id} className="flex items-center space-x-2">
                     <Checkbox 
-                      id={`shop-${shop}`}
-                      checked={selectedShops.includes(shop)}
-                      onCheckedChange={() => toggleShop(shop)}
+                      id={`shop-${shop.id}`}
+                      checked={selectedShops.includes(shop.id)}
+                      onCheckedChange={() => toggleShop(shop.id)}
                     />
                     <label 
-                      htmlFor={`shop-${shop}`}
+                      htmlFor={`shop-${shop.id}`}
                       className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70 cursor-pointer"
                     >
-                      {shop}
+                      {shop.name}
                     </label>
                   </div>
                 ))}
@@ -779,7 +574,7 @@ const Reports = ({ selectedShop }: ReportsProps) => {
               <div className="flex flex-wrap gap-2 mt-2">
                 {selectedShops.length > 0 && (
                   <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
-                    Shops: {selectedShops.join(', ')}
+                    Shops: {selectedShops.map(getShopName).join(', ')}
                   </span>
                 )}
                 {startDate && (
@@ -798,14 +593,14 @@ const Reports = ({ selectedShop }: ReportsProps) => {
         </CardContent>
       </Card>
 
-      {/* Print Supplies Order Form */}
+      {/* Supplies Order Form */}
       <Card className="print:hidden">
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <ClipboardList className="h-5 w-5" />
-            Print Supplies Order Form
+            Supplies Order Form
           </CardTitle>
-          <CardDescription>Select supplies to print an order form with checkboxes</CardDescription>
+          <CardDescription>Select supplies for an order form with checkboxes, downloaded as a PDF</CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
           <div className="space-y-2">
@@ -819,7 +614,7 @@ const Reports = ({ selectedShop }: ReportsProps) => {
               <SelectContent>
                 <SelectItem value="all">All Shops</SelectItem>
                 {shops.map((shop) => (
-                  <SelectItem key={shop} value={shop}>{shop}</SelectItem>
+                  <SelectItem key={shop.id} value={shop.id}>{shop.name}</SelectItem>
                 ))}
               </SelectContent>
             </Select>
@@ -851,7 +646,7 @@ const Reports = ({ selectedShop }: ReportsProps) => {
             </div>
             <div className="grid grid-cols-2 md:grid-cols-3 gap-3 p-4 border rounded-md max-h-60 overflow-y-auto">
               {(orderFormShop && orderFormShop !== "all" 
-                ? supplies.filter(s => s.shop === orderFormShop) 
+                ? supplies.filter(s => s.shop_id === orderFormShop) 
                 : supplies
               ).map((supply) => (
                 <div key={supply.id} className="flex items-center space-x-2">
@@ -878,12 +673,12 @@ const Reports = ({ selectedShop }: ReportsProps) => {
           )}
           
           <Button 
-            onClick={handlePrintOrderForm}
-            disabled={selectedSuppliesForPrint.length === 0}
+            onClick={handleDownloadOrderForm}
+            disabled={generating || selectedSuppliesForPrint.length === 0}
             className="w-full md:w-auto"
           >
-            <Printer className="mr-2 h-4 w-4" />
-            Print Order Form
+            <Download className="mr-2 h-4 w-4" />
+            {generating ? "Generating..." : "Download Order Form"}
           </Button>
         </CardContent>
       </Card>
@@ -893,7 +688,7 @@ const Reports = ({ selectedShop }: ReportsProps) => {
         <h1 className="text-2xl font-bold">Business Report</h1>
         <p className="text-sm text-gray-600">
           Generated on {new Date().toLocaleDateString()}
-          {selectedShops.length > 0 && ` - ${selectedShops.join(', ')}`}
+          {selectedShops.length > 0 && ` - ${selectedShops.map(getShopName).join(', ')}`}
           {startDate && endDate && ` - ${startDate} to ${endDate}`}
         </p>
         <p className="text-sm text-gray-600">
@@ -991,7 +786,7 @@ const Reports = ({ selectedShop }: ReportsProps) => {
                         <td className="p-2">{supply.name}</td>
                         <td className="p-2">{supply.amount}</td>
                         <td className="p-2">{supply.phone_number}</td>
-                        <td className="p-2">{supply.shop}</td>
+                        <td className="p-2">{getShopName(supply.shop_id)}</td>
                       </tr>
                     ))}
                   </tbody>
@@ -1009,6 +804,61 @@ const Reports = ({ selectedShop }: ReportsProps) => {
         </Card>
       )}
 
+      {/* Price Changes Section */}
+      {includeSupplies && (
+        <Card className="print:break-inside-avoid">
+          <CardHeader>
+            <CardTitle>Price Changes</CardTitle>
+            <CardDescription>Unit prices set on supplies or paid on orders, newest first</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {priceChanges.length > 0 ? (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="text-left p-2">Date</th>
+                      <th className="text-left p-2">Supply</th>
+                      <th className="text-left p-2">Shop</th>
+                      <th className="text-left p-2">Source</th>
+                      <th className="text-left p-2">Old Price</th>
+                      <th className="text-left p-2">New Price</th>
+                      <th className="text-left p-2">Change</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {priceChanges.map(({ entry, previous }) => {
+                      const supply = supplies.find(s => s.id === entry.supply_id);
+                      const change = previous.unit_price > 0 && previous.unit === entry.unit
+                        ? ((entry.unit_price - previous.unit_price) / previous.unit_price * 100).toFixed(1)
+                        : null;
+
+                      return (
+                        <tr key={entry.id} className="border-b">
+                          <td className="p-2">{new Date(entry.recorded_at).toLocaleDateString()}</td>
+                          <td className="p-2">{supply?.name}</td>
+                          <td className="p-2">{supply ? getShopName(supply.shop_id) : '-'}</td>
+                          <td className="p-2">{entry.source === 'order' ? 'Order' : 'Supply list'}</td>
+                          <td className="p-2">{formatCurrency(previous.unit_price)} / {previous.unit}</td>
+                          <td className="p-2">{formatCurrency(entry.unit_price)} / {entry.unit}</td>
+                          <td className={`p-2 ${change && Number(change) > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                            {change === null ? '-' : `${Number(change) > 0 ? '+' : ''}${change}%`}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <div className="text-center py-8 text-muted-foreground">
+                No price changes found for the selected shops and dates
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Orders Section */}
       {includeOrders && (
         <Card className="print:break-inside-avoid">
@@ -1043,7 +893,7 @@ const Reports = ({ selectedShop }: ReportsProps) => {
                         <td className="p-2">{order.contact_person}</td>
                         <td className="p-2">{formatCurrency(order.order_amount)}</td>
                         <td className="p-2">{order.status}</td>
-                        <td className="p-2">{order.shop}</td>
+                        <td className="p-2">{getShopName(order.shop_id)}</td>
                       </tr>
                     ))}
                   </tbody>
@@ -1061,6 +911,48 @@ const Reports = ({ selectedShop }: ReportsProps) => {
         </Card>
       )}
 
+      {/* Invoice Matching Section */}
+      {includeOrders && flaggedInvoices.length > 0 && (
+        <Card className="print:break-inside-avoid border-red-200">
+          <CardHeader>
+            <CardTitle>Invoices Exceeding Deliveries</CardTitle>
+            <CardDescription>Supplier invoices billing for more than was ordered or delivered</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left p-2">Invoice</th>
+                    <th className="text-left p-2">Supplier</th>
+                    <th className="text-left p-2">Date</th>
+                    <th className="text-left p-2">Ordered</th>
+                    <th className="text-left p-2">Received</th>
+                    <th className="text-left p-2">Invoiced</th>
+                    <th className="text-left p-2">Issue</th>
+                    <th className="text-left p-2">Shop</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {flaggedInvoices.map(({ invoice, match }) => (
+                    <tr key={invoice.id} className="border-b">
+                      <td className="p-2">{invoice.invoice_number}</td>
+                      <td className="p-2">{getSupplier(invoice.supplier_id)?.name ?? '-'}</td>
+                      <td className="p-2">{invoice.invoice_date}</td>
+                      <td className="p-2">{formatCurrency(match.ordered)}</td>
+                      <td className="p-2">{formatCurrency(match.received)}</td>
+                      <td className="p-2 text-red-600">{formatCurrency(match.invoiced)}</td>
+                      <td className="p-2">{MATCH_LABELS[match.status]}</td>
+                      <td className="p-2">{getShopName(invoice.shop_id)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Income Section */}
       {includeIncome && (
         <Card className="print:break-inside-avoid">
@@ -1090,7 +982,7 @@ const Reports = ({ selectedShop }: ReportsProps) => {
                     {filteredIncome.map((record) => (
                       <tr key={record.id} className="border-b">
                         <td className="p-2">{record.date}</td>
-                        <td className="p-2">{record.shop}</td>
+                        <td className="p-2">{getShopName(record.shop_id)}</td>
                         <td className="p-2">{formatCurrency(record.daily_income)}</td>
                         <td className="p-2">{formatCurrency(record.expenses)}</td>
                         <td className="p-2">{formatCurrency(record.net_income)}</td>
@@ -1119,6 +1011,9 @@ const Reports = ({ selectedShop }: ReportsProps) => {
         </Card>
       )}
 
+      {/* VAT201 Returns */}
+      <VatReport selectedShop={selectedShop} />
+
       {/* Empty State */}
       {!includeSupplies && !includeOrders && !includeIncome && (
         <Card>
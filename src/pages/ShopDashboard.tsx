@@ -2,73 +2,33 @@ import { formatCurrency } from "@/lib/currency";
 import MetricCard from "@/components/dashboard/MetricCard";
 import { Package, ShoppingCart, DollarSign, TrendingUp } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { supabase } from "@/integrations/supabase/client";
-import { useEffect, useState } from 'react';
 import { useParams } from 'react-router-dom';
-import type { Tables } from "@/integrations/supabase/types";
-
-type Supply = Tables<'supplies'>;
-type Order = Tables<'orders'>;
-type IncomeRecord = Tables<'income_records'>;
+import { useSupplies } from "@/hooks/useSupplies";
+import { useOrders } from "@/hooks/useOrders";
+import { useIncomeRecords } from "@/hooks/useIncomeRecords";
+import { useShops } from "@/hooks/useShops";
 
 const ShopDashboard = () => {
   const { shopId } = useParams<{ shopId: string }>();
   const selectedShop = decodeURIComponent(shopId || '');
-  const [supplies, setSupplies] = useState<Supply[]>([]);
-  const [orders, setOrders] = useState<Order[]>([]);
-  const [incomeRecords, setIncomeRecords] = useState<IncomeRecord[]>([]);
-  const [loading, setLoading] = useState(true);
-
-  // Fetch data from Supabase
-  const fetchData = async () => {
-    try {
-      setLoading(true);
-      
-      // Fetch supplies
-      const { data: suppliesData, error: suppliesError } = await supabase
-        .from('supplies')
-        .select('*');
-      
-      // Fetch orders
-      const { data: ordersData, error: ordersError } = await supabase
-        .from('orders')
-        .select('*');
-      
-      // Fetch income records
-      const { data: incomeData, error: incomeError } = await supabase
-        .from('income_records')
-        .select('*');
-
-      if (suppliesError) console.error('Error fetching supplies:', suppliesError);
-      if (ordersError) console.error('Error fetching orders:', ordersError);
-      if (incomeError) console.error('Error fetching income:', incomeError);
-
-      setSupplies(suppliesData || []);
-      setOrders(ordersData || []);
-      setIncomeRecords(incomeData || []);
-    } catch (error) {
-      console.error('Error fetching data:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  useEffect(() => {
-    fetchData();
-  }, []);
+  const { supplies, loading: suppliesLoading } = useSupplies();
+  const { orders, loading: ordersLoading } = useOrders();
+  const { incomeRecords, loading: incomeLoading } = useIncomeRecords();
+  const { getShopName, loading: shopsLoading } = useShops();
+  const loading = suppliesLoading || ordersLoading || incomeLoading || shopsLoading;
 
   // Filter by shop
   const filteredSupplies = selectedShop === "All" 
     ? supplies 
-    : supplies.filter(s => s.shop === selectedShop);
+    : supplies.filter(s => s.shop_id === selectedShop);
   
   const filteredOrders = selectedShop === "All" 
     ? orders 
-    : orders.filter(o => o.shop === selectedShop);
+    : orders.filter(o => o.shop_id === selectedShop);
   
   const filteredIncome = selectedShop === "All" 
     ? incomeRecords 
-    : incomeRecords.filter(i => i.shop === selectedShop);
+    : incomeRecords.filter(i => i.shop_id === selectedShop);
 
   // Calculate metrics
   const pendingOrders = filteredOrders.filter(o => o.status === "Pending");
@@ -99,7 +59,7 @@ const ShopDashboard = () => {
       <div>
         <h2 className="text-3xl font-bold tracking-tight">Dashboard</h2>
         <p className="text-muted-foreground">
-          Overview of {selectedShop === "All" ? "all shops" : `Shop ${selectedShop}`}
+          Overview of {selectedShop === "All" ? "all shops" : getShopName(selectedShop)}
         </p>
       </div>
 
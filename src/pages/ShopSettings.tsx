@@ -0,0 +1,321 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Pencil, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { useShops, type Shop } from "@/hooks/useShops";
+import { useMemberships } from "@/hooks/useMemberships";
+import { STANDARD_VAT_RATE, VAT_CATEGORY_LABELS } from "@/lib/vat";
+
+// Logos are embedded in every PDF, so they are kept small
+const MAX_LOGO_BYTES = 1024 * 1024;
+const LOGO_TYPES = ["image/png", "image/jpeg"];
+
+const ShopSettings = () => {
+  const { shops, loading, updateShop, deleteShop, setShopLogo, getLogoUrl } = useShops();
+  const { roleFor } = useMemberships();
+  const [editingShop, setEditingShop] = useState<Shop | null>(null);
+  // A new logo to upload, null to take the logo off, undefined to keep it
+  const [logoFile, setLogoFile] = useState<File | null | undefined>(undefined);
+  const logoInput = useRef<HTMLInputElement>(null);
+
+  const [formData, setFormData] = useState({
+    name: "",
+    address: "",
+    phone: "",
+    is_active: true,
+    deposit_alert_days: 3,
+    vat_rate: STANDARD_VAT_RATE,
+    vat_category: "A",
+    vat_number: "",
+    document_footer: "",
+  });
+
+  const ownedShops = shops.filter(shop => roleFor(shop.id) === "owner");
+
+  const handleEdit = (shop: Shop) => {
+    setEditingShop(shop);
+    setLogoFile(undefined);
+    setFormData({
+      name: shop.name,
+      address: shop.address || "",
+      phone: shop.phone || "",
+      is_active: shop.is_active,
+      deposit_alert_days: shop.deposit_alert_days,
+      vat_rate: shop.vat_rate,
+      vat_category: shop.vat_category,
+      vat_number: shop.vat_number || "",
+      document_footer: shop.document_footer || "",
+    });
+  };
+
+  const handleLogoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    if (!LOGO_TYPES.includes(file.type)) {
+      toast.error("The logo must be a PNG or JPEG image");
+      return;
+    }
+    if (file.size > MAX_LOGO_BYTES) {
+      toast.error("The logo must be smaller than 1 MB");
+      return;
+    }
+    setLogoFile(file);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingShop) return;
+
+    try {
+      await updateShop(editingShop.id, {
+        name: formData.name.trim(),
+        address: formData.address.trim() || null,
+        phone: formData.phone.trim() || null,
+        is_active: formData.is_active,
+        deposit_alert_days: formData.deposit_alert_days,
+        vat_rate: formData.vat_rate,
+        vat_category: formData.vat_category,
+        vat_number: formData.vat_number.trim() || null,
+        document_footer: formData.document_footer.trim() || null,
+      });
+      if (logoFile !== undefined) {
+        await setShopLogo(editingShop, logoFile);
+      }
+      toast.success("Shop updated successfully");
+      setEditingShop(null);
+    } catch (error) {
+      toast.error(error.message || "Failed to update shop");
+    }
+  };
+
+  const handleDelete = async (shop: Shop) => {
+    if (!confirm(`Move ${shop.name} and all of its supplies, orders and cash ups to the Recycle Bin?`)) return;
+
+    try {
+      await deleteShop(shop.id);
+      toast.success("Shop moved to the Recycle Bin");
+    } catch (error) {
+      toast.error(error.message || "Failed to delete shop");
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-lg">Loading shops...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-3xl font-bold tracking-tight">Shop Settings</h2>
+        <p className="text-muted-foreground">Names, contact details and status of the shops you own</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Your Shops</CardTitle>
+          <CardDescription>
+            Archived shops keep their history but can no longer be picked for new supplies, orders or cash ups
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {ownedShops.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              You do not own any shops yet.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Address</TableHead>
+                  <TableHead>Phone</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {ownedShops.map((shop) => (
+                  <TableRow key={shop.id}>
+                    <TableCell className="font-medium">{shop.name}</TableCell>
+                    <TableCell>{shop.address || "-"}</TableCell>
+                    <TableCell>{shop.phone || "-"}</TableCell>
+                    <TableCell>
+                      <Badge variant={shop.is_active ? "outline" : "secondary"}>
+                        {shop.is_active ? "Active" : "Archived"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button variant="ghost" size="icon" onClick={() => handleEdit(shop)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => handleDelete(shop)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!editingShop} onOpenChange={(open) => !open && setEditingShop(null)}>
+        <DialogContent className="w-[90vw] sm:max-w-md max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Edit Shop</DialogTitle>
+            <DialogDescription>Renaming a shop updates it everywhere</DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="shopName">Shop Name *</Label>
+              <Input
+                id="shopName"
+                required
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="shopAddress">Address</Label>
+              <Input
+                id="shopAddress"
+                value={formData.address}
+                onChange={(e) => setFormData({ ...formData, address: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="shopPhone">Phone</Label>
+              <Input
+                id="shopPhone"
+                type="tel"
+                value={formData.phone}
+                onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="depositAlertDays">Warn About Unbanked Cash After (days)</Label>
+              <Input
+                id="depositAlertDays"
+                type="number"
+                min="0"
+                step="1"
+                value={formData.deposit_alert_days}
+                onChange={(e) => setFormData({ ...formData, deposit_alert_days: parseInt(e.target.value) || 0 })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="vatRate">Standard VAT Rate (%)</Label>
+              <Input
+                id="vatRate"
+                type="number"
+                min="0"
+                step="0.01"
+                value={formData.vat_rate}
+                onChange={(e) => setFormData({ ...formData, vat_rate: parseFloat(e.target.value) || 0 })}
+              />
+              <p className="text-xs text-muted-foreground">
+                Used for new supplies, expenses and cash ups. Set to 0 if the shop is not a VAT vendor.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label>VAT Return Periods</Label>
+              <Select value={formData.vat_category} onValueChange={(value) => setFormData({ ...formData, vat_category: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(VAT_CATEGORY_LABELS).map(([category, label]) => (
+                    <SelectItem key={category} value={category}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="vatNumber">VAT Number</Label>
+              <Input
+                id="vatNumber"
+                value={formData.vat_number}
+                onChange={(e) => setFormData({ ...formData, vat_number: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Logo</Label>
+              <div className="flex items-center gap-3">
+                {logoFile ? (
+                  <span className="text-sm truncate">{logoFile.name}</span>
+                ) : logoFile === undefined && editingShop?.logo_path ? (
+                  <img src={getLogoUrl(editingShop.logo_path)} alt={`${editingShop.name} logo`} className="h-12 max-w-[160px] object-contain" />
+                ) : (
+                  <span className="text-sm text-muted-foreground">No logo</span>
+                )}
+                <div className="ml-auto flex gap-2">
+                  <input
+                    ref={logoInput}
+                    type="file"
+                    accept={LOGO_TYPES.join(",")}
+                    className="hidden"
+                    onChange={handleLogoChange}
+                  />
+                  <Button type="button" variant="outline" size="sm" onClick={() => logoInput.current?.click()}>
+                    Choose...
+                  </Button>
+                  {(logoFile || (logoFile === undefined && editingShop?.logo_path)) && (
+                    <Button type="button" variant="ghost" size="sm" onClick={() => setLogoFile(null)}>
+                      Remove
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="documentFooter">Document Footer</Label>
+              <Textarea
+                id="documentFooter"
+                rows={2}
+                value={formData.document_footer}
+                onChange={(e) => setFormData({ ...formData, document_footer: e.target.value })}
+              />
+              <p className="text-xs text-muted-foreground">
+                The logo, address, VAT number and footer are printed on the shop's delivery lists, order forms and reports.
+              </p>
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="shopActive">Active</Label>
+              <Switch
+                id="shopActive"
+                checked={formData.is_active}
+                onCheckedChange={(checked) => setFormData({ ...formData, is_active: checked })}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setEditingShop(null)}>
+                Cancel
+              </Button>
+              <Button type="submit">Save</Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ShopSettings;
@@ -0,0 +1,399 @@
+import { useState } from "react";
+import { ShopId } from "@/types";
+import { formatCurrency } from "@/lib/currency";
+import { DAY_MS } from "@/lib/numbers";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Pencil, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import { useSuppliers, WEEKDAYS, type SupplierContact, type SupplierRecord } from "@/hooks/useSuppliers";
+import { useOrders, type OrderRecord } from "@/hooks/useOrders";
+import { useShops } from "@/hooks/useShops";
+
+interface SuppliersProps {
+  selectedShop: ShopId;
+}
+
+// Orders older than this should have arrived by now
+const EXPECTED_DELIVERY_DAYS = 7;
+
+const getSupplierStats = (orders: OrderRecord[]) => {
+  const openOrders = orders.filter(o => o.status === "Pending" || o.status === "Partial");
+  const delivered = orders.filter(o => o.status === "Delivered");
+
+  // Only orders that should have arrived count towards reliability
+  const cutoff = Date.now() - EXPECTED_DELIVERY_DAYS * DAY_MS;
+  const due = orders.filter(o => o.status === "Delivered" || new Date(o.order_date).getTime() < cutoff);
+  const reliability = due.length > 0 ? Math.round(delivered.length / due.length * 100) : null;
+
+  const leadTimes = delivered
+    .filter(o => o.delivery_date)
+    .map(o => (new Date(o.delivery_date).getTime() - new Date(o.order_date).getTime()) / DAY_MS);
+  const averageLeadTime = leadTimes.length > 0
+    ? (leadTimes.reduce((sum, days) => sum + days, 0) / leadTimes.length).toFixed(1)
+    : null;
+
+  const spendByShop = orders.reduce<Record<string, number>>((acc, o) => {
+    acc[o.shop_id] = (acc[o.shop_id] || 0) + (o.amount_delivered || 0);
+    return acc;
+  }, {});
+
+  return { openOrders, reliability, averageLeadTime, spendByShop };
+};
+
+const formatTerms = (days: number) => days === 0 ? "Cash on delivery" : `${days} days`;
+
+const Suppliers = ({ selectedShop }: SuppliersProps) => {
+  const { suppliers, loading: suppliersLoading, createSupplier, updateSupplier, deleteSupplier } = useSuppliers();
+  const { orders, loading: ordersLoading } = useOrders();
+  const { getShopName, loading: shopsLoading } = useShops();
+  const loading = suppliersLoading || ordersLoading || shopsLoading;
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<SupplierRecord | null>(null);
+
+  const emptyForm = {
+    name: "",
+    contacts: [{ name: "", phone: "" }] as SupplierContact[],
+    email: "",
+    account_number: "",
+    payment_terms_days: 0,
+    delivery_days: [] as number[],
+    notes: "",
+  };
+  const [formData, setFormData] = useState(emptyForm);
+
+  const shopOrders = selectedShop === "All" ? orders : orders.filter(o => o.shop_id === selectedShop);
+
+  const updateContact = (index: number, values: Partial<SupplierContact>) => {
+    setFormData({
+      ...formData,
+      contacts: formData.contacts.map((c, i) => (i === index ? { ...c, ...values } : c)),
+    });
+  };
+
+  const toggleDeliveryDay = (day: number) => {
+    setFormData({
+      ...formData,
+      delivery_days: formData.delivery_days.includes(day)
+        ? formData.delivery_days.filter(d => d !== day)
+        : [...formData.delivery_days, day].sort(),
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const values = {
+      name: formData.name.trim(),
+      contacts: formData.contacts
+        .map(c => ({ name: c.name.trim(), phone: c.phone.trim() }))
+        .filter(c => c.name || c.phone),
+      email: formData.email.trim() || null,
+      account_number: formData.account_number.trim() || null,
+      payment_terms_days: formData.payment_terms_days,
+      delivery_days: formData.delivery_days,
+      notes: formData.notes.trim() || null,
+    };
+
+    try {
+      if (editingSupplier) {
+        await updateSupplier(editingSupplier.id, values);
+        toast.success("Supplier updated successfully");
+      } else {
+        await createSupplier(values);
+        toast.success("Supplier added successfully");
+      }
+
+      setIsDialogOpen(false);
+      resetForm();
+    } catch (error) {
+      toast.error(error.message || "Failed to save supplier");
+    }
+  };
+
+  const handleEdit = (supplier: SupplierRecord) => {
+    setEditingSupplier(supplier);
+    setFormData({
+      name: supplier.name,
+      contacts: supplier.contacts.length > 0 ? supplier.contacts : [{ name: "", phone: "" }],
+      email: supplier.email || "",
+      account_number: supplier.account_number || "",
+      payment_terms_days: supplier.payment_terms_days,
+      delivery_days: supplier.delivery_days,
+      notes: supplier.notes || "",
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleDelete = async (supplier: SupplierRecord) => {
+    if (!confirm(`Delete ${supplier.name}? Its supplies and orders are kept but no longer linked to a supplier.`)) return;
+
+    try {
+      await deleteSupplier(supplier.id);
+      toast.success("Supplier deleted");
+    } catch (error) {
+      toast.error(error.message || "Failed to delete supplier");
+    }
+  };
+
+  const resetForm = () => {
+    setEditingSupplier(null);
+    setFormData(emptyForm);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-lg">Loading suppliers...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight">Suppliers</h2>
+          <p className="text-muted-foreground">Who you buy from, how to reach them and how well they deliver</p>
+        </div>
+        <Dialog open={isDialogOpen} onOpenChange={(open) => {
+          setIsDialogOpen(open);
+          if (!open) resetForm();
+        }}>
+          <DialogTrigger asChild>
+            <Button>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Supplier
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{editingSupplier ? "Edit Supplier" : "Add New Supplier"}</DialogTitle>
+              <DialogDescription>Suppliers are shared by all shops</DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="supplierName">Supplier Name *</Label>
+                <Input
+                  id="supplierName"
+                  required
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Contact People</Label>
+                {formData.contacts.map((contact, index) => (
+                  <div key={index} className="flex gap-2">
+                    <Input
+                      placeholder="Name"
+                      value={contact.name}
+                      onChange={(e) => updateContact(index, { name: e.target.value })}
+                    />
+                    <Input
+                      type="tel"
+                      placeholder="Phone"
+                      value={contact.phone}
+                      onChange={(e) => updateContact(index, { phone: e.target.value })}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setFormData({ ...formData, contacts: formData.contacts.filter((_, i) => i !== index) })}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setFormData({ ...formData, contacts: [...formData.contacts, { name: "", phone: "" }] })}
+                >
+                  <Plus className="mr-2 h-3 w-3" />
+                  Add Contact
+                </Button>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="supplierEmail">Email</Label>
+                  <Input
+                    id="supplierEmail"
+                    type="email"
+                    value={formData.email}
+                    onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="accountNumber">Account Number</Label>
+                  <Input
+                    id="accountNumber"
+                    value={formData.account_number}
+                    onChange={(e) => setFormData({ ...formData, account_number: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="paymentTerms">Payment Terms (days after delivery)</Label>
+                <Input
+                  id="paymentTerms"
+                  type="number"
+                  min="0"
+                  value={formData.payment_terms_days}
+                  onChange={(e) => setFormData({ ...formData, payment_terms_days: parseInt(e.target.value) || 0 })}
+                />
+                <p className="text-xs text-muted-foreground">Use 0 for cash on delivery</p>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Delivery Days</Label>
+                <div className="flex flex-wrap gap-4">
+                  {WEEKDAYS.map((day, index) => (
+                    <div key={day} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`delivery-day-${index}`}
+                        checked={formData.delivery_days.includes(index)}
+                        onCheckedChange={() => toggleDeliveryDay(index)}
+                      />
+                      <label htmlFor={`delivery-day-${index}`} className="text-sm cursor-pointer">{day}</label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="supplierNotes">Notes</Label>
+                <Textarea
+                  id="supplierNotes"
+                  value={formData.notes}
+                  onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                />
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit">
+                  {editingSupplier ? "Update" : "Add"} Supplier
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Supplier Directory</CardTitle>
+          <CardDescription>
+            Orders and spend for {selectedShop === "All" ? "all shops" : getShopName(selectedShop)}. Reliability is the share of
+            orders delivered in full out of those placed more than {EXPECTED_DELIVERY_DAYS} days ago or already delivered.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {suppliers.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No suppliers yet. Click "Add Supplier" to create one.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Supplier</TableHead>
+                  <TableHead>Contacts</TableHead>
+                  <TableHead>Terms</TableHead>
+                  <TableHead>Delivers</TableHead>
+                  <TableHead>Open Orders</TableHead>
+                  <TableHead>Reliability</TableHead>
+                  <TableHead>Spend by Shop</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {suppliers.map((supplier) => {
+                  const stats = getSupplierStats(shopOrders.filter(o => o.supplier_id === supplier.id));
+                  const openAmount = stats.openOrders.reduce((sum, o) => sum + (o.order_amount - (o.amount_delivered || 0)), 0);
+
+                  return (
+                    <TableRow key={supplier.id}>
+                      <TableCell>
+                        <div className="font-medium">{supplier.name}</div>
+                        {supplier.email && <div className="text-xs text-muted-foreground">{supplier.email}</div>}
+                        {supplier.account_number && (
+                          <div className="text-xs text-muted-foreground">Account: {supplier.account_number}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {supplier.contacts.length === 0 ? "-" : supplier.contacts.map((contact, index) => (
+                          <div key={index} className="text-sm">
+                            {contact.name}{contact.phone && <span className="text-muted-foreground"> {contact.phone}</span>}
+                          </div>
+                        ))}
+                      </TableCell>
+                      <TableCell>{formatTerms(supplier.payment_terms_days)}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {supplier.delivery_days.length === 0 ? "-" : supplier.delivery_days.map(day => (
+                            <Badge key={day} variant="outline">{WEEKDAYS[day]}</Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div>{stats.openOrders.length}</div>
+                        {openAmount > 0 && (
+                          <div className="text-xs text-muted-foreground">{formatCurrency(openAmount)} outstanding</div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {stats.reliability === null ? "-" : (
+                          <Badge variant={stats.reliability >= 90 ? "default" : stats.reliability >= 70 ? "secondary" : "destructive"}>
+                            {stats.reliability}%
+                          </Badge>
+                        )}
+                        {stats.averageLeadTime && (
+                          <div className="text-xs text-muted-foreground mt-1">{stats.averageLeadTime} days lead time</div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {Object.keys(stats.spendByShop).length === 0 ? "-" : Object.entries(stats.spendByShop).map(([shopId, amount]) => (
+                          <div key={shopId} className="text-sm">
+                            {getShopName(shopId)}: <span className="font-medium">{formatCurrency(amount)}</span>
+                          </div>
+                        ))}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button variant="ghost" size="icon" onClick={() => handleEdit(supplier)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" onClick={() => handleDelete(supplier)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Suppliers;
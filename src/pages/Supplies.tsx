@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { Shop } from "@/types";
+import { ShopId } from "@/types";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -9,42 +9,58 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Plus, Pencil, Trash2, Store, Printer } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { Plus, Pencil, Trash2, Store, Download, Boxes, ClipboardList, FileUp } from "lucide-react";
+import { Link } from "react-router-dom";
 import { toast } from "sonner";
-import { supabase } from "@/integrations/supabase/client";
 import { useShops } from "@/hooks/useShops";
+import { useSupplies, type SupplyRecord as Supply } from "@/hooks/useSupplies";
+import { useSuppliers } from "@/hooks/useSuppliers";
+import { useStockMovements } from "@/hooks/useStockMovements";
+import { useDocuments } from "@/hooks/useDocuments";
+import { StockMovementDialog } from "@/components/supplies/StockMovementDialog";
+import { StockTakeCard } from "@/components/supplies/StockTakeCard";
+import { ExportMenu } from "@/components/export/ExportMenu";
 import { formatCurrency } from "@/lib/currency";
+import { inclusiveOf, vatRateLabel, vatRateOptions } from "@/lib/vat";
+import { brandingFor, supplyChecklistSection } from "@/lib/documents";
+import { exportSheets, toSheet, type ExportColumn, type ExportFormat } from "@/lib/export";
 
-interface SuppliesProps {
-  selectedShop: Shop;
-}
+// Suggestions only, any unit can be typed in
+const SUPPLY_UNITS = ["each", "case", "box", "bag", "kg", "litre", "crate", "pack"];
 
-interface Supply {
-  id: string;
-  name: string;
-  amount: number;
-  phone_number?: string;
-  shop: string;
-  created_at: string;
+interface SuppliesProps {
+  selectedShop: ShopId;
 }
 
 const Supplies = ({ selectedShop }: SuppliesProps) => {
-  const [supplies, setSupplies] = useState<Supply[]>([]);
+  const { supplies, loading, createSupply, updateSupply, deleteSupply } = useSupplies();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [isShopDialogOpen, setIsShopDialogOpen] = useState(false);
   const [isPrintDialogOpen, setIsPrintDialogOpen] = useState(false);
   const [editingSupply, setEditingSupply] = useState<Supply | null>(null);
-  const [loading, setLoading] = useState(true);
   const [shopError, setShopError] = useState<string | null>(null);
   const [selectedShopsForPrint, setSelectedShopsForPrint] = useState<string[]>([]);
+  const [stockSupply, setStockSupply] = useState<Supply | null>(null);
+  const [isStockTaking, setIsStockTaking] = useState(false);
   
-  const { shops, loading: shopsLoading, addShop } = useShops();
+  const { shops, activeShops, getShopName, getVatRate, loading: shopsLoading, addShop } = useShops();
+  const { suppliers, getSupplier } = useSuppliers();
+  const { getOnHand } = useStockMovements();
+  const { generateDocument, generating } = useDocuments();
   
   const [supplyFormData, setSupplyFormData] = useState({
     name: "",
     amount: 0,
-    phone_number: "",
-    shop: "",
+    unit: "each",
+    pack_size: 1,
+    unit_price: 0,
+    vat_rate: getVatRate(""),
+    price_excludes_vat: false,
+    min_level: "",
+    par_level: "",
+    supplier_id: "",
+    shop_id: "",
   });
 
   const [shopFormData, setShopFormData] = useState({
@@ -53,52 +69,38 @@ const Supplies = ({ selectedShop }: SuppliesProps) => {
 
   // Set default shop when shops load
   useEffect(() => {
-    if (shops.length > 0 && !supplyFormData.shop) {
-      setSupplyFormData(prev => ({ ...prev, shop: shops[0].name }));
+    if (activeShops.length > 0 && !supplyFormData.shop_id) {
+      setSupplyFormData(prev => ({ ...prev, shop_id: activeShops[0].id }));
     }
   }, [shops]);
 
-  const fetchSupplies = async () => {
-    try {
-      setLoading(true);
-      
-      const { data, error } = await supabase
-        .from('supplies')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-
-      setSupplies(data || []);
-      
-    } catch (err: any) {
-      console.error("Error:", err);
-      toast.error(`Failed to load supplies: ${err.message}`);
-    } finally {
-      setLoading(false);
-    }
-  };
+  // Archived shops only show up when editing a supply that is already in one
+  const shopOptions = shops.filter(shop => shop.is_active || shop.id === supplyFormData.shop_id);
 
-  useEffect(() => {
-    fetchSupplies();
-  }, []);
+  // Supplies added before suppliers existed only have a phone number
+  const describeSupplier = (supply: Supply) => {
+    const supplier = getSupplier(supply.supplier_id);
+    if (!supplier) return supply.phone_number || '-';
+    const phone = supplier.contacts[0]?.phone;
+    return phone ? `${supplier.name} (${phone})` : supplier.name;
+  };
 
   const filteredSupplies = selectedShop === "All" 
     ? supplies 
-    : supplies.filter(s => s.shop === selectedShop);
+    : supplies.filter(s => s.shop_id === selectedShop);
 
   // Toggle shop selection for print
-  const toggleShopForPrint = (shopName: string) => {
+  const toggleShopForPrint = (shopId: string) => {
     setSelectedShopsForPrint(prev =>
-      prev.includes(shopName)
-        ? prev.filter(s => s !== shopName)
-        : [...prev, shopName]
+      prev.includes(shopId)
+        ? prev.filter(s => s !== shopId)
+        : [...prev, shopId]
     );
   };
 
   // Select all shops
   const selectAllShopsForPrint = () => {
-    setSelectedShopsForPrint(shops.map(s => s.name));
+    setSelectedShopsForPrint(shops.map(s => s.id));
   };
 
   // Clear all shop selections
@@ -107,9 +109,11 @@ const Supplies = ({ selectedShop }: SuppliesProps) => {
   };
 
   // Get supplies for selected shops
-  const suppliesForPrint = supplies.filter(s => selectedShopsForPrint.includes(s.shop));
+  const suppliesForPrint = supplies.filter(s => selectedShopsForPrint.includes(s.shop_id));
 
-  const handlePrint = () => {
+  // The order list for one shop carries its letterhead and is archived
+  // against it; lists covering several shops are filed under all shops
+  const handleDownload = async () => {
     if (selectedShopsForPrint.length === 0) {
       toast.error("Please select at least one shop");
       return;
@@ -118,171 +122,98 @@ const Supplies = ({ selectedShop }: SuppliesProps) => {
     const suppliesToPrint = [...suppliesForPrint].sort((a, b) => a.name.localeCompare(b.name));
     const shopName = selectedShopsForPrint.length === shops.length 
       ? "All Shops" 
-      : selectedShopsForPrint.join(", ");
+      : selectedShopsForPrint.map(getShopName).join(", ");
+    const singleShop = selectedShopsForPrint.length === 1 ? shops.find(s => s.id === selectedShopsForPrint[0]) : undefined;
 
-    const printWindow = window.open('', '_blank');
-    if (!printWindow) {
-      toast.error("Please allow pop-ups to print the form");
-      return;
+    try {
+      await generateDocument({
+        kind: 'supplies_list',
+        title: "Supplies Order List",
+        shopId: singleShop?.id ?? null,
+        weekStartDate: null,
+        sections: [
+          supplyChecklistSection(
+            shopName,
+            suppliesToPrint.map(supply => ({ name: supply.name, amount: supply.amount, supplier: describeSupplier(supply) })),
+            true,
+            singleShop && brandingFor(singleShop)
+          ),
+        ],
+      });
+      setIsPrintDialogOpen(false);
+      toast.success("Order list downloaded and filed under Documents");
+    } catch (error) {
+      toast.error("Failed to generate the order list");
     }
+  };
 
-    const printContent = `
-      <!DOCTYPE html>
-      <html>
-        <head>
-          <title>Supplies Order List - ${shopName}</title>
-          <style>
-            body { 
-              font-family: Arial, sans-serif; 
-              margin: 8px;
-              color: #333;
-              font-size: 9px;
-            }
-            .header { 
-              text-align: center; 
-              margin-bottom: 10px;
-              border-bottom: 1px solid #333;
-              padding-bottom: 6px;
-            }
-            .form-title { 
-              font-size: 14px; 
-              font-weight: bold;
-              margin-bottom: 3px;
-            }
-            .shop-name {
-              font-size: 11px;
-              color: #555;
-              margin-bottom: 2px;
-            }
-            .print-date {
-              font-size: 8px;
-              color: #777;
-            }
-            table {
-              width: 100%;
-              border-collapse: collapse;
-              margin-top: 8px;
-            }
-            th, td {
-              border: 1px solid #333;
-              padding: 4px 3px;
-              text-align: left;
-            }
-            th {
-              background-color: #f0f0f0;
-              font-weight: bold;
-              font-size: 9px;
-            }
-            td {
-              font-size: 8px;
-            }
-            .remark-col {
-              width: 20%;
-            }
-            .ordered-col {
-              width: 8%;
-              text-align: center;
-            }
-            .checkbox {
-              width: 10px;
-              height: 10px;
-              border: 1px solid #333;
-              display: inline-block;
-            }
-            .total-row {
-              background-color: #f5f5f5;
-              font-weight: bold;
-            }
-            @media print {
-              body { margin: 5px; }
-            }
-          </style>
-        </head>
-        <body>
-          <div class="header">
-            <div class="form-title">Supplies Order List</div>
-            <div class="shop-name">${shopName}</div>
-            <div class="print-date">Date: ${new Date().toLocaleDateString()}</div>
-          </div>
-          
-          <table>
-            <thead>
-              <tr>
-                <th>Supply Name</th>
-                <th>Suggested Amount</th>
-                <th>Phone Number</th>
-                <th class="remark-col">Remark</th>
-                <th class="ordered-col">Ordered</th>
-              </tr>
-            </thead>
-            <tbody>
-              ${suppliesToPrint.map(supply => `
-                <tr>
-                  <td>${supply.name}</td>
-                  <td>R ${supply.amount.toFixed(2)}</td>
-                  <td>${supply.phone_number || '-'}</td>
-                  <td class="remark-col"></td>
-                  <td class="ordered-col"><div class="checkbox"></div></td>
-                </tr>
-              `).join('')}
-              <tr class="total-row">
-                <td>Total</td>
-                <td>R ${suppliesToPrint.reduce((sum, s) => sum + s.amount, 0).toFixed(2)}</td>
-                <td></td>
-                <td></td>
-                <td></td>
-              </tr>
-            </tbody>
-          </table>
-          
-          <script>
-            window.onload = function() {
-              window.print();
-              setTimeout(() => window.close(), 500);
-            }
-          </script>
-        </body>
-      </html>
-    `;
-
-    printWindow.document.write(printContent);
-    printWindow.document.close();
-    setIsPrintDialogOpen(false);
-    toast.success("Generating order list...");
+  const handleExport = (exportFormat: ExportFormat) => {
+    const columns: ExportColumn<Supply>[] = [
+      { header: "Name", value: supply => supply.name },
+      { header: "Shop", value: supply => getShopName(supply.shop_id) },
+      { header: "Supplier", value: supply => describeSupplier(supply) },
+      { header: "Amount", type: "currency", value: supply => supply.amount },
+      { header: "Unit Price", type: "currency", value: supply => supply.unit_price },
+      { header: "Unit", value: supply => supply.unit },
+      { header: "Pack Size", type: "number", value: supply => supply.pack_size },
+      { header: "VAT Rate (%)", type: "number", value: supply => supply.vat_rate },
+      { header: "On Hand", type: "number", value: supply => getOnHand(supply.id) },
+      { header: "Min Level", type: "number", value: supply => supply.min_level },
+      { header: "Par Level", type: "number", value: supply => supply.par_level },
+      { header: "Created", type: "date", value: supply => supply.created_at },
+    ];
+    exportSheets([toSheet("Supplies", columns, filteredSupplies)], "Supplies", exportFormat);
   };
 
+  // Blank levels mean the supply is not reordered from par
+  const levelValue = (value: string) => (value.trim() === "" ? null : parseFloat(value) || 0);
+
   const handleSupplySubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    const minLevel = levelValue(supplyFormData.min_level);
+    const parLevel = levelValue(supplyFormData.par_level);
+    if (minLevel !== null && parLevel !== null && minLevel > parLevel) {
+      toast.error("The minimum level cannot be above the par level");
+      return;
+    }
+
+    // Prices are stored with VAT like every other amount
+    const unitPrice = supplyFormData.price_excludes_vat
+      ? inclusiveOf(supplyFormData.unit_price, supplyFormData.vat_rate)
+      : supplyFormData.unit_price;
     
     try {
       if (editingSupply) {
-        const { error } = await supabase
-          .from('supplies')
-          .update({
-            name: supplyFormData.name,
-            amount: supplyFormData.amount,
-            phone_number: supplyFormData.phone_number,
-            shop: supplyFormData.shop,
-          })
-          .eq('id', editingSupply.id);
-
-        if (error) throw error;
+        await updateSupply(editingSupply.id, {
+          name: supplyFormData.name,
+          amount: supplyFormData.amount,
+          unit: supplyFormData.unit.trim() || "each",
+          pack_size: supplyFormData.pack_size,
+          unit_price: unitPrice,
+          vat_rate: supplyFormData.vat_rate,
+          min_level: levelValue(supplyFormData.min_level),
+          par_level: levelValue(supplyFormData.par_level),
+          supplier_id: supplyFormData.supplier_id || null,
+          shop_id: supplyFormData.shop_id,
+        });
         toast.success("Supply updated successfully");
       } else {
-        const { error } = await supabase
-          .from('supplies')
-          .insert({
-            name: supplyFormData.name,
-            amount: supplyFormData.amount,
-            phone_number: supplyFormData.phone_number,
-            shop: supplyFormData.shop,
-          });
-
-        if (error) throw error;
+        await createSupply({
+          name: supplyFormData.name,
+          amount: supplyFormData.amount,
+          unit: supplyFormData.unit.trim() || "each",
+          pack_size: supplyFormData.pack_size,
+          unit_price: unitPrice,
+          vat_rate: supplyFormData.vat_rate,
+          min_level: levelValue(supplyFormData.min_level),
+          par_level: levelValue(supplyFormData.par_level),
+          supplier_id: supplyFormData.supplier_id || null,
+          shop_id: supplyFormData.shop_id,
+        });
         toast.success("Supply added successfully");
       }
 
-      await fetchSupplies();
       setIsDialogOpen(false);
       resetSupplyForm();
     } catch (error: any) {
@@ -317,25 +248,25 @@ const Supplies = ({ selectedShop }: SuppliesProps) => {
     setSupplyFormData({
       name: supply.name,
       amount: supply.amount,
-      phone_number: supply.phone_number || "",
-      shop: supply.shop,
+      unit: supply.unit,
+      pack_size: supply.pack_size,
+      unit_price: supply.unit_price,
+      vat_rate: supply.vat_rate,
+      price_excludes_vat: false,
+      min_level: supply.min_level?.toString() ?? "",
+      par_level: supply.par_level?.toString() ?? "",
+      supplier_id: supply.supplier_id || "",
+      shop_id: supply.shop_id,
     });
     setIsDialogOpen(true);
   };
 
   const handleDelete = async (id: string) => {
-    if (!confirm("Are you sure you want to delete this supply?")) return;
+    if (!confirm("Move this supply and its orders to the Recycle Bin?")) return;
 
     try {
-      const { error } = await supabase
-        .from('supplies')
-        .delete()
-        .eq('id', id);
-
-      if (error) throw error;
-
-      await fetchSupplies();
-      toast.success("Supply deleted successfully");
+      await deleteSupply(id);
+      toast.success("Supply moved to the Recycle Bin");
     } catch (error: any) {
       console.error('Error deleting supply:', error);
       toast.error(`Failed to delete supply: ${error.message}`);
@@ -347,8 +278,15 @@ const Supplies = ({ selectedShop }: SuppliesProps) => {
     setSupplyFormData({
       name: "",
       amount: 0,
-      phone_number: "",
-      shop: shops[0]?.name || "",
+      unit: "each",
+      pack_size: 1,
+      unit_price: 0,
+      vat_rate: getVatRate(activeShops[0]?.id || ""),
+      price_excludes_vat: false,
+      min_level: "",
+      par_level: "",
+      supplier_id: "",
+      shop_id: activeShops[0]?.id || "",
     });
   };
 
@@ -383,18 +321,27 @@ const Supplies = ({ selectedShop }: SuppliesProps) => {
             <p className="text-muted-foreground">Manage inventory across all shops</p>
           </div>
           <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => setIsStockTaking(true)}
+              disabled={isStockTaking || filteredSupplies.length === 0}
+            >
+              <ClipboardList className="mr-2 h-4 w-4" />
+              Stock Take
+            </Button>
+
             <Dialog open={isPrintDialogOpen} onOpenChange={setIsPrintDialogOpen}>
               <DialogTrigger asChild>
                 <Button variant="outline">
-                  <Printer className="mr-2 h-4 w-4" />
-                  Print List
+                  <Download className="mr-2 h-4 w-4" />
+                  Order List
                 </Button>
               </DialogTrigger>
               <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
                 <DialogHeader>
-                  <DialogTitle>Print Supplies Order Form</DialogTitle>
+                  <DialogTitle>Supplies Order List</DialogTitle>
                   <DialogDescription>
-                    Select shops to print all their supplies
+                    Select shops to list all their supplies in a PDF
                   </DialogDescription>
                 </DialogHeader>
                 <div className="space-y-4">
@@ -427,14 +374,14 @@ const Supplies = ({ selectedShop }: SuppliesProps) => {
                         <div key={shop.id} className="flex items-center space-x-2">
                           <Checkbox 
                             id={`shop-print-${shop.id}`}
-                            checked={selectedShopsForPrint.includes(shop.name)}
-                            onCheckedChange={() => toggleShopForPrint(shop.name)}
+                            checked={selectedShopsForPrint.includes(shop.id)}
+                            onCheckedChange={() => toggleShopForPrint(shop.id)}
                           />
                           <label 
                             htmlFor={`shop-print-${shop.id}`}
                             className="text-sm font-medium leading-none cursor-pointer"
                           >
-                            {shop.name} ({supplies.filter(s => s.shop === shop.name).length})
+                            {shop.name} ({supplies.filter(s => s.shop_id === shop.id).length})
                           </label>
                         </div>
                       ))}
@@ -443,7 +390,7 @@ const Supplies = ({ selectedShop }: SuppliesProps) => {
 
                   {selectedShopsForPrint.length > 0 && (
                     <div className="text-sm text-muted-foreground">
-                      {selectedShopsForPrint.length} shop(s) selected • {suppliesForPrint.length} supplies will be printed
+                      {selectedShopsForPrint.length} shop(s) selected • {suppliesForPrint.length} supplies will be listed
                     </div>
                   )}
 
@@ -451,9 +398,9 @@ const Supplies = ({ selectedShop }: SuppliesProps) => {
                     <Button variant="outline" onClick={() => setIsPrintDialogOpen(false)}>
                       Cancel
                     </Button>
-                    <Button onClick={handlePrint} disabled={selectedShopsForPrint.length === 0}>
-                      <Printer className="mr-2 h-4 w-4" />
-                      Print Order Form
+                    <Button onClick={handleDownload} disabled={generating || selectedShopsForPrint.length === 0}>
+                      <Download className="mr-2 h-4 w-4" />
+                      {generating ? "Generating..." : "Download PDF"}
                     </Button>
                   </div>
                 </div>
@@ -515,6 +462,13 @@ const Supplies = ({ selectedShop }: SuppliesProps) => {
               </DialogContent>
             </Dialog>
 
+            <Button variant="outline" asChild>
+              <Link to="/import">
+                <FileUp className="mr-2 h-4 w-4" />
+                Import CSV
+              </Link>
+            </Button>
+
             <Dialog open={isDialogOpen} onOpenChange={(open) => {
               setIsDialogOpen(open);
               if (!open) resetSupplyForm();
@@ -556,36 +510,152 @@ const Supplies = ({ selectedShop }: SuppliesProps) => {
                         placeholder="Enter amount"
                       />
                     </div>
+                    <div className="grid grid-cols-3 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="unit">Unit *</Label>
+                        <Input
+                          id="unit"
+                          list="supplyUnits"
+                          required
+                          value={supplyFormData.unit}
+                          onChange={(e) => setSupplyFormData({ ...supplyFormData, unit: e.target.value })}
+                        />
+                        <datalist id="supplyUnits">
+                          {SUPPLY_UNITS.map(unit => <option key={unit} value={unit} />)}
+                        </datalist>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="packSize">Pack Size</Label>
+                        <Input
+                          id="packSize"
+                          type="number"
+                          min="0.01"
+                          step="0.01"
+                          value={supplyFormData.pack_size}
+                          onChange={(e) => setSupplyFormData({ ...supplyFormData, pack_size: parseFloat(e.target.value) || 1 })}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="unitPrice">Unit Price *</Label>
+                        <Input
+                          id="unitPrice"
+                          type="number"
+                          required
+                          min="0"
+                          step="0.01"
+                          value={supplyFormData.unit_price}
+                          onChange={(e) => setSupplyFormData({ ...supplyFormData, unit_price: parseFloat(e.target.value) || 0 })}
+                        />
+                      </div>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      For example a case of 12 at R45: unit "case", pack size 12, unit price 45
+                    </p>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label>VAT</Label>
+                        <Select
+                          value={String(supplyFormData.vat_rate)}
+                          onValueChange={(value) => setSupplyFormData({ ...supplyFormData, vat_rate: parseFloat(value) })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {vatRateOptions(getVatRate(supplyFormData.shop_id), supplyFormData.vat_rate).map((rate) => (
+                              <SelectItem key={rate} value={String(rate)}>{vatRateLabel(rate)}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="flex items-end gap-2 pb-2">
+                        <Switch
+                          id="priceExcludesVat"
+                          checked={supplyFormData.price_excludes_vat}
+                          onCheckedChange={(checked) => setSupplyFormData({ ...supplyFormData, price_excludes_vat: checked })}
+                        />
+                        <Label htmlFor="priceExcludesVat" className="font-normal">Price excludes VAT</Label>
+                      </div>
+                    </div>
+                    {supplyFormData.price_excludes_vat && (
+                      <p className="text-xs text-muted-foreground">
+                        Saved as {formatCurrency(inclusiveOf(supplyFormData.unit_price, supplyFormData.vat_rate))} including VAT
+                      </p>
+                    )}
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="minLevel">Min Level</Label>
+                        <Input
+                          id="minLevel"
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={supplyFormData.min_level}
+                          onChange={(e) => setSupplyFormData({ ...supplyFormData, min_level: e.target.value })}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="parLevel">Par Level</Label>
+                        <Input
+                          id="parLevel"
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={supplyFormData.par_level}
+                          onChange={(e) => setSupplyFormData({ ...supplyFormData, par_level: e.target.value })}
+                        />
+                      </div>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      In {supplyFormData.unit || "units"}. When stock falls to the min level it is reordered up to par.
+                    </p>
                     <div className="space-y-2">
-                      <Label htmlFor="phone_number">Phone Number</Label>
-                      <Input
-                        id="phone_number"
-                        type="tel"
-                        value={supplyFormData.phone_number}
-                        onChange={(e) => setSupplyFormData({ ...supplyFormData, phone_number: e.target.value })}
-                        placeholder="Enter phone number"
-                      />
+                      <Label htmlFor="supplier">Supplier</Label>
+                      <Select
+                        value={supplyFormData.supplier_id || "none"}
+                        onValueChange={(value) => setSupplyFormData({ ...supplyFormData, supplier_id: value === "none" ? "" : value })}
+                      >
+                        <SelectTrigger id="supplier">
+                          <SelectValue placeholder="Select a supplier" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">No supplier</SelectItem>
+                          {suppliers.map((supplier) => (
+                            <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {editingSupply && !editingSupply.supplier_id && editingSupply.phone_number && (
+                        <p className="text-xs text-muted-foreground">
+                          Previously recorded phone number: {editingSupply.phone_number}
+                        </p>
+                      )}
                     </div>
                     <div className="space-y-2">
                       <Label htmlFor="shop">Shop *</Label>
                       <Select 
-                        value={supplyFormData.shop} 
-                        onValueChange={(value) => setSupplyFormData({ ...supplyFormData, shop: value })}
+                        value={supplyFormData.shop_id} 
+                        onValueChange={(value) => setSupplyFormData({
+                          ...supplyFormData,
+                          shop_id: value,
+                          // Follow the new shop's standard rate unless another rate was picked
+                          vat_rate: supplyFormData.vat_rate === getVatRate(supplyFormData.shop_id) ? getVatRate(value) : supplyFormData.vat_rate,
+                        })}
                         required
                       >
                         <SelectTrigger className="bg-card border-input">
                           <SelectValue placeholder="Select a shop" />
                         </SelectTrigger>
                         <SelectContent className="bg-card border-border z-[100] max-h-[300px] overflow-auto">
-                          {shops.length === 0 ? (
+                          {shopOptions.length === 0 ? (
                             <div className="p-4 text-sm text-muted-foreground text-center">
                               No shops available. Please add a shop first.
                             </div>
                           ) : (
-                            shops.map((shop) => (
+                            shopOptions.map((shop) => (
                               <SelectItem 
                                 key={shop.id} 
-                                value={shop.name}
+                                value={shop.id}
                                 className="cursor-pointer"
                               >
                                 {shop.name}
@@ -594,9 +664,9 @@ const Supplies = ({ selectedShop }: SuppliesProps) => {
                           )}
                         </SelectContent>
                       </Select>
-                      {shops.length > 0 && (
+                      {shopOptions.length > 0 && (
                         <p className="text-xs text-muted-foreground">
-                          {shops.length} shop{shops.length !== 1 ? 's' : ''} available
+                          {shopOptions.length} shop{shopOptions.length !== 1 ? 's' : ''} available
                         </p>
                       )}
                     </div>
@@ -615,12 +685,21 @@ const Supplies = ({ selectedShop }: SuppliesProps) => {
           </div>
         </div>
 
+        {isStockTaking && (
+          <StockTakeCard supplies={filteredSupplies} onClose={() => setIsStockTaking(false)} />
+        )}
+
         <Card>
           <CardHeader>
-            <CardTitle>Supplies List</CardTitle>
-            <CardDescription>
-              {selectedShop === "All" ? "All shops" : selectedShop} - {filteredSupplies.length} supplies
-            </CardDescription>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle>Supplies List</CardTitle>
+                <CardDescription>
+                  {selectedShop === "All" ? "All shops" : getShopName(selectedShop)} - {filteredSupplies.length} supplies
+                </CardDescription>
+              </div>
+              <ExportMenu onExport={handleExport} disabled={filteredSupplies.length === 0} />
+            </div>
           </CardHeader>
           <CardContent>
             {filteredSupplies.length === 0 ? (
@@ -633,7 +712,9 @@ const Supplies = ({ selectedShop }: SuppliesProps) => {
                   <TableRow>
                     <TableHead>Name</TableHead>
                     <TableHead>Amount</TableHead>
-                    <TableHead>Phone Number</TableHead>
+                    <TableHead>Unit Price</TableHead>
+                    <TableHead>On Hand</TableHead>
+                    <TableHead>Supplier</TableHead>
                     <TableHead>Shop</TableHead>
                     <TableHead>Created</TableHead>
                     <TableHead className="text-right">Actions</TableHead>
@@ -644,13 +725,36 @@ const Supplies = ({ selectedShop }: SuppliesProps) => {
                     <TableRow key={supply.id}>
                       <TableCell className="font-medium">{supply.name}</TableCell>
                       <TableCell>{formatCurrency(supply.amount)}</TableCell>
-                      <TableCell>{supply.phone_number || '-'}</TableCell>
                       <TableCell>
-                        <Badge variant="outline">{supply.shop}</Badge>
+                        {formatCurrency(supply.unit_price)} / {supply.unit}
+                        {supply.vat_rate === 0 && (
+                          <span className="text-xs text-muted-foreground"> (no VAT)</span>
+                        )}
+                        {supply.pack_size !== 1 && (
+                          <span className="text-xs text-muted-foreground"> of {supply.pack_size}</span>
+                        )}
+                      </TableCell>
+                      <TableCell className={supply.min_level !== null && getOnHand(supply.id) <= supply.min_level ? "text-red-600" : ""}>
+                        {getOnHand(supply.id)} {supply.unit}
+                        {supply.par_level !== null && (
+                          <span className="text-xs text-muted-foreground"> / par {supply.par_level}</span>
+                        )}
+                      </TableCell>
+                      <TableCell>{describeSupplier(supply)}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{getShopName(supply.shop_id)}</Badge>
                       </TableCell>
                       <TableCell>{new Date(supply.created_at).toLocaleDateString()}</TableCell>
                       <TableCell className="text-right">
                         <div className="flex justify-end gap-2">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Stock"
+                            onClick={() => setStockSupply(supply)}
+                          >
+                            <Boxes className="h-4 w-4" />
+                          </Button>
                           <Button
                             variant="ghost"
                             size="icon"
@@ -676,6 +780,7 @@ const Supplies = ({ selectedShop }: SuppliesProps) => {
         </Card>
       </div>
 
+      <StockMovementDialog supply={stockSupply} onClose={() => setStockSupply(null)} />
     </>
   );
 };
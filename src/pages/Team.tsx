@@ -0,0 +1,218 @@
+import { useState } from "react";
+import { ShopRole } from "@/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Trash2, UserPlus } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/hooks/useAuth";
+import { useMemberships } from "@/hooks/useMemberships";
+import { useShopMembers } from "@/hooks/useShopMembers";
+
+const roleLabels: Record<ShopRole, string> = {
+  owner: "Owner",
+  manager: "Manager",
+  cashier: "Cashier",
+};
+
+const Team = () => {
+  const { user } = useAuth();
+  const { memberships } = useMemberships();
+  const { members, loading, addShopMember, updateShopMemberRole, removeShopMember } = useShopMembers();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const ownedShops = memberships.filter(m => m.role === "owner");
+
+  const [formData, setFormData] = useState({
+    shopId: "",
+    email: "",
+    role: "cashier" as ShopRole,
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.shopId) {
+      toast.error("Please select a shop");
+      return;
+    }
+
+    try {
+      await addShopMember({ shopId: formData.shopId, email: formData.email.trim(), role: formData.role });
+      toast.success("Member added successfully");
+      setFormData({ ...formData, email: "" });
+      setIsDialogOpen(false);
+    } catch (error) {
+      toast.error(error.message || "Failed to add member");
+    }
+  };
+
+  const handleRoleChange = async (id: string, role: ShopRole) => {
+    try {
+      await updateShopMemberRole(id, role);
+      toast.success("Role updated");
+    } catch (error) {
+      toast.error(error.message || "Failed to update role");
+    }
+  };
+
+  const handleRemove = async (id: string) => {
+    if (!confirm("Are you sure you want to remove this member?")) return;
+
+    try {
+      await removeShopMember(id);
+      toast.success("Member removed");
+    } catch (error) {
+      toast.error(error.message || "Failed to remove member");
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-lg">Loading team...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight">Team</h2>
+          <p className="text-muted-foreground">Choose who can work in each of your shops</p>
+        </div>
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogTrigger asChild>
+            <Button>
+              <UserPlus className="mr-2 h-4 w-4" />
+              Add Member
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="w-[90vw] sm:max-w-md">
+            <DialogHeader>
+              <DialogTitle>Add Member</DialogTitle>
+              <DialogDescription>The person must already have created an account</DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label>Shop *</Label>
+                <Select value={formData.shopId} onValueChange={(value) => setFormData({ ...formData, shopId: value })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a shop" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ownedShops.map((m) => (
+                      <SelectItem key={m.shop_id} value={m.shop_id}>{m.shop_name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="memberEmail">Email *</Label>
+                <Input
+                  id="memberEmail"
+                  type="email"
+                  required
+                  value={formData.email}
+                  onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Role *</Label>
+                <Select value={formData.role} onValueChange={(value: ShopRole) => setFormData({ ...formData, role: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(roleLabels).map(([role, label]) => (
+                      <SelectItem key={role} value={role}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit">Add Member</Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {ownedShops.map((shop) => {
+        const shopMembers = members.filter(m => m.shop_id === shop.shop_id);
+
+        return (
+          <Card key={shop.shop_id}>
+            <CardHeader>
+              <CardTitle>{shop.shop_name}</CardTitle>
+              <CardDescription>{shopMembers.length} members</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {shopMembers.map((member) => {
+                    const isSelf = member.user_id === user?.id;
+
+                    return (
+                      <TableRow key={member.id}>
+                        <TableCell className="font-medium">
+                          {member.profiles?.full_name || "-"}
+                          {isSelf && <Badge variant="outline" className="ml-2">You</Badge>}
+                        </TableCell>
+                        <TableCell>{member.profiles?.email}</TableCell>
+                        <TableCell>
+                          <Select
+                            value={member.role}
+                            onValueChange={(value: ShopRole) => handleRoleChange(member.id, value)}
+                            disabled={isSelf}
+                          >
+                            <SelectTrigger className="w-32">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {Object.entries(roleLabels).map(([role, label]) => (
+                                <SelectItem key={role} value={role}>{label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleRemove(member.id)}
+                            disabled={isSelf}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+};
+
+export default Team;
@@ -1,17 +1,43 @@
-export type Shop = string;
+// Id of a row in the shops table. Pages that can show every shop use "All"
+// in place of an id.
+export type ShopId = string;
+
+export type ShopRole = "owner" | "manager" | "cashier";
+
+export interface Shop {
+  id: ShopId;
+  name: string;
+  address: string | null;
+  phone: string | null;
+  isActive: boolean;
+  depositAlertDays: number;
+  vatRate: number;
+  vatCategory: string;
+  vatNumber: string | null;
+  documentFooter: string | null;
+  logoPath: string | null;
+  createdAt: string;
+}
 
 export interface Supply {
   id: string;
   name: string;
   amount: number;
   phoneNumber: string;
-  shop: Shop;
+  shop: ShopId;
   createdAt: string;
+  supplierId: string | null;
+  unit: string;
+  packSize: number;
+  unitPrice: number;
+  vatRate: number;
+  minLevel: number | null;
+  parLevel: number | null;
 }
 
 export interface WeeklyBudget {
   id: string;
-  shop: Shop;
+  shop: ShopId;
   weekStartDate: string;
   budgetAmount: number;
   createdAt: string;
@@ -30,18 +56,65 @@ export interface Order {
   amountDelivered: number;
   deliveryDate: string;
   status: OrderStatus;
-  shop: Shop;
+  shop: ShopId;
   notes?: string;
   createdAt: string;
+  supplierId: string | null;
+  expectedDeliveryDate: string | null;
+}
+
+// One item of a purchase order. quantityDelivered is kept by the deliveries
+// recorded against the line.
+export interface OrderLine {
+  id: string;
+  orderId: string;
+  supplyId: string | null;
+  description: string;
+  unit: string;
+  quantity: number;
+  unitPrice: number;
+  vatRate: number;
+  quantityDelivered: number;
+  createdAt: string;
 }
 
 export interface DailyIncome {
   id: string;
   date: string;
-  shop: Shop;
+  shop: ShopId;
   dailyIncome: number;
   expenses: number;
   netIncome: number;
   notes?: string;
   createdAt: string;
+  cashAmount: number;
+  cardMachineAmount: number;
+  directDepositAmount: number;
+  accountAmount: number;
+  openingFloat: number;
+  denominationCounts: Record<string, number> | null;
+  expectedTakings: number | null;
+  variance: number | null;
+  vatRate: number;
+  zeroRatedSales: number;
+}
+
+export type OutboxOperation = "insert" | "update" | "delete" | "upsert";
+
+export type OutboxStatus = "pending" | "conflict";
+
+// A write made while offline, waiting to be replayed against Supabase.
+// `base` is the row as it looked when the write was made, used to detect
+// edits that happened on the server in the meantime.
+export interface OutboxEntry {
+  id: string;
+  table: string;
+  operation: OutboxOperation;
+  rowId?: string;
+  values?: Record<string, unknown>;
+  base?: Record<string, unknown>;
+  onConflict?: string;
+  status: OutboxStatus;
+  error?: string;
+  createdAt: string;
 }
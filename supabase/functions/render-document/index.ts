@@ -0,0 +1,87 @@
+import { createClient, type SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { renderDocument } from "./render.ts";
+import type { DocumentSpec } from "./spec.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+
+// The logos of the shops whose letterheads are on the document. A logo
+// that cannot be fetched is left off.
+const loadLogos = async (supabase: SupabaseClient, spec: DocumentSpec) => {
+  const paths = new Set(spec.sections.map(section => section.branding?.logoPath).filter((path): path is string => !!path));
+  const logos = new Map<string, Uint8Array>();
+  for (const path of paths) {
+    const { data, error } = await supabase.storage.from("shop-logos").download(path);
+    if (error) {
+      console.error(`Error fetching logo ${path}:`, error);
+      continue;
+    }
+    logos.set(path, new Uint8Array(await data.arrayBuffer()));
+  }
+  return logos;
+};
+
+// Renders a document to PDF, stores it in the documents bucket under its
+// shop and week, and returns the archived documents row. Storage and the
+// table are written as the calling user, so their policies decide who may
+// file documents for which shop.
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const authorization = req.headers.get("Authorization");
+  if (!authorization) {
+    return json({ error: "Not signed in" }, 401);
+  }
+
+  try {
+    const spec = await req.json() as DocumentSpec;
+    if (!spec?.title || !Array.isArray(spec.sections) || spec.sections.length === 0) {
+      return json({ error: "The document has nothing to render" }, 400);
+    }
+
+    const supabase = createClient(Deno.env.get("SUPABASE_URL") ?? "", Deno.env.get("SUPABASE_ANON_KEY") ?? "", {
+      global: { headers: { Authorization: authorization } },
+    });
+
+    const { bytes, pageCount } = await renderDocument(spec, await loadLogos(supabase, spec));
+    const path = `${spec.shopId ?? "all"}/${spec.weekStartDate ?? "undated"}/${spec.kind}-${crypto.randomUUID()}.pdf`;
+
+    const { error: uploadError } = await supabase.storage
+      .from("documents")
+      .upload(path, bytes, { contentType: "application/pdf" });
+    if (uploadError) {
+      console.error("Error storing document:", uploadError);
+      return json({ error: uploadError.message }, 403);
+    }
+
+    const { data, error } = await supabase
+      .from("documents")
+      .insert({
+        shop_id: spec.shopId,
+        kind: spec.kind,
+        title: spec.title,
+        week_start_date: spec.weekStartDate,
+        storage_path: path,
+        page_count: pageCount,
+      })
+      .select()
+      .single();
+    if (error) {
+      console.error("Error archiving document:", error);
+      await supabase.storage.from("documents").remove([path]);
+      return json({ error: error.message }, 403);
+    }
+
+    return json(data);
+  } catch (error) {
+    console.error("Error rendering document:", error);
+    return json({ error: error instanceof Error ? error.message : "Could not render the document" }, 500);
+  }
+});
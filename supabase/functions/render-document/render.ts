@@ -0,0 +1,384 @@
+import { PDFDocument, PDFFont, PDFImage, PDFPage, StandardFonts, rgb } from "npm:pdf-lib@1.17.1";
+import type { DocumentBlock, DocumentBranding, DocumentCell, DocumentColumn, DocumentRow, DocumentSection, DocumentSpec } from "./spec.ts";
+
+const A4: [number, number] = [595.28, 841.89];
+const MARGIN = 36;
+const FOOTER_HEIGHT = 24;
+const FONT_SIZE = 9;
+const SMALL_SIZE = 7.5;
+const LINE_HEIGHT = 11;
+const PADDING = 4;
+const SIGNATURE_HEIGHT = 30;
+const BLOCK_GAP = 12;
+const LOGO_WIDTH = 140;
+const LOGO_HEIGHT = 56;
+
+const TEXT = rgb(0.2, 0.2, 0.2);
+const MUTED = rgb(0.45, 0.45, 0.45);
+const RULE = rgb(0.6, 0.6, 0.6);
+const HEADER_FILL = rgb(0.93, 0.93, 0.93);
+const TOTAL_FILL = rgb(0.96, 0.96, 0.96);
+const HIGHLIGHT_FILL = rgb(1, 0.95, 0.8);
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-ZA", { style: "currency", currency: "ZAR", minimumFractionDigits: 2 }).format(amount);
+
+const formatGeneratedAt = (date: Date) =>
+  new Intl.DateTimeFormat("en-ZA", { dateStyle: "medium", timeStyle: "short", timeZone: "Africa/Johannesburg" }).format(date);
+
+// The standard fonts only cover Latin-1, so anything else is swapped for
+// the nearest character they can draw
+const printable = (text: string) =>
+  text
+    .replace(/[\u00a0\u2007\u202f]/g, " ")
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[\u201c\u201d]/g, '"')
+    .replace(/[\u2013\u2014]/g, "-")
+    .replace(/[^\x20-\x7e\xa1-\xff]/g, "?");
+
+interface Line {
+  text: string;
+  bold?: boolean;
+}
+
+class Layout {
+  private page: PDFPage;
+  private y = 0;
+  private section: DocumentSection;
+  private readonly size: [number, number];
+  private readonly generatedAt = formatGeneratedAt(new Date());
+  // The footer of the section each page belongs to, by page
+  private readonly footers: (string | null)[] = [];
+
+  constructor(
+    private readonly pdf: PDFDocument,
+    private readonly spec: DocumentSpec,
+    private readonly regular: PDFFont,
+    private readonly bold: PDFFont,
+    private readonly logos: Map<string, PDFImage>
+  ) {
+    this.size = spec.orientation === "landscape" ? [A4[1], A4[0]] : A4;
+  }
+
+  private get width() {
+    return this.size[0] - MARGIN * 2;
+  }
+
+  private get bottom() {
+    return MARGIN + FOOTER_HEIGHT;
+  }
+
+  private draw(text: string, x: number, y: number, options: { bold?: boolean; size?: number; color?: ReturnType<typeof rgb> } = {}) {
+    this.page.drawText(printable(text), {
+      x,
+      y,
+      size: options.size ?? FONT_SIZE,
+      font: options.bold ? this.bold : this.regular,
+      color: options.color ?? TEXT,
+    });
+  }
+
+  private textWidth(text: string, bold = false, size = FONT_SIZE) {
+    return (bold ? this.bold : this.regular).widthOfTextAtSize(printable(text), size);
+  }
+
+  // Breaks text into lines no wider than maxWidth, splitting words that do
+  // not fit on a line of their own
+  private wrap(text: string, maxWidth: number, bold = false, size = FONT_SIZE): string[] {
+    const lines: string[] = [];
+    text.split("\n").forEach(paragraph => {
+      let line = "";
+      paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+        const candidate = line ? `${line} ${word}` : word;
+        if (this.textWidth(candidate, bold, size) <= maxWidth) {
+          line = candidate;
+          return;
+        }
+        if (line) lines.push(line);
+        line = word;
+        while (this.textWidth(line, bold, size) > maxWidth && line.length > 1) {
+          let cut = line.length - 1;
+          while (cut > 1 && this.textWidth(line.slice(0, cut), bold, size) > maxWidth) cut--;
+          lines.push(line.slice(0, cut));
+          line = line.slice(cut);
+        }
+      });
+      lines.push(line);
+    });
+    return lines;
+  }
+
+  // Every page repeats the document title and the section it belongs to
+  private newPage() {
+    this.page = this.pdf.addPage(this.size);
+    this.y = this.size[1] - MARGIN;
+    this.footers.push(this.section.branding?.footer || null);
+
+    this.draw(this.spec.title, MARGIN, this.y - 14, { bold: true, size: 14 });
+    const heading = this.section.heading;
+    this.draw(heading, MARGIN + this.width - this.textWidth(heading, true, 11), this.y - 14, { bold: true, size: 11 });
+    this.y -= 22;
+    this.page.drawLine({ start: { x: MARGIN, y: this.y }, end: { x: MARGIN + this.width, y: this.y }, thickness: 1, color: TEXT });
+    this.y -= 12;
+  }
+
+  private ensureSpace(height: number) {
+    if (this.y - height < this.bottom) this.newPage();
+  }
+
+  renderSection(section: DocumentSection) {
+    this.section = section;
+    this.newPage();
+    if (section.branding) this.renderLetterhead(section.branding);
+
+    [...section.details, `Generated ${this.generatedAt}`].forEach(detail => {
+      this.draw(detail, MARGIN, this.y - FONT_SIZE, { color: MUTED });
+      this.y -= LINE_HEIGHT;
+    });
+    this.y -= BLOCK_GAP;
+
+    section.blocks.forEach(block => {
+      this.renderBlock(block);
+      this.y -= BLOCK_GAP;
+    });
+  }
+
+  // The shop's logo on the left and its details on the right, at the top of
+  // the section's first page
+  private renderLetterhead(branding: DocumentBranding) {
+    const logo = branding.logoPath ? this.logos.get(branding.logoPath) : undefined;
+    const logoSize = logo ? logo.scaleToFit(LOGO_WIDTH, LOGO_HEIGHT) : { width: 0, height: 0 };
+    const textWidth = this.width - logoSize.width - 12;
+    const details = [
+      ...(branding.address ? this.wrap(branding.address, textWidth) : []),
+      ...(branding.phone ? [`Tel: ${branding.phone}`] : []),
+      ...(branding.vatNumber ? [`VAT No: ${branding.vatNumber}`] : []),
+    ];
+    const height = Math.max(logoSize.height, LINE_HEIGHT + 2 + details.length * LINE_HEIGHT);
+
+    if (logo) {
+      this.page.drawImage(logo, { x: MARGIN, y: this.y - logoSize.height, width: logoSize.width, height: logoSize.height });
+    }
+    const right = MARGIN + this.width;
+    this.draw(branding.name, right - this.textWidth(branding.name, true, 11), this.y - 11, { bold: true, size: 11 });
+    details.forEach((line, index) => {
+      this.draw(line, right - this.textWidth(line), this.y - 13 - FONT_SIZE - index * LINE_HEIGHT, { color: MUTED });
+    });
+    this.y -= height + BLOCK_GAP;
+  }
+
+  private renderBlock(block: DocumentBlock) {
+    switch (block.type) {
+      case "summary":
+        return this.renderSummary(block.items);
+      case "table":
+        return this.renderTable(block);
+      case "note":
+        return this.renderNote(block.lines, block.highlight);
+      case "signatures":
+        return this.renderSignatures(block.heading, block.labels);
+    }
+  }
+
+  private renderSummary(items: { label: string; value: string }[]) {
+    const height = items.length * LINE_HEIGHT + PADDING * 2;
+    this.ensureSpace(height);
+
+    this.page.drawRectangle({ x: MARGIN, y: this.y - height, width: this.width, height, color: TOTAL_FILL, borderColor: RULE, borderWidth: 0.5 });
+    const valueX = MARGIN + PADDING + Math.max(...items.map(item => this.textWidth(item.label))) + 12;
+    items.forEach((item, index) => {
+      const baseline = this.y - PADDING - FONT_SIZE - index * LINE_HEIGHT;
+      this.draw(item.label, MARGIN + PADDING, baseline);
+      this.draw(item.value, valueX, baseline, { bold: true });
+    });
+    this.y -= height;
+  }
+
+  private renderNote(text: string[], highlight?: boolean) {
+    const lines = text.flatMap(line => this.wrap(line, this.width - PADDING * 2, false, SMALL_SIZE));
+    const height = lines.length * LINE_HEIGHT + PADDING * 2;
+    this.ensureSpace(height);
+
+    if (highlight) {
+      this.page.drawRectangle({ x: MARGIN, y: this.y - height, width: this.width, height, color: HIGHLIGHT_FILL });
+    }
+    lines.forEach((line, index) => {
+      this.draw(line, MARGIN + PADDING, this.y - PADDING - SMALL_SIZE - index * LINE_HEIGHT, { size: SMALL_SIZE, color: highlight ? TEXT : MUTED });
+    });
+    this.y -= height;
+  }
+
+  private renderSignatures(heading: string, labels: string[]) {
+    const height = LINE_HEIGHT + SIGNATURE_HEIGHT + LINE_HEIGHT + PADDING * 3;
+    this.ensureSpace(height);
+
+    const top = this.y;
+    this.page.drawRectangle({ x: MARGIN, y: top - height, width: this.width, height, borderColor: TEXT, borderWidth: 0.75 });
+    const title = heading.toUpperCase();
+    this.draw(title, MARGIN + (this.width - this.textWidth(title, true)) / 2, top - PADDING - FONT_SIZE, { bold: true });
+    this.signatureLines(labels, MARGIN + PADDING * 4, top - height + PADDING, this.width - PADDING * 8, 40);
+    this.y -= height;
+  }
+
+  // Lines to sign on, side by side, each with its label underneath
+  private signatureLines(labels: string[], x: number, bottom: number, width: number, gap: number) {
+    const lineWidth = (width - gap * (labels.length - 1)) / labels.length;
+    labels.forEach((label, index) => {
+      const left = x + index * (lineWidth + gap);
+      const lineY = bottom + SMALL_SIZE + 4;
+      this.page.drawLine({ start: { x: left, y: lineY }, end: { x: left + lineWidth, y: lineY }, thickness: 0.75, color: TEXT });
+      this.draw(label, left + (lineWidth - this.textWidth(label, false, SMALL_SIZE)) / 2, bottom, { size: SMALL_SIZE, color: MUTED });
+    });
+  }
+
+  private cellLines(cell: DocumentCell, column: DocumentColumn, width: number): Line[] {
+    if (cell === null || cell === "") return [];
+    if (typeof cell === "number") {
+      return [{ text: column.type === "currency" ? formatCurrency(cell) : String(cell) }];
+    }
+    if (typeof cell === "string") {
+      return this.wrap(cell, width).map(text => ({ text }));
+    }
+    return [
+      ...(cell.title ? this.wrap(cell.title, width, true).map(text => ({ text, bold: true })) : []),
+      ...cell.lines.flatMap(line => this.wrap(line, width).map(text => ({ text }))),
+    ];
+  }
+
+  private renderTable(block: Extract<DocumentBlock, { type: "table" }>) {
+    const totalShare = block.columns.reduce((sum, column) => sum + column.width, 0);
+    const widths = block.columns.map(column => (column.width / totalShare) * this.width);
+    const lefts = widths.map((_, index) => MARGIN + widths.slice(0, index).reduce((sum, w) => sum + w, 0));
+
+    const headerLines = block.columns.map((column, index) => this.wrap(column.label, widths[index] - PADDING * 2, true).map(text => ({ text, bold: true })));
+    const headerHeight = Math.max(...headerLines.map(lines => lines.length)) * LINE_HEIGHT + PADDING * 2;
+
+    const rowLayout = (row: DocumentRow) => {
+      const lines = block.columns.map((column, index) => this.cellLines(row.cells[index] ?? null, column, widths[index] - PADDING * 2));
+      const minimum = block.columns.some(column => column.type === "signatures") ? SIGNATURE_HEIGHT + LINE_HEIGHT : LINE_HEIGHT;
+      return { lines, height: Math.max(minimum, ...lines.map(l => l.length * LINE_HEIGHT)) + PADDING * 2 };
+    };
+
+    // Header and total rows only hold text; checkboxes and signature lines
+    // are drawn on body rows
+    const drawRow = (lines: Line[][], height: number, kind: "header" | "body" | "total", fill?: ReturnType<typeof rgb>) => {
+      block.columns.forEach((column, index) => {
+        const x = lefts[index];
+        const width = widths[index];
+        this.page.drawRectangle({ x, y: this.y - height, width, height, color: fill, borderColor: RULE, borderWidth: 0.5 });
+
+        if (kind === "body" && column.type === "checkbox") {
+          const box = 8;
+          this.page.drawRectangle({ x: x + (width - box) / 2, y: this.y - PADDING - box - 1, width: box, height: box, borderColor: TEXT, borderWidth: 0.75 });
+        } else if (kind === "body" && column.type === "signatures" && column.signatures?.length) {
+          this.signatureLines(column.signatures, x + PADDING, this.y - height + PADDING, width - PADDING * 2, 8);
+        }
+
+        const rightAligned = kind !== "header" && column.type === "currency";
+        lines[index].forEach((line, lineIndex) => {
+          const textX = rightAligned ? x + width - PADDING - this.textWidth(line.text, line.bold) : x + PADDING;
+          this.draw(line.text, textX, this.y - PADDING - FONT_SIZE - lineIndex * LINE_HEIGHT, { bold: line.bold });
+        });
+      });
+      this.y -= height;
+    };
+    const drawHeader = () => drawRow(headerLines, headerHeight, "header", HEADER_FILL);
+
+    const headingHeight = block.heading ? LINE_HEIGHT + 6 : 0;
+    const rows = block.rows.map(rowLayout);
+    this.ensureSpace(headingHeight + headerHeight + (rows[0]?.height ?? LINE_HEIGHT));
+
+    if (block.heading) {
+      this.draw(block.heading, MARGIN, this.y - 11, { bold: true, size: 11 });
+      this.y -= headingHeight;
+    }
+
+    if (rows.length === 0) {
+      this.draw(block.emptyText ?? "Nothing to show", MARGIN, this.y - FONT_SIZE, { color: MUTED });
+      this.y -= LINE_HEIGHT;
+      return;
+    }
+
+    drawHeader();
+    rows.forEach(({ lines, height }, index) => {
+      // Rows are never split; the header is repeated on the next page
+      if (this.y - height < this.bottom) {
+        this.newPage();
+        drawHeader();
+      }
+      drawRow(lines, height, "body", block.rows[index].highlight ? HIGHLIGHT_FILL : undefined);
+    });
+
+    if (block.totalLabel && block.columns.some(column => column.total)) {
+      const totals: Line[][] = block.columns.map((column, index) => {
+        if (index === 0) return [{ text: block.totalLabel ?? "", bold: true }];
+        if (!column.total) return [];
+        const total = Math.round(block.rows.reduce((sum, row) => sum + (Number(row.cells[index]) || 0), 0) * 100) / 100;
+        return [{ text: column.type === "currency" ? formatCurrency(total) : String(total), bold: true }];
+      });
+      const height = LINE_HEIGHT + PADDING * 2;
+      if (this.y - height < this.bottom) {
+        this.newPage();
+        drawHeader();
+      }
+      drawRow(totals, height, "total", TOTAL_FILL);
+    }
+  }
+
+  // Page numbers go on once every page exists
+  finish() {
+    const pages = this.pdf.getPages();
+    pages.forEach((page, index) => {
+      const width = page.getWidth();
+      const label = `Page ${index + 1} of ${pages.length}`;
+      const footer = this.footers[index];
+      if (footer) {
+        const text = printable(this.wrap(footer, width - MARGIN * 2, false, SMALL_SIZE)[0]);
+        const footerWidth = this.regular.widthOfTextAtSize(text, SMALL_SIZE);
+        page.drawText(text, { x: (width - footerWidth) / 2, y: MARGIN + 16, size: SMALL_SIZE, font: this.regular, color: MUTED });
+      }
+      page.drawLine({ start: { x: MARGIN, y: MARGIN + 12 }, end: { x: width - MARGIN, y: MARGIN + 12 }, thickness: 0.5, color: RULE });
+      page.drawText(printable(this.spec.title), { x: MARGIN, y: MARGIN, size: SMALL_SIZE, font: this.regular, color: MUTED });
+      page.drawText(label, {
+        x: width - MARGIN - this.regular.widthOfTextAtSize(label, SMALL_SIZE),
+        y: MARGIN,
+        size: SMALL_SIZE,
+        font: this.regular,
+        color: MUTED,
+      });
+    });
+  }
+}
+
+// Logos arrive as the bytes of a PNG or a JPEG; one that cannot be read is
+// left off rather than failing the document
+const embedLogos = async (pdf: PDFDocument, logos: Map<string, Uint8Array>) => {
+  const images = new Map<string, PDFImage>();
+  for (const [path, bytes] of logos) {
+    try {
+      const isPng = bytes[0] === 0x89 && bytes[1] === 0x50;
+      images.set(path, isPng ? await pdf.embedPng(bytes) : await pdf.embedJpg(bytes));
+    } catch (error) {
+      console.error(`Error embedding logo ${path}:`, error);
+    }
+  }
+  return images;
+};
+
+export const renderDocument = async (spec: DocumentSpec, logos = new Map<string, Uint8Array>()) => {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(spec.title);
+  pdf.setCreationDate(new Date());
+
+  const layout = new Layout(
+    pdf,
+    spec,
+    await pdf.embedFont(StandardFonts.Helvetica),
+    await pdf.embedFont(StandardFonts.HelveticaBold),
+    await embedLogos(pdf, logos)
+  );
+  spec.sections.forEach(section => layout.renderSection(section));
+  layout.finish();
+
+  return { bytes: await pdf.save(), pageCount: pdf.getPageCount() };
+};
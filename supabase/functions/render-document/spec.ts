@@ -0,0 +1,69 @@
+// The document description posted by the app. Mirrors the types in
+// src/lib/documents.ts, which builds these from the app's data.
+export type DocumentKind =
+  | 'weekly_delivery_list'
+  | 'supplies_list'
+  | 'order_form'
+  | 'business_report'
+  | 'discrepancy_report'
+  | 'supplier_statement'
+  | 'customer_statement'
+  | 'debtors_report'
+  | 'vat_report';
+
+// Currency cells take numbers and are printed in rand. Checkbox and
+// signature columns are left blank to be filled in by hand.
+export interface DocumentColumn {
+  label: string;
+  // Share of the page width, relative to the other columns
+  width: number;
+  type?: 'text' | 'currency' | 'checkbox' | 'signatures';
+  // Signature lines drawn in each cell of a signatures column
+  signatures?: string[];
+  // Summed on the total row
+  total?: boolean;
+}
+
+// A cell with a title is printed with the title in bold above its lines
+export type DocumentCell = string | number | null | { title?: string; lines: string[] };
+
+export interface DocumentRow {
+  cells: DocumentCell[];
+  highlight?: boolean;
+}
+
+export type DocumentBlock =
+  | { type: 'summary'; items: { label: string; value: string }[] }
+  | { type: 'table'; heading?: string; columns: DocumentColumn[]; rows: DocumentRow[]; totalLabel?: string; emptyText?: string }
+  | { type: 'note'; lines: string[]; highlight?: boolean }
+  | { type: 'signatures'; heading: string; labels: string[] };
+
+// The letterhead of the shop a section belongs to. The logo is a PNG or
+// JPEG in the shop-logos bucket; the footer is printed on every page.
+export interface DocumentBranding {
+  name: string;
+  address: string | null;
+  phone: string | null;
+  vatNumber: string | null;
+  footer: string | null;
+  logoPath: string | null;
+}
+
+// Every section starts on a new page under its own heading
+export interface DocumentSection {
+  heading: string;
+  details: string[];
+  branding?: DocumentBranding;
+  blocks: DocumentBlock[];
+}
+
+export interface DocumentSpec {
+  kind: DocumentKind;
+  title: string;
+  // The shop and week the document is archived against; null covers every
+  // shop, or no particular week
+  shopId: string | null;
+  weekStartDate: string | null;
+  orientation?: 'portrait' | 'landscape';
+  sections: DocumentSection[];
+}
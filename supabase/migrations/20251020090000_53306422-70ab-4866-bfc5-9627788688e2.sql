@@ -0,0 +1,211 @@
+-- Roles a user can hold in a shop
+CREATE TYPE public.app_role AS ENUM ('owner', 'manager', 'cashier');
+
+-- Create profiles table, one row per signed up user
+CREATE TABLE public.profiles (
+  id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  full_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- Create shop_members table linking users to the shops they work in
+CREATE TABLE public.shop_members (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  shop_id UUID NOT NULL REFERENCES public.shops(id) ON DELETE CASCADE,
+  role public.app_role NOT NULL DEFAULT 'cashier',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  UNIQUE(user_id, shop_id)
+);
+
+CREATE INDEX idx_shop_members_user_id ON public.shop_members(user_id);
+
+ALTER TABLE public.profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.shop_members ENABLE ROW LEVEL SECURITY;
+
+-- Role checks run as SECURITY DEFINER so policies on shop_members do not
+-- recurse into themselves
+CREATE OR REPLACE FUNCTION public.has_shop_role(_shop TEXT, _roles public.app_role[])
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.shop_members m
+    JOIN public.shops s ON s.id = m.shop_id
+    WHERE m.user_id = auth.uid()
+      AND s.name = _shop
+      AND m.role = ANY(_roles)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_shop_member(_shop TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_shop_role(_shop, ARRAY['owner', 'manager', 'cashier']::public.app_role[]);
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_shop_owner(_shop_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.shop_members
+    WHERE user_id = auth.uid()
+      AND shop_id = _shop_id
+      AND role = 'owner'
+  );
+$$;
+
+-- Create a profile for every new user. The very first user becomes the
+-- owner of all existing shops so the data created before sign-in stays
+-- reachable.
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.profiles (id, email, full_name)
+  VALUES (NEW.id, NEW.email, NEW.raw_user_meta_data ->> 'full_name');
+
+  IF NOT EXISTS (SELECT 1 FROM public.shop_members) THEN
+    INSERT INTO public.shop_members (user_id, shop_id, role)
+    SELECT NEW.id, id, 'owner' FROM public.shops;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_new_user();
+
+-- Whoever creates a shop owns it
+CREATE OR REPLACE FUNCTION public.add_shop_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    INSERT INTO public.shop_members (user_id, shop_id, role)
+    VALUES (auth.uid(), NEW.id, 'owner');
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER add_shop_owner_on_insert
+  AFTER INSERT ON public.shops
+  FOR EACH ROW
+  EXECUTE FUNCTION public.add_shop_owner();
+
+-- Owners add people by the email they signed up with
+CREATE OR REPLACE FUNCTION public.add_shop_member(_shop_id UUID, _email TEXT, _role public.app_role)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID;
+  _member_id UUID;
+BEGIN
+  IF NOT public.is_shop_owner(_shop_id) THEN
+    RAISE EXCEPTION 'Only shop owners can add members';
+  END IF;
+
+  SELECT id INTO _user_id FROM public.profiles WHERE lower(email) = lower(trim(_email));
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'No user has signed up with %', _email;
+  END IF;
+
+  INSERT INTO public.shop_members (user_id, shop_id, role)
+  VALUES (_user_id, _shop_id, _role)
+  ON CONFLICT (user_id, shop_id) DO UPDATE SET role = EXCLUDED.role
+  RETURNING id INTO _member_id;
+
+  RETURN _member_id;
+END;
+$$;
+
+-- Replace the open policies with membership based ones
+DROP POLICY "Allow all operations on shops" ON public.shops;
+DROP POLICY "Allow all operations on supplies" ON public.supplies;
+DROP POLICY "Allow all operations on orders" ON public.orders;
+DROP POLICY "Allow all operations on income_records" ON public.income_records;
+DROP POLICY "Allow all operations on weekly_budgets" ON public.weekly_budgets;
+
+CREATE POLICY "Users can view their own profile and their staff" ON public.profiles
+  FOR SELECT TO authenticated
+  USING (
+    id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM public.shop_members m
+      WHERE m.user_id = profiles.id AND public.is_shop_owner(m.shop_id)
+    )
+  );
+CREATE POLICY "Users can update their own profile" ON public.profiles
+  FOR UPDATE TO authenticated
+  USING (id = auth.uid()) WITH CHECK (id = auth.uid());
+
+CREATE POLICY "Members can view their memberships" ON public.shop_members
+  FOR SELECT TO authenticated
+  USING (user_id = auth.uid() OR public.is_shop_owner(shop_id));
+CREATE POLICY "Owners can manage members" ON public.shop_members
+  FOR ALL TO authenticated
+  USING (public.is_shop_owner(shop_id)) WITH CHECK (public.is_shop_owner(shop_id));
+
+CREATE POLICY "Members can view their shops" ON public.shops
+  FOR SELECT TO authenticated USING (public.is_shop_member(name));
+CREATE POLICY "Signed in users can create shops" ON public.shops
+  FOR INSERT TO authenticated WITH CHECK (auth.uid() IS NOT NULL);
+CREATE POLICY "Owners can update shops" ON public.shops
+  FOR UPDATE TO authenticated
+  USING (public.is_shop_owner(id)) WITH CHECK (public.is_shop_owner(id));
+CREATE POLICY "Owners can delete shops" ON public.shops
+  FOR DELETE TO authenticated USING (public.is_shop_owner(id));
+
+CREATE POLICY "Managers can manage supplies" ON public.supplies
+  FOR ALL TO authenticated
+  USING (public.has_shop_role(shop, ARRAY['owner', 'manager']::public.app_role[]))
+  WITH CHECK (public.has_shop_role(shop, ARRAY['owner', 'manager']::public.app_role[]));
+
+CREATE POLICY "Managers can manage orders" ON public.orders
+  FOR ALL TO authenticated
+  USING (public.has_shop_role(shop, ARRAY['owner', 'manager']::public.app_role[]))
+  WITH CHECK (public.has_shop_role(shop, ARRAY['owner', 'manager']::public.app_role[]));
+
+CREATE POLICY "Managers can manage weekly_budgets" ON public.weekly_budgets
+  FOR ALL TO authenticated
+  USING (public.has_shop_role(shop, ARRAY['owner', 'manager']::public.app_role[]))
+  WITH CHECK (public.has_shop_role(shop, ARRAY['owner', 'manager']::public.app_role[]));
+
+-- Cashiers capture and correct cash ups for their shop, only managers delete
+CREATE POLICY "Members can view income_records" ON public.income_records
+  FOR SELECT TO authenticated USING (public.is_shop_member(shop));
+CREATE POLICY "Members can add income_records" ON public.income_records
+  FOR INSERT TO authenticated WITH CHECK (public.is_shop_member(shop));
+CREATE POLICY "Members can update income_records" ON public.income_records
+  FOR UPDATE TO authenticated
+  USING (public.is_shop_member(shop)) WITH CHECK (public.is_shop_member(shop));
+CREATE POLICY "Managers can delete income_records" ON public.income_records
+  FOR DELETE TO authenticated
+  USING (public.has_shop_role(shop, ARRAY['owner', 'manager']::public.app_role[]));
@@ -0,0 +1,73 @@
+-- Create audit_log table, written only by the triggers below
+CREATE TABLE public.audit_log (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  table_name TEXT NOT NULL,
+  record_id UUID NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('INSERT', 'UPDATE', 'DELETE')),
+  shop TEXT,
+  old_data JSONB,
+  new_data JSONB,
+  actor_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  actor_email TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX idx_audit_log_record ON public.audit_log(table_name, record_id);
+CREATE INDEX idx_audit_log_created_at ON public.audit_log(created_at DESC);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Managers see the full history of their shops, cashiers only the cash ups
+CREATE POLICY "Members can view audit_log" ON public.audit_log
+  FOR SELECT TO authenticated
+  USING (
+    public.has_shop_role(shop, ARRAY['owner', 'manager']::public.app_role[])
+    OR (table_name = 'income_records' AND public.is_shop_member(shop))
+  );
+
+CREATE OR REPLACE FUNCTION public.log_audit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _old JSONB := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  _new JSONB := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+BEGIN
+  -- Saving a form without changing anything is not worth a history entry
+  IF TG_OP = 'UPDATE' AND _old = _new THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.audit_log (table_name, record_id, action, shop, old_data, new_data, actor_id, actor_email)
+  VALUES (
+    TG_TABLE_NAME,
+    COALESCE(_new ->> 'id', _old ->> 'id')::UUID,
+    TG_OP,
+    COALESCE(_new ->> 'shop', _old ->> 'shop'),
+    _old,
+    _new,
+    auth.uid(),
+    (SELECT email FROM public.profiles WHERE id = auth.uid())
+  );
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER audit_orders
+  AFTER INSERT OR UPDATE OR DELETE ON public.orders
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit();
+
+CREATE TRIGGER audit_income_records
+  AFTER INSERT OR UPDATE OR DELETE ON public.income_records
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit();
+
+CREATE TRIGGER audit_weekly_budgets
+  AFTER INSERT OR UPDATE OR DELETE ON public.weekly_budgets
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit();
+
+CREATE TRIGGER audit_supplies
+  AFTER INSERT OR UPDATE OR DELETE ON public.supplies
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit();
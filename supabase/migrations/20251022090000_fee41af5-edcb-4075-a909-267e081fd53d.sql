@@ -0,0 +1,104 @@
+-- Soft delete: rows are hidden by setting deleted_at and can be restored
+-- from the recycle bin until they are purged
+ALTER TABLE public.shops ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.supplies ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.orders ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.income_records ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_shops_deleted_at ON public.shops(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_supplies_deleted_at ON public.supplies(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_orders_deleted_at ON public.orders(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_income_records_deleted_at ON public.income_records(deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Purging a supply must not take its order history with it
+ALTER TABLE public.orders DROP CONSTRAINT orders_supply_id_fkey;
+ALTER TABLE public.orders
+  ADD CONSTRAINT orders_supply_id_fkey
+  FOREIGN KEY (supply_id) REFERENCES public.supplies(id) ON DELETE SET NULL;
+
+-- Deleting a supply also deletes its orders. Dependents get the same
+-- deleted_at as the parent, so a restore or purge only touches the rows
+-- that were deleted together with it.
+CREATE OR REPLACE FUNCTION public.cascade_supply_soft_delete()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.deleted_at IS NOT NULL THEN
+      DELETE FROM public.orders WHERE supply_id = OLD.id AND deleted_at = OLD.deleted_at;
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL THEN
+    UPDATE public.orders SET deleted_at = NEW.deleted_at
+    WHERE supply_id = NEW.id AND deleted_at IS NULL;
+  ELSIF OLD.deleted_at IS NOT NULL AND NEW.deleted_at IS NULL THEN
+    UPDATE public.orders SET deleted_at = NULL
+    WHERE supply_id = NEW.id AND deleted_at = OLD.deleted_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER cascade_supply_soft_delete_on_update
+  AFTER UPDATE OF deleted_at ON public.supplies
+  FOR EACH ROW EXECUTE FUNCTION public.cascade_supply_soft_delete();
+
+CREATE TRIGGER cascade_supply_soft_delete_on_delete
+  BEFORE DELETE ON public.supplies
+  FOR EACH ROW EXECUTE FUNCTION public.cascade_supply_soft_delete();
+
+-- Deleting a shop deletes everything recorded against it
+CREATE OR REPLACE FUNCTION public.cascade_shop_soft_delete()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.deleted_at IS NOT NULL THEN
+      DELETE FROM public.orders WHERE shop = OLD.name AND deleted_at = OLD.deleted_at;
+      DELETE FROM public.supplies WHERE shop = OLD.name AND deleted_at = OLD.deleted_at;
+      DELETE FROM public.income_records WHERE shop = OLD.name AND deleted_at = OLD.deleted_at;
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL THEN
+    UPDATE public.supplies SET deleted_at = NEW.deleted_at WHERE shop = NEW.name AND deleted_at IS NULL;
+    UPDATE public.orders SET deleted_at = NEW.deleted_at WHERE shop = NEW.name AND deleted_at IS NULL;
+    UPDATE public.income_records SET deleted_at = NEW.deleted_at WHERE shop = NEW.name AND deleted_at IS NULL;
+  ELSIF OLD.deleted_at IS NOT NULL AND NEW.deleted_at IS NULL THEN
+    UPDATE public.supplies SET deleted_at = NULL WHERE shop = NEW.name AND deleted_at = OLD.deleted_at;
+    UPDATE public.orders SET deleted_at = NULL WHERE shop = NEW.name AND deleted_at = OLD.deleted_at;
+    UPDATE public.income_records SET deleted_at = NULL WHERE shop = NEW.name AND deleted_at = OLD.deleted_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER cascade_shop_soft_delete_on_update
+  AFTER UPDATE OF deleted_at ON public.shops
+  FOR EACH ROW EXECUTE FUNCTION public.cascade_shop_soft_delete();
+
+CREATE TRIGGER cascade_shop_soft_delete_on_delete
+  BEFORE DELETE ON public.shops
+  FOR EACH ROW EXECUTE FUNCTION public.cascade_shop_soft_delete();
+
+-- Cashiers may edit cash ups but deleting and restoring stays with managers
+DROP POLICY "Members can update income_records" ON public.income_records;
+CREATE POLICY "Members can update income_records" ON public.income_records
+  FOR UPDATE TO authenticated
+  USING (
+    public.is_shop_member(shop)
+    AND (deleted_at IS NULL OR public.has_shop_role(shop, ARRAY['owner', 'manager']::public.app_role[]))
+  )
+  WITH CHECK (
+    public.is_shop_member(shop)
+    AND (deleted_at IS NULL OR public.has_shop_role(shop, ARRAY['owner', 'manager']::public.app_role[]))
+  );
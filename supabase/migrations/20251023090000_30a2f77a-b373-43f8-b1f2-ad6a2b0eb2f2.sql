@@ -0,0 +1,182 @@
+-- Shop details managed from the shop settings page
+ALTER TABLE public.shops ADD COLUMN address TEXT;
+ALTER TABLE public.shops ADD COLUMN phone TEXT;
+ALTER TABLE public.shops ADD COLUMN is_active BOOLEAN NOT NULL DEFAULT true;
+
+-- Some rows were saved against shop names that never made it into shops
+INSERT INTO public.shops (name)
+SELECT shop FROM public.supplies
+UNION SELECT shop FROM public.orders
+UNION SELECT shop FROM public.income_records
+UNION SELECT shop FROM public.weekly_budgets
+ON CONFLICT (name) DO NOTHING;
+
+-- Reference shops by id instead of by name
+ALTER TABLE public.supplies ADD COLUMN shop_id UUID REFERENCES public.shops(id) ON DELETE CASCADE;
+ALTER TABLE public.orders ADD COLUMN shop_id UUID REFERENCES public.shops(id) ON DELETE CASCADE;
+ALTER TABLE public.income_records ADD COLUMN shop_id UUID REFERENCES public.shops(id) ON DELETE CASCADE;
+ALTER TABLE public.weekly_budgets ADD COLUMN shop_id UUID REFERENCES public.shops(id) ON DELETE CASCADE;
+ALTER TABLE public.audit_log ADD COLUMN shop_id UUID REFERENCES public.shops(id) ON DELETE SET NULL;
+
+UPDATE public.supplies t SET shop_id = s.id FROM public.shops s WHERE s.name = t.shop;
+UPDATE public.orders t SET shop_id = s.id FROM public.shops s WHERE s.name = t.shop;
+UPDATE public.income_records t SET shop_id = s.id FROM public.shops s WHERE s.name = t.shop;
+UPDATE public.weekly_budgets t SET shop_id = s.id FROM public.shops s WHERE s.name = t.shop;
+UPDATE public.audit_log t SET shop_id = s.id FROM public.shops s WHERE s.name = t.shop;
+
+ALTER TABLE public.supplies ALTER COLUMN shop_id SET NOT NULL;
+ALTER TABLE public.orders ALTER COLUMN shop_id SET NOT NULL;
+ALTER TABLE public.income_records ALTER COLUMN shop_id SET NOT NULL;
+ALTER TABLE public.weekly_budgets ALTER COLUMN shop_id SET NOT NULL;
+
+CREATE INDEX idx_supplies_shop_id ON public.supplies(shop_id);
+CREATE INDEX idx_orders_shop_id ON public.orders(shop_id);
+CREATE INDEX idx_income_records_shop_id ON public.income_records(shop_id);
+CREATE INDEX idx_audit_log_shop_id ON public.audit_log(shop_id);
+
+-- Policies and helpers keyed on the name go before the name columns do
+DROP POLICY "Members can view their shops" ON public.shops;
+DROP POLICY "Managers can manage supplies" ON public.supplies;
+DROP POLICY "Managers can manage orders" ON public.orders;
+DROP POLICY "Managers can manage weekly_budgets" ON public.weekly_budgets;
+DROP POLICY "Members can view income_records" ON public.income_records;
+DROP POLICY "Members can add income_records" ON public.income_records;
+DROP POLICY "Members can update income_records" ON public.income_records;
+DROP POLICY "Managers can delete income_records" ON public.income_records;
+DROP POLICY "Members can view audit_log" ON public.audit_log;
+
+DROP FUNCTION public.is_shop_member(TEXT);
+DROP FUNCTION public.has_shop_role(TEXT, public.app_role[]);
+
+ALTER TABLE public.weekly_budgets DROP CONSTRAINT weekly_budgets_shop_week_start_date_key;
+ALTER TABLE public.weekly_budgets ADD CONSTRAINT weekly_budgets_shop_id_week_start_date_key UNIQUE (shop_id, week_start_date);
+
+ALTER TABLE public.supplies DROP COLUMN shop;
+ALTER TABLE public.orders DROP COLUMN shop;
+ALTER TABLE public.income_records DROP COLUMN shop;
+ALTER TABLE public.weekly_budgets DROP COLUMN shop;
+ALTER TABLE public.audit_log DROP COLUMN shop;
+
+CREATE OR REPLACE FUNCTION public.has_shop_role(_shop_id UUID, _roles public.app_role[])
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.shop_members
+    WHERE user_id = auth.uid()
+      AND shop_id = _shop_id
+      AND role = ANY(_roles)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_shop_member(_shop_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_shop_role(_shop_id, ARRAY['owner', 'manager', 'cashier']::public.app_role[]);
+$$;
+
+CREATE POLICY "Members can view their shops" ON public.shops
+  FOR SELECT TO authenticated USING (public.is_shop_member(id));
+
+CREATE POLICY "Managers can manage supplies" ON public.supplies
+  FOR ALL TO authenticated
+  USING (public.has_shop_role(shop_id, ARRAY['owner', 'manager']::public.app_role[]))
+  WITH CHECK (public.has_shop_role(shop_id, ARRAY['owner', 'manager']::public.app_role[]));
+
+CREATE POLICY "Managers can manage orders" ON public.orders
+  FOR ALL TO authenticated
+  USING (public.has_shop_role(shop_id, ARRAY['owner', 'manager']::public.app_role[]))
+  WITH CHECK (public.has_shop_role(shop_id, ARRAY['owner', 'manager']::public.app_role[]));
+
+CREATE POLICY "Managers can manage weekly_budgets" ON public.weekly_budgets
+  FOR ALL TO authenticated
+  USING (public.has_shop_role(shop_id, ARRAY['owner', 'manager']::public.app_role[]))
+  WITH CHECK (public.has_shop_role(shop_id, ARRAY['owner', 'manager']::public.app_role[]));
+
+CREATE POLICY "Members can view income_records" ON public.income_records
+  FOR SELECT TO authenticated USING (public.is_shop_member(shop_id));
+CREATE POLICY "Members can add income_records" ON public.income_records
+  FOR INSERT TO authenticated WITH CHECK (public.is_shop_member(shop_id));
+CREATE POLICY "Members can update income_records" ON public.income_records
+  FOR UPDATE TO authenticated
+  USING (
+    public.is_shop_member(shop_id)
+    AND (deleted_at IS NULL OR public.has_shop_role(shop_id, ARRAY['owner', 'manager']::public.app_role[]))
+  )
+  WITH CHECK (
+    public.is_shop_member(shop_id)
+    AND (deleted_at IS NULL OR public.has_shop_role(shop_id, ARRAY['owner', 'manager']::public.app_role[]))
+  );
+CREATE POLICY "Managers can delete income_records" ON public.income_records
+  FOR DELETE TO authenticated
+  USING (public.has_shop_role(shop_id, ARRAY['owner', 'manager']::public.app_role[]));
+
+CREATE POLICY "Members can view audit_log" ON public.audit_log
+  FOR SELECT TO authenticated
+  USING (
+    public.has_shop_role(shop_id, ARRAY['owner', 'manager']::public.app_role[])
+    OR (table_name = 'income_records' AND public.is_shop_member(shop_id))
+  );
+
+CREATE OR REPLACE FUNCTION public.log_audit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _old JSONB := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  _new JSONB := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+BEGIN
+  -- Saving a form without changing anything is not worth a history entry
+  IF TG_OP = 'UPDATE' AND _old = _new THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.audit_log (table_name, record_id, action, shop_id, old_data, new_data, actor_id, actor_email)
+  VALUES (
+    TG_TABLE_NAME,
+    COALESCE(_new ->> 'id', _old ->> 'id')::UUID,
+    TG_OP,
+    COALESCE(_new ->> 'shop_id', _old ->> 'shop_id')::UUID,
+    _old,
+    _new,
+    auth.uid(),
+    (SELECT email FROM public.profiles WHERE id = auth.uid())
+  );
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+-- Purging a shop is now handled by the shop_id foreign keys, only the soft
+-- delete and restore still need to be cascaded by hand
+DROP TRIGGER cascade_shop_soft_delete_on_delete ON public.shops;
+
+CREATE OR REPLACE FUNCTION public.cascade_shop_soft_delete()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL THEN
+    UPDATE public.supplies SET deleted_at = NEW.deleted_at WHERE shop_id = NEW.id AND deleted_at IS NULL;
+    UPDATE public.orders SET deleted_at = NEW.deleted_at WHERE shop_id = NEW.id AND deleted_at IS NULL;
+    UPDATE public.income_records SET deleted_at = NEW.deleted_at WHERE shop_id = NEW.id AND deleted_at IS NULL;
+  ELSIF OLD.deleted_at IS NOT NULL AND NEW.deleted_at IS NULL THEN
+    UPDATE public.supplies SET deleted_at = NULL WHERE shop_id = NEW.id AND deleted_at = OLD.deleted_at;
+    UPDATE public.orders SET deleted_at = NULL WHERE shop_id = NEW.id AND deleted_at = OLD.deleted_at;
+    UPDATE public.income_records SET deleted_at = NULL WHERE shop_id = NEW.id AND deleted_at = OLD.deleted_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
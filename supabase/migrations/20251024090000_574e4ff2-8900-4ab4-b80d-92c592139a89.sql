@@ -0,0 +1,50 @@
+-- Suppliers are shared by all shops; supplies and orders point at them
+-- instead of carrying phone numbers and contact names of their own
+CREATE TABLE public.suppliers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  -- [{ "name": "...", "phone": "..." }]
+  contacts JSONB NOT NULL DEFAULT '[]'::jsonb,
+  email TEXT,
+  account_number TEXT,
+  -- Days after delivery that an invoice is due, 0 means cash on delivery
+  payment_terms_days INTEGER NOT NULL DEFAULT 0 CHECK (payment_terms_days >= 0),
+  -- Weekdays the supplier delivers on, 0 = Sunday
+  delivery_days SMALLINT[] NOT NULL DEFAULT '{}',
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.suppliers ENABLE ROW LEVEL SECURITY;
+
+-- supplies.phone_number and orders.contact_person stay for rows that have
+-- not been linked to a supplier yet
+ALTER TABLE public.supplies
+  ADD COLUMN supplier_id UUID REFERENCES public.suppliers(id) ON DELETE SET NULL;
+ALTER TABLE public.orders
+  ADD COLUMN supplier_id UUID REFERENCES public.suppliers(id) ON DELETE SET NULL;
+
+ALTER TABLE public.supplies ALTER COLUMN phone_number DROP NOT NULL;
+
+CREATE INDEX supplies_supplier_id_idx ON public.supplies (supplier_id);
+CREATE INDEX orders_supplier_id_idx ON public.orders (supplier_id);
+
+CREATE OR REPLACE FUNCTION public.manages_any_shop()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.shop_members
+    WHERE user_id = auth.uid()
+      AND role IN ('owner', 'manager')
+  );
+$$;
+
+CREATE POLICY "Managers can manage suppliers" ON public.suppliers
+  FOR ALL TO authenticated
+  USING (public.manages_any_shop())
+  WITH CHECK (public.manages_any_shop());
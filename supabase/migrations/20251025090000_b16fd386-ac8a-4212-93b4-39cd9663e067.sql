@@ -0,0 +1,95 @@
+-- An order is now a purchase order header with any number of lines. The
+-- header keeps order_amount, amount_delivered and status, but they are
+-- rolled up from the lines instead of being entered by hand.
+ALTER TABLE public.orders ADD COLUMN expected_delivery_date DATE;
+
+CREATE TABLE public.order_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  supply_id UUID REFERENCES public.supplies(id) ON DELETE SET NULL,
+  -- Name of the supply when the line was added, kept if the supply goes away
+  description TEXT NOT NULL,
+  quantity DECIMAL(10, 2) NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  unit_price DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (unit_price >= 0),
+  quantity_delivered DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (quantity_delivered >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX order_lines_order_id_idx ON public.order_lines (order_id);
+
+ALTER TABLE public.order_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can manage order_lines" ON public.order_lines
+  FOR ALL TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.orders o
+    WHERE o.id = order_id
+      AND public.has_shop_role(o.shop_id, ARRAY['owner', 'manager']::public.app_role[])
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.orders o
+    WHERE o.id = order_id
+      AND public.has_shop_role(o.shop_id, ARRAY['owner', 'manager']::public.app_role[])
+  ));
+
+-- Every existing order becomes a single line for its whole amount
+INSERT INTO public.order_lines (order_id, supply_id, description, quantity, unit_price, quantity_delivered, created_at)
+SELECT
+  id,
+  supply_id,
+  supply_name,
+  1,
+  order_amount,
+  CASE
+    WHEN order_amount > 0 THEN ROUND(amount_delivered / order_amount, 2)
+    WHEN status = 'Delivered' THEN 1
+    ELSE 0
+  END,
+  created_at
+FROM public.orders;
+
+-- Keeps the header in step with its lines. supply_id is only set for single
+-- line orders, so deleting a supply still takes those orders with it but
+-- leaves mixed purchase orders alone.
+CREATE OR REPLACE FUNCTION public.roll_up_order_lines()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _order_id UUID := COALESCE(NEW.order_id, OLD.order_id);
+BEGIN
+  UPDATE public.orders o
+  SET
+    order_amount = totals.order_amount,
+    amount_delivered = totals.amount_delivered,
+    status = totals.status,
+    supply_id = totals.supply_id,
+    supply_name = totals.supply_name
+  FROM (
+    SELECT
+      COALESCE(SUM(quantity * unit_price), 0) AS order_amount,
+      COALESCE(SUM(LEAST(quantity_delivered, quantity) * unit_price), 0) AS amount_delivered,
+      CASE
+        WHEN COUNT(*) > 0 AND BOOL_AND(quantity_delivered >= quantity) THEN 'Delivered'
+        WHEN COALESCE(SUM(quantity_delivered), 0) > 0 THEN 'Partial'
+        ELSE 'Pending'
+      END AS status,
+      CASE WHEN COUNT(*) = 1 THEN (ARRAY_AGG(supply_id))[1] END AS supply_id,
+      CASE
+        WHEN COUNT(*) = 0 THEN ''
+        WHEN COUNT(*) = 1 THEN (ARRAY_AGG(description ORDER BY created_at, id))[1]
+        ELSE (ARRAY_AGG(description ORDER BY created_at, id))[1] || ' +' || (COUNT(*) - 1) || ' more'
+      END AS supply_name
+    FROM public.order_lines
+    WHERE order_id = _order_id
+  ) AS totals
+  WHERE o.id = _order_id;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER roll_up_order_lines
+  AFTER INSERT OR UPDATE OR DELETE ON public.order_lines
+  FOR EACH ROW EXECUTE FUNCTION public.roll_up_order_lines();
@@ -0,0 +1,99 @@
+-- Supplies are bought in units (a case, a bag, a kg) at a unit price, so
+-- "10 cases at R45" can be told apart from "R450"
+ALTER TABLE public.supplies
+  ADD COLUMN unit TEXT NOT NULL DEFAULT 'each',
+  ADD COLUMN pack_size DECIMAL(10, 2) NOT NULL DEFAULT 1 CHECK (pack_size > 0),
+  ADD COLUMN unit_price DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (unit_price >= 0);
+
+-- Until now orders were placed as one unit for the supply's amount
+UPDATE public.supplies SET unit_price = amount;
+
+-- The unit a line was ordered in, kept if the supply's unit changes later
+ALTER TABLE public.order_lines ADD COLUMN unit TEXT NOT NULL DEFAULT 'each';
+
+UPDATE public.order_lines l
+SET unit = s.unit
+FROM public.supplies s
+WHERE s.id = l.supply_id;
+
+-- Every price a supply has had, either set on the supply itself or paid on
+-- an order line
+CREATE TABLE public.price_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  supply_id UUID NOT NULL REFERENCES public.supplies(id) ON DELETE CASCADE,
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  unit TEXT NOT NULL,
+  unit_price DECIMAL(10, 2) NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('supply', 'order')),
+  recorded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  recorded_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL
+);
+
+CREATE INDEX price_history_supply_id_idx ON public.price_history (supply_id, recorded_at);
+
+ALTER TABLE public.price_history ENABLE ROW LEVEL SECURITY;
+
+-- Only written by the triggers below
+CREATE POLICY "Managers can view price_history" ON public.price_history
+  FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.supplies s
+    WHERE s.id = supply_id
+      AND public.has_shop_role(s.shop_id, ARRAY['owner', 'manager']::public.app_role[])
+  ));
+
+-- Starting point for every existing supply, plus what past orders paid
+INSERT INTO public.price_history (supply_id, unit, unit_price, source, recorded_at)
+SELECT id, unit, unit_price, 'supply', created_at FROM public.supplies;
+
+INSERT INTO public.price_history (supply_id, order_id, unit, unit_price, source, recorded_at)
+SELECT l.supply_id, l.order_id, l.unit, l.unit_price, 'order', o.order_date
+FROM public.order_lines l
+JOIN public.orders o ON o.id = l.order_id
+WHERE l.supply_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.record_supply_price()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.unit_price IS DISTINCT FROM OLD.unit_price OR NEW.unit IS DISTINCT FROM OLD.unit THEN
+    INSERT INTO public.price_history (supply_id, unit, unit_price, source, recorded_by)
+    VALUES (NEW.id, NEW.unit, NEW.unit_price, 'supply', auth.uid());
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_supply_price
+  AFTER INSERT OR UPDATE ON public.supplies
+  FOR EACH ROW EXECUTE FUNCTION public.record_supply_price();
+
+-- Prices paid on orders count from the order date, not from when the line
+-- was typed in
+CREATE OR REPLACE FUNCTION public.record_order_line_price()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.supply_id IS NOT NULL AND (
+    TG_OP = 'INSERT' OR NEW.unit_price IS DISTINCT FROM OLD.unit_price OR NEW.unit IS DISTINCT FROM OLD.unit
+  ) THEN
+    INSERT INTO public.price_history (supply_id, order_id, unit, unit_price, source, recorded_at, recorded_by)
+    SELECT NEW.supply_id, NEW.order_id, NEW.unit, NEW.unit_price, 'order', o.order_date, auth.uid()
+    FROM public.orders o
+    WHERE o.id = NEW.order_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_order_line_price
+  AFTER INSERT OR UPDATE ON public.order_lines
+  FOR EACH ROW EXECUTE FUNCTION public.record_order_line_price();
@@ -0,0 +1,90 @@
+-- Every change to the stock of a supply is a row here; stock on hand is the
+-- sum of the quantities. Quantities are in the supply's unit.
+CREATE TABLE public.stock_movements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  supply_id UUID NOT NULL REFERENCES public.supplies(id) ON DELETE CASCADE,
+  shop_id UUID NOT NULL REFERENCES public.shops(id) ON DELETE CASCADE,
+  movement_type TEXT NOT NULL CHECK (movement_type IN ('delivery', 'stock_take', 'wastage', 'usage')),
+  -- Positive adds stock, negative removes it
+  quantity DECIMAL(10, 2) NOT NULL,
+  -- What was counted, only for stock takes
+  counted_quantity DECIMAL(10, 2),
+  order_line_id UUID REFERENCES public.order_lines(id) ON DELETE CASCADE,
+  note TEXT,
+  occurred_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (movement_type <> 'stock_take' OR counted_quantity IS NOT NULL)
+);
+
+CREATE INDEX stock_movements_supply_id_idx ON public.stock_movements (supply_id);
+
+ALTER TABLE public.stock_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can manage stock_movements" ON public.stock_movements
+  FOR ALL TO authenticated
+  USING (public.has_shop_role(shop_id, ARRAY['owner', 'manager']::public.app_role[]))
+  WITH CHECK (public.has_shop_role(shop_id, ARRAY['owner', 'manager']::public.app_role[]));
+
+-- A stock take only sends what was counted. The variance is worked out here
+-- against the ledger as it is when the count arrives, so counts entered
+-- offline still line up with deliveries recorded in the meantime.
+CREATE OR REPLACE FUNCTION public.set_stock_take_variance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.movement_type = 'stock_take' THEN
+    NEW.quantity := NEW.counted_quantity - COALESCE((
+      SELECT SUM(quantity) FROM public.stock_movements WHERE supply_id = NEW.supply_id
+    ), 0);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_stock_take_variance
+  BEFORE INSERT ON public.stock_movements
+  FOR EACH ROW EXECUTE FUNCTION public.set_stock_take_variance();
+
+-- Deliveries recorded on order lines add stock. Only the difference is
+-- booked, so correcting a delivered quantity later corrects the stock too.
+CREATE OR REPLACE FUNCTION public.record_delivery_movement()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _delta DECIMAL(10, 2) := NEW.quantity_delivered - CASE WHEN TG_OP = 'UPDATE' THEN OLD.quantity_delivered ELSE 0 END;
+BEGIN
+  IF NEW.supply_id IS NOT NULL AND _delta <> 0 THEN
+    INSERT INTO public.stock_movements (supply_id, shop_id, movement_type, quantity, order_line_id, occurred_on, created_by)
+    SELECT NEW.supply_id, o.shop_id, 'delivery', _delta, NEW.id, COALESCE(o.delivery_date, CURRENT_DATE), auth.uid()
+    FROM public.orders o
+    WHERE o.id = NEW.order_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_delivery_movement
+  AFTER INSERT OR UPDATE OF quantity_delivered ON public.order_lines
+  FOR EACH ROW EXECUTE FUNCTION public.record_delivery_movement();
+
+-- Stock starts from everything delivered so far
+INSERT INTO public.stock_movements (supply_id, shop_id, movement_type, quantity, order_line_id, occurred_on, created_by)
+SELECT l.supply_id, o.shop_id, 'delivery', l.quantity_delivered, l.id, COALESCE(o.delivery_date, o.order_date), NULL
+FROM public.order_lines l
+JOIN public.orders o ON o.id = l.order_id
+WHERE l.supply_id IS NOT NULL
+  AND l.quantity_delivered > 0
+  AND o.deleted_at IS NULL;
+
+-- Added after the backfill so the opening balances are not logged one by one
+CREATE TRIGGER audit_stock_movements
+  AFTER INSERT OR UPDATE OR DELETE ON public.stock_movements
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit();
@@ -0,0 +1,7 @@
+-- Stock levels that drive reorder suggestions, in the supply's unit. Below
+-- the minimum a supply is reordered back up to its par level. Supplies
+-- belong to one shop, so these are per supply per shop.
+ALTER TABLE public.supplies
+  ADD COLUMN min_level DECIMAL(10, 2) CHECK (min_level >= 0),
+  ADD COLUMN par_level DECIMAL(10, 2) CHECK (par_level >= 0),
+  ADD CONSTRAINT supplies_min_below_par CHECK (min_level IS NULL OR par_level IS NULL OR min_level <= par_level);
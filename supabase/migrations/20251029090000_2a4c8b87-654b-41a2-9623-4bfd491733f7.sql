@@ -0,0 +1,108 @@
+-- Each time goods arrive against an order a delivery is recorded, with what
+-- came in per line. Order lines take their delivered quantity from these.
+CREATE TABLE public.deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  shop_id UUID NOT NULL REFERENCES public.shops(id) ON DELETE CASCADE,
+  received_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  received_by TEXT NOT NULL,
+  invoice_number TEXT,
+  notes TEXT,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX deliveries_order_id_idx ON public.deliveries (order_id);
+
+-- Received and substituted units count as delivered. Short units were on the
+-- supplier's paperwork but did not arrive; damaged units arrived and were
+-- sent back.
+CREATE TABLE public.delivery_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  delivery_id UUID NOT NULL REFERENCES public.deliveries(id) ON DELETE CASCADE,
+  order_line_id UUID NOT NULL REFERENCES public.order_lines(id) ON DELETE CASCADE,
+  quantity_received DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (quantity_received >= 0),
+  quantity_short DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (quantity_short >= 0),
+  quantity_damaged DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (quantity_damaged >= 0),
+  quantity_substituted DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (quantity_substituted >= 0),
+  substitute_description TEXT,
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX delivery_lines_delivery_id_idx ON public.delivery_lines (delivery_id);
+CREATE INDEX delivery_lines_order_line_id_idx ON public.delivery_lines (order_line_id);
+
+ALTER TABLE public.deliveries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.delivery_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can manage deliveries" ON public.deliveries
+  FOR ALL TO authenticated
+  USING (public.has_shop_role(shop_id, ARRAY['owner', 'manager']::public.app_role[]))
+  WITH CHECK (public.has_shop_role(shop_id, ARRAY['owner', 'manager']::public.app_role[]));
+
+CREATE POLICY "Managers can manage delivery_lines" ON public.delivery_lines
+  FOR ALL TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.deliveries d
+    WHERE d.id = delivery_id
+      AND public.has_shop_role(d.shop_id, ARRAY['owner', 'manager']::public.app_role[])
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.deliveries d
+    WHERE d.id = delivery_id
+      AND public.has_shop_role(d.shop_id, ARRAY['owner', 'manager']::public.app_role[])
+  ));
+
+-- Whatever was already marked delivered becomes one delivery per order
+INSERT INTO public.deliveries (id, order_id, shop_id, received_on, received_by, notes, created_by, created_at)
+SELECT gen_random_uuid(), o.id, o.shop_id, COALESCE(o.delivery_date, o.order_date), o.contact_person,
+  'Recorded before deliveries were tracked', NULL, o.created_at
+FROM public.orders o
+WHERE EXISTS (SELECT 1 FROM public.order_lines l WHERE l.order_id = o.id AND l.quantity_delivered > 0);
+
+INSERT INTO public.delivery_lines (delivery_id, order_line_id, quantity_received)
+SELECT d.id, l.id, l.quantity_delivered
+FROM public.order_lines l
+JOIN public.deliveries d ON d.order_id = l.order_id
+WHERE l.quantity_delivered > 0;
+
+-- Keeps order_lines.quantity_delivered equal to what the deliveries add up
+-- to. The order's delivery date is moved to the delivery first, so the stock
+-- movement booked by record_delivery_movement carries that date, and the
+-- order roll-up then works out the status.
+CREATE OR REPLACE FUNCTION public.apply_delivery_line()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _order_line_id UUID := COALESCE(NEW.order_line_id, OLD.order_line_id);
+  _delivery_id UUID := COALESCE(NEW.delivery_id, OLD.delivery_id);
+BEGIN
+  UPDATE public.orders o
+  SET delivery_date = d.received_on
+  FROM public.deliveries d
+  WHERE d.id = _delivery_id
+    AND o.id = d.order_id
+    AND (o.delivery_date IS NULL OR o.delivery_date < d.received_on);
+
+  UPDATE public.order_lines l
+  SET quantity_delivered = COALESCE((
+    SELECT SUM(dl.quantity_received + dl.quantity_substituted)
+    FROM public.delivery_lines dl
+    WHERE dl.order_line_id = _order_line_id
+  ), 0)
+  WHERE l.id = _order_line_id;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER apply_delivery_line
+  AFTER INSERT OR UPDATE OR DELETE ON public.delivery_lines
+  FOR EACH ROW EXECUTE FUNCTION public.apply_delivery_line();
+
+CREATE TRIGGER audit_deliveries
+  AFTER INSERT OR UPDATE OR DELETE ON public.deliveries
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit();
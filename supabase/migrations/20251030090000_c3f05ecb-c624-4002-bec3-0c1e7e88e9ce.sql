@@ -0,0 +1,58 @@
+-- Invoices received from suppliers. The total includes VAT; vat_amount is
+-- the part of it that is VAT.
+CREATE TABLE public.supplier_invoices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  supplier_id UUID REFERENCES public.suppliers(id) ON DELETE SET NULL,
+  shop_id UUID NOT NULL REFERENCES public.shops(id) ON DELETE CASCADE,
+  invoice_number TEXT NOT NULL,
+  invoice_date DATE NOT NULL,
+  due_date DATE,
+  total DECIMAL(10, 2) NOT NULL CHECK (total >= 0),
+  vat_amount DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (vat_amount >= 0 AND vat_amount <= total),
+  notes TEXT,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (supplier_id, invoice_number)
+);
+
+CREATE TRIGGER update_supplier_invoices_updated_at
+  BEFORE UPDATE ON public.supplier_invoices
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The orders an invoice bills for. An order delivered in parts can be
+-- billed on more than one invoice.
+CREATE TABLE public.supplier_invoice_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id UUID NOT NULL REFERENCES public.supplier_invoices(id) ON DELETE CASCADE,
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (invoice_id, order_id)
+);
+
+CREATE INDEX supplier_invoice_orders_order_id_idx ON public.supplier_invoice_orders (order_id);
+
+ALTER TABLE public.supplier_invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.supplier_invoice_orders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can manage supplier_invoices" ON public.supplier_invoices
+  FOR ALL TO authenticated
+  USING (public.has_shop_role(shop_id, ARRAY['owner', 'manager']::public.app_role[]))
+  WITH CHECK (public.has_shop_role(shop_id, ARRAY['owner', 'manager']::public.app_role[]));
+
+CREATE POLICY "Managers can manage supplier_invoice_orders" ON public.supplier_invoice_orders
+  FOR ALL TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.supplier_invoices i
+    WHERE i.id = invoice_id
+      AND public.has_shop_role(i.shop_id, ARRAY['owner', 'manager']::public.app_role[])
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.supplier_invoices i
+    WHERE i.id = invoice_id
+      AND public.has_shop_role(i.shop_id, ARRAY['owner', 'manager']::public.app_role[])
+  ));
+
+CREATE TRIGGER audit_supplier_invoices
+  AFTER INSERT OR UPDATE OR DELETE ON public.supplier_invoices
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit();
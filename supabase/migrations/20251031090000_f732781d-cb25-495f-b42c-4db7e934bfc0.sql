@@ -0,0 +1,30 @@
+-- Money paid to suppliers. A payment settles one invoice, in full or in
+-- part; payments without an invoice are on account and reduce the
+-- supplier's balance as a whole.
+CREATE TABLE public.supplier_payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  supplier_id UUID REFERENCES public.suppliers(id) ON DELETE SET NULL,
+  shop_id UUID NOT NULL REFERENCES public.shops(id) ON DELETE CASCADE,
+  invoice_id UUID REFERENCES public.supplier_invoices(id) ON DELETE SET NULL,
+  paid_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  method TEXT NOT NULL CHECK (method IN ('eft', 'cash', 'card', 'cheque')),
+  reference TEXT,
+  amount DECIMAL(10, 2) NOT NULL CHECK (amount > 0),
+  notes TEXT,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX supplier_payments_invoice_id_idx ON public.supplier_payments (invoice_id);
+CREATE INDEX supplier_payments_supplier_id_idx ON public.supplier_payments (supplier_id);
+
+ALTER TABLE public.supplier_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can manage supplier_payments" ON public.supplier_payments
+  FOR ALL TO authenticated
+  USING (public.has_shop_role(shop_id, ARRAY['owner', 'manager']::public.app_role[]))
+  WITH CHECK (public.has_shop_role(shop_id, ARRAY['owner', 'manager']::public.app_role[]));
+
+CREATE TRIGGER audit_supplier_payments
+  AFTER INSERT OR UPDATE OR DELETE ON public.supplier_payments
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit();
@@ -0,0 +1,11 @@
+-- Till count for the daily cash up. When the till is counted note by note
+-- the counts are kept (number of each note and coin, keyed by face value)
+-- so the cash up can be checked later. cash_amount stays the cash taken,
+-- i.e. the count less the opening float.
+-- expected_takings is the total from the POS Z-reading and variance is the
+-- daily income less that total: positive is over, negative is short.
+ALTER TABLE public.income_records
+  ADD COLUMN denomination_counts JSONB,
+  ADD COLUMN opening_float DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (opening_float >= 0),
+  ADD COLUMN expected_takings DECIMAL(10, 2) CHECK (expected_takings >= 0),
+  ADD COLUMN variance DECIMAL(10, 2);
@@ -0,0 +1,57 @@
+-- Expense categories are shared by all shops like suppliers. Cashiers pick
+-- them when capturing a cash up, managers maintain the list.
+CREATE TABLE public.expense_categories (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.expense_categories (name)
+VALUES ('Fuel'), ('Wages'), ('Cleaning'), ('Petty Cash');
+
+-- What was spent on the day of a cash up. income_records.expenses stays
+-- the total of these so existing reports keep working.
+CREATE TABLE public.expenses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  income_record_id UUID NOT NULL REFERENCES public.income_records(id) ON DELETE CASCADE,
+  shop_id UUID NOT NULL REFERENCES public.shops(id) ON DELETE CASCADE,
+  category_id UUID REFERENCES public.expense_categories(id) ON DELETE SET NULL,
+  description TEXT NOT NULL,
+  amount DECIMAL(10, 2) NOT NULL CHECK (amount > 0),
+  -- Cash comes out of the till, card is paid from the shop's account
+  paid_from TEXT NOT NULL DEFAULT 'cash' CHECK (paid_from IN ('cash', 'card')),
+  receipt_reference TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX expenses_income_record_id_idx ON public.expenses (income_record_id);
+CREATE INDEX expenses_shop_id_idx ON public.expenses (shop_id);
+
+-- Totals captured before itemising become one uncategorised expense
+INSERT INTO public.expenses (income_record_id, shop_id, description, amount)
+SELECT id, shop_id, 'Expenses captured before itemising', expenses
+FROM public.income_records
+WHERE expenses > 0;
+
+ALTER TABLE public.expense_categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.expenses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view expense_categories" ON public.expense_categories
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.shop_members WHERE user_id = auth.uid()));
+
+CREATE POLICY "Managers can manage expense_categories" ON public.expense_categories
+  FOR ALL TO authenticated
+  USING (public.manages_any_shop())
+  WITH CHECK (public.manages_any_shop());
+
+-- Expenses are captured and corrected with the cash up they belong to
+CREATE POLICY "Members can manage expenses" ON public.expenses
+  FOR ALL TO authenticated
+  USING (public.is_shop_member(shop_id))
+  WITH CHECK (public.is_shop_member(shop_id));
+
+CREATE TRIGGER audit_expenses
+  AFTER INSERT OR UPDATE OR DELETE ON public.expenses
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit();
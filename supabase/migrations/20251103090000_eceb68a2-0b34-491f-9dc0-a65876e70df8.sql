@@ -0,0 +1,42 @@
+-- Cash takings taken to the bank. A deposit slip covers the cash of one or
+-- more cash ups of a shop; amount is what the slip says was deposited.
+CREATE TABLE public.bank_deposits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id UUID NOT NULL REFERENCES public.shops(id) ON DELETE CASCADE,
+  deposited_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  bank_reference TEXT,
+  amount DECIMAL(10, 2) NOT NULL CHECK (amount > 0),
+  notes TEXT,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX bank_deposits_shop_id_idx ON public.bank_deposits (shop_id, deposited_on);
+
+-- Cash ups without a deposit still have their cash on hand
+ALTER TABLE public.income_records
+  ADD COLUMN deposit_id UUID REFERENCES public.bank_deposits(id) ON DELETE SET NULL;
+
+CREATE INDEX income_records_deposit_id_idx ON public.income_records (deposit_id);
+
+-- Days cash may wait to be banked before the dashboard warns about it
+ALTER TABLE public.shops
+  ADD COLUMN deposit_alert_days INTEGER NOT NULL DEFAULT 3 CHECK (deposit_alert_days >= 0);
+
+ALTER TABLE public.bank_deposits ENABLE ROW LEVEL SECURITY;
+
+-- Whoever cashes up usually does the banking too, only managers delete
+CREATE POLICY "Members can view bank_deposits" ON public.bank_deposits
+  FOR SELECT TO authenticated USING (public.is_shop_member(shop_id));
+CREATE POLICY "Members can add bank_deposits" ON public.bank_deposits
+  FOR INSERT TO authenticated WITH CHECK (public.is_shop_member(shop_id));
+CREATE POLICY "Members can update bank_deposits" ON public.bank_deposits
+  FOR UPDATE TO authenticated
+  USING (public.is_shop_member(shop_id)) WITH CHECK (public.is_shop_member(shop_id));
+CREATE POLICY "Managers can delete bank_deposits" ON public.bank_deposits
+  FOR DELETE TO authenticated
+  USING (public.has_shop_role(shop_id, ARRAY['owner', 'manager']::public.app_role[]));
+
+CREATE TRIGGER audit_bank_deposits
+  AFTER INSERT OR UPDATE OR DELETE ON public.bank_deposits
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit();
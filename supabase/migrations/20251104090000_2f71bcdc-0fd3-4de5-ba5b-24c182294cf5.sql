@@ -0,0 +1,32 @@
+-- Lines imported from a shop's bank statements. Credits are positive and
+-- debits negative. external_id identifies the line within the statement
+-- (the OFX FITID, or a hash of the CSV row) so importing an overlapping
+-- statement again skips lines that are already there.
+CREATE TABLE public.bank_statement_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id UUID NOT NULL REFERENCES public.shops(id) ON DELETE CASCADE,
+  posted_on DATE NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  reference TEXT,
+  amount DECIMAL(12, 2) NOT NULL,
+  external_id TEXT NOT NULL,
+  -- What the line was reconciled against: the card machine or direct
+  -- deposit takings of a cash up, a deposit slip, or nothing to match
+  match_kind TEXT CHECK (match_kind IN ('card_machine', 'direct_deposit', 'deposit', 'ignored')),
+  income_record_id UUID REFERENCES public.income_records(id) ON DELETE SET NULL,
+  deposit_id UUID REFERENCES public.bank_deposits(id) ON DELETE SET NULL,
+  matched_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (shop_id, external_id)
+);
+
+CREATE INDEX bank_statement_lines_shop_id_idx ON public.bank_statement_lines (shop_id, posted_on);
+CREATE INDEX bank_statement_lines_income_record_id_idx ON public.bank_statement_lines (income_record_id);
+CREATE INDEX bank_statement_lines_deposit_id_idx ON public.bank_statement_lines (deposit_id);
+
+ALTER TABLE public.bank_statement_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can manage bank_statement_lines" ON public.bank_statement_lines
+  FOR ALL TO authenticated
+  USING (public.has_shop_role(shop_id, ARRAY['owner', 'manager']::public.app_role[]))
+  WITH CHECK (public.has_shop_role(shop_id, ARRAY['owner', 'manager']::public.app_role[]));
@@ -0,0 +1,87 @@
+-- Customers who buy on account at a shop. The account amount of a cash up
+-- is broken down into account sales per customer, and customer payments
+-- bring their balance down again.
+CREATE TABLE public.customers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id UUID NOT NULL REFERENCES public.shops(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  account_number TEXT,
+  phone TEXT,
+  email TEXT,
+  credit_limit DECIMAL(10, 2) CHECK (credit_limit >= 0),
+  notes TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (shop_id, name)
+);
+
+CREATE TRIGGER update_customers_updated_at
+  BEFORE UPDATE ON public.customers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Sold_on follows the date of the cash up. Customers with sales or payments
+-- cannot be deleted, only deactivated, so their ledger stays complete.
+CREATE TABLE public.account_sales (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  income_record_id UUID NOT NULL REFERENCES public.income_records(id) ON DELETE CASCADE,
+  shop_id UUID NOT NULL REFERENCES public.shops(id) ON DELETE CASCADE,
+  customer_id UUID NOT NULL REFERENCES public.customers(id) ON DELETE RESTRICT,
+  sold_on DATE NOT NULL,
+  amount DECIMAL(10, 2) NOT NULL CHECK (amount > 0),
+  -- Number of the account slip the customer signed
+  reference TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX account_sales_income_record_id_idx ON public.account_sales (income_record_id);
+CREATE INDEX account_sales_customer_id_idx ON public.account_sales (customer_id);
+
+CREATE TABLE public.customer_payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id UUID NOT NULL REFERENCES public.customers(id) ON DELETE RESTRICT,
+  shop_id UUID NOT NULL REFERENCES public.shops(id) ON DELETE CASCADE,
+  paid_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  method TEXT NOT NULL CHECK (method IN ('eft', 'cash', 'card', 'cheque')),
+  reference TEXT,
+  amount DECIMAL(10, 2) NOT NULL CHECK (amount > 0),
+  notes TEXT,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX customer_payments_customer_id_idx ON public.customer_payments (customer_id);
+
+ALTER TABLE public.customers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.account_sales ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.customer_payments ENABLE ROW LEVEL SECURITY;
+
+-- Cashiers pick customers on the cash up, managers maintain them
+CREATE POLICY "Members can view customers" ON public.customers
+  FOR SELECT TO authenticated
+  USING (public.is_shop_member(shop_id));
+
+CREATE POLICY "Managers can manage customers" ON public.customers
+  FOR ALL TO authenticated
+  USING (public.has_shop_role(shop_id, ARRAY['owner', 'manager']::public.app_role[]))
+  WITH CHECK (public.has_shop_role(shop_id, ARRAY['owner', 'manager']::public.app_role[]));
+
+-- Account sales are captured and corrected with the cash up they belong to
+CREATE POLICY "Members can manage account_sales" ON public.account_sales
+  FOR ALL TO authenticated
+  USING (public.is_shop_member(shop_id))
+  WITH CHECK (public.is_shop_member(shop_id));
+
+CREATE POLICY "Managers can manage customer_payments" ON public.customer_payments
+  FOR ALL TO authenticated
+  USING (public.has_shop_role(shop_id, ARRAY['owner', 'manager']::public.app_role[]))
+  WITH CHECK (public.has_shop_role(shop_id, ARRAY['owner', 'manager']::public.app_role[]));
+
+CREATE TRIGGER audit_account_sales
+  AFTER INSERT OR UPDATE OR DELETE ON public.account_sales
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit();
+
+CREATE TRIGGER audit_customer_payments
+  AFTER INSERT OR UPDATE OR DELETE ON public.customer_payments
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit();
@@ -0,0 +1,27 @@
+-- VAT. Amounts stay VAT-inclusive as before; each row records the rate
+-- that applies so the VAT in it can be worked out for the VAT201 return.
+-- Zero-rated goods and non-vendors use a rate of 0.
+
+-- The shop's standard rate is the default for new supplies, expenses and
+-- cash ups. Category A returns cover periods ending in even months,
+-- category B periods ending in odd months.
+ALTER TABLE public.shops
+  ADD COLUMN vat_rate DECIMAL(5, 2) NOT NULL DEFAULT 15 CHECK (vat_rate >= 0),
+  ADD COLUMN vat_category TEXT NOT NULL DEFAULT 'A' CHECK (vat_category IN ('A', 'B'));
+
+ALTER TABLE public.supplies
+  ADD COLUMN vat_rate DECIMAL(5, 2) NOT NULL DEFAULT 15 CHECK (vat_rate >= 0);
+
+-- Copied from the supply when the line is added
+ALTER TABLE public.order_lines
+  ADD COLUMN vat_rate DECIMAL(5, 2) NOT NULL DEFAULT 15 CHECK (vat_rate >= 0);
+
+-- Expenses without a valid tax invoice cannot claim VAT back, so the
+-- expenses captured so far claim none
+ALTER TABLE public.expenses
+  ADD COLUMN vat_rate DECIMAL(5, 2) NOT NULL DEFAULT 0 CHECK (vat_rate >= 0);
+
+-- Takings of zero-rated goods from the Z-reading carry no output VAT
+ALTER TABLE public.income_records
+  ADD COLUMN vat_rate DECIMAL(5, 2) NOT NULL DEFAULT 15 CHECK (vat_rate >= 0),
+  ADD COLUMN zero_rated_sales DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (zero_rated_sales >= 0);
@@ -0,0 +1,60 @@
+-- PDFs rendered by the render-document edge function. The file lives in the
+-- private documents bucket under <shop id or "all">/<week>/, and this row
+-- files it against the shop and week it belongs to. Documents covering
+-- every shop, like the combined weekly delivery lists, have no shop.
+CREATE TABLE public.documents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id UUID REFERENCES public.shops(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('weekly_delivery_list', 'supplies_list', 'order_form', 'business_report')),
+  title TEXT NOT NULL,
+  -- Monday of the week the document covers, when it covers one
+  week_start_date DATE,
+  storage_path TEXT NOT NULL UNIQUE,
+  page_count INTEGER NOT NULL DEFAULT 1,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX documents_shop_id_idx ON public.documents (shop_id, week_start_date);
+
+ALTER TABLE public.documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can manage documents" ON public.documents
+  FOR ALL TO authenticated
+  USING (
+    CASE WHEN shop_id IS NULL THEN public.manages_any_shop()
+    ELSE public.has_shop_role(shop_id, ARRAY['owner', 'manager']::public.app_role[]) END
+  )
+  WITH CHECK (
+    CASE WHEN shop_id IS NULL THEN public.manages_any_shop()
+    ELSE public.has_shop_role(shop_id, ARRAY['owner', 'manager']::public.app_role[]) END
+  );
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('documents', 'documents', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- The first folder of a stored PDF is its shop, which decides who may
+-- read, upload or remove it
+CREATE OR REPLACE FUNCTION public.can_manage_document_folder(_folder TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE WHEN _folder = 'all' THEN public.manages_any_shop()
+  ELSE public.has_shop_role(_folder::uuid, ARRAY['owner', 'manager']::public.app_role[]) END
+$$;
+
+CREATE POLICY "Managers can read document files" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (bucket_id = 'documents' AND public.can_manage_document_folder((storage.foldername(name))[1]));
+
+CREATE POLICY "Managers can upload document files" ON storage.objects
+  FOR INSERT TO authenticated
+  WITH CHECK (bucket_id = 'documents' AND public.can_manage_document_folder((storage.foldername(name))[1]));
+
+CREATE POLICY "Managers can remove document files" ON storage.objects
+  FOR DELETE TO authenticated
+  USING (bucket_id = 'documents' AND public.can_manage_document_folder((storage.foldername(name))[1]));
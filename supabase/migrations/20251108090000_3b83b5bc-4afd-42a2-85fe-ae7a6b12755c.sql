@@ -0,0 +1,27 @@
+-- Letterhead printed on a shop's documents: its VAT registration number, a
+-- line of footer text on every page, and a logo kept in the shop-logos
+-- bucket under the shop's id
+ALTER TABLE public.shops
+  ADD COLUMN vat_number TEXT,
+  ADD COLUMN document_footer TEXT,
+  ADD COLUMN logo_path TEXT;
+
+-- Logos are not secret and are shown in settings straight from their
+-- public URL. Only the owners of a shop can change its logo.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('shop-logos', 'shop-logos', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Owners can upload shop logos" ON storage.objects
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    bucket_id = 'shop-logos'
+    AND public.has_shop_role(((storage.foldername(name))[1])::uuid, ARRAY['owner']::public.app_role[])
+  );
+
+CREATE POLICY "Owners can remove shop logos" ON storage.objects
+  FOR DELETE TO authenticated
+  USING (
+    bucket_id = 'shop-logos'
+    AND public.has_shop_role(((storage.foldername(name))[1])::uuid, ARRAY['owner']::public.app_role[])
+  );
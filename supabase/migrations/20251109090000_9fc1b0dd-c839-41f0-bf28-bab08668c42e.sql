@@ -0,0 +1,73 @@
+-- CSV imports of supplies, historic orders and cash ups. Every imported row
+-- carries the id of its import, so a whole import can be rolled back.
+CREATE TABLE public.data_imports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  target TEXT NOT NULL CHECK (target IN ('supplies', 'orders', 'income_records')),
+  file_name TEXT NOT NULL,
+  row_count INTEGER NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  rolled_back_at TIMESTAMP WITH TIME ZONE
+);
+
+ALTER TABLE public.data_imports ENABLE ROW LEVEL SECURITY;
+
+-- An import can span shops, so it belongs to whoever manages any of them.
+-- The rows themselves are still checked against each shop's policies.
+CREATE POLICY "Managers can manage data_imports" ON public.data_imports
+  FOR ALL TO authenticated
+  USING (public.manages_any_shop())
+  WITH CHECK (public.manages_any_shop());
+
+ALTER TABLE public.supplies ADD COLUMN import_id UUID REFERENCES public.data_imports(id) ON DELETE SET NULL;
+ALTER TABLE public.orders ADD COLUMN import_id UUID REFERENCES public.data_imports(id) ON DELETE SET NULL;
+ALTER TABLE public.income_records ADD COLUMN import_id UUID REFERENCES public.data_imports(id) ON DELETE SET NULL;
+
+CREATE INDEX supplies_import_id_idx ON public.supplies (import_id) WHERE import_id IS NOT NULL;
+CREATE INDEX orders_import_id_idx ON public.orders (import_id) WHERE import_id IS NOT NULL;
+CREATE INDEX income_records_import_id_idx ON public.income_records (import_id) WHERE import_id IS NOT NULL;
+
+-- Deletes every row an import added in one transaction, so a rollback never
+-- stops halfway. It runs as the caller: rows in shops they cannot manage
+-- make the whole rollback fail instead of being left behind. Returns the
+-- number of rows removed.
+CREATE OR REPLACE FUNCTION public.rollback_import(_import_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _target TEXT;
+  _expected INTEGER;
+  _removed INTEGER;
+BEGIN
+  SELECT target INTO _target
+  FROM public.data_imports
+  WHERE id = _import_id AND rolled_back_at IS NULL
+  FOR UPDATE;
+
+  IF _target IS NULL THEN
+    RAISE EXCEPTION 'Import not found or already rolled back';
+  END IF;
+
+  IF _target = 'supplies' THEN
+    SELECT COUNT(*) INTO _expected FROM public.supplies WHERE import_id = _import_id;
+    DELETE FROM public.supplies WHERE import_id = _import_id;
+  ELSIF _target = 'orders' THEN
+    SELECT COUNT(*) INTO _expected FROM public.orders WHERE import_id = _import_id;
+    DELETE FROM public.orders WHERE import_id = _import_id;
+  ELSE
+    SELECT COUNT(*) INTO _expected FROM public.income_records WHERE import_id = _import_id;
+    DELETE FROM public.income_records WHERE import_id = _import_id;
+  END IF;
+  GET DIAGNOSTICS _removed = ROW_COUNT;
+
+  IF _removed < _expected THEN
+    RAISE EXCEPTION 'You cannot remove every row of this import';
+  END IF;
+
+  UPDATE public.data_imports SET rolled_back_at = now() WHERE id = _import_id;
+
+  RETURN _removed;
+END;
+$$;
@@ -0,0 +1,8 @@
+-- Discrepancy reports, statements, debtors lists and VAT worksheets are
+-- rendered and archived like every other printed document
+ALTER TABLE public.documents DROP CONSTRAINT documents_kind_check;
+
+ALTER TABLE public.documents ADD CONSTRAINT documents_kind_check CHECK (kind IN (
+  'weekly_delivery_list', 'supplies_list', 'order_form', 'business_report',
+  'discrepancy_report', 'supplier_statement', 'customer_statement', 'debtors_report', 'vat_report'
+));
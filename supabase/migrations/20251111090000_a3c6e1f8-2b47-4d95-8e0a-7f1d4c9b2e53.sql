@@ -0,0 +1,61 @@
+-- Every row an import added, including rows in shops the caller cannot
+-- see. rollback_import runs as the caller, so it has to count through this
+-- to notice rows its DELETE could not reach.
+CREATE OR REPLACE FUNCTION public.import_row_total(_import_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT (
+    (SELECT COUNT(*) FROM public.supplies WHERE import_id = _import_id) +
+    (SELECT COUNT(*) FROM public.orders WHERE import_id = _import_id) +
+    (SELECT COUNT(*) FROM public.income_records WHERE import_id = _import_id)
+  )::INTEGER
+$$;
+
+-- Deletes every row an import added in one transaction, so a rollback never
+-- stops halfway. It runs as the caller: rows in shops they cannot manage
+-- make the whole rollback fail instead of being left behind. Orders placed
+-- for a rolled back supply stay, unlinked from it. Returns the number of
+-- rows removed.
+CREATE OR REPLACE FUNCTION public.rollback_import(_import_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _target TEXT;
+  _expected INTEGER;
+  _removed INTEGER;
+BEGIN
+  SELECT target INTO _target
+  FROM public.data_imports
+  WHERE id = _import_id AND rolled_back_at IS NULL
+  FOR UPDATE;
+
+  IF _target IS NULL THEN
+    RAISE EXCEPTION 'Import not found or already rolled back';
+  END IF;
+
+  _expected := public.import_row_total(_import_id);
+
+  IF _target = 'supplies' THEN
+    DELETE FROM public.supplies WHERE import_id = _import_id;
+  ELSIF _target = 'orders' THEN
+    DELETE FROM public.orders WHERE import_id = _import_id;
+  ELSE
+    DELETE FROM public.income_records WHERE import_id = _import_id;
+  END IF;
+  GET DIAGNOSTICS _removed = ROW_COUNT;
+
+  IF _removed < _expected THEN
+    RAISE EXCEPTION 'You cannot remove every row of this import';
+  END IF;
+
+  UPDATE public.data_imports SET rolled_back_at = now() WHERE id = _import_id;
+
+  RETURN _removed;
+END;
+$$;